@@ -0,0 +1,315 @@
+import { useEffect, useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { ArrowDownCircle, ArrowUpCircle, Lock, Wallet } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient, parseApiError } from '@/lib/queryClient';
+import { CASH_MOVEMENT_KIND_LABELS, PAYMENT_METHOD_LABELS, type CashMovementKind, type CashSessionReport, type PaymentMethod } from '@shared/schema';
+
+const CURRENT_SESSION_KEY = ['/api/cash-sessions/current'];
+
+const formatPrice = (value: number | string) =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(Number(value));
+
+const formatTime = (value: string | Date | null) =>
+  value ? new Date(value).toLocaleString('pt-BR', { day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit' }) : '-';
+
+function ReportLine({ label, value, className }: { label: string; value: string; className?: string }) {
+  return (
+    <div className={`flex justify-between text-sm ${className ?? ''}`}>
+      <span className="text-muted-foreground">{label}</span>
+      <span className="font-medium">{value}</span>
+    </div>
+  );
+}
+
+// Closing report of a till; while it is open the figures are the running ones
+export function CashSessionReportView({ report }: { report: CashSessionReport }) {
+  const { session, totals } = report;
+  const variance = totals.variance;
+
+  return (
+    <div className="space-y-4" data-testid={`cash-session-report-${session.id}`}>
+      <div className="text-xs text-muted-foreground">
+        {report.operatorName ?? 'Operador removido'} · aberto {formatTime(session.openedAt)}
+        {session.closedAt && ` · fechado ${formatTime(session.closedAt)}`}
+      </div>
+
+      <div className="space-y-1">
+        <ReportLine label="Fundo de troco" value={formatPrice(totals.openingFloat)} />
+        <ReportLine label="Dinheiro recebido" value={formatPrice(totals.cashReceived)} />
+        <ReportLine label="Troco devolvido" value={`- ${formatPrice(totals.changeGiven)}`} />
+        {totals.cashRefunds > 0 && <ReportLine label="Estornos em dinheiro" value={`- ${formatPrice(totals.cashRefunds)}`} />}
+        <ReportLine label="Suprimentos" value={formatPrice(totals.topUps)} />
+        <ReportLine label="Sangrias" value={`- ${formatPrice(totals.withdrawals)}`} />
+        <ReportLine label="Esperado em caixa" value={formatPrice(totals.expectedCash)} className="border-t pt-1" />
+        {totals.countedCash !== null && <ReportLine label="Contado" value={formatPrice(totals.countedCash)} />}
+        {variance !== null && (
+          <ReportLine
+            label={variance === 0 ? 'Diferenca' : variance > 0 ? 'Sobra' : 'Falta'}
+            value={formatPrice(Math.abs(variance))}
+            className={variance === 0 ? 'text-green-500' : 'text-destructive'}
+          />
+        )}
+      </div>
+
+      <div className="space-y-1">
+        <p className="text-sm font-semibold">Vendas ({totals.ordersCount}) · {formatPrice(totals.salesTotal)}</p>
+        {Object.entries(totals.tenders).filter(([, amount]) => amount !== 0).map(([method, amount]) => (
+          <ReportLine key={method} label={PAYMENT_METHOD_LABELS[method as PaymentMethod] || method} value={formatPrice(amount)} />
+        ))}
+      </div>
+
+      {report.movements.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-sm font-semibold">Movimentacoes</p>
+          {report.movements.map(movement => (
+            <div key={movement.id} className="flex justify-between gap-2 text-sm">
+              <span className="text-muted-foreground truncate">
+                {formatTime(movement.createdAt)} · {CASH_MOVEMENT_KIND_LABELS[movement.kind]}: {movement.reason}
+              </span>
+              <span className="font-medium whitespace-nowrap">
+                {movement.kind === 'withdrawal' ? '- ' : ''}{formatPrice(movement.amount)}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {session.closingNotes && <p className="text-sm text-muted-foreground">Obs.: {session.closingNotes}</p>}
+    </div>
+  );
+}
+
+interface OpenCashSessionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// The PDV asks for this before the first sale; counter orders need an open till
+export function OpenCashSessionDialog({ open, onOpenChange }: OpenCashSessionDialogProps) {
+  const { toast } = useToast();
+  const [openingFloat, setOpeningFloat] = useState('');
+
+  const openMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', '/api/cash-sessions', { openingFloat: openingFloat || 0 });
+      return res.json() as Promise<CashSessionReport>;
+    },
+    onSuccess: (report) => {
+      queryClient.setQueryData(CURRENT_SESSION_KEY, report);
+      setOpeningFloat('');
+      onOpenChange(false);
+      toast({ title: 'Caixa aberto' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Erro ao abrir o caixa', description: parseApiError(error)?.body?.error, variant: 'destructive' });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Wallet className="h-5 w-5 text-primary" />
+            Abrir caixa
+          </DialogTitle>
+          <DialogDescription>Conte o dinheiro da gaveta antes da primeira venda.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor="openingFloat">Fundo de troco</Label>
+          <Input
+            id="openingFloat"
+            type="number"
+            step="0.01"
+            min="0"
+            placeholder="0,00"
+            value={openingFloat}
+            onChange={(e) => setOpeningFloat(e.target.value)}
+            data-testid="input-opening-float"
+          />
+        </div>
+        <Button
+          className="w-full"
+          onClick={() => openMutation.mutate()}
+          disabled={openMutation.isPending}
+          data-testid="button-open-cash-session"
+        >
+          {openMutation.isPending ? 'Abrindo...' : 'Abrir caixa'}
+        </Button>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface CashRegisterDialogProps {
+  report: CashSessionReport | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Sangria, suprimento and the closing count of the operator's open till
+export function CashRegisterDialog({ report, open, onOpenChange }: CashRegisterDialogProps) {
+  const { toast } = useToast();
+  const [movementKind, setMovementKind] = useState<CashMovementKind | null>(null);
+  const [amount, setAmount] = useState('');
+  const [reason, setReason] = useState('');
+  const [isClosing, setIsClosing] = useState(false);
+  const [countedCash, setCountedCash] = useState('');
+  const [notes, setNotes] = useState('');
+  // Report of the till just closed, kept on screen until the dialog is dismissed
+  const [closedReport, setClosedReport] = useState<CashSessionReport | null>(null);
+
+  useEffect(() => {
+    if (open) return;
+    setMovementKind(null);
+    setAmount('');
+    setReason('');
+    setIsClosing(false);
+    setCountedCash('');
+    setNotes('');
+    setClosedReport(null);
+  }, [open]);
+
+  const movementMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', `/api/cash-sessions/${report!.session.id}/movements`, { kind: movementKind, amount, reason });
+      return res.json() as Promise<CashSessionReport>;
+    },
+    onSuccess: (updated) => {
+      queryClient.setQueryData(CURRENT_SESSION_KEY, updated);
+      toast({ title: `${CASH_MOVEMENT_KIND_LABELS[movementKind!]} registrada` });
+      setMovementKind(null);
+      setAmount('');
+      setReason('');
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Erro na movimentacao', description: parseApiError(error)?.body?.error, variant: 'destructive' });
+    },
+  });
+
+  const closeMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', `/api/cash-sessions/${report!.session.id}/close`, { countedCash, notes });
+      return res.json() as Promise<CashSessionReport>;
+    },
+    onSuccess: (closed) => {
+      setClosedReport(closed);
+      queryClient.invalidateQueries({ queryKey: ['/api/cash-sessions'] });
+      toast({ title: 'Caixa fechado' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Erro ao fechar o caixa', description: parseApiError(error)?.body?.error, variant: 'destructive' });
+    },
+  });
+
+  const shown = closedReport ?? report;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Wallet className="h-5 w-5 text-primary" />
+            {closedReport ? 'Fechamento do caixa' : 'Caixa'}
+          </DialogTitle>
+        </DialogHeader>
+
+        {shown && <CashSessionReportView report={shown} />}
+
+        {closedReport ? (
+          <Button className="w-full" onClick={() => onOpenChange(false)} data-testid="button-close-cash-report">
+            Concluir
+          </Button>
+        ) : report && isClosing ? (
+          <div className="space-y-3 border-t pt-3">
+            <div className="space-y-2">
+              <Label htmlFor="countedCash">Dinheiro contado na gaveta</Label>
+              <Input
+                id="countedCash"
+                type="number"
+                step="0.01"
+                min="0"
+                placeholder="0,00"
+                value={countedCash}
+                onChange={(e) => setCountedCash(e.target.value)}
+                data-testid="input-counted-cash"
+              />
+            </div>
+            <Textarea
+              placeholder="Observacoes (opcional)"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              data-testid="input-closing-notes"
+            />
+            <div className="flex gap-2">
+              <Button variant="outline" className="flex-1" onClick={() => setIsClosing(false)}>
+                Voltar
+              </Button>
+              <Button
+                className="flex-1"
+                onClick={() => closeMutation.mutate()}
+                disabled={!countedCash || closeMutation.isPending}
+                data-testid="button-confirm-close-cash"
+              >
+                {closeMutation.isPending ? 'Fechando...' : 'Fechar caixa'}
+              </Button>
+            </div>
+          </div>
+        ) : report && movementKind ? (
+          <div className="space-y-3 border-t pt-3">
+            <p className="text-sm font-semibold">{CASH_MOVEMENT_KIND_LABELS[movementKind]}</p>
+            <Input
+              type="number"
+              step="0.01"
+              min="0"
+              placeholder="Valor"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              data-testid="input-movement-amount"
+            />
+            <Input
+              placeholder={movementKind === 'withdrawal' ? 'Motivo (ex.: deposito no cofre)' : 'Motivo (ex.: reforco de troco)'}
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              data-testid="input-movement-reason"
+            />
+            <div className="flex gap-2">
+              <Button variant="outline" className="flex-1" onClick={() => setMovementKind(null)}>
+                Voltar
+              </Button>
+              <Button
+                className="flex-1"
+                onClick={() => movementMutation.mutate()}
+                disabled={!amount || !reason.trim() || movementMutation.isPending}
+                data-testid="button-confirm-movement"
+              >
+                Registrar
+              </Button>
+            </div>
+          </div>
+        ) : report && (
+          <div className="grid grid-cols-3 gap-2 border-t pt-3">
+            <Button variant="outline" onClick={() => setMovementKind('withdrawal')} data-testid="button-cash-withdrawal">
+              <ArrowUpCircle className="h-4 w-4 mr-1" />
+              Sangria
+            </Button>
+            <Button variant="outline" onClick={() => setMovementKind('top_up')} data-testid="button-cash-top-up">
+              <ArrowDownCircle className="h-4 w-4 mr-1" />
+              Suprimento
+            </Button>
+            <Button variant="destructive" onClick={() => setIsClosing(true)} data-testid="button-close-cash">
+              <Lock className="h-4 w-4 mr-1" />
+              Fechar
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
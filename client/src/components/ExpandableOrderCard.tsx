@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { ChevronDown, ChevronUp, Clock, Package, Truck, MapPin, Phone, User as UserIcon, MessageCircle, Bell, Edit2, CreditCard, Banknote, QrCode, Wallet, FileText, Store } from 'lucide-react';
+import { ChevronDown, ChevronUp, Clock, Package, Truck, MapPin, Phone, User as UserIcon, MessageCircle, Bell, Edit2, CreditCard, Banknote, QrCode, Wallet, FileText, Store, CalendarClock, ShieldCheck, Split } from 'lucide-react';
 import { Card, CardContent, CardHeader } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
@@ -9,7 +9,9 @@ import { Separator } from '@/components/ui/separator';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 import type { Order, OrderItem, Address, Motoboy } from '@shared/schema';
-import { ORDER_STATUS_LABELS, PAYMENT_METHOD_LABELS, ORDER_TYPE_LABELS, type OrderStatus, type PaymentMethod, type OrderType } from '@shared/schema';
+import { formatModifierLines } from '@shared/modifiers';
+import { formatScheduledFor } from '@shared/scheduling';
+import { ORDER_STATUS_LABELS, PAYMENT_METHOD_LABELS, PAYMENT_STATUS_LABELS, ORDER_TYPE_LABELS, type OrderStatus, type PaymentMethod, type PaymentStatus, type OrderType } from '@shared/schema';
 
 function openWhatsApp(phone: string, message?: string) {
   const cleanPhone = phone.replace(/\D/g, '');
@@ -37,6 +39,7 @@ const PAYMENT_ICONS: Record<PaymentMethod, typeof CreditCard> = {
   card_pos: CreditCard,
   card_credit: CreditCard,
   card_debit: Wallet,
+  split: Split,
 };
 
 interface OrderItemWithNotes extends OrderItem {
@@ -46,6 +49,7 @@ interface OrderItemWithNotes extends OrderItem {
     orderItemId: string;
     ingredientProductId: string;
     quantity: number;
+    source?: string;
     ingredientProduct?: { id: string; name: string };
   }>;
 }
@@ -84,6 +88,13 @@ const STATUS_COLORS: Record<OrderStatus, string> = {
   cancelled: 'bg-red-500/20 text-red-300 border-red-500/30',
 };
 
+const PAYMENT_STATUS_COLORS: Record<PaymentStatus, string> = {
+  pending: 'bg-amber-500/20 text-amber-300 border-amber-500/30',
+  paid: 'bg-emerald-500/20 text-emerald-300 border-emerald-500/30',
+  refunded: 'bg-slate-500/20 text-slate-300 border-slate-500/30',
+  failed: 'bg-red-500/20 text-red-300 border-red-500/30',
+};
+
 const ORDER_PROGRESS_STEPS: OrderStatus[] = ['pending', 'accepted', 'preparing', 'ready', 'dispatched', 'arrived', 'delivered'];
 
 function getProgressPercentage(status: OrderStatus): number {
@@ -221,6 +232,9 @@ export function ExpandableOrderCard({
                     <Badge className={`${colorClass} border text-xs`} data-testid={`badge-status-${order.id}`}>
                       {ORDER_STATUS_LABELS[status]}
                     </Badge>
+                    <Badge className={`${PAYMENT_STATUS_COLORS[order.paymentStatus]} border text-xs`} data-testid={`badge-payment-status-${order.id}`}>
+                      {PAYMENT_STATUS_LABELS[order.paymentStatus]}
+                    </Badge>
                   </div>
                   <div className="flex items-center gap-2 flex-wrap">
                     <span className="font-semibold text-foreground" data-testid={`customer-name-${order.id}`}>
@@ -235,6 +249,25 @@ export function ExpandableOrderCard({
                       <PaymentIcon className="h-3 w-3 mr-1" />
                       {PAYMENT_METHOD_LABELS[paymentMethod]}
                     </Badge>
+                    {order.scheduledFor && (
+                      <Badge className="text-xs bg-indigo-500/20 text-indigo-300 border border-indigo-500/30" data-testid={`badge-scheduled-${order.id}`}>
+                        <CalendarClock className="h-3 w-3 mr-1" />
+                        Agendado {formatScheduledFor(order.scheduledFor)}
+                      </Badge>
+                    )}
+                    {order.idCheckRequired && (
+                      <Badge
+                        className={order.idCheckedAt
+                          ? "text-xs bg-emerald-500/20 text-emerald-300 border border-emerald-500/30"
+                          : "text-xs bg-rose-500/20 text-rose-300 border border-rose-500/30"}
+                        data-testid={`badge-id-check-${order.id}`}
+                      >
+                        <ShieldCheck className="h-3 w-3 mr-1" />
+                        {order.idCheckRefusalReason
+                          ? `Entrega recusada: ${order.idCheckRefusalReason}`
+                          : order.idCheckedAt ? '18+ conferido' : 'Conferir documento 18+'}
+                      </Badge>
+                    )}
                   </div>
                   <div className="flex items-center gap-1 text-xs text-muted-foreground">
                     <Clock className="h-3 w-3" />
@@ -355,6 +388,17 @@ export function ExpandableOrderCard({
                         <span className="text-foreground font-medium" data-testid={`item-name-${order.id}-${idx}`}>
                           {item.quantity}x {item.productName}
                         </span>
+                        {item.modifiers?.length > 0 && (
+                          // The kitchen reads these while preparing, so they stand out there
+                          <ul
+                            className={variant === 'kitchen' ? 'mt-1 text-sm font-medium text-amber-300' : 'mt-0.5 text-xs text-muted-foreground'}
+                            data-testid={`item-modifiers-${order.id}-${idx}`}
+                          >
+                            {formatModifierLines(item.modifiers, variant !== 'kitchen').map(line => (
+                              <li key={line}>- {line}</li>
+                            ))}
+                          </ul>
+                        )}
                         <div className="flex items-center gap-2 text-xs text-muted-foreground mt-0.5">
                           <span data-testid={`item-unit-price-${order.id}-${idx}`}>
                             {formatCurrency(item.unitPrice)} un.
@@ -376,7 +420,8 @@ export function ExpandableOrderCard({
                         <div className="mt-1">
                           {ingredientsMap[item.id].map((ing) => (
                             <div key={ing.id}>
-                              • {ing.ingredientProduct?.name || 'Produto desconhecido'}
+                              • {ing.quantity}x {ing.ingredientProduct?.name || 'Produto desconhecido'}
+                              {ing.source === 'recipe' && <span className="opacity-70"> (receita)</span>}
                             </div>
                           ))}
                         </div>
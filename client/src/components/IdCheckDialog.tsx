@@ -0,0 +1,131 @@
+import { useEffect, useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { ShieldCheck, ShieldX } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/lib/auth';
+import { apiRequest, parseApiError } from '@/lib/queryClient';
+import { canRefuseHandOver, type Order } from '@shared/schema';
+
+const REFUSAL_REASONS = ['Sem documento com foto', 'Menor de 18 anos', 'Documento nao confere com o cliente'];
+
+interface IdCheckDialogProps {
+  // Open while set; only orders with idCheckRequired and no idCheckedAt need it
+  order: Pick<Order, 'id' | 'customerName' | 'orderType'> | null;
+  isConfirming: boolean;
+  // Hands the order over: the caller sends the delivered status with idChecked
+  onConfirm: () => void;
+  onRefused: () => void;
+  onClose: () => void;
+}
+
+export function needsIdCheck(order: Pick<Order, 'idCheckRequired' | 'idCheckedAt'>): boolean {
+  return order.idCheckRequired && !order.idCheckedAt;
+}
+
+export function IdCheckDialog({ order, isConfirming, onConfirm, onRefused, onClose }: IdCheckDialogProps) {
+  const { toast } = useToast();
+  const { user, role } = useAuth();
+  // Refusing cancels the order (and refunds it): the one handing it over may, anyone else needs the cancel permission
+  const canRefuse = !!order && canRefuseHandOver(user ? { role: role ?? '', permissions: user.permissions } : null, order);
+  const [isRefusing, setIsRefusing] = useState(false);
+  const [reason, setReason] = useState('');
+
+  useEffect(() => {
+    setIsRefusing(false);
+    setReason('');
+  }, [order?.id]);
+
+  const refuseMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest('POST', `/api/orders/${order!.id}/id-check-refusal`, { reason });
+    },
+    onSuccess: () => {
+      toast({ title: 'Entrega recusada', description: 'O pedido foi cancelado, o motivo registrado e o valor pago estornado.' });
+      onRefused();
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Erro ao registrar recusa', description: parseApiError(error)?.body?.error, variant: 'destructive' });
+    },
+  });
+
+  return (
+    <Dialog open={!!order} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5 text-primary" />
+            Conferir documento (18+)
+          </DialogTitle>
+          <DialogDescription>
+            Pedido com bebida alcoolica{order?.customerName ? ` para ${order.customerName}` : ''}. Peca um documento com foto e confira a data de nascimento antes de entregar.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isRefusing ? (
+          <div className="space-y-3">
+            <div className="flex flex-wrap gap-2">
+              {REFUSAL_REASONS.map(option => (
+                <Badge
+                  key={option}
+                  variant={reason === option ? 'default' : 'outline'}
+                  className="cursor-pointer"
+                  onClick={() => setReason(option)}
+                  data-testid={`badge-refusal-reason-${option}`}
+                >
+                  {option}
+                </Badge>
+              ))}
+            </div>
+            <Textarea
+              placeholder="Motivo da recusa"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              rows={2}
+              data-testid="input-refusal-reason"
+            />
+          </div>
+        ) : null}
+
+        <DialogFooter className="flex-col gap-2 sm:flex-col">
+          {isRefusing ? (
+            <>
+              <Button
+                variant="destructive"
+                disabled={!reason.trim() || refuseMutation.isPending}
+                onClick={() => refuseMutation.mutate()}
+                data-testid="button-confirm-refusal"
+              >
+                <ShieldX className="h-4 w-4 mr-2" />
+                Confirmar recusa e cancelar pedido
+              </Button>
+              <Button variant="ghost" onClick={() => setIsRefusing(false)}>
+                Voltar
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button disabled={isConfirming} onClick={onConfirm} data-testid="button-id-checked">
+                <ShieldCheck className="h-4 w-4 mr-2" />
+                Documento conferido, entregar
+              </Button>
+              {canRefuse ? (
+                <Button variant="outline" onClick={() => setIsRefusing(true)} data-testid="button-refuse-handover">
+                  <ShieldX className="h-4 w-4 mr-2" />
+                  Recusar entrega
+                </Button>
+              ) : (
+                <p className="text-xs text-muted-foreground text-center" data-testid="text-refusal-needs-permission">
+                  Sem documento? Nao entregue e chame um gerente para cancelar o pedido.
+                </p>
+              )}
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,168 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { ListX, Minus, Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/lib/auth';
+import { apiRequest, queryClient, parseApiError } from '@/lib/queryClient';
+import { hasPermission, type Order, type OrderItem, type Payment } from '@shared/schema';
+
+const REMOVAL_REASONS = ['Produto em falta', 'Cliente desistiu', 'Erro no pedido'];
+
+const formatPrice = (value: number | string) =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(Number(value));
+
+interface ItemCancellationActionProps {
+  order: Pick<Order, 'id' | 'status'>;
+}
+
+// Takes some items off a live order; the server recomputes the total and refunds any overpayment
+export function ItemCancellationAction({ order }: ItemCancellationActionProps) {
+  const { toast } = useToast();
+  const { user, role } = useAuth();
+  const canCancel = hasPermission(user ? { role: role ?? '', permissions: user.permissions } : null, 'orders:cancel');
+  const [open, setOpen] = useState(false);
+  const [removing, setRemoving] = useState<Record<string, number>>({});
+  const [reason, setReason] = useState('');
+
+  useEffect(() => {
+    if (!open) {
+      setRemoving({});
+      setReason('');
+    }
+  }, [open]);
+
+  const { data: items = [], isLoading } = useQuery<OrderItem[]>({
+    queryKey: ['/api/order-items', order.id],
+    queryFn: async () => {
+      const res = await fetch(`/api/order-items?orderIds=${encodeURIComponent(order.id)}`);
+      if (!res.ok) return [];
+      return res.json();
+    },
+    enabled: open,
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async () => {
+      const lines = Object.entries(removing)
+        .filter(([, quantity]) => quantity > 0)
+        .map(([orderItemId, quantity]) => ({ orderItemId, quantity }));
+      const res = await apiRequest('POST', `/api/orders/${order.id}/item-cancellations`, { items: lines, reason });
+      return res.json() as Promise<{ order: Order; refund: Payment | null }>;
+    },
+    onSuccess: ({ order: updated, refund }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/orders'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/order-items'] });
+      toast({
+        title: 'Itens removidos',
+        description: refund
+          ? `Novo total ${formatPrice(updated.total)}. Estorno de ${formatPrice(refund.amount)} registrado.`
+          : `Novo total ${formatPrice(updated.total)}.`,
+      });
+      setOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Erro ao remover itens', description: parseApiError(error)?.body?.error, variant: 'destructive' });
+    },
+  });
+
+  if (!canCancel || order.status === 'cancelled' || order.status === 'delivered') return null;
+
+  const setQuantity = (item: OrderItem, quantity: number) => {
+    setRemoving(prev => ({ ...prev, [item.id]: Math.max(0, Math.min(item.quantity, quantity)) }));
+  };
+  // Same proportion the server uses: modifiers priced into the line go with each unit
+  const removedValue = items.reduce((sum, item) => {
+    const quantity = removing[item.id] ?? 0;
+    return sum + Number(item.totalPrice) * quantity / item.quantity;
+  }, 0);
+  const hasSelection = Object.values(removing).some(quantity => quantity > 0);
+
+  return (
+    <>
+      <Button size="sm" variant="ghost" onClick={() => setOpen(true)} data-testid={`button-remove-items-${order.id}`}>
+        <ListX className="w-4 h-4 mr-1" />
+        Remover itens
+      </Button>
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <ListX className="h-5 w-5 text-primary" />
+              Remover itens do pedido
+            </DialogTitle>
+            <DialogDescription>
+              O total e recalculado, o estoque dos itens volta e o valor pago a mais e estornado.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2 max-h-64 overflow-y-auto">
+            {isLoading && <p className="text-sm text-muted-foreground">Carregando itens...</p>}
+            {items.map(item => {
+              const quantity = removing[item.id] ?? 0;
+              return (
+                <div key={item.id} className="flex items-center justify-between gap-2" data-testid={`row-remove-item-${item.id}`}>
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium truncate">{item.quantity}x {item.productName}</p>
+                    <p className="text-xs text-muted-foreground">{formatPrice(item.totalPrice)}</p>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <Button size="icon" variant="outline" className="h-7 w-7" onClick={() => setQuantity(item, quantity - 1)} disabled={quantity === 0}>
+                      <Minus className="h-3 w-3" />
+                    </Button>
+                    <span className="w-6 text-center text-sm" data-testid={`text-remove-quantity-${item.id}`}>{quantity}</span>
+                    <Button size="icon" variant="outline" className="h-7 w-7" onClick={() => setQuantity(item, quantity + 1)} disabled={quantity === item.quantity}>
+                      <Plus className="h-3 w-3" />
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex flex-wrap gap-2">
+              {REMOVAL_REASONS.map(option => (
+                <Badge
+                  key={option}
+                  variant={reason === option ? 'default' : 'outline'}
+                  className="cursor-pointer"
+                  onClick={() => setReason(option)}
+                  data-testid={`badge-removal-reason-${option}`}
+                >
+                  {option}
+                </Badge>
+              ))}
+            </div>
+            <Textarea
+              placeholder="Motivo da remocao"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              rows={2}
+              data-testid="input-removal-reason"
+            />
+            {hasSelection && (
+              <p className="text-sm" data-testid="text-removed-value">
+                Valor removido: <span className="font-semibold">{formatPrice(removedValue)}</span>
+              </p>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button
+              variant="destructive"
+              disabled={!hasSelection || !reason.trim() || cancelMutation.isPending}
+              onClick={() => cancelMutation.mutate()}
+              data-testid="button-confirm-remove-items"
+            >
+              Remover itens
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,115 @@
+import { useEffect, useState } from 'react';
+import { Check } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import type { ModifierGroup, OrderItemModifier, Product, ProductVariant } from '@shared/schema';
+import { variantDisplayName } from '@shared/variants';
+import { unitPriceWithModifiers } from '@shared/modifiers';
+
+interface ModifierPickerDialogProps {
+  product: Product | null;
+  variant?: ProductVariant;
+  // Groups offered for this product (see modifierGroupsFor)
+  groups: ModifierGroup[];
+  onClose: () => void;
+  onConfirm: (modifiers: OrderItemModifier[]) => void;
+}
+
+function formatCurrency(value: number): string {
+  return new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
+}
+
+export function ModifierPickerDialog({ product, variant, groups, onClose, onConfirm }: ModifierPickerDialogProps) {
+  const [selected, setSelected] = useState<OrderItemModifier[]>([]);
+
+  useEffect(() => {
+    setSelected([]);
+  }, [product?.id, variant?.id]);
+
+  const isPicked = (groupId: string, optionId: string) =>
+    selected.some(m => m.groupId === groupId && m.optionId === optionId);
+
+  // Single-choice groups swap the pick; the others toggle up to their limit
+  const toggle = (group: ModifierGroup, option: ModifierGroup['options'][number]) => {
+    setSelected(prev => {
+      if (prev.some(m => m.groupId === group.id && m.optionId === option.id)) {
+        return prev.filter(m => !(m.groupId === group.id && m.optionId === option.id));
+      }
+      const modifier = { groupId: group.id, groupName: group.name, optionId: option.id, optionName: option.name, priceDelta: option.priceDelta };
+      if (group.maxSelections === 1) {
+        return [...prev.filter(m => m.groupId !== group.id), modifier];
+      }
+      if (prev.filter(m => m.groupId === group.id).length >= group.maxSelections) return prev;
+      return [...prev, modifier];
+    });
+  };
+
+  const missing = groups.filter(group => group.isRequired && !selected.some(m => m.groupId === group.id));
+  const unitPrice = product ? unitPriceWithModifiers({ product, variant, modifiers: selected }) : 0;
+
+  return (
+    <Dialog open={!!product} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{product ? variantDisplayName(product, variant) : ''}</DialogTitle>
+          <DialogDescription>Monte do seu jeito</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {groups.map(group => (
+            <div key={group.id} className="space-y-2" data-testid={`modifier-group-${group.id}`}>
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium">{group.name}</span>
+                <div className="flex gap-1">
+                  {group.maxSelections > 1 && (
+                    <Badge variant="outline" className="text-xs">ate {group.maxSelections}</Badge>
+                  )}
+                  <Badge variant={group.isRequired ? 'default' : 'secondary'} className="text-xs">
+                    {group.isRequired ? 'Obrigatorio' : 'Opcional'}
+                  </Badge>
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                {group.options.map(option => {
+                  const picked = isPicked(group.id, option.id);
+                  return (
+                    <Button
+                      key={option.id}
+                      type="button"
+                      variant={picked ? 'default' : 'outline'}
+                      className="h-auto py-2 justify-between"
+                      onClick={() => toggle(group, option)}
+                      data-testid={`button-modifier-${group.id}-${option.id}`}
+                    >
+                      <span className="flex items-center gap-1 text-left">
+                        {picked && <Check className="w-3 h-3" />}
+                        {option.name}
+                      </span>
+                      {option.priceDelta !== 0 && (
+                        <span className="text-xs opacity-80">
+                          {option.priceDelta > 0 ? '+' : '-'}{formatCurrency(Math.abs(option.priceDelta))}
+                        </span>
+                      )}
+                    </Button>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button
+            className="w-full"
+            disabled={missing.length > 0}
+            onClick={() => onConfirm(selected)}
+            data-testid="button-confirm-modifiers"
+          >
+            {missing.length > 0 ? `Escolha ${missing[0].name}` : `Adicionar - ${formatCurrency(unitPrice)}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,66 @@
+import { useMutation } from '@tanstack/react-query';
+import { CircleDollarSign, Undo2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/lib/auth';
+import { apiRequest, queryClient, parseApiError } from '@/lib/queryClient';
+import { hasPermission, type Order } from '@shared/schema';
+
+interface PaymentActionsProps {
+  order: Pick<Order, 'id' | 'status' | 'paymentStatus'>;
+}
+
+// Manual entries in the payment ledger: settle what is due, or (with orders:cancel) refund everything paid
+export function PaymentActions({ order }: PaymentActionsProps) {
+  const { toast } = useToast();
+  const { user, role } = useAuth();
+  const canRefund = hasPermission(user ? { role: role ?? '', permissions: user.permissions } : null, 'orders:cancel');
+
+  const paymentMutation = useMutation({
+    mutationFn: async (kind: 'payment' | 'refund') => {
+      return apiRequest('POST', `/api/orders/${order.id}/payments`, { kind });
+    },
+    onSuccess: (_data, kind) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/orders'] });
+      toast({ title: kind === 'refund' ? 'Pagamento estornado' : 'Pagamento registrado' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Erro no pagamento', description: parseApiError(error)?.body?.error, variant: 'destructive' });
+    },
+  });
+
+  const canMarkPaid = (order.paymentStatus === 'pending' || order.paymentStatus === 'failed') && order.status !== 'cancelled';
+  const canRefundOrder = canRefund && order.paymentStatus === 'paid';
+  if (!canMarkPaid && !canRefundOrder) return null;
+
+  return (
+    <>
+      {canMarkPaid && (
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => paymentMutation.mutate('payment')}
+          disabled={paymentMutation.isPending}
+          data-testid={`button-mark-paid-${order.id}`}
+        >
+          <CircleDollarSign className="w-4 h-4 mr-1" />
+          Marcar como pago
+        </Button>
+      )}
+      {canRefundOrder && (
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={() => {
+            if (confirm('Estornar todo o valor pago neste pedido?')) paymentMutation.mutate('refund');
+          }}
+          disabled={paymentMutation.isPending}
+          data-testid={`button-refund-${order.id}`}
+        >
+          <Undo2 className="w-4 h-4 mr-1" />
+          Estornar
+        </Button>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,66 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { QRCodeSVG } from 'qrcode.react';
+import { Check, Copy, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { parseApiError } from '@/lib/queryClient';
+import type { PixCharge } from '@shared/schema';
+
+interface PixQrCodeProps {
+  orderId: string;
+  size?: number;
+}
+
+const formatPrice = (value: number) =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
+
+// QR code and "copia e cola" for what the order still owes; the bank app fills in the amount
+export function PixQrCode({ orderId, size = 200 }: PixQrCodeProps) {
+  const { toast } = useToast();
+  const [copied, setCopied] = useState(false);
+
+  const { data: charge, isLoading, error } = useQuery<PixCharge>({
+    queryKey: ['/api/orders', orderId, 'pix'],
+  });
+
+  const copyPayload = () => {
+    if (!charge) return;
+    navigator.clipboard.writeText(charge.payload);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+    toast({ title: 'Codigo PIX copiado!' });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!charge) {
+    return (
+      <p className="text-sm text-destructive text-center py-4" data-testid={`text-pix-error-${orderId}`}>
+        {parseApiError(error)?.body?.error || 'Nao foi possivel gerar o QR Code PIX'}
+      </p>
+    );
+  }
+
+  return (
+    <div className="flex flex-col items-center gap-3" data-testid={`pix-qr-${orderId}`}>
+      <div className="bg-white p-3 rounded-lg">
+        <QRCodeSVG value={charge.payload} size={size} />
+      </div>
+      <p className="text-2xl font-bold text-primary">{formatPrice(charge.amount)}</p>
+      <p className="text-xs text-muted-foreground text-center break-all font-mono max-w-xs line-clamp-2">
+        {charge.payload}
+      </p>
+      <Button variant="outline" onClick={copyPayload} data-testid={`button-copy-pix-${orderId}`}>
+        {copied ? <Check className="h-4 w-4 mr-2" /> : <Copy className="h-4 w-4 mr-2" />}
+        {copied ? 'Copiado' : 'Copiar codigo PIX'}
+      </Button>
+    </div>
+  );
+}
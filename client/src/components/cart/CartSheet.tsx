@@ -3,11 +3,13 @@ import { Button } from '@/components/ui/button';
 import { Sheet, SheetContent, SheetHeader, SheetTitle } from '@/components/ui/sheet';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Badge } from '@/components/ui/badge';
-import { useCart } from '@/lib/cart';
+import { useCart, cartLineKey } from '@/lib/cart';
 import { useAuth } from '@/lib/auth';
 import { useLocation } from 'wouter';
 import { motion, AnimatePresence } from 'framer-motion';
 import { ensureImageUrl } from '@/lib/supabase';
+import { variantDisplayName } from '@shared/variants';
+import { formatModifierLines, unitPriceWithModifiers } from '@shared/modifiers';
 
 interface CartSheetProps {
   open: boolean;
@@ -96,7 +98,7 @@ export function CartSheet({ open, onOpenChange }: CartSheetProps) {
                     <div className="flex items-center justify-between mb-3">
                       <div className="flex items-center gap-2">
                         <Gift className="h-5 w-5 text-primary" />
-                        <span className="font-semibold text-primary">Combo 5% OFF</span>
+                        <span className="font-semibold text-primary">{combo.name}</span>
                       </div>
                       <Button
                         variant="ghost"
@@ -109,18 +111,10 @@ export function CartSheet({ open, onOpenChange }: CartSheetProps) {
                       </Button>
                     </div>
                     <div className="space-y-2 text-sm">
-                      <div className="flex justify-between text-white/80">
-                        <span>1x {combo.destilado.name}</span>
-                        <span>{formatPrice(Number(combo.destilado.salePrice))}</span>
-                      </div>
-                      <div className="flex justify-between text-white/80">
-                        <span>{combo.energeticoQuantity}x {combo.energetico.name}</span>
-                        <span>{formatPrice(Number(combo.energetico.salePrice) * combo.energeticoQuantity)}</span>
-                      </div>
-                      {combo.gelos.map((gelo, idx) => (
+                      {combo.selections.map((selection, idx) => (
                         <div key={idx} className="flex justify-between text-white/80">
-                          <span>{gelo.quantity}x {gelo.product.name}</span>
-                          <span>{formatPrice(Number(gelo.product.salePrice) * gelo.quantity)}</span>
+                          <span>{selection.quantity}x {selection.product.name}</span>
+                          <span>{formatPrice(Number(selection.product.salePrice) * selection.quantity)}</span>
                         </div>
                       ))}
                       <div className="border-t border-primary/20 pt-2 mt-2">
@@ -140,7 +134,7 @@ export function CartSheet({ open, onOpenChange }: CartSheetProps) {
                 <AnimatePresence>
                   {regularItems.map((item) => (
                     <motion.div
-                      key={item.productId}
+                      key={cartLineKey(item)}
                       layout
                       initial={{ opacity: 0, x: 20 }}
                       animate={{ opacity: 1, x: 0 }}
@@ -169,21 +163,25 @@ export function CartSheet({ open, onOpenChange }: CartSheetProps) {
                       <div className="flex-1 min-w-0">
                         <div className="flex items-start justify-between gap-2">
                           <h4 className="font-medium text-white text-sm line-clamp-2 flex-1">
-                            {item.product.name}
+                            {variantDisplayName(item.product, item.variant)}
                           </h4>
                           <Button
                             variant="ghost"
                             size="icon"
                             className="h-7 w-7 text-muted-foreground hover:text-destructive flex-shrink-0"
-                            onClick={() => removeItem(item.productId)}
+                            onClick={() => removeItem(cartLineKey(item))}
                             data-testid={`button-cart-remove-${item.productId}`}
                           >
                             <Trash2 className="h-4 w-4" />
                           </Button>
                         </div>
 
+                        {formatModifierLines(item.modifiers).map(line => (
+                          <p key={line} className="text-xs text-muted-foreground">{line}</p>
+                        ))}
+
                         <p className="text-primary font-semibold mt-1">
-                          {formatPrice(Number(item.product.salePrice))}
+                          {formatPrice(unitPriceWithModifiers(item))}
                         </p>
 
                         <div className="flex items-center justify-between mt-3">
@@ -192,7 +190,7 @@ export function CartSheet({ open, onOpenChange }: CartSheetProps) {
                               variant="ghost"
                               size="icon"
                               className="h-7 w-7 text-primary hover:bg-primary/20"
-                              onClick={() => updateQuantity(item.productId, item.quantity - 1)}
+                              onClick={() => updateQuantity(cartLineKey(item), item.quantity - 1)}
                               data-testid={`button-cart-decrease-${item.productId}`}
                             >
                               <Minus className="h-3 w-3" />
@@ -204,14 +202,14 @@ export function CartSheet({ open, onOpenChange }: CartSheetProps) {
                               variant="ghost"
                               size="icon"
                               className="h-7 w-7 text-primary hover:bg-primary/20"
-                              onClick={() => updateQuantity(item.productId, item.quantity + 1)}
+                              onClick={() => updateQuantity(cartLineKey(item), item.quantity + 1)}
                               data-testid={`button-cart-increase-${item.productId}`}
                             >
                               <Plus className="h-3 w-3" />
                             </Button>
                           </div>
                           <span className="text-white font-bold">
-                            {formatPrice(Number(item.product.salePrice) * item.quantity)}
+                            {formatPrice(unitPriceWithModifiers(item) * item.quantity)}
                           </span>
                         </div>
                       </div>
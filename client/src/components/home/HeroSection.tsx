@@ -2,6 +2,9 @@ import { useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { ChevronDown, Sparkles, Clock, Truck, Gift, Wine } from 'lucide-react';
 import { motion } from 'framer-motion';
+import { useQuery } from '@tanstack/react-query';
+import type { ComboTemplate } from '@shared/schema';
+import { formatComboDiscount } from '@shared/combos';
 import heroVideo from '@assets/ciroc_1765072919532.mp4';
 import logoImage from '@assets/vibedrinksfinal_1765554834904.gif';
 import { ComboModal } from './ComboModal';
@@ -10,6 +13,13 @@ import { SpecialDrinksModal } from './SpecialDrinksModal';
 export function HeroSection() {
   const [comboModalOpen, setComboModalOpen] = useState(false);
   const [specialDrinksOpen, setSpecialDrinksOpen] = useState(false);
+
+  const { data: comboTemplates = [] } = useQuery<ComboTemplate[]>({
+    queryKey: ['/api/combo-templates'],
+  });
+  const comboLabel = comboTemplates.length === 1
+    ? `MONTE SEU COMBO ${formatComboDiscount(comboTemplates[0])}`
+    : 'MONTE SEU COMBO';
   
   const scrollToProducts = () => {
     document.getElementById('products-section')?.scrollIntoView({ behavior: 'smooth' });
@@ -96,7 +106,7 @@ export function HeroSection() {
             >
               <span className="relative z-10 flex items-center gap-2">
                 <Gift className="h-5 w-5" />
-                MONTE SEU COMBO 5% OFF
+                {comboLabel}
               </span>
               <div className="absolute inset-0 bg-gradient-to-r from-amber-300 via-yellow-200 to-amber-300 opacity-0 group-hover:opacity-100 transition-opacity duration-300 rounded-full" />
             </Button>
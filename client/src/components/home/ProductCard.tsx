@@ -4,22 +4,38 @@ import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
-import { useCart } from '@/lib/cart';
+import { useCart, cartLineKey } from '@/lib/cart';
+import { ModifierPickerDialog } from '@/components/ModifierPickerDialog';
 import { ensureImageUrl } from '@/lib/supabase';
 import { motion } from 'framer-motion';
-import type { Product } from '@shared/schema';
-import { isPreparedCategoryName } from '@shared/schema';
+import type { Product, Category, ProductVariant, ModifierGroup } from '@shared/schema';
+import { tracksProductStock } from '@shared/schema';
+import { sellableStock, sellableUnitPrice, variantDisplayName } from '@shared/variants';
 
 interface ProductCardProps {
   product: Product;
-  categoryName?: string;
+  category?: Category;
+  // Active variants; when present the customer picks one and it sets price and stock
+  variants?: ProductVariant[];
+  // Modifier groups offered for this product; when present every unit goes through the picker
+  modifierGroups?: ModifierGroup[];
 }
 
-export function ProductCard({ product, categoryName }: ProductCardProps) {
+export function ProductCard({ product, category, variants = [], modifierGroups = [] }: ProductCardProps) {
   const { items, addItem, updateQuantity } = useCart();
   const [showStockAlert, setShowStockAlert] = useState(false);
-  const cartItem = items.find(item => item.productId === product.id);
-  const quantity = cartItem?.quantity ?? 0;
+  const [showModifierPicker, setShowModifierPicker] = useState(false);
+  const [selectedVariantId, setSelectedVariantId] = useState<string | null>(null);
+  const variant = variants.length > 0
+    ? variants.find(v => v.id === selectedVariantId) ?? variants.find(v => v.stock > 0) ?? variants[0]
+    : undefined;
+  const price = sellableUnitPrice({ product, variant });
+  const stock = sellableStock({ product, variant });
+  const hasModifiers = modifierGroups.length > 0;
+  // With modifiers the same product can sit in several lines, one per set of choices
+  const quantity = items
+    .filter(item => item.productId === product.id && item.variantId === variant?.id && !item.isComboItem)
+    .reduce((sum, item) => sum + item.quantity, 0);
 
   const formatPrice = (price: string | number) => {
     return new Intl.NumberFormat('pt-BR', {
@@ -28,18 +44,22 @@ export function ProductCard({ product, categoryName }: ProductCardProps) {
     }).format(Number(price));
   };
 
-  // Produtos preparados não têm controle de estoque - check both isPrepared flag and category name
-  const isPreparedProduct = product.isPrepared === true || (categoryName ? isPreparedCategoryName(categoryName) : false);
-  const isOutOfStock = !isPreparedProduct && product.stock <= 0;
-  const isLowStock = !isPreparedProduct && product.stock > 0 && product.stock <= 5;
+  // Produtos preparados (ou de categorias sem controle de estoque) não esgotam
+  const isPreparedProduct = !tracksProductStock(product, category);
+  const isOutOfStock = !isPreparedProduct && stock <= 0;
+  const isLowStock = !isPreparedProduct && stock > 0 && stock <= 5;
 
   const handleAddItem = () => {
     // Produtos preparados podem ser adicionados sem limite de estoque
-    if (!isPreparedProduct && (product.stock <= 0 || quantity >= product.stock)) {
+    if (!isPreparedProduct && (stock <= 0 || quantity >= stock)) {
       setShowStockAlert(true);
       return;
     }
-    addItem(product);
+    if (hasModifiers) {
+      setShowModifierPicker(true);
+      return;
+    }
+    addItem(product, 1, variant);
   };
 
   return (
@@ -85,7 +105,7 @@ export function ProductCard({ product, categoryName }: ProductCardProps) {
             <Badge 
               className="absolute top-3 right-3 bg-orange-500/90 text-white border-none text-xs"
             >
-              Ultimas {product.stock}
+              Ultimas {stock}
             </Badge>
           )}
 
@@ -116,6 +136,24 @@ export function ProductCard({ product, categoryName }: ProductCardProps) {
                 {product.description}
               </p>
             )}
+
+            {variants.length > 0 && (
+              <div className="flex flex-wrap gap-1 mt-2" data-testid={`variant-picker-${product.id}`}>
+                {variants.map(option => (
+                  <Button
+                    key={option.id}
+                    type="button"
+                    size="sm"
+                    variant={option.id === variant?.id ? 'default' : 'outline'}
+                    className="h-7 px-2 text-xs"
+                    onClick={() => setSelectedVariantId(option.id)}
+                    data-testid={`button-variant-${option.id}`}
+                  >
+                    {option.name}
+                  </Button>
+                ))}
+              </div>
+            )}
           </div>
 
           <div className="space-y-3 mt-auto">
@@ -124,7 +162,7 @@ export function ProductCard({ product, categoryName }: ProductCardProps) {
                 className="text-2xl font-bold bg-gradient-to-r from-amber-400 to-yellow-500 bg-clip-text text-transparent"
                 data-testid={`text-product-price-${product.id}`}
               >
-                {formatPrice(product.salePrice)}
+                {formatPrice(price)}
               </span>
             </div>
 
@@ -134,13 +172,13 @@ export function ProductCard({ product, categoryName }: ProductCardProps) {
                   <ShoppingBag className="h-4 w-4 mr-2" />
                   Indisponivel
                 </Button>
-              ) : quantity > 0 ? (
+              ) : quantity > 0 && !hasModifiers ? (
                 <div className="flex items-center justify-between w-full bg-secondary/50 rounded-lg p-1">
                   <Button
                     variant="ghost"
                     size="icon"
                     className="h-9 w-9 rounded-md text-primary hover:bg-primary/20"
-                    onClick={() => updateQuantity(product.id, quantity - 1)}
+                    onClick={() => updateQuantity(cartLineKey({ productId: product.id, variantId: variant?.id }), quantity - 1)}
                     data-testid={`button-decrease-${product.id}`}
                   >
                     <Minus className="h-4 w-4" />
@@ -156,7 +194,7 @@ export function ProductCard({ product, categoryName }: ProductCardProps) {
                     size="icon"
                     className="h-9 w-9 rounded-md text-primary hover:bg-primary/20"
                     onClick={handleAddItem}
-                    disabled={!isPreparedProduct && quantity >= product.stock}
+                    disabled={!isPreparedProduct && quantity >= stock}
                     data-testid={`button-increase-${product.id}`}
                   >
                     <Plus className="h-4 w-4" />
@@ -177,6 +215,17 @@ export function ProductCard({ product, categoryName }: ProductCardProps) {
         </div>
       </Card>
 
+      <ModifierPickerDialog
+        product={showModifierPicker ? product : null}
+        variant={variant}
+        groups={modifierGroups}
+        onClose={() => setShowModifierPicker(false)}
+        onConfirm={(modifiers) => {
+          addItem(product, 1, variant, modifiers);
+          setShowModifierPicker(false);
+        }}
+      />
+
       <Dialog open={showStockAlert} onOpenChange={setShowStockAlert}>
         <DialogContent className="sm:max-w-md">
           <DialogHeader>
@@ -185,7 +234,7 @@ export function ProductCard({ product, categoryName }: ProductCardProps) {
               Produto Esgotado
             </DialogTitle>
             <DialogDescription className="text-base">
-              O estoque de <strong>{product.name}</strong> esta zerado ou voce ja adicionou a quantidade maxima disponivel ({product.stock} unidades).
+              O estoque de <strong>{variantDisplayName(product, variant)}</strong> esta zerado ou voce ja adicionou a quantidade maxima disponivel ({stock} unidades).
             </DialogDescription>
           </DialogHeader>
           <DialogFooter>
@@ -1,11 +1,14 @@
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
 import { Search, LayoutList, Grid2X2, LayoutGrid, Wine, Sparkles } from 'lucide-react';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { ProductCard } from './ProductCard';
 import { Skeleton } from '@/components/ui/skeleton';
 import { motion } from 'framer-motion';
-import type { Product, Category } from '@shared/schema';
+import type { Product, Category, ProductVariant, ModifierGroup } from '@shared/schema';
+import { groupVariantsByProduct } from '@shared/variants';
+import { modifierGroupsFor } from '@shared/modifiers';
 
 type GridColumns = 1 | 2 | 4;
 
@@ -20,6 +23,15 @@ export function ProductGrid({ products, categories = [], isLoading, selectedCate
   const [searchQuery, setSearchQuery] = useState('');
   const [gridColumns, setGridColumns] = useState<GridColumns>(2);
 
+  const { data: variants = [] } = useQuery<ProductVariant[]>({
+    queryKey: ['/api/product-variants'],
+  });
+  const variantsByProduct = useMemo(() => groupVariantsByProduct(variants), [variants]);
+
+  const { data: modifierGroups = [] } = useQuery<ModifierGroup[]>({
+    queryKey: ['/api/modifier-groups'],
+  });
+
   const getGridClasses = () => {
     switch (gridColumns) {
       case 1:
@@ -174,7 +186,9 @@ export function ProductGrid({ products, categories = [], isLoading, selectedCate
                 <ProductCard 
                   key={product.id} 
                   product={product} 
-                  categoryName={category?.name}
+                  category={category}
+                  variants={variantsByProduct.get(product.id)}
+                  modifierGroups={modifierGroupsFor(modifierGroups, product)}
                 />
               );
             })}
@@ -5,10 +5,12 @@ import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { useQuery } from '@tanstack/react-query';
-import { useCart } from '@/lib/cart';
+import { useCart, cartLineKey } from '@/lib/cart';
+import { ModifierPickerDialog } from '@/components/ModifierPickerDialog';
 import { useToast } from '@/hooks/use-toast';
 import { Wine, Loader2, Plus, Minus, ShoppingCart, Sparkles, Pause, Play, GripHorizontal, Image as ImageIcon } from 'lucide-react';
-import type { Product, Category } from '@shared/schema';
+import type { Product, Category, ModifierGroup } from '@shared/schema';
+import { modifierGroupsFor } from '@shared/modifiers';
 import { motion, AnimatePresence } from 'framer-motion';
 import { ensureImageUrl } from '@/lib/supabase';
 
@@ -23,6 +25,7 @@ export function SpecialDrinksModal({ open, onOpenChange }: SpecialDrinksModalPro
   const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
   const [currentIndex, setCurrentIndex] = useState(0);
   const [isAutoPlaying, setIsAutoPlaying] = useState(true);
+  const [modifierProduct, setModifierProduct] = useState<Product | null>(null);
   const dragStartX = useRef(0);
   const dragStartTime = useRef(0);
 
@@ -34,11 +37,13 @@ export function SpecialDrinksModal({ open, onOpenChange }: SpecialDrinksModalPro
     queryKey: ['/api/categories'],
   });
 
-  const specialCategoryNames = ['CAIPIRINHAS', 'DRINKS ESPECIAIS', 'COPAO', 'BATIDAS'];
+  const { data: modifierGroups = [] } = useQuery<ModifierGroup[]>({
+    queryKey: ['/api/modifier-groups'],
+  });
+  const hasModifiers = (product: Product) => modifierGroupsFor(modifierGroups, product).length > 0;
 
   const specialCategories = categories.filter(c => 
-    c.isActive && 
-    specialCategoryNames.some(name => c.name.toLowerCase() === name.toLowerCase())
+    c.isActive && c.showcaseGroup === 'special_drinks'
   );
 
   useEffect(() => {
@@ -81,15 +86,16 @@ export function SpecialDrinksModal({ open, onOpenChange }: SpecialDrinksModalPro
     }).format(Number(price));
   };
 
+  // Drinks with modifiers may sit in several cart lines, one per set of choices
   const getCartQuantity = (productId: string) => {
-    const item = items.find(i => i.productId === productId);
-    return item?.quantity ?? 0;
+    return items
+      .filter(i => i.productId === productId && !i.isComboItem)
+      .reduce((sum, i) => sum + i.quantity, 0);
   };
 
   const handleAddToCart = (product: Product) => {
     if (!product.isPrepared) {
-      const cartItem = items.find(i => i.productId === product.id);
-      const currentQty = cartItem?.quantity ?? 0;
+      const currentQty = getCartQuantity(product.id);
       
       if (product.stock <= 0 || currentQty >= product.stock) {
         toast({
@@ -100,7 +106,11 @@ export function SpecialDrinksModal({ open, onOpenChange }: SpecialDrinksModalPro
         return;
       }
     }
-    
+
+    if (hasModifiers(product)) {
+      setModifierProduct(product);
+      return;
+    }
     addItem(product);
     toast({
       title: 'Adicionado ao carrinho',
@@ -269,7 +279,7 @@ export function SpecialDrinksModal({ open, onOpenChange }: SpecialDrinksModalPro
                                   
                                   {!((!currentDrink.isPrepared) && currentDrink.stock <= 0) && (
                                     <>
-                                      {getCartQuantity(currentDrink.id) === 0 ? (
+                                      {getCartQuantity(currentDrink.id) === 0 || hasModifiers(currentDrink) ? (
                                         <Button
                                           size="sm"
                                           onClick={() => handleAddToCart(currentDrink)}
@@ -285,7 +295,7 @@ export function SpecialDrinksModal({ open, onOpenChange }: SpecialDrinksModalPro
                                             size="icon"
                                             variant="outline"
                                             className="h-6 w-6"
-                                            onClick={() => updateQuantity(currentDrink.id, getCartQuantity(currentDrink.id) - 1)}
+                                            onClick={() => updateQuantity(cartLineKey({ productId: currentDrink.id }), getCartQuantity(currentDrink.id) - 1)}
                                             data-testid={`button-decrease-${currentDrink.id}`}
                                           >
                                             <Minus className="h-2.5 w-2.5" />
@@ -296,7 +306,7 @@ export function SpecialDrinksModal({ open, onOpenChange }: SpecialDrinksModalPro
                                           <Button
                                             size="icon"
                                             className="h-6 w-6 bg-gradient-to-r from-purple-500 to-pink-500"
-                                            onClick={() => updateQuantity(currentDrink.id, getCartQuantity(currentDrink.id) + 1)}
+                                            onClick={() => updateQuantity(cartLineKey({ productId: currentDrink.id }), getCartQuantity(currentDrink.id) + 1)}
                                             data-testid={`button-increase-${currentDrink.id}`}
                                           >
                                             <Plus className="h-2.5 w-2.5" />
@@ -368,6 +378,20 @@ export function SpecialDrinksModal({ open, onOpenChange }: SpecialDrinksModalPro
           </div>
         </ScrollArea>
       </DialogContent>
+
+      <ModifierPickerDialog
+        product={modifierProduct}
+        groups={modifierProduct ? modifierGroupsFor(modifierGroups, modifierProduct) : []}
+        onClose={() => setModifierProduct(null)}
+        onConfirm={(modifiers) => {
+          addItem(modifierProduct!, 1, undefined, modifiers);
+          toast({
+            title: 'Adicionado ao carrinho',
+            description: `${modifierProduct!.name} foi adicionado.`,
+          });
+          setModifierProduct(null);
+        }}
+      />
     </Dialog>
   );
 }
@@ -1,10 +1,12 @@
 import { MessageCircle, Phone, Clock } from 'lucide-react';
 import { motion } from 'framer-motion';
 import { Button } from '@/components/ui/button';
-import { isBusinessHoursOpen, getBusinessStatusMessage, BUSINESS_HOURS } from '@/lib/business-hours';
+import { useStoreStatus, whatsappLink, formatWhatsapp } from '@/hooks/use-store-status';
+import { formatWeeklyHours, DEFAULT_OPENING_HOURS, DEFAULT_WHATSAPP } from '@shared/opening-hours';
 
 export function Footer() {
-  const isOpen = isBusinessHoursOpen();
+  const { status, isOpen } = useStoreStatus();
+  const whatsapp = status?.whatsapp ?? DEFAULT_WHATSAPP;
 
   return (
     <footer className="bg-gradient-to-b from-black/50 to-black border-t border-primary/10 mt-12">
@@ -21,9 +23,11 @@ export function Footer() {
               <Clock className="h-5 w-5 text-primary" />
               <h3 className="font-semibold text-white">Horário</h3>
             </div>
-            <p className="text-sm text-muted-foreground">
-              14:00 às 06:00 (Diariamente)
-            </p>
+            {formatWeeklyHours(status?.hours ?? DEFAULT_OPENING_HOURS).map(line => (
+              <p key={line} className="text-sm text-muted-foreground">
+                {line}
+              </p>
+            ))}
             <div className={`inline-block px-3 py-1 rounded-full text-xs font-medium ${
               isOpen
                 ? 'bg-green-500/20 text-green-400 border border-green-500/30'
@@ -48,12 +52,12 @@ export function Footer() {
               data-testid="button-whatsapp"
             >
               <a 
-                href={BUSINESS_HOURS.WHATSAPP_LINK}
+                href={whatsappLink(whatsapp)}
                 target="_blank"
                 rel="noopener noreferrer"
               >
                 <Phone className="h-4 w-4 mr-2" />
-                {BUSINESS_HOURS.WHATSAPP}
+                {formatWhatsapp(whatsapp)}
               </a>
             </Button>
           </div>
@@ -65,7 +69,7 @@ export function Footer() {
               <h3 className="font-semibold text-white">Status</h3>
             </div>
             <p className="text-sm text-muted-foreground">
-              {getBusinessStatusMessage()}
+              {status?.message}
             </p>
           </div>
         </motion.div>
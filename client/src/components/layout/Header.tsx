@@ -6,6 +6,7 @@ import { Badge } from '@/components/ui/badge';
 import { Sheet, SheetContent, SheetTrigger, SheetHeader, SheetTitle } from '@/components/ui/sheet';
 import { useCart } from '@/lib/cart';
 import { useAuth } from '@/lib/auth';
+import { useStoreStatus } from '@/hooks/use-store-status';
 import { motion, AnimatePresence } from 'framer-motion';
 import logoImage from '@assets/vibedrinksfinal_1765554834904.gif';
 
@@ -18,6 +19,7 @@ export function Header({ onCartOpen }: HeaderProps) {
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
   const { itemCount, subtotal } = useCart();
   const { isAuthenticated, user, logout } = useAuth();
+  const { status } = useStoreStatus();
 
   const formatPrice = (price: number) => {
     return new Intl.NumberFormat('pt-BR', {
@@ -37,6 +39,19 @@ export function Header({ onCartOpen }: HeaderProps) {
               className="h-10 w-auto hover:opacity-80 transition-opacity"
               data-testid="img-logo"
             />
+            {status && (
+              <span
+                className={`hidden sm:inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium ${
+                  status.isOpen
+                    ? 'bg-green-500/20 text-green-400 border border-green-500/30'
+                    : 'bg-red-500/20 text-red-400 border border-red-500/30'
+                }`}
+                title={status.message}
+                data-testid="badge-store-status"
+              >
+                ● {status.isOpen ? 'Aberto' : 'Fechado'}
+              </span>
+            )}
           </Link>
 
           <div className="flex items-center gap-2">
@@ -1,16 +1,25 @@
 import { memo } from 'react';
-import { Plus, Minus, Trash2, User, Package, Check, Percent } from 'lucide-react';
+import { Plus, Minus, Trash2, User, Package, Check, Percent, Ticket, X, Loader2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import type { Product } from '@shared/schema';
-import { type Salesperson, SALESPERSON_LABELS } from '@shared/schema';
+import type { Product, ProductVariant, OrderItemModifier } from '@shared/schema';
+import { variantDisplayName } from '@shared/variants';
+import { formatModifierLines, modifiersKey, unitPriceWithModifiers } from '@shared/modifiers';
 
-interface CartItem {
+export interface CartItem {
   product: Product;
+  variant?: ProductVariant;
+  modifiers?: OrderItemModifier[];
   quantity: number;
 }
 
+// Variant ids are unique across products, so they can stand in for the product;
+// the same drink with other choices is another line
+export function cartLineKey(item: CartItem): string {
+  const key = modifiersKey(item.modifiers);
+  return (item.variant?.id ?? item.product.id) + (key ? `|${key}` : '');
+}
+
 interface NotesAndDiscountInputsProps {
   notes: string;
   manualDiscount: string;
@@ -18,19 +27,30 @@ interface NotesAndDiscountInputsProps {
   onDiscountChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
 }
 
+export interface CouponControls {
+  input: string;
+  appliedCode: string | null;
+  error: string | null;
+  discount: number;
+  isChecking: boolean;
+  onInputChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
+  onApply: () => void;
+  onRemove: () => void;
+}
+
 interface CartContentProps {
-  salesperson: Salesperson | null;
+  operatorName: string;
   cart: CartItem[];
   notes: string;
   manualDiscount: string;
   discountValue: number;
+  coupon: CouponControls;
   subtotal: number;
   total: number;
-  onSalespersonChange: (value: string) => void;
   onNoteChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
   onDiscountChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
-  onRemoveFromCart: (productId: string) => void;
-  onUpdateQuantity: (productId: string, delta: number) => void;
+  onRemoveFromCart: (lineKey: string) => void;
+  onUpdateQuantity: (lineKey: string, delta: number) => void;
   onFinalizeSale: () => void;
 }
 
@@ -74,15 +94,55 @@ export const NotesAndDiscountInputs = memo(({
 
 NotesAndDiscountInputs.displayName = 'NotesAndDiscountInputs';
 
+export const CouponInput = memo(({ coupon }: { coupon: CouponControls }) => (
+  <div className="space-y-1">
+    {coupon.appliedCode && !coupon.error ? (
+      <div className="flex items-center justify-between bg-green-500/10 border border-green-500/30 rounded-md px-2 py-1">
+        <span className="flex items-center gap-2 text-green-400 text-sm font-medium" data-testid="text-coupon-applied">
+          <Ticket className="h-4 w-4" />
+          {coupon.appliedCode}
+        </span>
+        <Button variant="ghost" size="icon" className="h-6 w-6" onClick={coupon.onRemove} data-testid="button-remove-coupon">
+          <X className="h-3 w-3" />
+        </Button>
+      </div>
+    ) : (
+      <div className="flex items-center gap-2">
+        <Ticket className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+        <Input
+          placeholder="Cupom"
+          value={coupon.input}
+          onChange={coupon.onInputChange}
+          onKeyDown={(e) => e.key === 'Enter' && coupon.onApply()}
+          className="bg-secondary border-primary/30 text-sm flex-1 uppercase"
+          data-testid="input-coupon"
+        />
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={coupon.onApply}
+          disabled={!coupon.input.trim() || coupon.isChecking}
+          data-testid="button-apply-coupon"
+        >
+          {coupon.isChecking ? <Loader2 className="h-3 w-3 animate-spin" /> : 'Aplicar'}
+        </Button>
+      </div>
+    )}
+    {coupon.error && <p className="text-xs text-red-400" data-testid="text-coupon-error">{coupon.error}</p>}
+  </div>
+));
+
+CouponInput.displayName = 'CouponInput';
+
 export const CartContent = memo(({
-  salesperson,
+  operatorName,
   cart,
   notes,
   manualDiscount,
   discountValue,
+  coupon,
   subtotal,
   total,
-  onSalespersonChange,
   onNoteChange,
   onDiscountChange,
   onRemoveFromCart,
@@ -93,21 +153,8 @@ export const CartContent = memo(({
     <div className="p-3 border-b border-border">
       <div className="flex items-center gap-2">
         <User className="h-4 w-4 text-muted-foreground flex-shrink-0" />
-        <Select 
-          value={salesperson || undefined} 
-          onValueChange={onSalespersonChange}
-        >
-          <SelectTrigger className="bg-secondary border-primary/30 text-sm" data-testid="select-salesperson">
-            <SelectValue placeholder="Selecione o Balconista" />
-          </SelectTrigger>
-          <SelectContent>
-            {(Object.entries(SALESPERSON_LABELS) as [Salesperson, string][]).map(([key, label]) => (
-              <SelectItem key={key} value={key} data-testid={`option-${key}`}>
-                {label}
-              </SelectItem>
-            ))}
-          </SelectContent>
-        </Select>
+        <span className="text-sm text-muted-foreground">Operador:</span>
+        <span className="text-sm font-medium truncate" data-testid="text-operator">{operatorName}</span>
       </div>
     </div>
 
@@ -123,27 +170,30 @@ export const CartContent = memo(({
       ) : (
         <div className="space-y-2">
           {cart.map((item) => (
-            <div key={item.product.id} className="bg-secondary rounded-lg p-2" data-testid={`cart-item-${item.product.id}`}>
+            <div key={cartLineKey(item)} className="bg-secondary rounded-lg p-2" data-testid={`cart-item-${cartLineKey(item)}`}>
               <div className="flex justify-between items-start mb-1">
-                <span className="font-medium text-xs flex-1 line-clamp-1">{item.product.name}</span>
+                <span className="font-medium text-xs flex-1 line-clamp-1">{variantDisplayName(item.product, item.variant)}</span>
                 <Button
                   variant="ghost"
                   size="icon"
                   className="h-5 w-5"
-                  onClick={() => onRemoveFromCart(item.product.id)}
-                  data-testid={`button-remove-${item.product.id}`}
+                  onClick={() => onRemoveFromCart(cartLineKey(item))}
+                  data-testid={`button-remove-${cartLineKey(item)}`}
                 >
                   <Trash2 className="h-3 w-3 text-destructive" />
                 </Button>
               </div>
+              {formatModifierLines(item.modifiers).map(line => (
+                <p key={line} className="text-[11px] text-muted-foreground mb-1">{line}</p>
+              ))}
               <div className="flex justify-between items-center">
                 <div className="flex items-center gap-1">
                   <Button
                     variant="outline"
                     size="icon"
                     className="h-6 w-6"
-                    onClick={() => onUpdateQuantity(item.product.id, -1)}
-                    data-testid={`button-decrease-${item.product.id}`}
+                    onClick={() => onUpdateQuantity(cartLineKey(item), -1)}
+                    data-testid={`button-decrease-${cartLineKey(item)}`}
                   >
                     <Minus className="h-3 w-3" />
                   </Button>
@@ -152,14 +202,14 @@ export const CartContent = memo(({
                     variant="outline"
                     size="icon"
                     className="h-6 w-6"
-                    onClick={() => onUpdateQuantity(item.product.id, 1)}
-                    data-testid={`button-increase-${item.product.id}`}
+                    onClick={() => onUpdateQuantity(cartLineKey(item), 1)}
+                    data-testid={`button-increase-${cartLineKey(item)}`}
                   >
                     <Plus className="h-3 w-3" />
                   </Button>
                 </div>
                 <span className="font-bold text-primary text-sm">
-                  {formatCurrency(Number(item.product.salePrice) * item.quantity)}
+                  {formatCurrency(unitPriceWithModifiers(item) * item.quantity)}
                 </span>
               </div>
             </div>
@@ -175,6 +225,7 @@ export const CartContent = memo(({
         onNoteChange={onNoteChange}
         onDiscountChange={onDiscountChange}
       />
+      <CouponInput coupon={coupon} />
 
       <div className="flex justify-between text-sm">
         <span>Subtotal:</span>
@@ -188,6 +239,13 @@ export const CartContent = memo(({
         </div>
       )}
 
+      {coupon.discount > 0 && (
+        <div className="flex justify-between text-green-400 text-sm">
+          <span>Cupom {coupon.appliedCode}:</span>
+          <span>-{formatCurrency(coupon.discount)}</span>
+        </div>
+      )}
+
       <div className="flex justify-between text-lg font-bold text-primary">
         <span>Total:</span>
         <span>{formatCurrency(total)}</span>
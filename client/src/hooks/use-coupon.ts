@@ -0,0 +1,33 @@
+import { useQuery } from '@tanstack/react-query';
+import { apiRequest, parseApiError } from '@/lib/queryClient';
+import type { OrderItemModifier, OrderPricing } from '@shared/schema';
+
+// Same fields POST /api/orders prices from
+export interface CouponOrderInput {
+  orderType: 'delivery' | 'counter';
+  addressId?: string | null;
+  items: { productId: string; variantId?: string; modifiers?: OrderItemModifier[]; quantity: number; comboId?: string; comboSlotId?: string }[];
+  combos?: { id: string; templateId: string }[];
+  discount?: number;
+}
+
+// Re-prices the cart with the coupon whenever the cart changes, so the discount shown
+// is the one the server will give. `code` null means no coupon applied.
+export function useCouponPreview(code: string | null, order: CouponOrderInput) {
+  const query = useQuery<OrderPricing>({
+    queryKey: ['/api/coupons/validate', code, order],
+    queryFn: async () => {
+      const res = await apiRequest('POST', '/api/coupons/validate', { ...order, couponCode: code });
+      return res.json();
+    },
+    enabled: !!code && order.items.length > 0,
+    staleTime: 0,
+  });
+
+  return {
+    pricing: code ? query.data : undefined,
+    couponDiscount: code && query.data ? query.data.couponDiscount : 0,
+    error: code && query.error ? parseApiError(query.error)?.body?.error ?? 'Cupom invalido' : null,
+    isChecking: query.isFetching,
+  };
+}
@@ -0,0 +1,17 @@
+import { useQuery } from '@tanstack/react-query';
+import type { DeliveryArea } from '@shared/delivery-zones';
+
+// Picked in the neighborhood selects when the customer's neighborhood is missing from the list
+export const OTHER_NEIGHBORHOOD = '__other__';
+
+// The zones admins edit in the panel; fees shown next to each group come from here too
+export function useDeliveryAreas() {
+  const { data: areas = [], isLoading } = useQuery<DeliveryArea[]>({
+    queryKey: ['/api/delivery-areas'],
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const isListed = (name: string) => areas.some(area => area.neighborhoods.some(n => n.name === name));
+
+  return { areas, isLoading, isListed };
+}
@@ -1,4 +1,5 @@
 import { useEffect, useRef, useCallback } from 'react';
+import type { Query } from '@tanstack/react-query';
 import { queryClient } from '@/lib/queryClient';
 
 type OrderEventHandler = (data: any) => void;
@@ -7,15 +8,55 @@ interface UseOrderUpdatesOptions {
   onOrderCreated?: OrderEventHandler;
   onOrderStatusChanged?: OrderEventHandler;
   onOrderAssigned?: OrderEventHandler;
+  onOrderDeleted?: OrderEventHandler;
+  onOrderFeeUpdated?: OrderEventHandler;
+  onOrderPaymentUpdated?: OrderEventHandler;
+  onOrderItemsCancelled?: OrderEventHandler;
   onConnected?: () => void;
   onDisconnected?: () => void;
 }
 
+const ORDER_QUERY_ROOTS = ['/api/orders', '/api/order-items', '/api/motoboy'];
+
+// Events that can add an order to a list that didn't hold it yet (a new order, a motoboy's new run)
+const LIST_EVENTS: Record<string, string[]> = {
+  order_created: ['/api/orders', '/api/motoboy'],
+  order_assigned: ['/api/motoboy'],
+  order_status_changed: ['/api/motoboy'],
+};
+
+function isOrderQuery(query: Query): boolean {
+  const key = query.queryKey;
+  return Array.isArray(key) && ORDER_QUERY_ROOTS.includes(key[0] as string);
+}
+
+// Keyed by the order's id (alone or in a list of ids), or holding it in the cached data
+function showsOrder(query: Query, orderId: string): boolean {
+  if (query.queryKey.some(part => typeof part === 'string' && part.split(',').includes(orderId))) return true;
+  const data = query.state.data as any;
+  if (Array.isArray(data)) return data.some(entry => entry?.id === orderId || entry?.orderId === orderId);
+  return data?.id === orderId;
+}
+
+// Refetches only what shows the order; a resync (or an event without an order) refetches everything
+function invalidateForEvent(eventName: string, data: any) {
+  const orderId = typeof data?.orderId === 'string' ? data.orderId : null;
+  const listRoots = LIST_EVENTS[eventName] ?? [];
+  queryClient.invalidateQueries({ predicate: (query) => {
+    if (!isOrderQuery(query)) return false;
+    if (!orderId) return true;
+    if (listRoots.includes(query.queryKey[0] as string) && Array.isArray(query.state.data)) return true;
+    return showsOrder(query, orderId);
+  }});
+}
+
 export function useOrderUpdates(options: UseOrderUpdatesOptions = {}) {
   const eventSourceRef = useRef<EventSource | null>(null);
   const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const reconnectAttempts = useRef(0);
   const maxReconnectAttempts = 10;
+  // Last event seen; sent on reconnect so the server replays only what we missed
+  const lastEventIdRef = useRef<string | null>(null);
 
   const optionsRef = useRef(options);
   useEffect(() => {
@@ -28,40 +69,42 @@ export function useOrderUpdates(options: UseOrderUpdatesOptions = {}) {
     }
 
     try {
-      const eventSource = new EventSource('/api/orders/sse');
+      const lastEventId = lastEventIdRef.current;
+      const url = lastEventId
+        ? `/api/orders/sse?lastEventId=${encodeURIComponent(lastEventId)}`
+        : '/api/orders/sse';
+      const eventSource = new EventSource(url, { withCredentials: true });
       eventSourceRef.current = eventSource;
 
-      eventSource.addEventListener('connected', () => {
+      const listen = (eventName: string, handler?: () => OrderEventHandler | undefined) => {
+        eventSource.addEventListener(eventName, (event) => {
+          const message = event as MessageEvent;
+          if (message.lastEventId) lastEventIdRef.current = message.lastEventId;
+          const data = JSON.parse(message.data);
+          invalidateForEvent(eventName, data);
+          handler?.()?.(data);
+        });
+      };
+
+      eventSource.addEventListener('connected', (event) => {
         reconnectAttempts.current = 0;
+        // First connection: start from the server's current position
+        if (!lastEventIdRef.current) {
+          const data = JSON.parse((event as MessageEvent).data);
+          if (data.lastEventId !== undefined) lastEventIdRef.current = String(data.lastEventId);
+        }
         optionsRef.current.onConnected?.();
       });
 
-      eventSource.addEventListener('order_created', (event) => {
-        const data = JSON.parse(event.data);
-        queryClient.invalidateQueries({ predicate: (query) => {
-          const key = query.queryKey;
-          return Array.isArray(key) && key[0] === '/api/orders';
-        }});
-        optionsRef.current.onOrderCreated?.(data);
-      });
-
-      eventSource.addEventListener('order_status_changed', (event) => {
-        const data = JSON.parse(event.data);
-        queryClient.invalidateQueries({ predicate: (query) => {
-          const key = query.queryKey;
-          return Array.isArray(key) && key[0] === '/api/orders';
-        }});
-        optionsRef.current.onOrderStatusChanged?.(data);
-      });
-
-      eventSource.addEventListener('order_assigned', (event) => {
-        const data = JSON.parse(event.data);
-        queryClient.invalidateQueries({ predicate: (query) => {
-          const key = query.queryKey;
-          return Array.isArray(key) && key[0] === '/api/orders';
-        }});
-        optionsRef.current.onOrderAssigned?.(data);
-      });
+      // Replay was not possible; refetch everything once
+      listen('resync');
+      listen('order_created', () => optionsRef.current.onOrderCreated);
+      listen('order_status_changed', () => optionsRef.current.onOrderStatusChanged);
+      listen('order_assigned', () => optionsRef.current.onOrderAssigned);
+      listen('order_deleted', () => optionsRef.current.onOrderDeleted);
+      listen('order_fee_updated', () => optionsRef.current.onOrderFeeUpdated);
+      listen('order_payment_updated', () => optionsRef.current.onOrderPaymentUpdated);
+      listen('order_items_cancelled', () => optionsRef.current.onOrderItemsCancelled);
 
       eventSource.addEventListener('heartbeat', () => {
       });
@@ -74,7 +117,7 @@ export function useOrderUpdates(options: UseOrderUpdatesOptions = {}) {
         if (reconnectAttempts.current < maxReconnectAttempts) {
           const delay = Math.min(1000 * Math.pow(2, reconnectAttempts.current), 30000);
           reconnectAttempts.current++;
-          
+
           reconnectTimeoutRef.current = setTimeout(() => {
             connect();
           }, delay);
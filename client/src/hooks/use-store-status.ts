@@ -0,0 +1,29 @@
+import { useQuery } from '@tanstack/react-query';
+import type { StoreStatus } from '@shared/opening-hours';
+
+export function whatsappLink(number: string): string {
+  const digits = number.replace(/\D/g, '');
+  return `https://wa.me/${digits.startsWith('55') ? digits : `55${digits}`}`;
+}
+
+export function formatWhatsapp(number: string): string {
+  const digits = number.replace(/\D/g, '');
+  if (digits.length === 11) return `(${digits.slice(0, 2)}) ${digits.slice(2, 7)}-${digits.slice(7)}`;
+  if (digits.length === 10) return `(${digits.slice(0, 2)}) ${digits.slice(2, 6)}-${digits.slice(6)}`;
+  return number;
+}
+
+// Computed on the server from settings, so every screen agrees with what POST /api/orders enforces
+export function useStoreStatus() {
+  const { data: status, isLoading } = useQuery<StoreStatus>({
+    queryKey: ['/api/store-status'],
+    refetchInterval: 60000,
+  });
+
+  return {
+    status,
+    // Until the answer arrives nothing is blocked; the server has the last word anyway
+    isOpen: status?.isOpen ?? true,
+    isLoading,
+  };
+}
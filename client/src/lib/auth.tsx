@@ -1,7 +1,6 @@
 import { createContext, useContext, useState, useEffect, type ReactNode } from 'react';
-import type { User, Address } from '@shared/schema';
-
-type UserRole = 'customer' | 'admin' | 'kitchen' | 'motoboy' | 'pdv';
+import { queryClient } from '@/lib/queryClient';
+import type { User, Address, UserRole } from '@shared/schema';
 
 interface AuthContextType {
   user: User | null;
@@ -17,24 +16,17 @@ interface AuthContextType {
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
-function getStoredValue<T>(key: string): T | null {
-  if (typeof window === 'undefined') return null;
-  try {
-    const saved = localStorage.getItem(key);
-    if (saved) {
-      return JSON.parse(saved) as T;
-    }
-  } catch {
-    // ignore parse errors
-  }
-  return null;
-}
+const API_URL = import.meta.env.VITE_API_URL || "";
 
-function getStoredString(key: string): string | null {
-  if (typeof window === 'undefined') return null;
-  return localStorage.getItem(key);
+interface SessionResponse {
+  user: User | null;
+  role: UserRole | null;
+  address: Address | null;
 }
 
+// Sessions used to live in localStorage; drop any leftovers from older builds
+const LEGACY_STORAGE_KEYS = ['vibe-drinks-user', 'vibe-drinks-address', 'vibe-drinks-role'];
+
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [isHydrated, setIsHydrated] = useState(false);
   const [user, setUser] = useState<User | null>(null);
@@ -42,47 +34,29 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const [role, setRole] = useState<UserRole | null>(null);
 
   useEffect(() => {
-    const storedUser = getStoredValue<User>('vibe-drinks-user');
-    const storedAddress = getStoredValue<Address>('vibe-drinks-address');
-    const storedRole = getStoredString('vibe-drinks-role') as UserRole | null;
-    
-    if (storedUser) setUser(storedUser);
-    if (storedAddress) setAddressState(storedAddress);
-    if (storedRole) setRole(storedRole);
-    
-    setIsHydrated(true);
+    let cancelled = false;
+    LEGACY_STORAGE_KEYS.forEach(key => localStorage.removeItem(key));
+
+    fetch(`${API_URL}/api/auth/me`, { credentials: 'include' })
+      .then(res => (res.ok ? res.json() as Promise<SessionResponse> : null))
+      .then(session => {
+        if (cancelled || !session) return;
+        setUser(session.user);
+        setRole(session.role);
+        setAddressState(session.address);
+      })
+      .catch(() => {
+        // Offline or server down: stay logged out until the next load
+      })
+      .finally(() => {
+        if (!cancelled) setIsHydrated(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
   }, []);
 
-  useEffect(() => {
-    if (!isHydrated) return;
-    
-    if (user) {
-      localStorage.setItem('vibe-drinks-user', JSON.stringify(user));
-    } else {
-      localStorage.removeItem('vibe-drinks-user');
-    }
-  }, [user, isHydrated]);
-
-  useEffect(() => {
-    if (!isHydrated) return;
-    
-    if (address) {
-      localStorage.setItem('vibe-drinks-address', JSON.stringify(address));
-    } else {
-      localStorage.removeItem('vibe-drinks-address');
-    }
-  }, [address, isHydrated]);
-
-  useEffect(() => {
-    if (!isHydrated) return;
-    
-    if (role) {
-      localStorage.setItem('vibe-drinks-role', role);
-    } else {
-      localStorage.removeItem('vibe-drinks-role');
-    }
-  }, [role, isHydrated]);
-
   const login = (userData: User, userRole: UserRole) => {
     setUser(userData);
     setRole(userRole);
@@ -92,6 +66,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     setUser(null);
     setAddressState(null);
     setRole(null);
+    queryClient.clear();
+    fetch(`${API_URL}/api/auth/logout`, { method: 'POST', credentials: 'include' }).catch(() => {});
   };
 
   const setAddress = (addr: Address) => {
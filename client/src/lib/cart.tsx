@@ -1,12 +1,13 @@
 import { createContext, useContext, useState, useEffect, type ReactNode } from 'react';
-import type { Product, CartItem, ComboData } from '@shared/schema';
+import type { Product, ProductVariant, CartItem, ComboData, OrderItemModifier } from '@shared/schema';
+import { modifiersKey, unitPriceWithModifiers } from '@shared/modifiers';
 
 interface CartContextType {
   items: CartItem[];
   combos: ComboData[];
-  addItem: (product: Product, quantity?: number) => void;
-  removeItem: (productId: string) => void;
-  updateQuantity: (productId: string, quantity: number) => void;
+  addItem: (product: Product, quantity?: number, variant?: ProductVariant, modifiers?: OrderItemModifier[]) => void;
+  removeItem: (lineKey: string) => void;
+  updateQuantity: (lineKey: string, quantity: number) => void;
   addCombo: (combo: ComboData) => void;
   removeCombo: (comboId: string) => void;
   clearCart: () => void;
@@ -18,13 +19,39 @@ interface CartContextType {
 
 const CartContext = createContext<CartContextType | undefined>(undefined);
 
+// A loose cart line is one product in one variant with one set of choices
+export function cartLineKey(item: Pick<CartItem, 'productId' | 'variantId' | 'modifiers'>): string {
+  return `${item.productId}:${item.variantId ?? ''}:${modifiersKey(item.modifiers)}`;
+}
+
+// Combo items are managed with their combo, never as loose lines
+function isLine(item: CartItem, lineKey: string): boolean {
+  return !item.isComboItem && cartLineKey(item) === lineKey;
+}
+
+// Combos saved before templates existed have no selections and cannot be priced anymore
+function loadSavedCombos(): ComboData[] {
+  if (typeof window !== 'undefined') {
+    const saved = localStorage.getItem('vibe-drinks-combos');
+    if (saved) {
+      try {
+        return (JSON.parse(saved) as ComboData[]).filter(combo => combo.templateId && Array.isArray(combo.selections));
+      } catch {
+        return [];
+      }
+    }
+  }
+  return [];
+}
+
 export function CartProvider({ children }: { children: ReactNode }) {
   const [items, setItems] = useState<CartItem[]>(() => {
     if (typeof window !== 'undefined') {
       const saved = localStorage.getItem('vibe-drinks-cart');
       if (saved) {
         try {
-          return JSON.parse(saved);
+          const comboIds = new Set(loadSavedCombos().map(combo => combo.id));
+          return (JSON.parse(saved) as CartItem[]).filter(item => !item.comboId || comboIds.has(item.comboId));
         } catch {
           return [];
         }
@@ -33,19 +60,7 @@ export function CartProvider({ children }: { children: ReactNode }) {
     return [];
   });
 
-  const [combos, setCombos] = useState<ComboData[]>(() => {
-    if (typeof window !== 'undefined') {
-      const saved = localStorage.getItem('vibe-drinks-combos');
-      if (saved) {
-        try {
-          return JSON.parse(saved);
-        } catch {
-          return [];
-        }
-      }
-    }
-    return [];
-  });
+  const [combos, setCombos] = useState<ComboData[]>(loadSavedCombos);
 
   useEffect(() => {
     localStorage.setItem('vibe-drinks-cart', JSON.stringify(items));
@@ -55,50 +70,50 @@ export function CartProvider({ children }: { children: ReactNode }) {
     localStorage.setItem('vibe-drinks-combos', JSON.stringify(combos));
   }, [combos]);
 
-  const addItem = (product: Product, quantity = 1) => {
+  const addItem = (product: Product, quantity = 1, variant?: ProductVariant, modifiers: OrderItemModifier[] = []) => {
+    const line: CartItem = { productId: product.id, product, variantId: variant?.id, variant, modifiers, quantity };
+    const lineKey = cartLineKey(line);
     setItems(prev => {
-      const existing = prev.find(item => item.productId === product.id && !item.isComboItem);
+      const existing = prev.find(item => isLine(item, lineKey));
       if (existing) {
         return prev.map(item =>
-          item.productId === product.id && !item.isComboItem
+          isLine(item, lineKey)
             ? { ...item, quantity: item.quantity + quantity }
             : item
         );
       }
-      return [...prev, { productId: product.id, product, quantity }];
+      return [...prev, line];
     });
   };
 
-  const removeItem = (productId: string) => {
-    setItems(prev => prev.filter(item => item.productId !== productId || item.isComboItem));
+  const removeItem = (lineKey: string) => {
+    setItems(prev => prev.filter(item => !isLine(item, lineKey)));
   };
 
-  const updateQuantity = (productId: string, quantity: number) => {
+  const updateQuantity = (lineKey: string, quantity: number) => {
     if (quantity <= 0) {
-      removeItem(productId);
+      removeItem(lineKey);
       return;
     }
     setItems(prev =>
       prev.map(item =>
-        item.productId === productId && !item.isComboItem ? { ...item, quantity } : item
+        isLine(item, lineKey) ? { ...item, quantity } : item
       )
     );
   };
 
   const addCombo = (combo: ComboData) => {
     setCombos(prev => [...prev, combo]);
-    const geloItems = combo.gelos.map(g => ({
-      productId: g.product.id,
-      product: g.product,
-      quantity: g.quantity,
-      isComboItem: true,
-      comboId: combo.id,
-    }));
     setItems(prev => [
       ...prev,
-      { productId: combo.destilado.id, product: combo.destilado, quantity: 1, isComboItem: true, comboId: combo.id },
-      { productId: combo.energetico.id, product: combo.energetico, quantity: combo.energeticoQuantity, isComboItem: true, comboId: combo.id },
-      ...geloItems,
+      ...combo.selections.map(selection => ({
+        productId: selection.product.id,
+        product: selection.product,
+        quantity: selection.quantity,
+        isComboItem: true,
+        comboId: combo.id,
+        comboSlotId: selection.slotId,
+      })),
     ]);
   };
 
@@ -113,7 +128,7 @@ export function CartProvider({ children }: { children: ReactNode }) {
   };
 
   const subtotal = items.reduce(
-    (sum, item) => sum + Number(item.product.salePrice) * item.quantity,
+    (sum, item) => sum + unitPriceWithModifiers(item) * item.quantity,
     0
   );
 
@@ -0,0 +1,55 @@
+import { parseApiError } from "@/lib/queryClient";
+import type { StockShortage } from "@shared/schema";
+
+interface OrderErrorBody {
+  error?: string;
+  code?: string;
+  items?: StockShortage[];
+}
+
+export interface OrderErrorMessage {
+  title: string;
+  description?: string;
+  shortages: StockShortage[];
+}
+
+export function getOrderErrorMessage(error: unknown): OrderErrorMessage {
+  const parsed = parseApiError<OrderErrorBody>(error);
+  const body = parsed?.body;
+
+  if (body?.code === "insufficient_stock" && body.items?.length) {
+    return {
+      title: "Estoque insuficiente",
+      description: body.items
+        .map(item => `${item.productName}: pedido ${item.requested}, disponivel ${item.available}`)
+        .join("; "),
+      shortages: body.items,
+    };
+  }
+
+  if (body?.code === "coupon_unavailable") {
+    return { title: "Cupom indisponivel", description: body.error, shortages: [] };
+  }
+
+  if (body?.code === "store_closed") {
+    return { title: "Estabelecimento fechado", description: body.error, shortages: [] };
+  }
+
+  if (body?.code === "schedule_slot_full") {
+    return { title: "Horario esgotado", description: body.error, shortages: [] };
+  }
+
+  if (body?.code === "cash_session_required") {
+    return { title: "Caixa fechado", description: body.error, shortages: [] };
+  }
+
+  if (body?.code === "age_confirmation_required" || body?.code === "age_verification") {
+    return { title: "Venda proibida para menores", description: body.error, shortages: [] };
+  }
+
+  return {
+    title: "Erro ao criar pedido",
+    description: body?.error,
+    shortages: [],
+  };
+}
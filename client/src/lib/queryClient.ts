@@ -9,22 +9,18 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
-function getAuthHeaders(): Record<string, string> {
-  const headers: Record<string, string> = {};
-  if (typeof window !== 'undefined') {
-    const userStr = localStorage.getItem('vibe-drinks-user');
-    if (userStr) {
-      try {
-        const user = JSON.parse(userStr);
-        if (user?.id) {
-          headers['X-User-Id'] = user.id;
-        }
-      } catch {
-        // Invalid JSON, ignore
-      }
-    }
+// apiRequest errors look like "409: {json}"; recover the status and JSON body
+export function parseApiError<T = { error?: string }>(error: unknown): { status: number; body: T | null } | null {
+  if (!(error instanceof Error)) return null;
+  const match = error.message.match(/^(\d+):\s*([\s\S]*)$/);
+  if (!match) return null;
+  let body: T | null = null;
+  try {
+    body = JSON.parse(match[2]) as T;
+  } catch {
+    // Plain-text error body
   }
-  return headers;
+  return { status: Number(match[1]), body };
 }
 
 export async function apiRequest(
@@ -32,14 +28,10 @@ export async function apiRequest(
   url: string,
   data?: unknown | undefined,
 ): Promise<Response> {
-  const authHeaders = getAuthHeaders();
   const fullUrl = url.startsWith('/') ? `${API_URL}${url}` : url;
   const res = await fetch(fullUrl, {
     method,
-    headers: {
-      ...authHeaders,
-      ...(data ? { "Content-Type": "application/json" } : {}),
-    },
+    headers: data ? { "Content-Type": "application/json" } : {},
     body: data ? JSON.stringify(data) : undefined,
     credentials: "include",
   });
@@ -2,19 +2,6 @@ const supabaseUrl = import.meta.env.VITE_SUPABASE_URL || '';
 
 export const STORAGE_BUCKET = 'images';
 
-function getUserId(): string | null {
-  const saved = localStorage.getItem('vibe-drinks-user');
-  if (saved) {
-    try {
-      const user = JSON.parse(saved);
-      return user.id;
-    } catch {
-      return null;
-    }
-  }
-  return null;
-}
-
 export function getStorageUrl(path: string): string {
   if (!path) return '';
   
@@ -61,21 +48,14 @@ export async function uploadImage(
   file: File,
   folder: string = 'products'
 ): Promise<{ path: string; publicUrl: string }> {
-  const userId = getUserId();
-  if (!userId) {
-    throw new Error('User not authenticated');
-  }
-
   const formData = new FormData();
   formData.append('file', file);
   formData.append('folder', folder);
 
   const response = await fetch('/api/storage/upload', {
     method: 'POST',
-    headers: {
-      'x-user-id': userId,
-    },
     body: formData,
+    credentials: 'include',
   });
 
   if (!response.ok) {
@@ -94,20 +74,15 @@ export async function deleteImage(path: string): Promise<void> {
   if (!path || path.startsWith('http')) {
     return;
   }
-  
-  const userId = getUserId();
-  if (!userId) {
-    return;
-  }
 
   try {
     const response = await fetch('/api/storage/delete', {
       method: 'DELETE',
       headers: {
         'Content-Type': 'application/json',
-        'x-user-id': userId,
       },
       body: JSON.stringify({ path }),
+      credentials: 'include',
     });
 
     if (!response.ok) {
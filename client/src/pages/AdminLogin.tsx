@@ -7,7 +7,7 @@ import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/lib/auth';
-import { apiRequest } from '@/lib/queryClient';
+import { apiRequest, parseApiError } from '@/lib/queryClient';
 import logoImage from '@assets/vibedrinksfinal_1765554834904.gif';
 
 type LoginMode = 'staff' | 'motoboy';
@@ -74,7 +74,8 @@ export default function AdminLogin() {
         toast({ title: 'Credenciais invalidas', variant: 'destructive' });
       }
     } catch (error) {
-      toast({ title: 'Erro ao fazer login', description: 'Verifique suas credenciais', variant: 'destructive' });
+      const apiError = parseApiError(error);
+      toast({ title: 'Erro ao fazer login', description: apiError?.body?.error || 'Verifique suas credenciais', variant: 'destructive' });
     } finally {
       setIsLoading(false);
     }
@@ -111,12 +112,8 @@ export default function AdminLogin() {
       }
     } catch (error: any) {
       let errorMsg = 'Verifique suas credenciais';
-      if (error instanceof Response) {
-        try {
-          const errorData = await error.json();
-          if (errorData?.error) errorMsg = errorData.error;
-        } catch {}
-      }
+      const apiError = parseApiError(error);
+      if (apiError?.body?.error) errorMsg = apiError.body.error;
       toast({ title: 'Erro ao fazer login', description: errorMsg, variant: 'destructive' });
     } finally {
       setIsLoading(false);
@@ -1,10 +1,11 @@
 import { useState, useMemo, useEffect } from 'react';
 import { useLocation } from 'wouter';
-import { MapPin, CreditCard, Banknote, QrCode, Truck, ArrowLeft, Loader2, Copy, Check, Gift, Clock } from 'lucide-react';
+import { MapPin, CreditCard, Banknote, QrCode, Truck, ArrowLeft, Loader2, Copy, Check, Gift, Clock, Ticket, X, CalendarClock, ShieldCheck } from 'lucide-react';
 import { useMutation, useQuery } from '@tanstack/react-query';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Separator } from '@/components/ui/separator';
@@ -12,51 +13,116 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { useToast } from '@/hooks/use-toast';
 import { useCart } from '@/lib/cart';
 import { useAuth } from '@/lib/auth';
-import { apiRequest, queryClient } from '@/lib/queryClient';
-import { isBusinessHoursOpen, BUSINESS_HOURS } from '@/lib/business-hours';
-import type { Settings, PaymentMethod } from '@shared/schema';
+import { apiRequest, queryClient, parseApiError } from '@/lib/queryClient';
+import { getOrderErrorMessage } from '@/lib/order-errors';
+import { useCouponPreview } from '@/hooks/use-coupon';
+import { variantDisplayName } from '@shared/variants';
+import { formatModifierLines, unitPriceWithModifiers } from '@shared/modifiers';
+import { cartLineKey } from '@/lib/cart';
+import { useStoreStatus, whatsappLink, formatWhatsapp } from '@/hooks/use-store-status';
+import { formatScheduledFor, type ScheduleSlot } from '@shared/scheduling';
+import type { Settings, PaymentMethod, Order, OrderPricing, DeliveryQuote, Category } from '@shared/schema';
 import { PAYMENT_METHOD_LABELS } from '@shared/schema';
-import { NEIGHBORHOODS, DELIVERY_ZONES, DELIVERY_FEE_WARNING, type DeliveryZone } from '@shared/delivery-zones';
-import { calculateDeliveryFee, getGroupedNeighborhoods } from '@/lib/delivery-fees';
+import { DELIVERY_FEE_WARNING, matchDeliveryArea } from '@shared/delivery-zones';
+import { useDeliveryAreas } from '@/hooks/use-delivery-areas';
+import { PixQrCode } from '@/components/PixQrCode';
+import { MINIMUM_AGE, isAgeRestricted } from '@shared/age';
 
 export default function Checkout() {
   const [, setLocation] = useLocation();
   const { toast } = useToast();
   const { items, combos, subtotal, comboDiscount, total: cartTotal, clearCart } = useCart();
-  const { user, address, isAuthenticated, isHydrated } = useAuth();
+  const { user, address, isAuthenticated, isHydrated, updateUser } = useAuth();
 
   const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('pix');
   const [needsChange, setNeedsChange] = useState(false);
   const [changeFor, setChangeFor] = useState('');
-  const [pixCopied, setPixCopied] = useState(false);
-  const [selectedNeighborhood, setSelectedNeighborhood] = useState<string>('');
+  // Set once a PIX order is placed: the page turns into its QR code
+  const [pixOrderId, setPixOrderId] = useState<string | null>(null);
+  const [couponInput, setCouponInput] = useState('');
+  const [couponCode, setCouponCode] = useState<string | null>(null);
+  const [deliveryTime, setDeliveryTime] = useState<'now' | 'scheduled'>('now');
+  const [scheduledFor, setScheduledFor] = useState<string | null>(null);
+  const [ageConfirmed, setAgeConfirmed] = useState(false);
+  const [birthDate, setBirthDate] = useState('');
+
+  const { data: categories = [] } = useQuery<Category[]>({
+    queryKey: ['/api/categories'],
+  });
 
   const { data: settings } = useQuery<Settings>({
     queryKey: ['/api/settings'],
   });
 
-  useEffect(() => {
-    if (address?.neighborhood && !selectedNeighborhood) {
-      setSelectedNeighborhood(address.neighborhood);
-    }
-  }, [address]);
+  const { status: storeStatus, isOpen } = useStoreStatus();
 
-  const groupedNeighborhoods = useMemo(() => getGroupedNeighborhoods(), []);
-  const fallbackFee = Number(settings?.minDeliveryFee ?? 20.00);
+  const { data: schedule } = useQuery<{ slotMinutes: number; leadMinutes: number; slots: ScheduleSlot[] }>({
+    queryKey: ['/api/schedule/slots'],
+    refetchInterval: 60000,
+  });
+  const scheduleSlots = schedule?.slots ?? [];
+  const selectedSlot = deliveryTime === 'scheduled' ? scheduleSlots.find(slot => slot.start === scheduledFor && slot.remaining > 0) : undefined;
 
-  const deliveryFeeResult = useMemo(() => {
-    const neighborhoodToUse = selectedNeighborhood || address?.neighborhood || '';
-    return calculateDeliveryFee(neighborhoodToUse, fallbackFee);
-  }, [selectedNeighborhood, address, fallbackFee]);
+  const { areas: deliveryAreas } = useDeliveryAreas();
+  const fallbackFee = Number(settings?.minDeliveryFee ?? 20.00);
 
-  const deliveryFee = deliveryFeeResult.fee;
-  const isUnlistedNeighborhood = deliveryFeeResult.isUnlisted;
-  const zoneInfo = deliveryFeeResult.zoneName ? {
-    name: deliveryFeeResult.zoneName,
-    fee: deliveryFeeResult.fee
+  const localMatch = useMemo(() => matchDeliveryArea(deliveryAreas, {
+    neighborhood: address?.neighborhood || '',
+    zipCode: address?.zipCode,
+  }), [deliveryAreas, address]);
+
+  // The server prices the saved address (maybe by distance); the zone match above only fills in while it answers
+  const deliveryQuoteInput = { addressId: address?.id };
+  const deliveryQuote = useQuery<DeliveryQuote>({
+    queryKey: ['/api/delivery-quote', deliveryQuoteInput],
+    queryFn: async () => {
+      const res = await apiRequest('POST', '/api/delivery-quote', deliveryQuoteInput);
+      return res.json();
+    },
+    enabled: isAuthenticated,
+    retry: false,
+  });
+  const quote = deliveryQuote.data;
+  const deliveryError = deliveryQuote.error ? parseApiError(deliveryQuote.error)?.body?.error ?? 'Nao foi possivel calcular a entrega' : null;
+
+  const deliveryFee = quote?.fee ?? (localMatch ? Number(localMatch.zone.fee) : fallbackFee);
+  const zoneName = quote ? quote.zoneName : localMatch?.zone.name ?? null;
+  const zoneInfo = zoneName ? {
+    name: zoneName,
+    fee: deliveryFee
   } : null;
   
-  const total = cartTotal + deliveryFee;
+  const couponOrder = useMemo(() => ({
+    orderType: 'delivery' as const,
+    addressId: address?.id,
+    items: items.map(item => ({
+      productId: item.productId,
+      variantId: item.variantId,
+      modifiers: item.modifiers,
+      quantity: item.quantity,
+      comboId: item.comboId,
+      comboSlotId: item.comboSlotId,
+    })),
+    combos: combos.map(combo => ({ id: combo.id, templateId: combo.templateId })),
+  }), [address, items, combos]);
+  const coupon = useCouponPreview(couponCode, couponOrder);
+
+  const total = Math.max(0, cartTotal + deliveryFee - coupon.couponDiscount);
+
+  const needsAgeConfirmation = items.some(item => isAgeRestricted(categories.find(c => c.id === item.product.categoryId)));
+  // Accounts created before birth dates were asked for give it once, here
+  const needsBirthDate = needsAgeConfirmation && !user?.birthDate;
+  const ageCheckPending = needsAgeConfirmation && (!ageConfirmed || (needsBirthDate && !birthDate));
+
+  const applyCoupon = () => {
+    const code = couponInput.trim().toUpperCase();
+    setCouponCode(code || null);
+  };
+
+  const removeCoupon = () => {
+    setCouponCode(null);
+    setCouponInput('');
+  };
 
   const createOrderMutation = useMutation({
     mutationFn: async () => {
@@ -65,41 +131,59 @@ export default function Checkout() {
         addressId: address?.id,
         items: items.map(item => ({
           productId: item.productId,
-          productName: item.product.name,
+          variantId: item.variantId,
+          productName: variantDisplayName(item.product, item.variant),
+          modifiers: item.modifiers,
           quantity: item.quantity,
-          unitPrice: item.product.salePrice,
-          totalPrice: Number(item.product.salePrice) * item.quantity,
+          unitPrice: unitPriceWithModifiers(item),
+          totalPrice: unitPriceWithModifiers(item) * item.quantity,
+          comboId: item.comboId,
+          comboSlotId: item.comboSlotId,
         })),
+        combos: combos.map(combo => ({ id: combo.id, templateId: combo.templateId })),
+        // An invalid code is not sent; the order goes through without it
+        couponCode: coupon.pricing?.coupon?.code ?? null,
         subtotal,
         deliveryFee,
         deliveryDistance: 0,
-        discount: comboDiscount,
+        discount: comboDiscount + coupon.couponDiscount,
         total,
         paymentMethod,
         changeFor: paymentMethod === 'cash' && needsChange ? Number(changeFor) : null,
+        scheduledFor: selectedSlot?.start ?? null,
+        ageConfirmed: needsAgeConfirmation && ageConfirmed,
+        birthDate: needsBirthDate ? birthDate : undefined,
       };
-      return apiRequest('POST', '/api/orders', orderData);
+      const res = await apiRequest('POST', '/api/orders', orderData);
+      return res.json() as Promise<Order & { pricing: OrderPricing }>;
     },
-    onSuccess: async () => {
+    onSuccess: async (order) => {
+      if (needsBirthDate) updateUser({ birthDate });
+      if (order.paymentMethod === 'pix') setPixOrderId(order.id);
       clearCart();
       queryClient.invalidateQueries({ queryKey: ['/api/orders'] });
-      toast({ title: 'Pedido realizado!', description: 'Acompanhe o status do seu pedido' });
-      setLocation('/pedidos');
+      queryClient.invalidateQueries({ queryKey: ['/api/products'] });
+      if (order.pricing?.adjusted) {
+        toast({
+          title: 'Pedido realizado com valores atualizados',
+          description: `Total confirmado: ${formatPrice(order.pricing.total)}`,
+        });
+      } else {
+        toast({ title: 'Pedido realizado!', description: 'Acompanhe o status do seu pedido' });
+      }
+      if (order.paymentMethod !== 'pix') setLocation('/pedidos');
     },
-    onError: () => {
-      toast({ title: 'Erro ao criar pedido', variant: 'destructive' });
+    onError: (error) => {
+      const { title, description, shortages } = getOrderErrorMessage(error);
+      if (shortages.length > 0) {
+        queryClient.invalidateQueries({ queryKey: ['/api/products'] });
+      }
+      queryClient.invalidateQueries({ queryKey: ['/api/schedule/slots'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/store-status'] });
+      toast({ title, description, variant: 'destructive' });
     },
   });
 
-  const copyPixKey = () => {
-    if (settings?.pixKey) {
-      navigator.clipboard.writeText(settings.pixKey);
-      setPixCopied(true);
-      setTimeout(() => setPixCopied(false), 2000);
-      toast({ title: 'Chave PIX copiada!' });
-    }
-  };
-
   const formatPrice = (price: number) => {
     return new Intl.NumberFormat('pt-BR', {
       style: 'currency',
@@ -107,7 +191,8 @@ export default function Checkout() {
     }).format(price);
   };
 
-  const isOpen = isBusinessHoursOpen();
+  // While closed, a booked slot is the only way to order
+  const canPlaceOrder = !deliveryError && (deliveryTime === 'scheduled' ? !!selectedSlot : isOpen);
 
   // Redirect to login if not authenticated (wait for hydration)
   useEffect(() => {
@@ -118,10 +203,38 @@ export default function Checkout() {
 
   // Redirect to home if cart is empty
   useEffect(() => {
-    if (items.length === 0) {
+    if (items.length === 0 && !pixOrderId) {
       setLocation('/');
     }
-  }, [items.length, setLocation]);
+  }, [items.length, pixOrderId, setLocation]);
+
+  if (pixOrderId) {
+    return (
+      <div className="min-h-screen bg-background py-8 px-4">
+        <Card className="max-w-md mx-auto bg-card border-primary/20">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-foreground">
+              <QrCode className="h-5 w-5 text-primary" />
+              Pague com PIX
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Pedido recebido! Escaneie o QR Code ou copie o codigo no app do seu banco. O valor ja vem preenchido.
+            </p>
+            <PixQrCode orderId={pixOrderId} />
+            <Button
+              className="w-full bg-primary text-primary-foreground"
+              onClick={() => setLocation('/pedidos')}
+              data-testid="button-go-to-orders"
+            >
+              Acompanhar pedido
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
 
   // Show loading while checking auth
   if (!isAuthenticated || items.length === 0) {
@@ -155,8 +268,13 @@ export default function Checkout() {
                 <Clock className="h-5 w-5 flex-shrink-0" />
                 <div>
                   <p className="font-semibold">Estabelecimento Fechado</p>
-                  <p className="text-sm">Estamos abertos de 14h às 6h da manhã. Voltamos às 14:00!</p>
-                  <p className="text-xs mt-2">Entre em contato: <a href={BUSINESS_HOURS.WHATSAPP_LINK} className="text-green-400 hover:underline" target="_blank" rel="noopener noreferrer">WhatsApp {BUSINESS_HOURS.WHATSAPP}</a></p>
+                  <p className="text-sm">{storeStatus?.message}</p>
+                  {scheduleSlots.length > 0 && (
+                    <p className="text-sm mt-1">Voce ja pode agendar sua entrega abaixo.</p>
+                  )}
+                  {storeStatus && (
+                    <p className="text-xs mt-2">Entre em contato: <a href={whatsappLink(storeStatus.whatsapp)} className="text-green-400 hover:underline" target="_blank" rel="noopener noreferrer">WhatsApp {formatWhatsapp(storeStatus.whatsapp)}</a></p>
+                  )}
                 </div>
               </div>
             </CardContent>
@@ -191,45 +309,10 @@ export default function Checkout() {
                       )}
                     </>
                   ) : (
-                    <p className="text-muted-foreground text-sm mt-1">Endereço não preenchido. Preencha seu bairro abaixo.</p>
+                    <p className="text-muted-foreground text-sm mt-1">Endereço não preenchido. Cadastre seu endereço no perfil para receber o pedido.</p>
                   )}
                 </div>
                 
-                <div className="mt-4">
-                  <Label className="text-foreground text-sm mb-2 block">
-                    Confirmar bairro para calculo da taxa
-                  </Label>
-                  <Select
-                    value={selectedNeighborhood}
-                    onValueChange={setSelectedNeighborhood}
-                  >
-                    <SelectTrigger 
-                      className="bg-secondary border-primary/30"
-                      data-testid="select-neighborhood-checkout"
-                    >
-                      <SelectValue placeholder={address?.neighborhood || "Selecione seu bairro"} />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {groupedNeighborhoods.map(({ zone, zoneInfo, neighborhoods }) => (
-                        <div key={zone}>
-                          <div className="px-2 py-1.5 text-xs font-semibold text-muted-foreground bg-secondary/50">
-                            {zoneInfo.name} - {formatPrice(zoneInfo.fee)}
-                          </div>
-                          {neighborhoods.map((n) => (
-                            <SelectItem 
-                              key={n.name} 
-                              value={n.name}
-                              data-testid={`option-neighborhood-${n.name}`}
-                            >
-                              {n.name}
-                            </SelectItem>
-                          ))}
-                        </div>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                </div>
-
                 {zoneInfo && (
                   <div className="mt-3 p-2 bg-primary/10 rounded-lg">
                     <p className="text-primary text-sm font-medium" data-testid="text-zone-info">
@@ -238,18 +321,116 @@ export default function Checkout() {
                   </div>
                 )}
 
-                {isUnlistedNeighborhood && (
-                  <div className="mt-3 p-2 bg-yellow/10 rounded-lg">
-                    <p className="text-muted-foreground text-sm" data-testid="text-unlisted-warning">
-                      Bairro nao cadastrado - taxa maxima aplicada
+                {quote?.source === 'distance' && quote.distanceKm !== null && (
+                  <div className="mt-3 p-2 bg-primary/10 rounded-lg">
+                    <p className="text-primary text-sm font-medium" data-testid="text-delivery-distance">
+                      Distancia: {quote.distanceKm.toFixed(1)} km - Taxa: {formatPrice(quote.fee)}
                     </p>
                   </div>
                 )}
-                
+
+                {deliveryError && (
+                  <div className="mt-3 p-2 bg-red-500/10 rounded-lg">
+                    <p className="text-red-400 text-sm" data-testid="text-delivery-error">{deliveryError}</p>
+                  </div>
+                )}
+
                 <p className="text-xs text-muted-foreground mt-3">{DELIVERY_FEE_WARNING}</p>
               </CardContent>
             </Card>
 
+            {scheduleSlots.length > 0 && (
+              <Card className="bg-card border-primary/20">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2 text-foreground">
+                    <CalendarClock className="h-5 w-5 text-primary" />
+                    Quando entregar?
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  <RadioGroup
+                    value={deliveryTime}
+                    onValueChange={(value) => setDeliveryTime(value as 'now' | 'scheduled')}
+                    className="grid grid-cols-2 gap-3"
+                  >
+                    <Label
+                      htmlFor="delivery-now"
+                      className={`flex items-center gap-3 p-4 rounded-lg border cursor-pointer ${
+                        deliveryTime === 'now' ? 'border-primary bg-primary/10' : 'border-primary/20 bg-secondary/30'
+                      } ${!isOpen ? 'opacity-50' : ''}`}
+                    >
+                      <RadioGroupItem value="now" id="delivery-now" className="border-primary" disabled={!isOpen} />
+                      O quanto antes
+                    </Label>
+                    <Label
+                      htmlFor="delivery-scheduled"
+                      className={`flex items-center gap-3 p-4 rounded-lg border cursor-pointer ${
+                        deliveryTime === 'scheduled' ? 'border-primary bg-primary/10' : 'border-primary/20 bg-secondary/30'
+                      }`}
+                    >
+                      <RadioGroupItem value="scheduled" id="delivery-scheduled" className="border-primary" />
+                      Agendar
+                    </Label>
+                  </RadioGroup>
+
+                  {deliveryTime === 'scheduled' && (
+                    <Select value={scheduledFor ?? ''} onValueChange={setScheduledFor}>
+                      <SelectTrigger className="bg-secondary border-primary/30" data-testid="select-scheduled-for">
+                        <SelectValue placeholder="Escolha o horario" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {scheduleSlots.map(slot => (
+                          <SelectItem key={slot.start} value={slot.start} disabled={slot.remaining === 0}>
+                            {formatScheduledFor(slot.start)}{slot.remaining === 0 ? ' - esgotado' : ''}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+
+            {needsAgeConfirmation && (
+              <Card className="bg-card border-primary/20">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2 text-foreground">
+                    <ShieldCheck className="h-5 w-5 text-primary" />
+                    Maiores de {MINIMUM_AGE} anos
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {needsBirthDate && (
+                    <div className="space-y-2">
+                      <Label htmlFor="checkout-birth-date" className="text-foreground">Data de nascimento</Label>
+                      <Input
+                        id="checkout-birth-date"
+                        type="date"
+                        value={birthDate}
+                        onChange={(e) => setBirthDate(e.target.value)}
+                        className="bg-secondary border-primary/30"
+                        data-testid="input-checkout-birth-date"
+                      />
+                    </div>
+                  )}
+                  <label className="flex items-start gap-3 cursor-pointer">
+                    <Checkbox
+                      checked={ageConfirmed}
+                      onCheckedChange={(checked) => setAgeConfirmed(checked === true)}
+                      className="mt-0.5"
+                      data-testid="checkbox-age-confirmed"
+                    />
+                    <span className="text-sm text-foreground">
+                      Confirmo que tenho {MINIMUM_AGE} anos ou mais
+                      <span className="block text-xs text-muted-foreground">
+                        O entregador vai pedir um documento com foto; sem ele, o pedido com bebida alcoolica nao e entregue.
+                      </span>
+                    </span>
+                  </label>
+                </CardContent>
+              </Card>
+            )}
+
             <Card className="bg-card border-primary/20">
               <CardHeader>
                 <CardTitle className="flex items-center gap-2 text-foreground">
@@ -341,9 +522,9 @@ export default function Checkout() {
                         <QrCode className="h-5 w-5 text-amber-500" />
                       </div>
                       <div>
-                        <p className="font-medium text-amber-400 mb-1">Pagamento PIX na Entrega</p>
+                        <p className="font-medium text-amber-400 mb-1">QR Code PIX com o valor do pedido</p>
                         <p className="text-sm text-muted-foreground">
-                          O motoboy ira realizar a cobranca via QR Code na maquininha no momento da entrega.
+                          Ao confirmar, mostramos o QR Code e o codigo copia e cola com o total exato. Ele tambem fica em Meus Pedidos.
                         </p>
                         <p className="text-xs text-amber-500/80 mt-2">
                           Tenha o app do seu banco pronto para escanear o QR Code.
@@ -364,12 +545,15 @@ export default function Checkout() {
               <CardContent className="space-y-4">
                 <div className="space-y-2 max-h-48 overflow-y-auto">
                   {items.map((item) => (
-                    <div key={item.productId} className="flex justify-between text-sm">
+                    <div key={`${cartLineKey(item)}:${item.comboId ?? ''}`} className="flex justify-between text-sm">
                       <span className="text-muted-foreground">
-                        {item.quantity}x {item.product.name}
+                        {item.quantity}x {variantDisplayName(item.product, item.variant)}
+                        {formatModifierLines(item.modifiers).map(line => (
+                          <span key={line} className="block text-xs pl-4">{line}</span>
+                        ))}
                       </span>
                       <span className="text-foreground">
-                        {formatPrice(Number(item.product.salePrice) * item.quantity)}
+                        {formatPrice(unitPriceWithModifiers(item) * item.quantity)}
                       </span>
                     </div>
                   ))}
@@ -377,6 +561,48 @@ export default function Checkout() {
 
                 <Separator className="bg-primary/20" />
 
+                <div className="space-y-2">
+                  <Label htmlFor="coupon" className="text-muted-foreground flex items-center gap-1">
+                    <Ticket className="h-3 w-3" />
+                    Cupom de desconto
+                  </Label>
+                  {couponCode && coupon.pricing?.coupon ? (
+                    <div className="flex items-center justify-between bg-green-500/10 border border-green-500/30 rounded-md px-3 py-2">
+                      <span className="text-green-500 font-medium text-sm" data-testid="text-coupon-applied">
+                        {coupon.pricing.coupon.code}
+                      </span>
+                      <Button variant="ghost" size="icon" className="h-6 w-6" onClick={removeCoupon} data-testid="button-remove-coupon">
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ) : (
+                    <div className="flex gap-2">
+                      <Input
+                        id="coupon"
+                        placeholder="Codigo"
+                        value={couponInput}
+                        onChange={(e) => setCouponInput(e.target.value.toUpperCase())}
+                        onKeyDown={(e) => e.key === 'Enter' && applyCoupon()}
+                        className="bg-secondary border-primary/30 uppercase"
+                        data-testid="input-coupon"
+                      />
+                      <Button
+                        variant="outline"
+                        onClick={applyCoupon}
+                        disabled={!couponInput.trim() || coupon.isChecking}
+                        data-testid="button-apply-coupon"
+                      >
+                        {coupon.isChecking ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Aplicar'}
+                      </Button>
+                    </div>
+                  )}
+                  {coupon.error && (
+                    <p className="text-xs text-red-400" data-testid="text-coupon-error">{coupon.error}</p>
+                  )}
+                </div>
+
+                <Separator className="bg-primary/20" />
+
                 <div className="space-y-2">
                   <div className="flex justify-between text-sm">
                     <span className="text-muted-foreground">Subtotal</span>
@@ -387,7 +613,7 @@ export default function Checkout() {
                     <div className="flex justify-between text-sm">
                       <span className="text-green-500 flex items-center gap-1">
                         <Gift className="h-3 w-3" />
-                        Desconto Combo (5%)
+                        Desconto Combo
                       </span>
                       <span className="text-green-500" data-testid="text-combo-discount">
                         - {formatPrice(comboDiscount)}
@@ -404,6 +630,18 @@ export default function Checkout() {
                       {formatPrice(deliveryFee)}
                     </span>
                   </div>
+
+                  {coupon.couponDiscount > 0 && (
+                    <div className="flex justify-between text-sm">
+                      <span className="text-green-500 flex items-center gap-1">
+                        <Ticket className="h-3 w-3" />
+                        Cupom {coupon.pricing?.coupon?.code}
+                      </span>
+                      <span className="text-green-500" data-testid="text-coupon-discount">
+                        - {formatPrice(coupon.couponDiscount)}
+                      </span>
+                    </div>
+                  )}
                 </div>
 
                 <Separator className="bg-primary/20" />
@@ -418,11 +656,17 @@ export default function Checkout() {
                 <Button
                   className="w-full bg-primary text-primary-foreground font-semibold py-6"
                   onClick={() => createOrderMutation.mutate()}
-                  disabled={createOrderMutation.isPending || !isOpen}
+                  disabled={createOrderMutation.isPending || !canPlaceOrder || ageCheckPending}
                   data-testid="button-place-order"
                 >
-                  {!isOpen ? (
+                  {deliveryError ? (
+                    'Entrega indisponivel'
+                  ) : deliveryTime === 'scheduled' && !selectedSlot ? (
+                    'Escolha o horario'
+                  ) : !canPlaceOrder ? (
                     'Estabelecimento Fechado'
+                  ) : ageCheckPending ? (
+                    'Confirme sua idade'
                   ) : createOrderMutation.isPending ? (
                     <Loader2 className="h-5 w-5 animate-spin" />
                   ) : (
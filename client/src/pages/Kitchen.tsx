@@ -11,8 +11,11 @@ import { useNotificationSound } from '@/hooks/use-notification-sound';
 import { useAuth } from '@/lib/auth';
 import { apiRequest, queryClient } from '@/lib/queryClient';
 import { ExpandableOrderCard } from '@/components/ExpandableOrderCard';
-import type { Order, OrderItem, Product } from '@shared/schema';
-import { ORDER_TYPE_LABELS, type OrderStatus, type OrderType, PREPARED_CATEGORIES, isPreparedCategoryName } from '@shared/schema';
+import { IdCheckDialog, needsIdCheck } from '@/components/IdCheckDialog';
+import type { Order, OrderItem, Product, PreparationIngredient, Settings } from '@shared/schema';
+import { ORDER_TYPE_LABELS, type OrderStatus, type OrderType } from '@shared/schema';
+import { isReleasedToKitchen, scheduleConfig } from '@shared/scheduling';
+import { isHeldForPayment } from '@shared/payments';
 import { useEffect, useState } from 'react';
 import {
   Dialog,
@@ -53,6 +56,14 @@ export default function Kitchen() {
   const [ingredientSearch, setIngredientSearch] = useState("");
   const [selectedOrderForIngredients, setSelectedOrderForIngredients] = useState<{ orderId: string; itemId: string; categoryName: string } | null>(null);
   const [selectedIngredients, setSelectedIngredients] = useState<SelectedIngredient[]>([]);
+  const [now, setNow] = useState(() => new Date());
+  const [idCheckOrder, setIdCheckOrder] = useState<OrderWithItems | null>(null);
+
+  // Scheduled orders show up on their own once the lead time is reached
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 30000);
+    return () => clearInterval(timer);
+  }, []);
 
   useOrderUpdates({
     onConnected: () => setIsSSEConnected(true),
@@ -61,6 +72,12 @@ export default function Kitchen() {
       playMultiple(3);
       toast({ title: 'Novo pedido recebido!' });
     },
+    onOrderPaymentUpdated: (data) => {
+      if (data.paymentStatus === 'paid' && settings?.holdUnpaidPrepaidOrders) {
+        playOnce();
+        toast({ title: 'Pagamento confirmado', description: 'Pedido liberado para producao' });
+      }
+    },
     onOrderStatusChanged: (data) => {
       if (data.status === 'accepted') {
         playOnce();
@@ -79,6 +96,12 @@ export default function Kitchen() {
     enabled: isAuthorized,
   });
 
+  const { data: settings } = useQuery<Settings>({
+    queryKey: ['/api/settings'],
+    enabled: isAuthorized,
+  });
+  const { leadMinutes } = scheduleConfig(settings);
+
   const { data: users = [] } = useQuery<{ id: string; name: string; whatsapp: string }[]>({
     queryKey: ['/api/users'],
     enabled: isAuthorized,
@@ -122,15 +145,16 @@ export default function Kitchen() {
       // Show all orders (delivery and counter/PDV) while in kitchen processing
       // Statuses: accepted, preparing, ready - after these they go to their respective tabs
       const activeStatuses = ['accepted', 'preparing', 'ready'];
-      return activeStatuses.includes(order.status);
+      return activeStatuses.includes(order.status) && isReleasedToKitchen(order, leadMinutes, now);
     });
 
   const updateStatusMutation = useMutation({
-    mutationFn: async ({ orderId, status }: { orderId: string; status: OrderStatus }) => {
-      return apiRequest('PATCH', `/api/orders/${orderId}/status`, { status });
+    mutationFn: async ({ orderId, status, idChecked }: { orderId: string; status: OrderStatus; idChecked?: boolean }) => {
+      return apiRequest('PATCH', `/api/orders/${orderId}/status`, { status, idChecked });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/orders'] });
+      setIdCheckOrder(null);
       toast({ title: 'Status atualizado!' });
     },
     onError: (error: any) => {
@@ -149,12 +173,36 @@ export default function Kitchen() {
     },
   });
 
+  const ingredientsKey = ['/api/orders', selectedOrderForIngredients?.orderId, 'items', selectedOrderForIngredients?.itemId, 'ingredients'];
+
+  // What is already on the item: the recipe lines written when production started, plus extras
+  const { data: usedIngredients = [] } = useQuery<(PreparationIngredient & { ingredientProduct?: Product })[]>({
+    queryKey: ingredientsKey,
+    enabled: !!selectedOrderForIngredients,
+  });
+
+  const removeIngredientMutation = useMutation({
+    mutationFn: async (ingredientId: string) => {
+      const { orderId, itemId } = selectedOrderForIngredients!;
+      return apiRequest('DELETE', `/api/orders/${orderId}/items/${itemId}/ingredients/${ingredientId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ingredientsKey });
+      queryClient.invalidateQueries({ queryKey: ['/api/products'] });
+      toast({ title: 'Ingrediente removido, estoque devolvido' });
+    },
+    onError: () => {
+      toast({ title: 'Erro ao remover ingrediente', variant: 'destructive' });
+    },
+  });
+
   const addIngredientMutation = useMutation({
     mutationFn: async ({ orderId, itemId, ingredientProductId, quantity, shouldDeductStock }: { orderId: string; itemId: string; ingredientProductId: string; quantity: number; shouldDeductStock: boolean }) => {
       return apiRequest('POST', `/api/orders/${orderId}/items/${itemId}/ingredients`, { ingredientProductId, quantity, shouldDeductStock });
     },
-    onSuccess: () => {
+    onSuccess: (_data, { orderId, itemId }) => {
       queryClient.invalidateQueries({ queryKey: ['/api/products'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/orders', orderId, 'items', itemId, 'ingredients'] });
       toast({ title: 'Ingrediente adicionado!' });
     },
     onError: () => {
@@ -191,20 +239,36 @@ export default function Kitchen() {
     window.open(`https://wa.me/${formattedPhone}`, '_blank');
   };
 
+  const adjustIngredientsButton = (order: OrderWithItems) => (
+    <Button
+      variant="outline"
+      className="w-full"
+      onClick={() => {
+        const item = order.items?.[0];
+        if (item) setSelectedOrderForIngredients({ orderId: order.id, itemId: item.id, categoryName: "" });
+      }}
+      disabled={!order.items?.length}
+      data-testid={`button-ingredients-${order.id}`}
+    >
+      Ajustar ingredientes
+    </Button>
+  );
+
+  // Starting production takes the recipes out of stock on the server
   const renderOrderActions = (order: OrderWithItems, status: string) => {
+    if (status === 'accepted' && isHeldForPayment(order, settings)) {
+      return (
+        <div className="text-xs text-amber-400 bg-amber-500/10 p-2 rounded border border-amber-500/20" data-testid={`text-payment-hold-${order.id}`}>
+          Aguardando confirmacao do pagamento PIX
+        </div>
+      );
+    }
     if (status === 'accepted') {
       return (
         <div className="flex flex-col gap-2">
           <Button
             className="w-full bg-primary text-primary-foreground py-4 text-base font-semibold"
-            onClick={() => {
-              const item = order.items?.[0];
-              if (item && selectedOrderForIngredients?.itemId !== item.id) {
-                setSelectedOrderForIngredients({ orderId: order.id, itemId: item.id, categoryName: "" });
-              } else {
-                updateStatusMutation.mutate({ orderId: order.id, status: 'preparing' });
-              }
-            }}
+            onClick={() => updateStatusMutation.mutate({ orderId: order.id, status: 'preparing' })}
             disabled={updateStatusMutation.isPending}
             data-testid={`button-start-${order.id}`}
           >
@@ -216,15 +280,18 @@ export default function Kitchen() {
     }
     if (status === 'preparing') {
       return (
-        <Button
-          className="w-full bg-green-600 text-white py-4 text-base font-semibold"
-          onClick={() => updateStatusMutation.mutate({ orderId: order.id, status: 'ready' })}
-          disabled={updateStatusMutation.isPending}
-          data-testid={`button-ready-${order.id}`}
-        >
-          <Package className="h-5 w-5 mr-2" />
-          Pedido Pronto
-        </Button>
+        <div className="flex flex-col gap-2">
+          <Button
+            className="w-full bg-green-600 text-white py-4 text-base font-semibold"
+            onClick={() => updateStatusMutation.mutate({ orderId: order.id, status: 'ready' })}
+            disabled={updateStatusMutation.isPending}
+            data-testid={`button-ready-${order.id}`}
+          >
+            <Package className="h-5 w-5 mr-2" />
+            Pedido Pronto
+          </Button>
+          {adjustIngredientsButton(order)}
+        </div>
       );
     }
     if (status === 'ready') {
@@ -239,7 +306,9 @@ export default function Kitchen() {
       return (
         <Button
           className="w-full bg-cyan-600 text-white py-4 text-base font-semibold"
-          onClick={() => updateStatusMutation.mutate({ orderId: order.id, status: 'delivered' })}
+          onClick={() => needsIdCheck(order)
+            ? setIdCheckOrder(order)
+            : updateStatusMutation.mutate({ orderId: order.id, status: 'delivered' })}
           disabled={updateStatusMutation.isPending}
           data-testid={`button-pickup-${order.id}`}
         >
@@ -261,6 +330,8 @@ export default function Kitchen() {
       .map((c: { id: string; name: string }) => c.id)
   );
 
+  const selectedOrderItems = orderItems.filter(item => item.orderId === selectedOrderForIngredients?.orderId);
+
   const ingredientsToShow = allProducts.filter(p => {
     const isFromAllowedCategory = allowedCategoryIds.has(p.categoryId);
     const matchesSearch = ingredientSearch === "" || p.name.toLowerCase().includes(ingredientSearch.toLowerCase());
@@ -280,9 +351,54 @@ export default function Kitchen() {
       }}>
         <DialogContent className="max-w-2xl max-h-[85vh] flex flex-col">
           <DialogHeader>
-            <DialogTitle>Selecione Ingredientes Usados</DialogTitle>
+            <DialogTitle>Ingredientes Usados</DialogTitle>
           </DialogHeader>
           <div className="flex flex-col gap-4 flex-1 overflow-hidden">
+            {selectedOrderItems.length > 1 && (
+              <div className="flex flex-wrap gap-2">
+                {selectedOrderItems.map(item => (
+                  <Button
+                    key={item.id}
+                    size="sm"
+                    variant={item.id === selectedOrderForIngredients?.itemId ? 'default' : 'outline'}
+                    onClick={() => {
+                      setSelectedOrderForIngredients(prev => prev && { ...prev, itemId: item.id });
+                      setSelectedIngredients([]);
+                    }}
+                    data-testid={`button-ingredients-item-${item.id}`}
+                  >
+                    {item.quantity}x {item.productName}
+                  </Button>
+                ))}
+              </div>
+            )}
+
+            {usedIngredients.length > 0 && (
+              <div className="space-y-1">
+                <p className="text-sm font-medium">Ja lancados:</p>
+                {usedIngredients.map(ing => (
+                  <div key={ing.id} className="flex items-center justify-between gap-2 text-sm border rounded-md px-2 py-1">
+                    <span className="flex-1 truncate">
+                      {ing.quantity}x {ing.ingredientProduct?.name || 'Produto desconhecido'}
+                    </span>
+                    <Badge variant={ing.source === 'recipe' ? 'secondary' : 'outline'} className="text-xs">
+                      {ing.source === 'recipe' ? 'Receita' : 'Manual'}
+                    </Badge>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 w-6 p-0"
+                      onClick={() => removeIngredientMutation.mutate(ing.id)}
+                      disabled={removeIngredientMutation.isPending}
+                      data-testid={`button-remove-used-ingredient-${ing.id}`}
+                    >
+                      <X className="h-3 w-3" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+
             <Input
               placeholder="Procurar ingrediente (cerveja, ice, etc)..."
               value={ingredientSearch}
@@ -390,20 +506,15 @@ export default function Kitchen() {
                       shouldDeductStock: ing.shouldDeductStock
                     });
                   });
-                  setSelectedOrderForIngredients(null);
-                  setSelectedIngredients([]);
-                  setIngredientSearch("");
-                } else if (selectedOrderForIngredients) {
-                  updateStatusMutation.mutate({ orderId: selectedOrderForIngredients.orderId, status: 'preparing' });
-                  setSelectedOrderForIngredients(null);
-                  setSelectedIngredients([]);
-                  setIngredientSearch("");
                 }
+                setSelectedOrderForIngredients(null);
+                setSelectedIngredients([]);
+                setIngredientSearch("");
               }}
               disabled={addIngredientMutation.isPending}
               data-testid="button-confirm-ingredients"
             >
-              {selectedIngredients.length > 0 ? `Confirmar ${selectedIngredients.length} ingrediente(s)` : "Continuar sem ingredientes"}
+              {selectedIngredients.length > 0 ? `Adicionar ${selectedIngredients.length} ingrediente(s)` : "Fechar"}
             </Button>
           </div>
         </DialogContent>
@@ -547,6 +658,17 @@ export default function Kitchen() {
           </div>
         )}
       </main>
+
+      <IdCheckDialog
+        order={idCheckOrder}
+        isConfirming={updateStatusMutation.isPending}
+        onConfirm={() => idCheckOrder && updateStatusMutation.mutate({ orderId: idCheckOrder.id, status: 'delivered', idChecked: true })}
+        onRefused={() => {
+          setIdCheckOrder(null);
+          queryClient.invalidateQueries({ queryKey: ['/api/orders'] });
+        }}
+        onClose={() => setIdCheckOrder(null)}
+      />
     </div>
   );
 }
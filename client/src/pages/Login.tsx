@@ -1,6 +1,6 @@
 import { useState, useMemo } from 'react';
 import { useLocation, Link } from 'wouter';
-import { Phone, User, MapPin, ArrowRight, Loader2, Lock, ArrowLeft, CheckCircle2 } from 'lucide-react';
+import { Phone, User, MapPin, ArrowRight, Loader2, Lock, ArrowLeft, CheckCircle2, KeyRound, CalendarDays } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -11,11 +11,14 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/lib/auth';
-import { apiRequest } from '@/lib/queryClient';
+import { apiRequest, parseApiError } from '@/lib/queryClient';
 import logoImage from '@assets/vibedrinksfinal_1765554834904.gif';
-import { NEIGHBORHOODS, DELIVERY_ZONES, DELIVERY_FEE_WARNING, type DeliveryZone as DeliveryZoneType } from '@shared/delivery-zones';
+import { DELIVERY_FEE_WARNING } from '@shared/delivery-zones';
+import { MINIMUM_AGE, isAdult } from '@shared/age';
+import { useDeliveryAreas, OTHER_NEIGHBORHOOD } from '@/hooks/use-delivery-areas';
 
 type Step = 'phone' | 'password' | 'register';
+type VerificationPurpose = 'register' | 'password_reset';
 
 export default function Login() {
   const [, setLocation] = useLocation();
@@ -29,14 +32,22 @@ export default function Login() {
   const [whatsapp, setWhatsapp] = useState('');
   const [password, setPassword] = useState('');
   const [name, setName] = useState('');
+  const [birthDate, setBirthDate] = useState('');
   const [street, setStreet] = useState('');
   const [number, setNumber] = useState('');
   const [complement, setComplement] = useState('');
   const [selectedNeighborhood, setSelectedNeighborhood] = useState('');
+  const [otherNeighborhood, setOtherNeighborhood] = useState('');
+  const [zipCode, setZipCode] = useState('');
   const [notes, setNotes] = useState('');
 
+  const [verificationCode, setVerificationCode] = useState('');
+  const [codeSentFor, setCodeSentFor] = useState<VerificationPurpose | null>(null);
+  const [sendingCode, setSendingCode] = useState(false);
+
   const [showForgotPasswordDialog, setShowForgotPasswordDialog] = useState(false);
   const [forgotPasswordLoading, setForgotPasswordLoading] = useState(false);
+  const [resetLoading, setResetLoading] = useState(false);
   
   const [showChangePasswordDialog, setShowChangePasswordDialog] = useState(false);
   const [changePasswordLoading, setChangePasswordLoading] = useState(false);
@@ -44,22 +55,14 @@ export default function Login() {
   const [confirmPassword, setConfirmPassword] = useState('');
   const [pendingLoginData, setPendingLoginData] = useState<{ user: any; address: any } | null>(null);
 
-  const groupedNeighborhoods = useMemo(() => {
-    const zones: DeliveryZoneType[] = ['S', 'A', 'B', 'C', 'D'];
-    return zones.map(zone => ({
-      zone,
-      zoneInfo: DELIVERY_ZONES[zone],
-      neighborhoods: NEIGHBORHOODS.filter(n => n.zone === zone)
-    }));
-  }, []);
+  const { areas: deliveryAreas } = useDeliveryAreas();
 
   const selectedNeighborhoodFee = useMemo(() => {
-    const found = NEIGHBORHOODS.find(n => n.name === selectedNeighborhood);
-    if (found) {
-      return DELIVERY_ZONES[found.zone].fee;
-    }
-    return null;
-  }, [selectedNeighborhood]);
+    const area = deliveryAreas.find(a => a.neighborhoods.some(n => n.name === selectedNeighborhood));
+    return area ? Number(area.zone.fee) : null;
+  }, [deliveryAreas, selectedNeighborhood]);
+
+  const neighborhoodToSave = selectedNeighborhood === OTHER_NEIGHBORHOOD ? otherNeighborhood.trim() : selectedNeighborhood;
 
   const formatPhone = (value: string) => {
     const numbers = value.replace(/\D/g, '').slice(0, 11);
@@ -88,6 +91,28 @@ export default function Login() {
     setConfirmPassword(value);
   };
 
+  const handleCodeChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setVerificationCode(e.target.value.replace(/\D/g, '').slice(0, 6));
+  };
+
+  const handleSendCode = async (purpose: VerificationPurpose) => {
+    setSendingCode(true);
+    try {
+      const cleanPhone = whatsapp.replace(/\D/g, '');
+      await apiRequest('POST', '/api/auth/verification-code', { whatsapp: cleanPhone, purpose });
+      setCodeSentFor(purpose);
+      setVerificationCode('');
+      toast({ title: 'Codigo enviado!', description: 'Confira a mensagem que enviamos no seu WhatsApp.' });
+    } catch (error: any) {
+      let errorMsg = 'Tente novamente';
+      const apiError = parseApiError(error);
+      if (apiError?.body?.error) errorMsg = apiError.body.error;
+      toast({ title: 'Erro ao enviar codigo', description: errorMsg, variant: 'destructive' });
+    } finally {
+      setSendingCode(false);
+    }
+  };
+
   const handleCheckPhone = async () => {
     const cleanPhone = whatsapp.replace(/\D/g, '');
     if (cleanPhone.length !== 11) {
@@ -158,12 +183,8 @@ export default function Login() {
       }
     } catch (error: any) {
       let errorMsg = 'Verifique sua senha e tente novamente';
-      if (error instanceof Response) {
-        try {
-          const errorData = await error.json();
-          if (errorData?.error) errorMsg = errorData.error;
-        } catch {}
-      }
+      const apiError = parseApiError(error);
+      if (apiError?.body?.error) errorMsg = apiError.body.error;
       toast({ 
         title: 'Erro ao entrar', 
         description: errorMsg, 
@@ -174,6 +195,41 @@ export default function Login() {
     }
   };
 
+  const closeForgotPasswordDialog = () => {
+    setShowForgotPasswordDialog(false);
+    setCodeSentFor(null);
+    setVerificationCode('');
+    setNewPassword('');
+    setConfirmPassword('');
+  };
+
+  const handleResetPassword = async () => {
+    if (newPassword !== confirmPassword) {
+      toast({ title: 'Senhas nao conferem', description: 'Digite a mesma senha nos dois campos', variant: 'destructive' });
+      return;
+    }
+
+    setResetLoading(true);
+    try {
+      const cleanPhone = whatsapp.replace(/\D/g, '');
+      await apiRequest('POST', '/api/auth/reset-password', {
+        whatsapp: cleanPhone,
+        code: verificationCode,
+        newPassword
+      });
+      closeForgotPasswordDialog();
+      setPassword('');
+      toast({ title: 'Senha redefinida!', description: 'Entre com sua nova senha.' });
+    } catch (error: any) {
+      let errorMsg = 'Tente novamente';
+      const apiError = parseApiError(error);
+      if (apiError?.body?.error) errorMsg = apiError.body.error;
+      toast({ title: 'Erro ao redefinir senha', description: errorMsg, variant: 'destructive' });
+    } finally {
+      setResetLoading(false);
+    }
+  };
+
   const handleForgotPassword = async () => {
     setForgotPasswordLoading(true);
     try {
@@ -182,7 +238,7 @@ export default function Login() {
       const data = await response.json();
       
       if (data.success) {
-        setShowForgotPasswordDialog(false);
+        closeForgotPasswordDialog();
         toast({ 
           title: 'Solicitacao enviada!', 
           description: 'O administrador entrara em contato pelo WhatsApp com sua nova senha temporaria.'
@@ -194,12 +250,8 @@ export default function Login() {
       }
     } catch (error: any) {
       let errorMsg = 'Tente novamente mais tarde';
-      if (error instanceof Response) {
-        try {
-          const errorData = await error.json();
-          if (errorData?.error) errorMsg = errorData.error;
-        } catch {}
-      }
+      const apiError = parseApiError(error);
+      if (apiError?.body?.error) errorMsg = apiError.body.error;
       toast({ title: 'Erro', description: errorMsg, variant: 'destructive' });
     } finally {
       setForgotPasswordLoading(false);
@@ -219,7 +271,6 @@ export default function Login() {
     setChangePasswordLoading(true);
     try {
       const response = await apiRequest('POST', '/api/auth/change-password', {
-        userId: pendingLoginData?.user?.id,
         newPassword
       });
       const data = await response.json();
@@ -240,12 +291,8 @@ export default function Login() {
       }
     } catch (error: any) {
       let errorMsg = 'Tente novamente';
-      if (error instanceof Response) {
-        try {
-          const errorData = await error.json();
-          if (errorData?.error) errorMsg = errorData.error;
-        } catch {}
-      }
+      const apiError = parseApiError(error);
+      if (apiError?.body?.error) errorMsg = apiError.body.error;
       toast({ title: 'Erro', description: errorMsg, variant: 'destructive' });
     } finally {
       setChangePasswordLoading(false);
@@ -257,32 +304,45 @@ export default function Login() {
       toast({ title: 'Nome obrigatorio', variant: 'destructive' });
       return;
     }
+    if (!birthDate) {
+      toast({ title: 'Data de nascimento obrigatoria', variant: 'destructive' });
+      return;
+    }
+    if (!isAdult(birthDate)) {
+      toast({ title: 'Cadastro nao permitido', description: `A venda de bebidas alcoolicas e proibida para menores de ${MINIMUM_AGE} anos`, variant: 'destructive' });
+      return;
+    }
     if (password.length !== 6) {
       toast({ title: 'Senha invalida', description: 'A senha deve ter 6 digitos', variant: 'destructive' });
       return;
     }
-    if (!selectedNeighborhood) {
-      toast({ title: 'Bairro obrigatorio', description: 'Selecione seu bairro', variant: 'destructive' });
+    if (!neighborhoodToSave) {
+      toast({ title: 'Bairro obrigatorio', description: 'Selecione ou digite seu bairro', variant: 'destructive' });
       return;
     }
     if (!street || !number) {
       toast({ title: 'Endereco incompleto', description: 'Preencha rua e numero', variant: 'destructive' });
       return;
     }
+    if (verificationCode.length !== 6) {
+      toast({ title: 'Codigo obrigatorio', description: 'Digite o codigo enviado para seu WhatsApp', variant: 'destructive' });
+      return;
+    }
 
     setIsLoading(true);
     try {
       const cleanPhone = whatsapp.replace(/\D/g, '');
       const response = await apiRequest('POST', '/api/auth/register', {
-        user: { name, whatsapp: cleanPhone, password },
+        user: { name, whatsapp: cleanPhone, password, birthDate },
+        verificationCode,
         address: { 
           street, 
           number, 
           complement, 
-          neighborhood: selectedNeighborhood, 
+          neighborhood: neighborhoodToSave, 
           city: 'Sao Paulo', 
           state: 'SP', 
-          zipCode: '', 
+          zipCode: zipCode.replace(/\D/g, ''), 
           notes 
         }
       });
@@ -297,12 +357,8 @@ export default function Login() {
       setLocation(redirect);
     } catch (error: any) {
       let errorMsg = 'Tente novamente';
-      if (error instanceof Response) {
-        try {
-          const errorData = await error.json();
-          if (errorData?.error) errorMsg = errorData.error;
-        } catch {}
-      }
+      const apiError = parseApiError(error);
+      if (apiError?.body?.error) errorMsg = apiError.body.error;
       toast({ 
         title: 'Erro ao cadastrar', 
         description: errorMsg, 
@@ -537,6 +593,22 @@ export default function Login() {
                     </div>
                   </div>
 
+                  <div className="space-y-2">
+                    <Label htmlFor="birth-date" className="text-foreground">Data de nascimento</Label>
+                    <div className="relative">
+                      <CalendarDays className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-primary/60" />
+                      <Input
+                        id="birth-date"
+                        type="date"
+                        value={birthDate}
+                        onChange={(e) => setBirthDate(e.target.value)}
+                        className="pl-11 bg-secondary/50 border-primary/20 text-foreground h-11"
+                        data-testid="input-birth-date"
+                      />
+                    </div>
+                    <p className="text-xs text-muted-foreground">Vendemos bebidas alcoolicas apenas para maiores de {MINIMUM_AGE} anos.</p>
+                  </div>
+
                   <div className="space-y-2">
                     <Label htmlFor="register-password" className="text-foreground">Crie uma senha (6 digitos)</Label>
                     <div className="relative">
@@ -556,6 +628,37 @@ export default function Login() {
                     <p className="text-xs text-muted-foreground">Apenas numeros, 6 digitos</p>
                   </div>
 
+                  <div className="space-y-2">
+                    <Label htmlFor="register-code" className="text-foreground">Codigo de verificacao</Label>
+                    <div className="flex gap-2">
+                      <div className="relative flex-1">
+                        <KeyRound className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-primary/60" />
+                        <Input
+                          id="register-code"
+                          inputMode="numeric"
+                          placeholder="000000"
+                          value={verificationCode}
+                          onChange={handleCodeChange}
+                          maxLength={6}
+                          className="pl-11 bg-secondary/50 border-primary/20 text-foreground text-center text-xl tracking-[0.3em] h-11 font-mono"
+                          data-testid="input-register-code"
+                        />
+                      </div>
+                      <Button
+                        variant="outline"
+                        className="h-11 border-primary/30 text-primary hover:bg-primary/10"
+                        onClick={() => handleSendCode('register')}
+                        disabled={sendingCode}
+                        data-testid="button-send-register-code"
+                      >
+                        {sendingCode ? (
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                        ) : codeSentFor === 'register' ? 'Reenviar' : 'Enviar codigo'}
+                      </Button>
+                    </div>
+                    <p className="text-xs text-muted-foreground">Enviamos o codigo para {whatsapp} para confirmar que o numero e seu</p>
+                  </div>
+
                   <div className="space-y-3 p-4 rounded-xl bg-secondary/30 border border-primary/10">
                     <Label className="text-foreground flex items-center gap-2">
                       <MapPin className="h-4 w-4 text-primary" />
@@ -574,14 +677,14 @@ export default function Login() {
                           <SelectValue placeholder="Selecione seu bairro" />
                         </SelectTrigger>
                         <SelectContent>
-                          {groupedNeighborhoods.map(({ zone, zoneInfo, neighborhoods }) => (
-                            <div key={zone}>
+                          {deliveryAreas.map(({ zone, neighborhoods }) => (
+                            <div key={zone.id}>
                               <div className="px-2 py-1.5 text-xs font-semibold text-muted-foreground bg-secondary/50 sticky top-0">
-                                {zoneInfo.name} - {formatPrice(zoneInfo.fee)}
+                                {zone.name} - {formatPrice(Number(zone.fee))}
                               </div>
                               {neighborhoods.map((n) => (
                                 <SelectItem 
-                                  key={n.name} 
+                                  key={n.id} 
                                   value={n.name}
                                   data-testid={`option-neighborhood-${n.name}`}
                                 >
@@ -590,8 +693,21 @@ export default function Login() {
                               ))}
                             </div>
                           ))}
+                          <SelectItem value={OTHER_NEIGHBORHOOD} data-testid="option-neighborhood-other">
+                            Meu bairro nao esta na lista
+                          </SelectItem>
                         </SelectContent>
                       </Select>
+
+                      {selectedNeighborhood === OTHER_NEIGHBORHOOD && (
+                        <Input
+                          placeholder="Nome do seu bairro"
+                          value={otherNeighborhood}
+                          onChange={(e) => setOtherNeighborhood(e.target.value)}
+                          className="bg-secondary/50 border-primary/20 text-foreground h-10"
+                          data-testid="input-other-neighborhood"
+                        />
+                      )}
                       
                       {selectedNeighborhoodFee !== null && (
                         <p className="text-sm text-primary flex items-center gap-2">
@@ -617,13 +733,23 @@ export default function Login() {
                         />
                       </div>
 
-                      <Input
-                        placeholder="Complemento (opcional)"
-                        value={complement}
-                        onChange={(e) => setComplement(e.target.value)}
-                        className="bg-secondary/50 border-primary/20 text-foreground h-10"
-                        data-testid="input-complement"
-                      />
+                      <div className="grid grid-cols-2 gap-2">
+                        <Input
+                          placeholder="Complemento (opcional)"
+                          value={complement}
+                          onChange={(e) => setComplement(e.target.value)}
+                          className="bg-secondary/50 border-primary/20 text-foreground h-10"
+                          data-testid="input-complement"
+                        />
+                        <Input
+                          placeholder="CEP"
+                          inputMode="numeric"
+                          value={zipCode}
+                          onChange={(e) => setZipCode(e.target.value.replace(/[^\d-]/g, '').slice(0, 9))}
+                          className="bg-secondary/50 border-primary/20 text-foreground h-10"
+                          data-testid="input-zipcode"
+                        />
+                      </div>
 
                       <Textarea
                         placeholder="Observacoes para entrega..."
@@ -645,6 +771,8 @@ export default function Login() {
                       onClick={() => {
                         setStep('phone');
                         setPassword('');
+                        setVerificationCode('');
+                        setCodeSentFor(null);
                       }}
                       data-testid="button-back-register"
                     >
@@ -671,41 +799,129 @@ export default function Login() {
         </Card>
       </motion.div>
 
-      <Dialog open={showForgotPasswordDialog} onOpenChange={setShowForgotPasswordDialog}>
+      <Dialog open={showForgotPasswordDialog} onOpenChange={(open) => open ? setShowForgotPasswordDialog(true) : closeForgotPasswordDialog()}>
         <DialogContent className="sm:max-w-md">
           <DialogHeader>
             <DialogTitle>Recuperar Senha</DialogTitle>
             <DialogDescription>
-              Ao confirmar, o administrador recebera sua solicitacao e entrara em contato pelo WhatsApp com uma senha temporaria.
+              {codeSentFor === 'password_reset'
+                ? 'Digite o codigo recebido no WhatsApp e escolha uma nova senha de 6 digitos.'
+                : 'Enviaremos um codigo para o seu WhatsApp para voce criar uma nova senha.'}
             </DialogDescription>
           </DialogHeader>
-          <div className="py-4">
-            <p className="text-sm text-muted-foreground">
-              WhatsApp: <span className="font-medium text-foreground">{whatsapp}</span>
-            </p>
-            <p className="text-sm text-muted-foreground mt-1">
-              Nome: <span className="font-medium text-foreground">{userName}</span>
-            </p>
+          <div className="space-y-4 py-4">
+            <div>
+              <p className="text-sm text-muted-foreground">
+                WhatsApp: <span className="font-medium text-foreground">{whatsapp}</span>
+              </p>
+              <p className="text-sm text-muted-foreground mt-1">
+                Nome: <span className="font-medium text-foreground">{userName}</span>
+              </p>
+            </div>
+
+            {codeSentFor === 'password_reset' && (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="reset-code">Codigo de verificacao</Label>
+                  <div className="relative">
+                    <KeyRound className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-primary/60" />
+                    <Input
+                      id="reset-code"
+                      inputMode="numeric"
+                      placeholder="000000"
+                      value={verificationCode}
+                      onChange={handleCodeChange}
+                      maxLength={6}
+                      className="pl-11 bg-secondary/50 border-primary/20 text-foreground text-center text-xl tracking-[0.3em] h-11 font-mono"
+                      data-testid="input-reset-code"
+                    />
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="reset-password">Nova senha (6 digitos)</Label>
+                  <div className="relative">
+                    <Lock className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-primary/60" />
+                    <Input
+                      id="reset-password"
+                      type="password"
+                      inputMode="numeric"
+                      placeholder="******"
+                      value={newPassword}
+                      onChange={handleNewPasswordChange}
+                      maxLength={6}
+                      className="pl-11 bg-secondary/50 border-primary/20 text-foreground text-center text-xl tracking-[0.5em] h-11 font-mono"
+                      data-testid="input-reset-password"
+                    />
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="reset-confirm-password">Confirmar senha</Label>
+                  <div className="relative">
+                    <Lock className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-primary/60" />
+                    <Input
+                      id="reset-confirm-password"
+                      type="password"
+                      inputMode="numeric"
+                      placeholder="******"
+                      value={confirmPassword}
+                      onChange={handleConfirmPasswordChange}
+                      maxLength={6}
+                      className="pl-11 bg-secondary/50 border-primary/20 text-foreground text-center text-xl tracking-[0.5em] h-11 font-mono"
+                      data-testid="input-reset-confirm-password"
+                    />
+                  </div>
+                </div>
+                <Button
+                  variant="ghost"
+                  className="px-0 h-auto text-sm text-primary hover:bg-transparent"
+                  onClick={() => handleSendCode('password_reset')}
+                  disabled={sendingCode}
+                  data-testid="button-resend-reset-code"
+                >
+                  Reenviar codigo
+                </Button>
+              </>
+            )}
           </div>
-          <DialogFooter className="gap-2">
-            <Button
-              variant="outline"
-              onClick={() => setShowForgotPasswordDialog(false)}
-              disabled={forgotPasswordLoading}
-              data-testid="button-cancel-forgot"
-            >
-              Cancelar
-            </Button>
+          <DialogFooter className="gap-2 sm:flex-col sm:space-x-0">
+            {codeSentFor === 'password_reset' ? (
+              <Button
+                onClick={handleResetPassword}
+                disabled={resetLoading || verificationCode.length !== 6 || newPassword.length !== 6 || confirmPassword.length !== 6}
+                className="w-full bg-gradient-to-r from-amber-500 to-yellow-500 text-black"
+                data-testid="button-confirm-reset"
+              >
+                {resetLoading ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  'Redefinir Senha'
+                )}
+              </Button>
+            ) : (
+              <Button
+                onClick={() => handleSendCode('password_reset')}
+                disabled={sendingCode}
+                className="w-full bg-gradient-to-r from-amber-500 to-yellow-500 text-black"
+                data-testid="button-send-reset-code"
+              >
+                {sendingCode ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  'Enviar Codigo pelo WhatsApp'
+                )}
+              </Button>
+            )}
             <Button
+              variant="ghost"
               onClick={handleForgotPassword}
               disabled={forgotPasswordLoading}
-              className="bg-gradient-to-r from-amber-500 to-yellow-500 text-black"
+              className="w-full text-muted-foreground text-sm"
               data-testid="button-confirm-forgot"
             >
               {forgotPasswordLoading ? (
                 <Loader2 className="h-4 w-4 animate-spin" />
               ) : (
-                'Solicitar Nova Senha'
+                'Nao recebi o codigo - pedir ajuda ao administrador'
               )}
             </Button>
           </DialogFooter>
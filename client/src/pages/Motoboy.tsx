@@ -12,6 +12,8 @@ import { useNotificationSound } from '@/hooks/use-notification-sound';
 import { useAuth } from '@/lib/auth';
 import { apiRequest, queryClient } from '@/lib/queryClient';
 import { ExpandableOrderCard } from '@/components/ExpandableOrderCard';
+import { IdCheckDialog, needsIdCheck } from '@/components/IdCheckDialog';
+import { PaymentActions } from '@/components/PaymentActions';
 import type { Order, OrderItem, Address, Motoboy } from '@shared/schema';
 
 interface OrderWithDetails extends Order {
@@ -26,6 +28,7 @@ export default function MotoboyPage() {
   const { toast } = useToast();
   const { user, role, logout, isHydrated } = useAuth();
   const [isSSEConnected, setIsSSEConnected] = useState(false);
+  const [idCheckOrder, setIdCheckOrder] = useState<OrderWithDetails | null>(null);
   const isAuthorized = isHydrated && (role === 'motoboy' || role === 'admin');
   const { playOnce } = useNotificationSound();
 
@@ -33,10 +36,6 @@ export default function MotoboyPage() {
     onConnected: () => setIsSSEConnected(true),
     onDisconnected: () => setIsSSEConnected(false),
     onOrderStatusChanged: (data) => {
-      if (data.status === 'ready') {
-        playOnce();
-        toast({ title: 'Nova entrega disponivel!' });
-      }
       if (data.status === 'arrived') {
         playOnce();
         toast({ title: 'Entregador chegou ao destino!' });
@@ -100,11 +99,12 @@ export default function MotoboyPage() {
   }));
 
   const updateStatusMutation = useMutation({
-    mutationFn: async ({ orderId, status }: { orderId: string; status: string }) => {
-      return apiRequest('PATCH', `/api/orders/${orderId}/status`, { status });
+    mutationFn: async ({ orderId, status, idChecked }: { orderId: string; status: string; idChecked?: boolean }) => {
+      return apiRequest('PATCH', `/api/orders/${orderId}/status`, { status, idChecked });
     },
     onSuccess: (_, variables) => {
       queryClient.invalidateQueries({ queryKey: ['/api/motoboy', currentMotoboy?.id, 'orders'] });
+      setIdCheckOrder(null);
       if (variables.status === 'arrived') {
         toast({ title: 'Chegada confirmada! Cliente foi notificado.' });
       } else {
@@ -116,6 +116,15 @@ export default function MotoboyPage() {
     },
   });
 
+  // Orders with alcohol go through the ID check dialog first
+  const confirmDelivery = (order: OrderWithDetails) => {
+    if (needsIdCheck(order)) {
+      setIdCheckOrder(order);
+    } else {
+      updateStatusMutation.mutate({ orderId: order.id, status: 'delivered' });
+    }
+  };
+
   const handleLogout = () => {
     logout();
     setLocation('/admin-login');
@@ -163,24 +172,28 @@ export default function MotoboyPage() {
       );
     }
     
+    // Cash and card are collected at the door, so the payment is recorded here
     if (status === 'arrived') {
       return (
-        <Button
-          className="w-full bg-primary text-primary-foreground py-4 text-base font-semibold"
-          onClick={() => updateStatusMutation.mutate({ orderId: order.id, status: 'delivered' })}
-          disabled={updateStatusMutation.isPending}
-          data-testid={`button-delivered-${order.id}`}
-        >
-          <CheckCircle className="h-5 w-5 mr-2" />
-          Confirmar Entrega Realizada
-        </Button>
+        <div className="flex flex-col gap-2">
+          <PaymentActions order={order} />
+          <Button
+            className="w-full bg-primary text-primary-foreground py-4 text-base font-semibold"
+            onClick={() => confirmDelivery(order)}
+            disabled={updateStatusMutation.isPending}
+            data-testid={`button-delivered-${order.id}`}
+          >
+            <CheckCircle className="h-5 w-5 mr-2" />
+            Confirmar Entrega Realizada
+          </Button>
+        </div>
       );
     }
 
     return (
       <Button
         className="w-full bg-primary text-primary-foreground py-4 text-base font-semibold"
-        onClick={() => updateStatusMutation.mutate({ orderId: order.id, status: 'delivered' })}
+        onClick={() => confirmDelivery(order)}
         disabled={updateStatusMutation.isPending}
         data-testid={`button-delivered-${order.id}`}
       >
@@ -299,6 +312,17 @@ export default function MotoboyPage() {
           </div>
         )}
       </main>
+
+      <IdCheckDialog
+        order={idCheckOrder}
+        isConfirming={updateStatusMutation.isPending}
+        onConfirm={() => idCheckOrder && updateStatusMutation.mutate({ orderId: idCheckOrder.id, status: 'delivered', idChecked: true })}
+        onRefused={() => {
+          setIdCheckOrder(null);
+          queryClient.invalidateQueries({ queryKey: ['/api/motoboy', currentMotoboy?.id, 'orders'] });
+        }}
+        onClose={() => setIdCheckOrder(null)}
+      />
     </div>
   );
 }
@@ -1,7 +1,7 @@
 import { useState } from 'react';
 import { useLocation } from 'wouter';
 import { useQuery } from '@tanstack/react-query';
-import { ArrowLeft, Package, Wifi, WifiOff } from 'lucide-react';
+import { ArrowLeft, Package, Wifi, WifiOff, QrCode } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Skeleton } from '@/components/ui/skeleton';
@@ -11,6 +11,7 @@ import { useOrderUpdates } from '@/hooks/use-order-updates';
 import { useNotificationSound } from '@/hooks/use-notification-sound';
 import { useToast } from '@/hooks/use-toast';
 import { ExpandableOrderCard } from '@/components/ExpandableOrderCard';
+import { PixQrCode } from '@/components/PixQrCode';
 import type { Order, OrderItem, Motoboy } from '@shared/schema';
 
 interface OrderWithDetails extends Order {
@@ -22,6 +23,7 @@ export default function Orders() {
   const [, setLocation] = useLocation();
   const { user, isAuthenticated } = useAuth();
   const [isSSEConnected, setIsSSEConnected] = useState(false);
+  const [pixOrderId, setPixOrderId] = useState<string | null>(null);
   const { playOnce } = useNotificationSound();
   const { toast } = useToast();
 
@@ -42,6 +44,32 @@ export default function Orders() {
         toast({ title: statusMessages[data.status] });
       }
     },
+    onOrderPaymentUpdated: (data) => {
+      if (data.paymentStatus === 'paid') {
+        playOnce();
+        toast({ title: 'Pagamento confirmado!' });
+        setPixOrderId(null);
+      }
+    },
+    onOrderFeeUpdated: (data) => {
+      playOnce();
+      toast({
+        title: 'Taxa de entrega atualizada',
+        description: `Novo total do pedido: ${new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(data.newTotal)}`,
+      });
+    },
+    onOrderItemsCancelled: (data) => {
+      const format = (value: string | number) => new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(Number(value));
+      const removed = (data.items as { productName: string; quantity: number }[])
+        .map(item => `${item.quantity}x ${item.productName}`)
+        .join(', ');
+      playOnce();
+      toast({
+        title: 'Pedido alterado',
+        description: `Removido: ${removed} (${data.reason}). Novo total: ${format(data.newTotal)}`
+          + (data.refundAmount ? `. Estorno de ${format(data.refundAmount)}.` : ''),
+      });
+    },
   });
 
   const { data: orders = [], isLoading, refetch } = useQuery<Order[]>({
@@ -146,7 +174,20 @@ export default function Orders() {
                 order={order}
                 variant="customer"
                 defaultExpanded={order.status !== 'delivered' && order.status !== 'cancelled'}
-                showActions={false}
+                showActions={order.paymentMethod === 'pix' && (order.paymentStatus === 'pending' || order.paymentStatus === 'failed') && order.status !== 'delivered' && order.status !== 'cancelled'}
+                actions={pixOrderId === order.id ? (
+                  <PixQrCode orderId={order.id} />
+                ) : (
+                  <Button
+                    variant="outline"
+                    className="w-full"
+                    onClick={() => setPixOrderId(order.id)}
+                    data-testid={`button-show-pix-${order.id}`}
+                  >
+                    <QrCode className="h-4 w-4 mr-2" />
+                    Pagar com PIX
+                  </Button>
+                )}
               />
             ))}
           </div>
@@ -1,4 +1,4 @@
-import { useState, useRef, useCallback, useEffect } from 'react';
+import { useState, useRef, useCallback, useEffect, useMemo } from 'react';
 import { useLocation } from 'wouter';
 import { useQuery, useMutation } from '@tanstack/react-query';
 import { 
@@ -10,26 +10,33 @@ import {
   LogOut,
   ChevronLeft,
   ChevronRight,
-  AlertTriangle
+  AlertTriangle,
+  X,
+  Wallet
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from '@/components/ui/sheet';
 import { useAuth } from '@/lib/auth';
 import { useToast } from '@/hooks/use-toast';
 import { apiRequest, queryClient } from '@/lib/queryClient';
-import type { Product, Category } from '@shared/schema';
-import { type PaymentMethod, type Salesperson, SALESPERSON_LABELS, isPreparedCategoryName } from '@shared/schema';
-import { CartContent } from '@/components/pdv-cart';
-
-interface CartItem {
-  product: Product;
-  quantity: number;
-}
+import { getOrderErrorMessage } from '@/lib/order-errors';
+import type { Product, ProductVariant, Category, Order, OrderPricing, ModifierGroup, OrderItemModifier, CashSessionReport } from '@shared/schema';
+import { type PaymentMethod, tracksProductStock } from '@shared/schema';
+import { groupVariantsByProduct, sellableStock, variantDisplayName } from '@shared/variants';
+import { modifierGroupsFor, unitPriceWithModifiers } from '@shared/modifiers';
+import { isAgeRestricted } from '@shared/age';
+import { settlePaymentLines } from '@shared/payments';
+import { ModifierPickerDialog } from '@/components/ModifierPickerDialog';
+import { PixQrCode } from '@/components/PixQrCode';
+import { CashRegisterDialog, OpenCashSessionDialog } from '@/components/CashRegister';
+import { CartContent, cartLineKey, type CartItem, type CouponControls } from '@/components/pdv-cart';
+import { useCouponPreview } from '@/hooks/use-coupon';
 
 function formatCurrency(value: number | string): string {
   const num = typeof value === 'string' ? parseFloat(value) : value;
@@ -48,14 +55,24 @@ export default function PDV() {
   const [cart, setCart] = useState<CartItem[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
-  const [salesperson, setSalesperson] = useState<Salesperson | null>(null);
   const [notes, setNotes] = useState('');
-  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod | null>(null);
-  const [changeFor, setChangeFor] = useState('');
+  // One line per tender; a sale can be split, e.g. part in cash and the rest on the card
+  const [paymentLines, setPaymentLines] = useState<{ method: PaymentMethod; amount: string }[]>([]);
+  const [idChecked, setIdChecked] = useState(false);
+  // PIX sale just rung up: its QR code stays on screen for the customer to scan
+  const [pixOrderId, setPixOrderId] = useState<string | null>(null);
   const [isPaymentDialogOpen, setIsPaymentDialogOpen] = useState(false);
   const [isCartOpen, setIsCartOpen] = useState(false);
+  const [isOpenTillDialogOpen, setIsOpenTillDialogOpen] = useState(false);
+  const [isCashRegisterOpen, setIsCashRegisterOpen] = useState(false);
+  // The opening prompt shows once on arrival, not again right after the till is closed
+  const promptedToOpenTill = useRef(false);
   const [manualDiscount, setManualDiscount] = useState('');
-  const [stockAlertProduct, setStockAlertProduct] = useState<Product | null>(null);
+  const [couponInput, setCouponInput] = useState('');
+  const [couponCode, setCouponCode] = useState<string | null>(null);
+  const [stockAlertProduct, setStockAlertProduct] = useState<{ name: string; stock: number } | null>(null);
+  const [variantPickerProduct, setVariantPickerProduct] = useState<Product | null>(null);
+  const [modifierPick, setModifierPick] = useState<{ product: Product; variant?: ProductVariant } | null>(null);
 
   const isAuthorized = isHydrated && (role === 'pdv' || role === 'admin');
 
@@ -69,25 +86,67 @@ export default function PDV() {
     enabled: isAuthorized,
   });
 
+  const { data: variants = [] } = useQuery<ProductVariant[]>({
+    queryKey: ['/api/product-variants'],
+    enabled: isAuthorized,
+  });
+  const variantsByProduct = useMemo(() => groupVariantsByProduct(variants), [variants]);
+
+  const { data: modifierGroups = [] } = useQuery<ModifierGroup[]>({
+    queryKey: ['/api/modifier-groups'],
+    enabled: isAuthorized,
+  });
+
+  // null until the operator opens their till
+  const { data: cashSession, isSuccess: isCashSessionLoaded } = useQuery<CashSessionReport | null>({
+    queryKey: ['/api/cash-sessions/current'],
+    enabled: isAuthorized,
+  });
+
+  useEffect(() => {
+    if (isCashSessionLoaded && !cashSession && !promptedToOpenTill.current) {
+      promptedToOpenTill.current = true;
+      setIsOpenTillDialogOpen(true);
+    }
+  }, [isCashSessionLoaded, cashSession]);
+
   const createOrderMutation = useMutation({
     mutationFn: async (orderData: any) => {
-      return apiRequest('POST', '/api/orders', orderData);
+      const res = await apiRequest('POST', '/api/orders', orderData);
+      return res.json() as Promise<Order & { pricing: OrderPricing }>;
     },
-    onSuccess: () => {
+    onSuccess: (order) => {
       queryClient.invalidateQueries({ queryKey: ['/api/orders'] });
       queryClient.invalidateQueries({ queryKey: ['/api/products'] });
-      toast({ title: 'Pedido criado com sucesso!' });
+      queryClient.invalidateQueries({ queryKey: ['/api/cash-sessions/current'] });
+      if (order.pricing?.adjusted) {
+        toast({
+          title: 'Pedido criado com valores atualizados',
+          description: `Total cobrado: ${formatCurrency(order.pricing.total)}`,
+        });
+      } else {
+        toast({ title: 'Pedido criado com sucesso!' });
+      }
       setCart([]);
-      setSalesperson(null);
       setNotes('');
-      setPaymentMethod(null);
-      setChangeFor('');
+      setPaymentLines([]);
+      setIdChecked(false);
       setManualDiscount('');
+      setCouponInput('');
+      setCouponCode(null);
       setIsPaymentDialogOpen(false);
       setIsCartOpen(false);
+      // The PIX part of a split sale is still open; the QR code charges just that
+      if (order.paymentMethod === 'pix' || (order.paymentMethod === 'split' && order.paymentStatus !== 'paid')) {
+        setPixOrderId(order.id);
+      }
     },
-    onError: () => {
-      toast({ title: 'Erro ao criar pedido', variant: 'destructive' });
+    onError: (error) => {
+      const { title, description, shortages } = getOrderErrorMessage(error);
+      if (shortages.length > 0) {
+        queryClient.invalidateQueries({ queryKey: ['/api/products'] });
+      }
+      toast({ title, description, variant: 'destructive' });
     },
   });
 
@@ -104,8 +163,8 @@ export default function PDV() {
     setManualDiscount(e.target.value);
   }, []);
 
-  const handleSalespersonChange = useCallback((value: string) => {
-    setSalesperson(value as Salesperson);
+  const handleCouponInputChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    setCouponInput(e.target.value.toUpperCase());
   }, []);
 
   useEffect(() => {
@@ -114,6 +173,27 @@ export default function PDV() {
     }
   }, [isHydrated, role, setLocation]);
 
+  const couponOrder = useMemo(() => ({
+    orderType: 'counter' as const,
+    items: cart.map(item => ({ productId: item.product.id, variantId: item.variant?.id, modifiers: item.modifiers, quantity: item.quantity })),
+    discount: parseFloat(manualDiscount) || 0,
+  }), [cart, manualDiscount]);
+  const couponPreview = useCouponPreview(couponCode, couponOrder);
+
+  const coupon: CouponControls = useMemo(() => ({
+    input: couponInput,
+    appliedCode: couponPreview.pricing?.coupon?.code ?? null,
+    error: couponPreview.error,
+    discount: couponPreview.couponDiscount,
+    isChecking: couponPreview.isChecking,
+    onInputChange: handleCouponInputChange,
+    onApply: () => setCouponCode(couponInput.trim().toUpperCase() || null),
+    onRemove: () => {
+      setCouponCode(null);
+      setCouponInput('');
+    },
+  }), [couponInput, couponPreview.pricing, couponPreview.error, couponPreview.couponDiscount, couponPreview.isChecking, handleCouponInputChange]);
+
   if (!isHydrated || (role !== 'pdv' && role !== 'admin')) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
@@ -129,46 +209,69 @@ export default function PDV() {
   });
 
   const isProductPrepared = (product: Product): boolean => {
-    if (product.isPrepared) return true;
     const category = categories.find(c => c.id === product.categoryId);
-    return category ? isPreparedCategoryName(category.name) : false;
+    return !tracksProductStock(product, category);
   };
 
-  const addToCart = (product: Product) => {
-    const existingItem = cart.find(item => item.product.id === product.id);
-    const currentQty = existingItem?.quantity ?? 0;
+  const cartNeedsIdCheck = cart.some(item => isAgeRestricted(categories.find(c => c.id === item.product.categoryId)));
+
+  // Lines with different modifiers still draw on the same stock
+  const unitsInCart = (product: Product, variant?: ProductVariant) => cart
+    .filter(item => item.product.id === product.id && item.variant?.id === variant?.id)
+    .reduce((sum, item) => sum + item.quantity, 0);
+
+  const addToCart = (product: Product, variant?: ProductVariant, modifiers?: OrderItemModifier[]) => {
+    // Products sold by variant ask which one first
+    if (!variant && variantsByProduct.has(product.id)) {
+      setVariantPickerProduct(product);
+      return;
+    }
+    setVariantPickerProduct(null);
+
     const isPrepared = isProductPrepared(product);
+    const stock = sellableStock({ product, variant });
     
-    if (!isPrepared && (product.stock <= 0 || currentQty >= product.stock)) {
-      setStockAlertProduct(product);
+    if (!isPrepared && (stock <= 0 || unitsInCart(product, variant) >= stock)) {
+      setModifierPick(null);
+      setStockAlertProduct({ name: variantDisplayName(product, variant), stock });
+      return;
+    }
+
+    // Then the choices, for drinks that have them
+    if (!modifiers && modifierGroupsFor(modifierGroups, product).length > 0) {
+      setModifierPick({ product, variant });
       return;
     }
+    setModifierPick(null);
+
+    const line: CartItem = { product, variant, modifiers, quantity: 1 };
+    const key = cartLineKey(line);
     
     setCart(prev => {
-      const existing = prev.find(item => item.product.id === product.id);
+      const existing = prev.find(item => cartLineKey(item) === key);
       if (existing) {
         return prev.map(item =>
-          item.product.id === product.id
+          cartLineKey(item) === key
             ? { ...item, quantity: item.quantity + 1 }
             : item
         );
       }
-      return [...prev, { product, quantity: 1 }];
+      return [...prev, line];
     });
   };
 
-  const updateQuantity = (productId: string, delta: number) => {
-    const item = cart.find(i => i.product.id === productId);
+  const updateQuantity = (lineKey: string, delta: number) => {
+    const item = cart.find(i => cartLineKey(i) === lineKey);
     const isPrepared = item ? isProductPrepared(item.product) : false;
     
-    if (item && delta > 0 && !isPrepared && item.quantity >= item.product.stock) {
-      setStockAlertProduct(item.product);
+    if (item && delta > 0 && !isPrepared && unitsInCart(item.product, item.variant) >= sellableStock(item)) {
+      setStockAlertProduct({ name: variantDisplayName(item.product, item.variant), stock: sellableStock(item) });
       return;
     }
     
     setCart(prev => {
       return prev.map(item => {
-        if (item.product.id === productId) {
+        if (cartLineKey(item) === lineKey) {
           const newQty = item.quantity + delta;
           return newQty > 0 ? { ...item, quantity: newQty } : item;
         }
@@ -177,54 +280,76 @@ export default function PDV() {
     });
   };
 
-  const removeFromCart = (productId: string) => {
-    setCart(prev => prev.filter(item => item.product.id !== productId));
+  const removeFromCart = (lineKey: string) => {
+    setCart(prev => prev.filter(item => cartLineKey(item) !== lineKey));
   };
 
-  const subtotal = cart.reduce((sum, item) => sum + Number(item.product.salePrice) * item.quantity, 0);
+  const subtotal = cart.reduce((sum, item) => sum + unitPriceWithModifiers(item) * item.quantity, 0);
   const discountValue = parseFloat(manualDiscount) || 0;
-  const total = Math.max(0, subtotal - discountValue);
+
+  const total = Math.max(0, subtotal - discountValue - coupon.discount);
   const cartItemCount = cart.reduce((sum, item) => sum + item.quantity, 0);
   
-  const change = paymentMethod === 'cash' && changeFor ? parseFloat(changeFor) - total : 0;
+  const tenders = paymentLines
+    .map(line => ({ method: line.method, amount: parseFloat(line.amount) || 0 }))
+    .filter(line => line.amount > 0);
+  const settlement = settlePaymentLines(total, tenders);
+  const canConfirmPayment = tenders.length > 0 && settlement.remaining === 0 && !settlement.overpaidByNonCash;
+
+  const addPaymentLine = (method: PaymentMethod) => {
+    setPaymentLines(prev => [...prev, { method, amount: settlement.remaining > 0 ? settlement.remaining.toFixed(2) : '' }]);
+  };
+
+  const updatePaymentLine = (index: number, amount: string) => {
+    setPaymentLines(prev => prev.map((line, i) => (i === index ? { ...line, amount } : line)));
+  };
+
+  const removePaymentLine = (index: number) => {
+    setPaymentLines(prev => prev.filter((_, i) => i !== index));
+  };
 
   const handleFinalizeSale = () => {
     if (cart.length === 0) {
       toast({ title: 'Carrinho vazio', variant: 'destructive' });
       return;
     }
-    if (!salesperson) {
-      toast({ title: 'Selecione o balconista', variant: 'destructive' });
+    if (!cashSession) {
+      setIsOpenTillDialogOpen(true);
       return;
     }
     setIsPaymentDialogOpen(true);
   };
 
   const handleConfirmPayment = () => {
-    if (!paymentMethod) {
+    if (tenders.length === 0) {
       toast({ title: 'Selecione um método de pagamento', variant: 'destructive' });
       return;
     }
+    if (settlement.remaining > 0) {
+      toast({ title: `Faltam ${formatCurrency(settlement.remaining)} para fechar a venda`, variant: 'destructive' });
+      return;
+    }
 
     const orderData = {
       userId: user?.id,
       orderType: 'counter',
-      status: 'accepted',
       subtotal: subtotal.toFixed(2),
       deliveryFee: '0.00',
       discount: discountValue.toFixed(2),
+      couponCode: coupon.appliedCode,
       total: total.toFixed(2),
-      paymentMethod,
-      changeFor: paymentMethod === 'cash' && changeFor ? changeFor : null,
+      payments: tenders,
       notes: notes || null,
-      customerName: salesperson ? SALESPERSON_LABELS[salesperson] : 'Balconista',
-      salesperson: salesperson || null,
+      idChecked: cartNeedsIdCheck && idChecked,
+      customerName: user?.name || 'Balconista',
       items: cart.map(item => ({
         productId: item.product.id,
-        productName: item.product.name,
+        variantId: item.variant?.id,
+        productName: variantDisplayName(item.product, item.variant),
+        modifiers: item.modifiers,
         quantity: item.quantity,
-        unitPrice: item.product.salePrice,
-        totalPrice: (Number(item.product.salePrice) * item.quantity).toFixed(2),
+        unitPrice: unitPriceWithModifiers(item).toFixed(2),
+        totalPrice: (unitPriceWithModifiers(item) * item.quantity).toFixed(2),
       })),
     };
 
@@ -259,6 +384,16 @@ export default function PDV() {
           <span className="text-muted-foreground text-xs sm:text-sm hidden sm:inline">
             {user?.name}
           </span>
+          <Button
+            variant={cashSession ? 'outline' : 'default'}
+            size="sm"
+            className="px-2"
+            onClick={() => (cashSession ? setIsCashRegisterOpen(true) : setIsOpenTillDialogOpen(true))}
+            data-testid="button-cash-register"
+          >
+            <Wallet className="h-4 w-4" />
+            <span className="ml-1 hidden sm:inline">{cashSession ? 'Caixa' : 'Abrir caixa'}</span>
+          </Button>
           <Button
             variant="ghost"
             size="sm"
@@ -341,7 +476,11 @@ export default function PDV() {
             <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6 gap-2">
               {filteredProducts.map((product) => {
                 const isPrepared = isProductPrepared(product);
-                const isOutOfStock = !isPrepared && product.stock <= 0;
+                const productVariants = variantsByProduct.get(product.id);
+                const stock = productVariants
+                  ? productVariants.reduce((sum, v) => sum + Math.max(0, v.stock), 0)
+                  : product.stock;
+                const isOutOfStock = !isPrepared && stock <= 0;
                 return (
                   <Card
                     key={product.id}
@@ -351,7 +490,11 @@ export default function PDV() {
                   >
                     <CardContent className="p-2 sm:p-3">
                       <h3 className="font-medium text-xs sm:text-sm mb-1 line-clamp-2 min-h-[2rem]">{product.name}</h3>
-                      <p className="text-primary font-bold text-sm sm:text-base">{formatCurrency(product.salePrice)}</p>
+                      <p className="text-primary font-bold text-sm sm:text-base">
+                        {productVariants
+                          ? `a partir de ${formatCurrency(Math.min(...productVariants.map(v => Number(v.salePrice))))}`
+                          : formatCurrency(product.salePrice)}
+                      </p>
                       {isPrepared ? (
                         <Badge variant="default" className="mt-1 text-xs bg-green-600">
                           Disponivel
@@ -362,7 +505,7 @@ export default function PDV() {
                         </Badge>
                       ) : (
                         <Badge variant="secondary" className="mt-1 text-xs">
-                          {product.stock}
+                          {productVariants ? `${stock} em ${productVariants.length} opcoes` : stock}
                         </Badge>
                       )}
                     </CardContent>
@@ -375,14 +518,14 @@ export default function PDV() {
 
         <aside className="hidden lg:flex w-80 xl:w-96 bg-card border-l border-border flex-col">
           <CartContent
-            salesperson={salesperson}
+            operatorName={user?.name ?? ''}
             cart={cart}
             notes={notes}
             manualDiscount={manualDiscount}
             discountValue={discountValue}
+            coupon={coupon}
             subtotal={subtotal}
             total={total}
-            onSalespersonChange={handleSalespersonChange}
             onNoteChange={handleNoteChange}
             onDiscountChange={handleDiscountChange}
             onRemoveFromCart={removeFromCart}
@@ -417,15 +560,15 @@ export default function PDV() {
             </SheetHeader>
             <div className="h-[calc(100vh-4rem)]">
               <CartContent
-                salesperson={salesperson}
+                operatorName={user?.name ?? ''}
                 cart={cart}
                 notes={notes}
                 manualDiscount={manualDiscount}
                 discountValue={discountValue}
+                coupon={coupon}
                 subtotal={subtotal}
                 total={total}
-                onSalespersonChange={handleSalespersonChange}
-                onNoteChange={handleNoteChange}
+                    onNoteChange={handleNoteChange}
                 onDiscountChange={handleDiscountChange}
                 onRemoveFromCart={removeFromCart}
                 onUpdateQuantity={updateQuantity}
@@ -449,14 +592,16 @@ export default function PDV() {
             </div>
 
             <div>
-              <Label className="mb-2 block text-sm">Forma de Pagamento</Label>
+              <Label className="mb-2 block text-sm">
+                {paymentLines.length === 0 ? 'Forma de Pagamento' : 'Adicionar forma de pagamento'}
+              </Label>
               <div className="grid grid-cols-2 gap-2">
                 {paymentMethods.map((method) => (
                   <Button
                     key={method.id}
-                    variant={paymentMethod === method.id ? 'default' : 'outline'}
+                    variant="outline"
                     className="h-14 sm:h-16 flex-col gap-1"
-                    onClick={() => setPaymentMethod(method.id)}
+                    onClick={() => addPaymentLine(method.id)}
                     data-testid={`button-payment-${method.id}`}
                   >
                     <method.icon className="h-4 w-4 sm:h-5 sm:w-5" />
@@ -466,30 +611,71 @@ export default function PDV() {
               </div>
             </div>
 
-            {paymentMethod === 'cash' && (
-              <div>
-                <Label htmlFor="changeFor" className="text-sm">Troco para</Label>
-                <Input
-                  id="changeFor"
-                  type="number"
-                  step="0.01"
-                  placeholder="0,00"
-                  value={changeFor}
-                  onChange={(e) => setChangeFor(e.target.value)}
-                  className="bg-secondary border-primary/30 text-base"
-                  data-testid="input-change-for"
-                />
-                {change > 0 && (
-                  <p className="text-green-500 mt-2 text-base font-semibold">
-                    Troco: {formatCurrency(change)}
+            {paymentLines.length > 0 && (
+              <div className="space-y-2" data-testid="list-payment-lines">
+                {paymentLines.map((line, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <span className="w-20 text-sm font-medium">
+                      {paymentMethods.find(method => method.id === line.method)?.label}
+                    </span>
+                    <Input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      placeholder="0,00"
+                      value={line.amount}
+                      onChange={(e) => updatePaymentLine(index, e.target.value)}
+                      className="bg-secondary border-primary/30 text-base"
+                      data-testid={`input-payment-amount-${index}`}
+                    />
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => removePaymentLine(index)}
+                      data-testid={`button-remove-payment-${index}`}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                {settlement.remaining > 0 && (
+                  <p className="text-destructive text-base font-semibold" data-testid="text-payment-remaining">
+                    Falta: {formatCurrency(settlement.remaining)}
+                  </p>
+                )}
+                {settlement.overpaidByNonCash && (
+                  <p className="text-destructive text-sm" data-testid="text-payment-overpaid">
+                    Cartao e PIX nao podem passar do total; troco so em dinheiro.
+                  </p>
+                )}
+                {!settlement.overpaidByNonCash && settlement.change > 0 && (
+                  <p className="text-green-500 text-base font-semibold" data-testid="text-payment-change">
+                    Troco: {formatCurrency(settlement.change)}
                   </p>
                 )}
               </div>
             )}
 
+            {cartNeedsIdCheck && (
+              <label className="flex items-start gap-3 rounded-lg border border-primary/30 p-3 cursor-pointer">
+                <Checkbox
+                  checked={idChecked}
+                  onCheckedChange={(checked) => setIdChecked(checked === true)}
+                  className="mt-0.5"
+                  data-testid="checkbox-id-checked"
+                />
+                <span className="text-sm">
+                  Documento conferido (18+)
+                  <span className="block text-xs text-muted-foreground">
+                    Sem a conferencia agora, ela sera pedida ao finalizar a venda.
+                  </span>
+                </span>
+              </label>
+            )}
+
             <Button
               className="w-full py-5 text-base"
-              disabled={!paymentMethod || createOrderMutation.isPending}
+              disabled={!canConfirmPayment || createOrderMutation.isPending}
               onClick={handleConfirmPayment}
               data-testid="button-confirm-payment"
             >
@@ -499,6 +685,24 @@ export default function PDV() {
         </DialogContent>
       </Dialog>
 
+      <OpenCashSessionDialog open={isOpenTillDialogOpen} onOpenChange={setIsOpenTillDialogOpen} />
+      <CashRegisterDialog report={cashSession ?? null} open={isCashRegisterOpen} onOpenChange={setIsCashRegisterOpen} />
+
+      <Dialog open={!!pixOrderId} onOpenChange={(open) => !open && setPixOrderId(null)}>
+        <DialogContent className="max-w-sm sm:max-w-md mx-2">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2 text-xl">
+              <QrCode className="h-5 w-5 text-primary" />
+              Pagamento PIX
+            </DialogTitle>
+          </DialogHeader>
+          {pixOrderId && <PixQrCode orderId={pixOrderId} size={240} />}
+          <Button className="w-full" onClick={() => setPixOrderId(null)} data-testid="button-close-pix">
+            Concluir
+          </Button>
+        </DialogContent>
+      </Dialog>
+
       <Dialog open={!!stockAlertProduct} onOpenChange={() => setStockAlertProduct(null)}>
         <DialogContent className="sm:max-w-md">
           <DialogHeader>
@@ -519,6 +723,41 @@ export default function PDV() {
           </div>
         </DialogContent>
       </Dialog>
+
+      <Dialog open={!!variantPickerProduct} onOpenChange={(open) => !open && setVariantPickerProduct(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{variantPickerProduct?.name}</DialogTitle>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-2">
+            {variantPickerProduct && (variantsByProduct.get(variantPickerProduct.id) ?? []).map(variant => {
+              const isOutOfStock = !isProductPrepared(variantPickerProduct) && variant.stock <= 0;
+              return (
+                <Button
+                  key={variant.id}
+                  variant="outline"
+                  className="h-auto flex-col items-start p-3"
+                  disabled={isOutOfStock}
+                  onClick={() => addToCart(variantPickerProduct, variant)}
+                  data-testid={`button-pick-variant-${variant.id}`}
+                >
+                  <span className="font-medium">{variant.name}</span>
+                  <span className="text-primary font-bold">{formatCurrency(variant.salePrice)}</span>
+                  <span className="text-xs text-muted-foreground">{isOutOfStock ? 'Esgotado' : `${variant.stock} em estoque`}</span>
+                </Button>
+              );
+            })}
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <ModifierPickerDialog
+        product={modifierPick?.product ?? null}
+        variant={modifierPick?.variant}
+        groups={modifierPick ? modifierGroupsFor(modifierGroups, modifierPick.product) : []}
+        onClose={() => setModifierPick(null)}
+        onConfirm={(modifiers) => modifierPick && addToCart(modifierPick.product, modifierPick.variant, modifiers)}
+      />
     </div>
   );
 }
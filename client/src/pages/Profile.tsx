@@ -22,7 +22,7 @@ import {
   AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger
 } from '@/components/ui/alert-dialog';
 import {
-  Form, FormControl, FormField, FormItem, FormLabel, FormMessage
+  Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage
 } from '@/components/ui/form';
 import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
@@ -30,7 +30,9 @@ import { useAuth } from '@/lib/auth';
 import { apiRequest, queryClient } from '@/lib/queryClient';
 import type { Order, OrderItem, Address } from '@shared/schema';
 import { ORDER_STATUS_LABELS, PAYMENT_METHOD_LABELS, type OrderStatus, type PaymentMethod } from '@shared/schema';
-import { NEIGHBORHOODS, DELIVERY_ZONES, DELIVERY_FEE_WARNING, type DeliveryZone } from '@shared/delivery-zones';
+import { formatModifierLines } from '@shared/modifiers';
+import { DELIVERY_FEE_WARNING } from '@shared/delivery-zones';
+import { useDeliveryAreas, OTHER_NEIGHBORHOOD } from '@/hooks/use-delivery-areas';
 
 interface OrderWithItems extends Order {
   items: OrderItem[];
@@ -75,6 +77,8 @@ export default function Profile() {
   const [isEditingProfile, setIsEditingProfile] = useState(false);
   const [isAddressDialogOpen, setIsAddressDialogOpen] = useState(false);
   const [editingAddress, setEditingAddress] = useState<Address | null>(null);
+  const [isOtherNeighborhood, setIsOtherNeighborhood] = useState(false);
+  const { areas: deliveryAreas, isListed } = useDeliveryAreas();
 
   const profileForm = useForm<ProfileFormValues>({
     resolver: zodResolver(profileFormSchema),
@@ -118,8 +122,9 @@ export default function Profile() {
   });
 
   const updateUserMutation = useMutation({
+    // The number is fixed once verified, so only the name is sent
     mutationFn: async (data: ProfileFormValues) => {
-      return apiRequest('PATCH', `/api/users/${user?.id}`, data);
+      return apiRequest('PATCH', `/api/users/${user?.id}`, { name: data.name });
     },
     onSuccess: async (response) => {
       const updatedUser = await response.json();
@@ -216,6 +221,7 @@ export default function Profile() {
       zipCode: address.zipCode,
       notes: address.notes || '',
     });
+    setIsOtherNeighborhood(!!address.neighborhood && !isListed(address.neighborhood));
     setIsAddressDialogOpen(true);
   };
 
@@ -231,6 +237,7 @@ export default function Profile() {
       zipCode: '',
       notes: '',
     });
+    setIsOtherNeighborhood(false);
     setIsAddressDialogOpen(true);
   };
 
@@ -389,9 +396,11 @@ export default function Profile() {
                                 {...field}
                                 className="bg-secondary/50 border-primary/20"
                                 placeholder="11999999999"
+                                disabled
                                 data-testid="input-whatsapp"
                               />
                             </FormControl>
+                            <FormDescription>O numero verificado nao pode ser alterado</FormDescription>
                             <FormMessage />
                           </FormItem>
                         )}
@@ -548,32 +557,47 @@ export default function Profile() {
                         render={({ field }) => (
                           <FormItem>
                             <FormLabel className="text-foreground">Bairro</FormLabel>
-                            <Select value={field.value} onValueChange={field.onChange}>
+                            <Select
+                              value={isOtherNeighborhood ? OTHER_NEIGHBORHOOD : field.value}
+                              onValueChange={(value) => {
+                                setIsOtherNeighborhood(value === OTHER_NEIGHBORHOOD);
+                                field.onChange(value === OTHER_NEIGHBORHOOD ? '' : value);
+                              }}
+                            >
                               <FormControl>
                                 <SelectTrigger className="bg-secondary/50 border-primary/20" data-testid="select-neighborhood">
                                   <SelectValue placeholder="Selecione o bairro" />
                                 </SelectTrigger>
                               </FormControl>
                               <SelectContent className="bg-card border-primary/20 max-h-[300px]">
-                                {(['S', 'A', 'B', 'C', 'D', 'E'] as DeliveryZone[]).map((zone) => {
-                                  const zoneInfo = DELIVERY_ZONES[zone];
-                                  const zoneNeighborhoods = NEIGHBORHOODS.filter(n => n.zone === zone);
-                                  if (zoneNeighborhoods.length === 0) return null;
+                                {deliveryAreas.map(({ zone, neighborhoods }) => {
+                                  if (neighborhoods.length === 0) return null;
                                   return (
-                                    <SelectGroup key={zone}>
+                                    <SelectGroup key={zone.id}>
                                       <SelectLabel className="text-primary font-semibold">
-                                        {zoneInfo.name} - R$ {zoneInfo.fee.toFixed(2).replace('.', ',')}
+                                        {zone.name} - R$ {Number(zone.fee).toFixed(2).replace('.', ',')}
                                       </SelectLabel>
-                                      {zoneNeighborhoods.map((n) => (
-                                        <SelectItem key={n.name} value={n.name} className="text-foreground">
+                                      {neighborhoods.map((n) => (
+                                        <SelectItem key={n.id} value={n.name} className="text-foreground">
                                           {n.name}
                                         </SelectItem>
                                       ))}
                                     </SelectGroup>
                                   );
                                 })}
+                                <SelectItem value={OTHER_NEIGHBORHOOD} className="text-foreground" data-testid="option-neighborhood-other">
+                                  Meu bairro nao esta na lista
+                                </SelectItem>
                               </SelectContent>
                             </Select>
+                            {isOtherNeighborhood && (
+                              <Input
+                                {...field}
+                                placeholder="Nome do seu bairro"
+                                className="bg-secondary/50 border-primary/20 text-foreground"
+                                data-testid="input-other-neighborhood"
+                              />
+                            )}
                             <FormMessage />
                           </FormItem>
                         )}
@@ -863,6 +887,9 @@ export default function Profile() {
                             <div key={idx} className="flex justify-between text-sm">
                               <span className="text-muted-foreground">
                                 {item.quantity}x {item.productName}
+                                {formatModifierLines(item.modifiers).map(line => (
+                                  <span key={line} className="block text-xs pl-4">{line}</span>
+                                ))}
                               </span>
                               <span className="text-foreground">
                                 {formatPrice(item.totalPrice)}
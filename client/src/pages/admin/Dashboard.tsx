@@ -53,7 +53,14 @@ import {
   Image,
   History,
   ClipboardList,
-  CheckCircle2
+  CheckCircle2,
+  ShieldCheck,
+  Gift,
+  Ticket,
+  Layers,
+  ListPlus,
+  CalendarClock,
+  Wallet
 } from 'lucide-react';
 import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, PieChart, Pie, Cell } from 'recharts';
 import jsPDF from 'jspdf';
@@ -68,6 +75,7 @@ import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { useAuth } from '@/lib/auth';
@@ -75,24 +83,41 @@ import { useToast } from '@/hooks/use-toast';
 import { useOrderUpdates } from '@/hooks/use-order-updates';
 import { useNotificationSound } from '@/hooks/use-notification-sound';
 import { usePushNotifications } from '@/hooks/use-push-notifications';
-import { apiRequest, queryClient } from '@/lib/queryClient';
+import { apiRequest, queryClient, parseApiError } from '@/lib/queryClient';
 import { ProductImageUploader } from '@/components/ProductImageUploader';
 import { ExpandableOrderCard } from '@/components/ExpandableOrderCard';
+import { IdCheckDialog, needsIdCheck } from '@/components/IdCheckDialog';
+import { PaymentActions } from '@/components/PaymentActions';
+import { ItemCancellationAction } from '@/components/ItemCancellationAction';
+import { CashSessionReportView } from '@/components/CashRegister';
 import { ImageProcessor } from '@/components/ImageProcessor';
-import type { Order, Product, Category, Motoboy, User, Settings as SettingsType, OrderItem, Address, DeliveryZone, Neighborhood, ShoppingList, ShoppingListItem } from '@shared/schema';
-import { ORDER_STATUS_LABELS, PAYMENT_METHOD_LABELS, ORDER_TYPE_LABELS, SALESPERSON_LABELS, type OrderStatus, type PaymentMethod, type OrderType, type Salesperson } from '@shared/schema';
-
-const tabs = [
+import type { Order, Payment, CashSessionReport, Product, Category, Motoboy, User, Settings as SettingsType, OrderItem, Address, DeliveryZone, Neighborhood, ShoppingList, ShoppingListItem, LoginLockEvent, AuditEvent, ComboTemplate, ComboSlot, ComboActivePeriod, Coupon, CouponWithStats, ProductVariant, ModifierGroup, RecipeIngredient, OpeningHours, OpeningHoursDay, OpeningHoursException, CepRange, UnlistedNeighborhood } from '@shared/schema';
+import { ORDER_STATUS_LABELS, PAYMENT_METHOD_LABELS, ORDER_TYPE_LABELS, PERMISSION_SCOPES, PERMISSION_LABELS, STAFF_ROLES, STAFF_ROLE_LABELS, AUDIT_ACTION_LABELS, AUDIT_ENTITY_LABELS, COMBO_ROLES, COMBO_ROLE_LABELS, COMBO_DISCOUNT_TYPES, COMBO_DISCOUNT_TYPE_LABELS, SHOWCASE_GROUPS, SHOWCASE_GROUP_LABELS, COUPON_TYPES, COUPON_TYPE_LABELS, DELIVERY_PRICING_MODES, DELIVERY_PRICING_MODE_LABELS, categoryTracksStock, hasPermission, type AuditAction, type ComboRole, type ComboDiscountType, type CouponType, type DeliveryPricingMode, type ShowcaseGroup, type AuditEntityType, type OrderStatus, type PaymentMethod, type OrderType, type PermissionScope } from '@shared/schema';
+import { formatComboDiscount, isComboTemplateAvailable } from '@shared/combos';
+import { STORE_TIME_ZONE, WEEKDAY_LABELS } from '@shared/store-clock';
+import { groupVariantsByProduct } from '@shared/variants';
+import { DEFAULT_OPENING_HOURS } from '@shared/opening-hours';
+import { formatCepRange, normalizeNeighborhood } from '@shared/delivery-zones';
+import { amountDue, tenderTotals } from '@shared/payments';
+
+const tabs: { id: string; label: string; icon: typeof Package; permission?: PermissionScope }[] = [
   { id: 'pedidos', label: 'Pedidos', icon: Package },
   { id: 'pdv', label: 'PDV', icon: ShoppingCart },
   { id: 'delivery', label: 'Delivery', icon: Truck },
-  { id: 'financeiro', label: 'Financeiro', icon: DollarSign },
+  { id: 'financeiro', label: 'Financeiro', icon: DollarSign, permission: 'finance:read' },
+  { id: 'caixas', label: 'Caixas', icon: Wallet, permission: 'finance:read' },
   { id: 'estoque', label: 'Estoque', icon: Warehouse },
   { id: 'clientes', label: 'Clientes', icon: Users },
   { id: 'produtos', label: 'Produtos', icon: ShoppingBag },
   { id: 'categorias', label: 'Categorias', icon: Grid3X3 },
+  { id: 'combos', label: 'Combos', icon: Gift },
+  { id: 'adicionais', label: 'Adicionais', icon: ListPlus },
+  { id: 'cupons', label: 'Cupons', icon: Ticket },
   { id: 'motoboys', label: 'Motoboys', icon: Bike },
   { id: 'configuracoes', label: 'Configuracoes', icon: Settings },
+  { id: 'equipe', label: 'Equipe', icon: UserIcon, permission: 'staff:manage' },
+  { id: 'permissoes', label: 'Permissoes', icon: ShieldCheck, permission: 'staff:manage' },
+  { id: 'auditoria', label: 'Auditoria', icon: ClipboardList },
 ];
 
 import { getCategoryIcon, CATEGORY_ICONS, suggestIconForCategory } from '@/lib/category-icons';
@@ -145,6 +170,7 @@ interface OrderWithDetails extends Order {
 }
 
 function OrdersTab() {
+  const [view, setView] = useState<'all' | 'scheduled'>('all');
   const [statusFilter, setStatusFilter] = useState<string>('all');
   const [searchTerm, setSearchTerm] = useState<string>('');
   const [currentPage, setCurrentPage] = useState<number>(1);
@@ -229,7 +255,12 @@ function OrdersTab() {
     editDeliveryFeeMutation.mutate({ orderId, newFee });
   };
 
-  const filteredOrders = ordersWithDetails.filter(order => {
+  // Booked deliveries still to go out, nearest slot first
+  const scheduledOrders = ordersWithDetails
+    .filter(order => order.scheduledFor && !['delivered', 'cancelled'].includes(order.status))
+    .sort((a, b) => new Date(a.scheduledFor!).getTime() - new Date(b.scheduledFor!).getTime());
+
+  const filteredOrders = (view === 'scheduled' ? scheduledOrders : ordersWithDetails).filter(order => {
     const matchesStatus = statusFilter === 'all' || order.status === statusFilter;
     const searchLower = searchTerm.toLowerCase().trim();
     const matchesSearch = searchLower === '' || 
@@ -245,6 +276,11 @@ function OrdersTab() {
     currentPage * ORDERS_PER_PAGE
   );
 
+  const handleViewChange = (value: 'all' | 'scheduled') => {
+    setView(value);
+    setCurrentPage(1);
+  };
+
   const handleStatusFilterChange = (value: string) => {
     setStatusFilter(value);
     setCurrentPage(1);
@@ -281,6 +317,8 @@ function OrdersTab() {
             </Button>
           </>
         )}
+        <PaymentActions order={order} />
+        <ItemCancellationAction order={order} />
         <Button
           size="sm"
           variant="ghost"
@@ -305,6 +343,28 @@ function OrdersTab() {
       <div className="flex flex-wrap items-center justify-between gap-4">
         <h2 className="font-serif text-3xl text-primary">Pedidos</h2>
         <div className="flex flex-wrap items-center gap-3">
+          <div className="flex gap-1">
+            <Button
+              size="sm"
+              variant={view === 'all' ? 'default' : 'outline'}
+              onClick={() => handleViewChange('all')}
+              data-testid="button-orders-view-all"
+            >
+              Todos
+            </Button>
+            <Button
+              size="sm"
+              variant={view === 'scheduled' ? 'default' : 'outline'}
+              onClick={() => handleViewChange('scheduled')}
+              data-testid="button-orders-view-scheduled"
+            >
+              <CalendarClock className="w-4 h-4 mr-1" />
+              Agendados
+              {scheduledOrders.length > 0 && (
+                <Badge variant="secondary" className="ml-2">{scheduledOrders.length}</Badge>
+              )}
+            </Button>
+          </div>
           <div className="relative">
             <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
             <Input
@@ -568,6 +628,10 @@ function FinanceiroTab() {
     queryKey: ['/api/products'],
   });
 
+  const { data: users = [] } = useQuery<User[]>({
+    queryKey: ['/api/users'],
+  });
+
   const { data: preparedProductsSales = { totalRevenue: 0, totalQuantitySold: 0, averagePerOrder: 0, ordersCount: 0 } } = useQuery<PreparedProductsSales>({
     queryKey: ['/api/prepared-products/sales'],
   });
@@ -652,26 +716,53 @@ function FinanceiroTab() {
     enabled: filteredOrders.length > 0,
   });
 
+  const { data: ledger = [] } = useQuery<Payment[]>({
+    queryKey: ['/api/payments', filteredOrderIds],
+    queryFn: async () => {
+      if (!filteredOrderIds) return [];
+      const res = await fetch(`/api/payments?orderIds=${encodeURIComponent(filteredOrderIds)}`);
+      if (!res.ok) return [];
+      return res.json();
+    },
+    enabled: filteredOrders.length > 0,
+  });
+
+  // What each order brought in per tender: the ledger splits a sale paid partly in cash and partly on the card.
+  // Whatever the ledger doesn't cover yet counts under the order's payment method (the PIX part, for a split sale).
+  const tendersByOrder = new Map(filteredOrders.map(order => {
+    const entries = ledger.filter(entry => entry.orderId === order.id);
+    const tenders = tenderTotals(entries);
+    const due = order.paymentStatus === 'refunded' ? 0 : amountDue(Number(order.total) || 0, entries);
+    if (due > 0) {
+      const method = order.paymentMethod === 'split' ? 'pix' : order.paymentMethod;
+      tenders[method] = (tenders[method] || 0) + due;
+    }
+    return [order.id, tenders];
+  }));
+
   const totalRevenue = filteredOrders.reduce((sum, o) => sum + (Number(o.total) || 0), 0);
   const totalDeliveryFees = filteredOrders.reduce((sum, o) => sum + (Number(o.deliveryFee) || 0), 0);
   const totalSubtotal = filteredOrders.reduce((sum, o) => sum + (Number(o.subtotal) || 0), 0);
   const totalDiscount = filteredOrders.reduce((sum, o) => sum + (Number(o.discount) || 0), 0);
   const avgTicket = filteredOrders.length > 0 ? totalRevenue / filteredOrders.length : 0;
 
-  const paymentBreakdown = filteredOrders.reduce((acc, order) => {
-    const method = order.paymentMethod as PaymentMethod;
-    acc[method] = (acc[method] || 0) + (Number(order.total) || 0);
+  const paymentBreakdown = Array.from(tendersByOrder.values()).reduce((acc, tenders) => {
+    for (const [method, amount] of Object.entries(tenders)) {
+      acc[method as PaymentMethod] = (acc[method as PaymentMethod] || 0) + amount;
+    }
     return acc;
   }, {} as Record<PaymentMethod, number>);
   
-  const cashPayments = filteredOrders.filter(o => o.paymentMethod === 'cash');
-  const totalCashReceived = cashPayments.reduce((sum, o) => sum + (Number(o.total) || 0), 0);
-  const cashOrdersCount = cashPayments.length;
+  const totalCashReceived = paymentBreakdown.cash || 0;
+  const cashOrdersCount = Array.from(tendersByOrder.values()).filter(tenders => (tenders.cash || 0) > 0).length;
 
-  const paymentChartData = Object.entries(paymentBreakdown).map(([method, value]) => ({
-    name: PAYMENT_METHOD_LABELS[method as PaymentMethod] || method,
-    value: Number(value.toFixed(2)),
-  }));
+  // A fully refunded tender nets to zero and has no slice to show
+  const paymentChartData = Object.entries(paymentBreakdown)
+    .filter(([, value]) => Math.abs(value) >= 0.005)
+    .map(([method, value]) => ({
+      name: PAYMENT_METHOD_LABELS[method as PaymentMethod] || method,
+      value: Number(value.toFixed(2)),
+    }));
 
   const orderTypeBreakdown = filteredOrders.reduce((acc, order) => {
     const type = order.orderType as OrderType;
@@ -684,21 +775,22 @@ function FinanceiroTab() {
     value: Number(value.toFixed(2)),
   }));
 
+  // Older sales only carry the typed name; they are grouped under it
   const salespersonBreakdown = counterOrders.reduce((acc, order) => {
-    if (order.salesperson) {
-      const sp = order.salesperson as Salesperson;
+    const sp = order.salespersonId ?? (order.salesperson ? `name:${order.salesperson}` : null);
+    if (sp) {
       if (!acc[sp]) {
-        acc[sp] = { revenue: 0, orders: 0 };
+        acc[sp] = { name: order.salespersonId ? null : order.salesperson, revenue: 0, orders: 0 };
       }
       acc[sp].revenue += Number(order.total);
       acc[sp].orders += 1;
     }
     return acc;
-  }, {} as Record<Salesperson, { revenue: number; orders: number }>);
+  }, {} as Record<string, { name: string | null; revenue: number; orders: number }>);
 
   const salespersonChartData = Object.entries(salespersonBreakdown)
     .map(([sp, data]) => ({
-      name: SALESPERSON_LABELS[sp as Salesperson] || sp,
+      name: data.name ?? users.find(u => u.id === sp)?.name ?? 'Funcionario removido',
       value: Number(data.revenue.toFixed(2)),
       orders: data.orders,
     }))
@@ -1202,19 +1294,24 @@ function FinanceiroTab() {
 
 function PDVTab() {
   const { toast } = useToast();
+  const [idCheckOrder, setIdCheckOrder] = useState<Order | null>(null);
   
   const { data: orders = [], isLoading } = useQuery<Order[]>({
     queryKey: ['/api/orders'],
   });
 
   const updateStatusMutation = useMutation({
-    mutationFn: async ({ orderId, status }: { orderId: string; status: OrderStatus }) => {
-      return apiRequest('PATCH', `/api/orders/${orderId}/status`, { status });
+    mutationFn: async ({ orderId, status, idChecked }: { orderId: string; status: OrderStatus; idChecked?: boolean }) => {
+      return apiRequest('PATCH', `/api/orders/${orderId}/status`, { status, idChecked });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/orders'] });
+      setIdCheckOrder(null);
       toast({ title: 'Status atualizado!' });
     },
+    onError: (error: Error) => {
+      toast({ title: 'Erro ao atualizar status', description: parseApiError(error)?.body?.error, variant: 'destructive' });
+    },
   });
 
   const deleteOrderMutation = useMutation({
@@ -1327,7 +1424,9 @@ function PDVTab() {
                   {order.status === 'ready' && (
                     <Button 
                       size="sm"
-                      onClick={() => updateStatusMutation.mutate({ orderId: order.id, status: 'delivered' })}
+                      onClick={() => needsIdCheck(order)
+                        ? setIdCheckOrder(order)
+                        : updateStatusMutation.mutate({ orderId: order.id, status: 'delivered' })}
                       data-testid={`button-deliver-pdv-${order.id}`}
                     >
                       <Check className="w-4 h-4 mr-1" />
@@ -1345,12 +1444,25 @@ function PDVTab() {
                       Cancelar
                     </Button>
                   )}
+                  <PaymentActions order={order} />
+                  <ItemCancellationAction order={order} />
                 </div>
               </CardContent>
             </Card>
           ))}
         </div>
       )}
+
+      <IdCheckDialog
+        order={idCheckOrder}
+        isConfirming={updateStatusMutation.isPending}
+        onConfirm={() => idCheckOrder && updateStatusMutation.mutate({ orderId: idCheckOrder.id, status: 'delivered', idChecked: true })}
+        onRefused={() => {
+          setIdCheckOrder(null);
+          queryClient.invalidateQueries({ queryKey: ['/api/orders'] });
+        }}
+        onClose={() => setIdCheckOrder(null)}
+      />
     </div>
   );
 }
@@ -1368,6 +1480,8 @@ interface StockReportSummary {
 
 interface StockReportProduct {
   id: string;
+  productId: string;
+  variantId: string | null;
   name: string;
   categoryId: string;
   categoryName: string;
@@ -1389,6 +1503,8 @@ interface StockReportData {
 
 interface LowStockProduct {
   id: string;
+  productId: string;
+  variantId: string | null;
   name: string;
   categoryId: string;
   categoryName: string;
@@ -1436,7 +1552,7 @@ function EstoqueTab() {
   });
 
   const createShoppingListMutation = useMutation({
-    mutationFn: async (products: { productId: string; productName: string; categoryName: string; suggestedQuantity: number; unitCost: number }[]) => {
+    mutationFn: async (products: { productId: string; variantId: string | null; productName: string; categoryName: string; suggestedQuantity: number; unitCost: number }[]) => {
       return apiRequest('POST', '/api/shopping-lists', { products });
     },
     onSuccess: () => {
@@ -1541,7 +1657,8 @@ function EstoqueTab() {
     const productsToAdd = filteredLowStockProducts
       .filter(p => selectedProducts.has(p.id))
       .map(p => ({
-        productId: p.id,
+        productId: p.productId,
+        variantId: p.variantId,
         productName: p.name,
         categoryName: p.categoryName,
         suggestedQuantity: p.suggestedPurchase,
@@ -2286,6 +2403,83 @@ function EstoqueTab() {
   );
 }
 
+function LoginLocksCard() {
+  const { toast } = useToast();
+
+  const { data: lockEvents = [] } = useQuery<LoginLockEvent[]>({
+    queryKey: ['/api/admin/login-locks'],
+    refetchInterval: 60000,
+  });
+
+  const unlockMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest('POST', `/api/admin/login-locks/${id}/unlock`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/login-locks'] });
+      toast({ title: 'Acesso desbloqueado!' });
+    },
+    onError: () => {
+      toast({ title: 'Erro ao desbloquear acesso', variant: 'destructive' });
+    },
+  });
+
+  const now = Date.now();
+  const activeLocks = lockEvents.filter(e => !e.unlockedAt && new Date(e.lockedUntil).getTime() > now);
+  const recentLocks = lockEvents.filter(e => !activeLocks.includes(e)).slice(0, 5);
+
+  if (lockEvents.length === 0) return null;
+
+  return (
+    <Card className={activeLocks.length > 0 ? 'border-red-500/40' : undefined}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <AlertTriangle className="w-5 h-5 text-red-400" />
+          Bloqueios de login
+          {activeLocks.length > 0 && (
+            <Badge className="bg-red-500/20 text-red-300 border-red-500/30">{activeLocks.length} ativo(s)</Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {[...activeLocks, ...recentLocks].map(event => {
+          const isActive = activeLocks.includes(event);
+          return (
+            <div
+              key={event.id}
+              className="flex flex-wrap items-center justify-between gap-2 p-3 bg-secondary/50 rounded-lg"
+              data-testid={`login-lock-${event.id}`}
+            >
+              <div className="text-sm">
+                <p className="font-medium">
+                  {event.scope === 'ip' ? 'IP' : 'Conta'}: {event.identifier}
+                </p>
+                <p className="text-muted-foreground text-xs">
+                  {event.failedAttempts} tentativas em {formatDate(event.createdAt)}
+                  {event.ipAddress && event.scope !== 'ip' ? ` - IP ${event.ipAddress}` : ''}
+                  {isActive ? ` - bloqueado ate ${formatDate(event.lockedUntil)}` : event.unlockedAt ? ' - desbloqueado pelo admin' : ' - expirado'}
+                </p>
+              </div>
+              {isActive && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => unlockMutation.mutate(event.id)}
+                  disabled={unlockMutation.isPending}
+                  data-testid={`button-unlock-${event.id}`}
+                >
+                  <Key className="w-4 h-4 mr-1" />
+                  Desbloquear
+                </Button>
+              )}
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
+
 function ClientesTab() {
   const { toast } = useToast();
   const [searchTerm, setSearchTerm] = useState('');
@@ -2458,6 +2652,8 @@ function ClientesTab() {
         </div>
       </div>
 
+      <LoginLocksCard />
+
       {isLoading ? (
         <div className="grid gap-4">
           {[1, 2, 3].map(i => (
@@ -2801,6 +2997,9 @@ function ProductItem({
   formatCurrency,
   isPrepared,
   onImageClick,
+  variantCount = 0,
+  onManageVariants,
+  onManageRecipe,
 }: { 
   product: Product; 
   category: Category | undefined;
@@ -2811,6 +3010,9 @@ function ProductItem({
   formatCurrency: (value: number | string) => string;
   isPrepared: boolean;
   onImageClick?: (productId: string) => void;
+  variantCount?: number;
+  onManageVariants?: (prod: Product) => void;
+  onManageRecipe?: (prod: Product) => void;
 }) {
   return (
     <Card 
@@ -2857,6 +3059,9 @@ function ProductItem({
                   Combo
                 </Badge>
               )}
+              {variantCount > 0 && (
+                <Badge variant="outline">{variantCount} variacoes</Badge>
+              )}
             </div>
           </div>
         </div>
@@ -2894,6 +3099,26 @@ function ProductItem({
             />
             <span className="text-xs text-muted-foreground">Combo</span>
           </div>
+          <Button 
+            size="sm" 
+            variant="outline"
+            onClick={() => onManageVariants?.(product)}
+            data-testid={`button-variants-product-${product.id}`}
+            title="Variacoes (tamanhos, embalagens)"
+          >
+            <Layers className="w-4 h-4" />
+          </Button>
+          {(isPrepared || product.isPrepared) && (
+            <Button 
+              size="sm" 
+              variant="outline"
+              onClick={() => onManageRecipe?.(product)}
+              data-testid={`button-recipe-product-${product.id}`}
+              title="Receita (ingredientes)"
+            >
+              <ChefHat className="w-4 h-4" />
+            </Button>
+          )}
           <Button 
             size="sm" 
             variant="outline"
@@ -2917,12 +3142,242 @@ function ProductItem({
   );
 }
 
-// Helper function to check if a category is for prepared products (no stock tracking)
-const PREPARED_CATEGORY_PATTERNS = ['copos', 'doses', 'copao', 'drinks', 'caipirinhas', 'drinks especiais', 'batidas'];
+type VariantDraft = {
+  name: string;
+  sku: string;
+  costPrice: string;
+  salePrice: string;
+  stock: string;
+  isActive: boolean;
+};
+
+function toVariantDraft(variant?: ProductVariant, product?: Product): VariantDraft {
+  return {
+    name: variant?.name ?? '',
+    sku: variant?.sku ?? '',
+    costPrice: String(Number(variant?.costPrice ?? product?.costPrice ?? 0)),
+    salePrice: String(Number(variant?.salePrice ?? product?.salePrice ?? 0)),
+    stock: String(variant?.stock ?? 0),
+    isActive: variant?.isActive ?? true,
+  };
+}
+
+// Sizes/packagings of one product, each with its own SKU, prices and stock
+function ProductVariantsDialog({ product, onClose }: { product: Product | null; onClose: () => void }) {
+  const { toast } = useToast();
+  const [drafts, setDrafts] = useState<Record<string, VariantDraft>>({});
+  const [newDraft, setNewDraft] = useState<VariantDraft>(toVariantDraft());
+
+  const { data: variants = [] } = useQuery<ProductVariant[]>({
+    queryKey: ['/api/products', product?.id, 'variants'],
+    enabled: !!product,
+  });
+
+  useEffect(() => {
+    setDrafts(Object.fromEntries(variants.map(v => [v.id, toVariantDraft(v)])));
+  }, [variants]);
+
+  useEffect(() => {
+    if (product) setNewDraft(toVariantDraft(undefined, product));
+  }, [product]);
+
+  const invalidateVariants = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/products', product?.id, 'variants'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/product-variants'] });
+  };
+
+  const onError = (error: Error) => {
+    const apiError = parseApiError(error);
+    toast({ title: 'Erro ao salvar variacao', description: apiError?.body?.error, variant: 'destructive' });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (draft: VariantDraft) => {
+      return apiRequest('POST', `/api/products/${product!.id}/variants`, { ...draft, sortOrder: variants.length });
+    },
+    onSuccess: () => {
+      invalidateVariants();
+      setNewDraft(toVariantDraft(undefined, product ?? undefined));
+      toast({ title: 'Variacao criada!' });
+    },
+    onError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, draft }: { id: string; draft: VariantDraft }) => {
+      return apiRequest('PATCH', `/api/product-variants/${id}`, draft);
+    },
+    onSuccess: () => {
+      invalidateVariants();
+      toast({ title: 'Variacao atualizada!' });
+    },
+    onError,
+  });
+
+  const updateDraft = (id: string, changes: Partial<VariantDraft>) => {
+    setDrafts(prev => ({ ...prev, [id]: { ...prev[id], ...changes } }));
+  };
+
+  const renderFields = (draft: VariantDraft, onChange: (changes: Partial<VariantDraft>) => void, testId: string) => (
+    <>
+      <Input className="col-span-2" placeholder="Nome (ex: Lata 350ml)" value={draft.name} onChange={(e) => onChange({ name: e.target.value })} data-testid={`input-variant-name-${testId}`} />
+      <Input placeholder="SKU" value={draft.sku} onChange={(e) => onChange({ sku: e.target.value })} data-testid={`input-variant-sku-${testId}`} />
+      <Input type="number" step="0.01" min="0" placeholder="Custo" value={draft.costPrice} onChange={(e) => onChange({ costPrice: e.target.value })} data-testid={`input-variant-cost-${testId}`} />
+      <Input type="number" step="0.01" min="0" placeholder="Venda" value={draft.salePrice} onChange={(e) => onChange({ salePrice: e.target.value })} data-testid={`input-variant-price-${testId}`} />
+      <Input type="number" min="0" placeholder="Estoque" value={draft.stock} onChange={(e) => onChange({ stock: e.target.value })} data-testid={`input-variant-stock-${testId}`} />
+    </>
+  );
+
+  return (
+    <Dialog open={!!product} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Variacoes - {product?.name}</DialogTitle>
+        </DialogHeader>
+        <p className="text-sm text-muted-foreground">
+          Com variacoes ativas o produto e vendido apenas por elas: preco e estoque passam a ser os de cada variacao.
+        </p>
+        <div className="space-y-2">
+          <div className="grid grid-cols-8 gap-2 text-xs text-muted-foreground px-1">
+            <span className="col-span-2">Nome</span>
+            <span>SKU</span>
+            <span>Custo</span>
+            <span>Venda</span>
+            <span>Estoque</span>
+            <span>Ativa</span>
+          </div>
+          {variants.map(variant => drafts[variant.id] && (
+            <div key={variant.id} className="grid grid-cols-8 gap-2 items-center" data-testid={`row-variant-${variant.id}`}>
+              {renderFields(drafts[variant.id], (changes) => updateDraft(variant.id, changes), variant.id)}
+              <Switch checked={drafts[variant.id].isActive} onCheckedChange={(isActive) => updateDraft(variant.id, { isActive })} />
+              <Button
+                size="icon"
+                variant="ghost"
+                onClick={() => updateMutation.mutate({ id: variant.id, draft: drafts[variant.id] })}
+                disabled={updateMutation.isPending}
+                data-testid={`button-save-variant-${variant.id}`}
+              >
+                <Save className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+          <div className="grid grid-cols-8 gap-2 items-center border-t border-border pt-2">
+            {renderFields(newDraft, (changes) => setNewDraft(prev => ({ ...prev, ...changes })), 'new')}
+            <span />
+            <Button
+              size="icon"
+              onClick={() => createMutation.mutate(newDraft)}
+              disabled={!newDraft.name.trim() || createMutation.isPending}
+              data-testid="button-add-variant"
+            >
+              <Plus className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Ingredients taken from stock for each unit sold, when the kitchen starts the order
+function RecipeDialog({ product, products, onClose }: { product: Product | null; products: Product[]; onClose: () => void }) {
+  const { toast } = useToast();
+  const [lines, setLines] = useState<{ ingredientProductId: string; quantity: string }[]>([]);
+
+  const { data: recipe = [] } = useQuery<RecipeIngredient[]>({
+    queryKey: ['/api/products', product?.id, 'recipe'],
+    enabled: !!product,
+  });
+
+  useEffect(() => {
+    setLines(recipe.map(line => ({ ingredientProductId: line.ingredientProductId, quantity: String(line.quantity) })));
+  }, [recipe]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest('PUT', `/api/products/${product!.id}/recipe`, {
+        ingredients: lines
+          .filter(line => line.ingredientProductId)
+          .map(line => ({ ingredientProductId: line.ingredientProductId, quantity: parseInt(line.quantity) || 0 })),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/products', product?.id, 'recipe'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/recipes'] });
+      toast({ title: 'Receita salva!' });
+      onClose();
+    },
+    onError: (error: Error) => {
+      const apiError = parseApiError(error);
+      toast({ title: 'Erro ao salvar receita', description: apiError?.body?.error, variant: 'destructive' });
+    },
+  });
+
+  const updateLine = (index: number, changes: Partial<{ ingredientProductId: string; quantity: string }>) => {
+    setLines(prev => prev.map((line, i) => i === index ? { ...line, ...changes } : line));
+  };
+
+  const ingredientOptions = products
+    .filter(p => p.id !== product?.id && p.isActive)
+    .sort((a, b) => a.name.localeCompare(b.name));
 
-function isPreparedCategory(categoryName: string): boolean {
-  return PREPARED_CATEGORY_PATTERNS.some(pattern => 
-    categoryName.toLowerCase().includes(pattern.toLowerCase())
+  return (
+    <Dialog open={!!product} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Receita - {product?.name}</DialogTitle>
+        </DialogHeader>
+        <p className="text-sm text-muted-foreground">
+          Quantidade por unidade vendida. Sai do estoque quando a cozinha inicia o pedido; a cozinha ainda pode ajustar.
+        </p>
+        <div className="space-y-2">
+          {lines.map((line, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <Select value={line.ingredientProductId} onValueChange={(ingredientProductId) => updateLine(index, { ingredientProductId })}>
+                <SelectTrigger className="flex-1" data-testid={`select-recipe-ingredient-${index}`}>
+                  <SelectValue placeholder="Ingrediente" />
+                </SelectTrigger>
+                <SelectContent>
+                  {ingredientOptions.map(option => (
+                    <SelectItem key={option.id} value={option.id}>{option.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                type="number"
+                min="1"
+                className="w-20"
+                value={line.quantity}
+                onChange={(e) => updateLine(index, { quantity: e.target.value })}
+                data-testid={`input-recipe-quantity-${index}`}
+              />
+              <Button
+                type="button"
+                size="icon"
+                variant="ghost"
+                onClick={() => setLines(prev => prev.filter((_, i) => i !== index))}
+                data-testid={`button-remove-recipe-line-${index}`}
+              >
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            onClick={() => setLines(prev => [...prev, { ingredientProductId: '', quantity: '1' }])}
+            data-testid="button-add-recipe-line"
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            Ingrediente
+          </Button>
+        </div>
+        <Button className="w-full" onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending} data-testid="button-save-recipe">
+          Salvar receita
+        </Button>
+      </DialogContent>
+    </Dialog>
   );
 }
 
@@ -2937,7 +3392,14 @@ function ProdutosTab() {
     queryKey: ['/api/categories'],
   });
 
+  const { data: activeVariants = [] } = useQuery<ProductVariant[]>({
+    queryKey: ['/api/product-variants'],
+  });
+  const variantCountByProduct = new Map(Array.from(groupVariantsByProduct(activeVariants)).map(([id, list]) => [id, list.length]));
+
   const [editingProduct, setEditingProduct] = useState<Product | null>(null);
+  const [variantsProduct, setVariantsProduct] = useState<Product | null>(null);
+  const [recipeProduct, setRecipeProduct] = useState<Product | null>(null);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [uploadedImageUrl, setUploadedImageUrl] = useState<string | null>(null);
   const [costPrice, setCostPrice] = useState<string>('');
@@ -2996,7 +3458,7 @@ function ProdutosTab() {
 
   // Check if the selected category in form is a prepared category (no stock)
   const selectedFormCategory = categories.find(c => c.id === formCategoryId);
-  const isFormCategoryPrepared = selectedFormCategory ? isPreparedCategory(selectedFormCategory.name) : false;
+  const isFormCategoryPrepared = selectedFormCategory ? !categoryTracksStock(selectedFormCategory) : false;
 
   const handleOpenImageModal = (product: { id: string; name: string; imageUrl: string | null }, callback: (url: string) => void) => {
     setImageModalConfig({
@@ -3218,20 +3680,6 @@ function ProdutosTab() {
       return;
     }
 
-    const saved = localStorage.getItem('vibe-drinks-user');
-    let userId = null;
-    if (saved) {
-      try {
-        const user = JSON.parse(saved);
-        userId = user.id;
-      } catch {}
-    }
-
-    if (!userId) {
-      toast({ title: 'Erro', description: 'Usuario nao autenticado', variant: 'destructive' });
-      return;
-    }
-
     const formData = new FormData();
     formData.append('file', file);
     formData.append('folder', 'products');
@@ -3239,10 +3687,8 @@ function ProdutosTab() {
     try {
       const response = await fetch('/api/storage/upload', {
         method: 'POST',
-        headers: {
-          'x-user-id': userId,
-        },
         body: formData,
+        credentials: 'include',
       });
       const result = await response.json();
       if (response.ok && result.publicUrl) {
@@ -3269,20 +3715,6 @@ function ProdutosTab() {
       return;
     }
 
-    const saved = localStorage.getItem('vibe-drinks-user');
-    let userId = null;
-    if (saved) {
-      try {
-        const user = JSON.parse(saved);
-        userId = user.id;
-      } catch {}
-    }
-
-    if (!userId) {
-      toast({ title: 'Erro', description: 'Usuario nao autenticado', variant: 'destructive' });
-      return;
-    }
-
     const formData = new FormData();
     formData.append('file', file);
     formData.append('folder', 'products');
@@ -3290,10 +3722,8 @@ function ProdutosTab() {
     try {
       const response = await fetch('/api/storage/upload', {
         method: 'POST',
-        headers: {
-          'x-user-id': userId,
-        },
         body: formData,
+        credentials: 'include',
       });
       const result = await response.json();
       if (response.ok && result.publicUrl) {
@@ -3671,7 +4101,7 @@ function ProdutosTab() {
                 />
                 {sortedProducts.map(product => {
                   const category = categories.find(c => c.id === product.categoryId);
-                  const isPrepared = category ? isPreparedCategory(category.name) : false;
+                  const isPrepared = category ? !categoryTracksStock(category) : false;
                   return (
                     <ProductItem
                       key={product.id}
@@ -3683,6 +4113,9 @@ function ProdutosTab() {
                       isTogglingCombo={toggleComboEligibleMutation.isPending}
                       formatCurrency={formatCurrency}
                       isPrepared={isPrepared}
+                      variantCount={variantCountByProduct.get(product.id) ?? 0}
+                      onManageVariants={setVariantsProduct}
+                      onManageRecipe={setRecipeProduct}
                       onImageClick={(productId) => {
                         const prod = sortedProducts.find(p => p.id === productId);
                         if (prod) {
@@ -3706,7 +4139,7 @@ function ProdutosTab() {
                   onChange={handleTableImageUpload}
                 />
                 {productsByCategory.map(({ category, products: catProducts }) => {
-                  const isCategoryPrepared = isPreparedCategory(category.name);
+                  const isCategoryPrepared = !categoryTracksStock(category);
                   return (
                   <Card key={category.id} data-testid={`table-category-${category.id}`}>
                     <CardHeader className="py-3">
@@ -3961,6 +4394,9 @@ function ProdutosTab() {
           </>
         );
       })()}
+
+      <ProductVariantsDialog product={variantsProduct} onClose={() => setVariantsProduct(null)} />
+      <RecipeDialog product={recipeProduct} products={products} onClose={() => setRecipeProduct(null)} />
     </div>
   );
 }
@@ -3991,6 +4427,13 @@ function CategoryItem({
           <div className="flex items-center gap-2 text-sm text-muted-foreground">
             <span>{productCount} produto{productCount !== 1 ? 's' : ''}</span>
           </div>
+          <div className="flex flex-wrap gap-1 mt-1">
+            {category.isPrepared && <Badge variant="secondary">Preparado</Badge>}
+            {!category.tracksStock && <Badge variant="secondary">Sem estoque</Badge>}
+            {!category.containsAlcohol && <Badge variant="secondary">Sem alcool</Badge>}
+            {category.comboRole && <Badge variant="outline">Combo: {COMBO_ROLE_LABELS[category.comboRole]}</Badge>}
+            {category.showcaseGroup && <Badge variant="outline">{SHOWCASE_GROUP_LABELS[category.showcaseGroup]}</Badge>}
+          </div>
         </div>
         <div className="flex gap-2">
           <Button 
@@ -4029,6 +4472,11 @@ function CategoriasTab() {
   const [viewingCategory, setViewingCategory] = useState<Category | null>(null);
   const [isViewDialogOpen, setIsViewDialogOpen] = useState(false);
   const [selectedIcon, setSelectedIcon] = useState<string>('glass-water');
+  const [isPrepared, setIsPrepared] = useState(false);
+  const [tracksStock, setTracksStock] = useState(true);
+  const [containsAlcohol, setContainsAlcohol] = useState(false);
+  const [comboRole, setComboRole] = useState<ComboRole | null>(null);
+  const [showcaseGroup, setShowcaseGroup] = useState<ShowcaseGroup | null>(null);
   const { toast } = useToast();
 
   const { data: categories = [] } = useQuery<Category[]>({
@@ -4111,6 +4559,12 @@ function CategoriasTab() {
       iconUrl: selectedIcon,
       sortOrder: parseInt(formData.get('sortOrder') as string) || 0,
       isActive: true,
+      isPrepared,
+      // Prepared drinks are made to order, so they never carry stock
+      tracksStock: isPrepared ? false : tracksStock,
+      containsAlcohol,
+      comboRole,
+      showcaseGroup,
     };
 
     if (editingCategory) {
@@ -4127,6 +4581,11 @@ function CategoriasTab() {
     } else {
       setSelectedIcon('glass-water');
     }
+    setIsPrepared(cat?.isPrepared ?? false);
+    setTracksStock(cat?.tracksStock ?? true);
+    setContainsAlcohol(cat?.containsAlcohol ?? false);
+    setComboRole(cat?.comboRole ?? null);
+    setShowcaseGroup(cat?.showcaseGroup ?? null);
     setIsDialogOpen(true);
   };
 
@@ -4182,6 +4641,81 @@ function CategoriasTab() {
                   Selecionado: {CATEGORY_ICONS.find(i => i.id === selectedIcon)?.name || 'Agua'}
                 </p>
               </div>
+              <div className="space-y-3 p-3 border rounded-md">
+                <div className="flex items-center justify-between gap-4">
+                  <div>
+                    <Label htmlFor="category-prepared">Preparado na hora</Label>
+                    <p className="text-xs text-muted-foreground">Drinks feitos pela cozinha; nunca esgotam</p>
+                  </div>
+                  <Switch
+                    id="category-prepared"
+                    checked={isPrepared}
+                    onCheckedChange={setIsPrepared}
+                    data-testid="switch-category-prepared"
+                  />
+                </div>
+                <div className="flex items-center justify-between gap-4">
+                  <div>
+                    <Label htmlFor="category-tracks-stock">Controla estoque</Label>
+                    <p className="text-xs text-muted-foreground">Entra no relatorio de estoque e na lista de compras</p>
+                  </div>
+                  <Switch
+                    id="category-tracks-stock"
+                    checked={!isPrepared && tracksStock}
+                    onCheckedChange={setTracksStock}
+                    disabled={isPrepared}
+                    data-testid="switch-category-tracks-stock"
+                  />
+                </div>
+                <div className="flex items-center justify-between gap-4">
+                  <div>
+                    <Label htmlFor="category-contains-alcohol">Contem alcool</Label>
+                    <p className="text-xs text-muted-foreground">Exige confirmacao de idade e conferencia de documento na entrega</p>
+                  </div>
+                  <Switch
+                    id="category-contains-alcohol"
+                    checked={containsAlcohol}
+                    onCheckedChange={setContainsAlcohol}
+                    data-testid="switch-category-contains-alcohol"
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <Label>Funcao no combo</Label>
+                    <Select
+                      value={comboRole ?? 'none'}
+                      onValueChange={(value) => setComboRole(value === 'none' ? null : value as ComboRole)}
+                    >
+                      <SelectTrigger data-testid="select-category-combo-role">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">Nenhuma</SelectItem>
+                        {COMBO_ROLES.map(role => (
+                          <SelectItem key={role} value={role}>{COMBO_ROLE_LABELS[role]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label>Vitrine</Label>
+                    <Select
+                      value={showcaseGroup ?? 'none'}
+                      onValueChange={(value) => setShowcaseGroup(value === 'none' ? null : value as ShowcaseGroup)}
+                    >
+                      <SelectTrigger data-testid="select-category-showcase">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">Nenhuma</SelectItem>
+                        {SHOWCASE_GROUPS.map(group => (
+                          <SelectItem key={group} value={group}>{SHOWCASE_GROUP_LABELS[group]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+              </div>
               <Button type="submit" className="w-full" data-testid="button-submit-category">
                 {editingCategory ? 'Salvar' : 'Criar'}
               </Button>
@@ -4275,327 +4809,1378 @@ function CategoriasTab() {
   );
 }
 
-interface MotoboyDetails extends Motoboy {
-  hasPassword?: boolean;
-  userId?: string | null;
+type ComboTemplateForm = {
+  name: string;
+  description: string;
+  discountType: ComboDiscountType;
+  discountValue: string;
+  isActive: boolean;
+  startsAt: string;
+  endsAt: string;
+  slots: ComboSlot[];
+  activePeriods: ComboActivePeriod[];
+};
+
+const EMPTY_COMBO_FORM: ComboTemplateForm = {
+  name: '',
+  description: '',
+  discountType: 'percent',
+  discountValue: '5',
+  isActive: true,
+  startsAt: '',
+  endsAt: '',
+  slots: [],
+  activePeriods: [],
+};
+
+// Date inputs hold store-local days; the API stores instants
+function toStoreDate(value: string | Date | null): string {
+  return value ? new Date(value).toLocaleDateString('sv-SE', { timeZone: STORE_TIME_ZONE }) : '';
 }
 
-function MotoboysTab() {
-  const [isDialogOpen, setIsDialogOpen] = useState(false);
-  const [isDetailDialogOpen, setIsDetailDialogOpen] = useState(false);
-  const [isReportDialogOpen, setIsReportDialogOpen] = useState(false);
-  const [editingMotoboy, setEditingMotoboy] = useState<Motoboy | null>(null);
-  const [viewingMotoboyId, setViewingMotoboyId] = useState<string | null>(null);
-  const [reportMotoboyId, setReportMotoboyId] = useState<string | null>(null);
-  const [reportStartDate, setReportStartDate] = useState<string>('');
-  const [reportEndDate, setReportEndDate] = useState<string>('');
-  const [reportSearchTerm, setReportSearchTerm] = useState<string>('');
+function newComboSlot(index: number): ComboSlot {
+  return { id: `slot-${Date.now()}-${index}`, label: '', source: 'category', ids: [], comboEligibleOnly: false, minQuantity: 1, maxQuantity: 1 };
+}
+
+function CombosTab() {
   const { toast } = useToast();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingTemplate, setEditingTemplate] = useState<ComboTemplate | null>(null);
+  const [form, setForm] = useState<ComboTemplateForm>(EMPTY_COMBO_FORM);
 
-  const { data: motoboys = [] } = useQuery<Motoboy[]>({
-    queryKey: ['/api/motoboys'],
+  const { data: templates = [], isLoading } = useQuery<ComboTemplate[]>({
+    queryKey: ['/api/combo-templates/all'],
   });
 
-  const { data: motoboyDetails } = useQuery<MotoboyDetails>({
-    queryKey: ['/api/motoboys', viewingMotoboyId, 'details'],
-    enabled: !!viewingMotoboyId,
-    queryFn: async () => {
-      const res = await fetch(`/api/motoboys/${viewingMotoboyId}/details`);
-      if (!res.ok) throw new Error('Failed to fetch motoboy details');
-      return res.json();
-    }
+  const { data: categories = [] } = useQuery<Category[]>({
+    queryKey: ['/api/categories'],
   });
 
-  const { data: motoboyOrders = [], isLoading: isLoadingOrders } = useQuery<Order[]>({
-    queryKey: ['/api/motoboys', reportMotoboyId, 'orders', reportStartDate, reportEndDate],
-    enabled: !!reportMotoboyId && isReportDialogOpen,
-    queryFn: async () => {
-      const params = new URLSearchParams();
-      if (reportStartDate) params.append('startDate', reportStartDate);
-      if (reportEndDate) params.append('endDate', reportEndDate);
-      const url = `/api/motoboys/${reportMotoboyId}/orders${params.toString() ? '?' + params.toString() : ''}`;
-      const res = await fetch(url);
-      if (!res.ok) throw new Error('Failed to fetch motoboy orders');
-      return res.json();
-    }
+  const { data: products = [] } = useQuery<Product[]>({
+    queryKey: ['/api/products'],
   });
 
-  const createMutation = useMutation({
-    mutationFn: async (data: Partial<Motoboy> & { password?: string }) => {
-      const res = await apiRequest('POST', '/api/motoboys', data);
-      if (!res.ok) {
-        const errorData = await res.json();
-        throw new Error(errorData.error || 'Erro ao criar motoboy');
-      }
-      return res.json();
+  const invalidateTemplates = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/combo-templates/all'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/combo-templates'] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ id, data }: { id?: string; data: Record<string, unknown> }) => {
+      return id
+        ? apiRequest('PATCH', `/api/combo-templates/${id}`, data)
+        : apiRequest('POST', '/api/combo-templates', data);
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/motoboys'] });
-      toast({ title: 'Motoboy criado!' });
-      setIsDialogOpen(false);
-    },
-    onError: (error: Error) => {
-      toast({ title: 'Erro', description: error.message, variant: 'destructive' });
-    },
-  });
-
-  const updateMutation = useMutation({
-    mutationFn: async ({ id, data }: { id: string; data: Partial<Motoboy> & { password?: string } }) => {
-      const res = await apiRequest('PATCH', `/api/motoboys/${id}`, data);
-      if (!res.ok) {
-        const errorData = await res.json();
-        throw new Error(errorData.error || 'Erro ao atualizar motoboy');
-      }
-      return res.json();
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/motoboys'] });
-      toast({ title: 'Motoboy atualizado!' });
+    onSuccess: (_data, { id }) => {
+      invalidateTemplates();
       setIsDialogOpen(false);
-      setEditingMotoboy(null);
+      setEditingTemplate(null);
+      toast({ title: id ? 'Combo atualizado!' : 'Combo criado!' });
     },
     onError: (error: Error) => {
-      toast({ title: 'Erro', description: error.message, variant: 'destructive' });
+      const apiError = parseApiError(error);
+      toast({ title: 'Erro ao salvar combo', description: apiError?.body?.error, variant: 'destructive' });
     },
   });
 
   const toggleActiveMutation = useMutation({
     mutationFn: async ({ id, isActive }: { id: string; isActive: boolean }) => {
-      return apiRequest('PATCH', `/api/motoboys/${id}`, { isActive });
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/motoboys'] });
-      toast({ title: 'Status atualizado!' });
+      return apiRequest('PATCH', `/api/combo-templates/${id}`, { isActive });
     },
+    onSuccess: () => invalidateTemplates(),
   });
 
   const deleteMutation = useMutation({
     mutationFn: async (id: string) => {
-      return apiRequest('DELETE', `/api/motoboys/${id}`);
+      return apiRequest('DELETE', `/api/combo-templates/${id}`);
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/motoboys'] });
-      toast({ title: 'Motoboy excluido!' });
+      invalidateTemplates();
+      toast({ title: 'Combo excluido!' });
     },
   });
 
-  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
-    e.preventDefault();
-    const formData = new FormData(e.currentTarget);
-    const password = formData.get('password') as string;
-    
-    // Validate password format (6 digits)
-    if (password && !/^\d{6}$/.test(password)) {
-      toast({ 
-        title: 'Erro', 
-        description: 'A senha deve ter exatamente 6 digitos numericos',
-        variant: 'destructive' 
-      });
-      return;
-    }
-    
-    const data: Partial<Motoboy> & { password?: string } = {
-      name: formData.get('name') as string,
-      whatsapp: formData.get('whatsapp') as string,
-      isActive: formData.get('isActive') === 'on',
-    };
-    
-    if (password) {
-      data.password = password;
-    }
-
-    if (editingMotoboy) {
-      updateMutation.mutate({ id: editingMotoboy.id, data });
-    } else {
-      createMutation.mutate(data);
-    }
+  const openDialog = (template: ComboTemplate | null) => {
+    setEditingTemplate(template);
+    setForm(template ? {
+      name: template.name,
+      description: template.description ?? '',
+      discountType: template.discountType,
+      discountValue: String(Number(template.discountValue)),
+      isActive: template.isActive,
+      startsAt: toStoreDate(template.startsAt),
+      endsAt: toStoreDate(template.endsAt),
+      slots: template.slots,
+      activePeriods: template.activePeriods,
+    } : EMPTY_COMBO_FORM);
+    setIsDialogOpen(true);
   };
 
-  const handleViewDetails = (motoboyId: string) => {
-    setViewingMotoboyId(motoboyId);
-    setIsDetailDialogOpen(true);
+  // Starting point built from the categories flagged with a combo role
+  const applyDefaultSlots = () => {
+    const idsFor = (role: ComboRole) => categories.filter(c => c.comboRole === role).map(c => c.id);
+    setForm(prev => ({
+      ...prev,
+      name: prev.name || 'Combo Vibe',
+      slots: [
+        { id: 'destilado', label: 'Destilado', source: 'category', ids: idsFor('spirit'), comboEligibleOnly: false, minQuantity: 1, maxQuantity: 1 },
+        { id: 'energetico', label: 'Energetico', source: 'category', ids: idsFor('energy_drink'), comboEligibleOnly: true, minQuantity: 1, maxQuantity: 4 },
+        { id: 'gelo', label: 'Gelo', source: 'category', ids: idsFor('ice'), comboEligibleOnly: true, minQuantity: 4, maxQuantity: 4 },
+      ],
+    }));
   };
 
-  const handleOpenReport = (motoboyId: string) => {
-    setReportMotoboyId(motoboyId);
-    setReportStartDate('');
-    setReportEndDate('');
-    setReportSearchTerm('');
-    setIsReportDialogOpen(true);
+  const updateSlot = (index: number, changes: Partial<ComboSlot>) => {
+    setForm(prev => ({ ...prev, slots: prev.slots.map((slot, i) => i === index ? { ...slot, ...changes } : slot) }));
   };
 
-  const reportMotoboy = motoboys.find(m => m.id === reportMotoboyId);
-  
-  const filteredReportOrders = motoboyOrders.filter(order => {
-    if (!reportSearchTerm) return true;
-    const searchLower = reportSearchTerm.toLowerCase();
-    return (
-      order.id.toLowerCase().includes(searchLower) ||
-      (order.customerName && order.customerName.toLowerCase().includes(searchLower)) ||
-      (order.notes && order.notes.toLowerCase().includes(searchLower))
-    );
-  });
+  const toggleSlotId = (index: number, id: string) => {
+    const slot = form.slots[index];
+    updateSlot(index, { ids: slot.ids.includes(id) ? slot.ids.filter(x => x !== id) : [...slot.ids, id] });
+  };
 
-  const reportTotals = filteredReportOrders.reduce((acc, order) => {
-    acc.count += 1;
-    acc.total += Number(order.total);
-    acc.deliveryFees += Number(order.deliveryFee);
-    return acc;
-  }, { count: 0, total: 0, deliveryFees: 0 });
+  const updatePeriod = (index: number, changes: Partial<ComboActivePeriod>) => {
+    setForm(prev => ({ ...prev, activePeriods: prev.activePeriods.map((period, i) => i === index ? { ...period, ...changes } : period) }));
+  };
 
-  const handleExportReport = () => {
-    if (!reportMotoboy) return;
-    const csvData = [
-      ['Relatorio de Entregas - ' + reportMotoboy.name],
-      ['Periodo: ' + (reportStartDate || 'Inicio') + ' ate ' + (reportEndDate || 'Hoje')],
-      [''],
-      ['Resumo'],
-      ['Total de Entregas', reportTotals.count.toString()],
-      ['Valor Total', formatCurrency(reportTotals.total)],
-      ['Taxas de Entrega', formatCurrency(reportTotals.deliveryFees)],
-      [''],
-      ['Pedidos'],
-      ['ID', 'Data', 'Cliente', 'Valor', 'Taxa Entrega', 'Status'],
-      ...filteredReportOrders.map(order => [
-        order.id,
-        formatDate(order.createdAt),
-        order.customerName || '-',
-        formatCurrency(order.total),
-        formatCurrency(order.deliveryFee),
-        ORDER_STATUS_LABELS[order.status as OrderStatus]
-      ])
-    ];
-    const csvContent = csvData.map(row => row.join(';')).join('\n');
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const link = document.createElement('a');
-    link.href = URL.createObjectURL(blob);
-    link.download = `relatorio_${reportMotoboy.name.replace(/\s+/g, '_')}_${new Date().toISOString().split('T')[0]}.csv`;
-    link.click();
-    toast({ title: 'Relatorio exportado!' });
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    saveMutation.mutate({
+      id: editingTemplate?.id,
+      data: {
+        name: form.name,
+        description: form.description,
+        discountType: form.discountType,
+        discountValue: form.discountValue,
+        isActive: form.isActive,
+        startsAt: form.startsAt ? `${form.startsAt}T00:00:00-03:00` : null,
+        endsAt: form.endsAt ? `${form.endsAt}T23:59:59-03:00` : null,
+        slots: form.slots,
+        activePeriods: form.activePeriods,
+      },
+    });
   };
 
+  const describePeriods = (periods: ComboActivePeriod[]) => periods.length === 0
+    ? 'Todos os dias, o dia todo'
+    : periods.map(p => `${p.days.map(d => WEEKDAY_LABELS[d]).join(', ')} ${p.start}-${p.end}`).join(' | ');
+
+  const sortedProducts = [...products].sort((a, b) => a.name.localeCompare(b.name));
+
   return (
     <div className="space-y-6">
       <div className="flex flex-wrap items-center justify-between gap-4">
-        <h2 className="font-serif text-3xl text-primary">Motoboys</h2>
-        <Dialog open={isDialogOpen} onOpenChange={(open) => { 
-          setIsDialogOpen(open); 
-          if (!open) setEditingMotoboy(null);
-        }}>
-          <DialogTrigger asChild>
-            <Button onClick={() => setEditingMotoboy(null)} data-testid="button-add-motoboy">
-              <Plus className="w-4 h-4 mr-2" />
-              Novo Motoboy
-            </Button>
-          </DialogTrigger>
-          <DialogContent>
-            <DialogHeader>
-              <DialogTitle>{editingMotoboy ? 'Editar Motoboy' : 'Novo Motoboy'}</DialogTitle>
-            </DialogHeader>
-            <form onSubmit={handleSubmit} className="space-y-4">
-              <div>
-                <Label htmlFor="name">Nome</Label>
-                <Input 
-                  id="name" 
-                  name="name" 
-                  defaultValue={editingMotoboy?.name} 
-                  required 
-                  data-testid="input-motoboy-name" 
-                />
-              </div>
-              <div>
-                <Label htmlFor="whatsapp">WhatsApp</Label>
-                <Input 
-                  id="whatsapp" 
-                  name="whatsapp" 
-                  placeholder="11999999999"
-                  defaultValue={editingMotoboy?.whatsapp} 
-                  required 
-                  data-testid="input-motoboy-whatsapp" 
-                />
-              </div>
-              <div>
-                <Label htmlFor="password">
-                  Senha (6 digitos) {editingMotoboy && '- deixe vazio para manter atual'}
-                </Label>
-                <Input 
-                  id="password" 
-                  name="password" 
-                  type="password"
-                  maxLength={6}
-                  pattern="\d{6}"
-                  placeholder={editingMotoboy ? "******" : "123456"}
-                  data-testid="input-motoboy-password" 
-                />
-                <p className="text-xs text-muted-foreground mt-1">
-                  A senha e usada para o motoboy acessar o app
-                </p>
-              </div>
-              <div className="flex items-center gap-3">
-                <Switch 
-                  id="isActive" 
-                  name="isActive"
-                  defaultChecked={editingMotoboy?.isActive ?? true}
-                  data-testid="switch-motoboy-active"
-                />
-                <Label htmlFor="isActive">Motoboy Ativo</Label>
-              </div>
-              <Button 
-                type="submit" 
-                className="w-full" 
-                disabled={createMutation.isPending || updateMutation.isPending}
-                data-testid="button-submit-motoboy"
-              >
-                {(createMutation.isPending || updateMutation.isPending) ? 'Salvando...' : (editingMotoboy ? 'Salvar' : 'Criar')}
-              </Button>
-            </form>
-          </DialogContent>
-        </Dialog>
+        <div>
+          <h2 className="font-serif text-3xl text-primary">Combos</h2>
+          <p className="text-sm text-muted-foreground mt-1">Etapas, desconto e horarios de cada combo da loja</p>
+        </div>
+        <Button onClick={() => openDialog(null)} data-testid="button-add-combo-template">
+          <Plus className="w-4 h-4 mr-2" />
+          Novo Combo
+        </Button>
       </div>
 
-      {/* Detail View Dialog */}
-      <Dialog open={isDetailDialogOpen} onOpenChange={(open) => {
-        setIsDetailDialogOpen(open);
-        if (!open) setViewingMotoboyId(null);
-      }}>
-        <DialogContent>
-          <DialogHeader>
-            <DialogTitle>Detalhes do Motoboy</DialogTitle>
-          </DialogHeader>
-          {motoboyDetails ? (
-            <div className="space-y-4">
-              <div className="flex items-center gap-4">
-                {motoboyDetails.photoUrl ? (
-                  <img 
-                    src={motoboyDetails.photoUrl} 
-                    alt={motoboyDetails.name} 
-                    className="w-16 h-16 object-cover rounded-full"
-                  />
-                ) : (
-                  <div className="w-16 h-16 rounded-full bg-primary/20 flex items-center justify-center">
-                    <Bike className="w-8 h-8 text-primary" />
-                  </div>
-                )}
-                <div>
-                  <h3 className="text-lg font-semibold">{motoboyDetails.name}</h3>
-                  <Badge className={motoboyDetails.isActive ? 'bg-green-500/20 text-green-300' : 'bg-red-500/20 text-red-300'}>
-                    {motoboyDetails.isActive ? 'Ativo' : 'Inativo'}
-                  </Badge>
-                </div>
-              </div>
-              
-              <div className="space-y-3 pt-2">
-                <div className="flex items-center gap-3 p-3 bg-secondary/50 rounded-md">
-                  <Phone className="w-5 h-5 text-muted-foreground" />
+      {isLoading ? (
+        <p className="text-muted-foreground">Carregando...</p>
+      ) : templates.length === 0 ? (
+        <Card>
+          <CardContent className="py-8 text-center text-muted-foreground">
+            Nenhum combo cadastrado
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-2">
+          {templates.map(template => (
+            <Card key={template.id} data-testid={`card-combo-template-${template.id}`}>
+              <CardContent className="p-4 space-y-3">
+                <div className="flex items-start justify-between gap-2">
                   <div>
-                    <p className="text-xs text-muted-foreground">WhatsApp</p>
-                    <p className="font-medium" data-testid="text-motoboy-whatsapp">{motoboyDetails.whatsapp}</p>
+                    <h3 className="font-semibold">{template.name}</h3>
+                    <div className="flex flex-wrap gap-1 mt-1">
+                      <Badge variant="secondary">{formatComboDiscount(template)}</Badge>
+                      {isComboTemplateAvailable(template)
+                        ? <Badge className="bg-green-500/20 text-green-300">Disponivel agora</Badge>
+                        : <Badge variant="outline">Fora do horario</Badge>}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <Switch
+                      checked={template.isActive}
+                      onCheckedChange={(isActive) => toggleActiveMutation.mutate({ id: template.id, isActive })}
+                      data-testid={`switch-combo-active-${template.id}`}
+                    />
+                    <Button size="icon" variant="ghost" onClick={() => openDialog(template)} data-testid={`button-edit-combo-${template.id}`}>
+                      <Edit2 className="w-4 h-4" />
+                    </Button>
+                    <Button size="icon" variant="ghost" onClick={() => deleteMutation.mutate(template.id)} data-testid={`button-delete-combo-${template.id}`}>
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
                   </div>
                 </div>
-                
-                <div className="flex items-center gap-3 p-3 bg-secondary/50 rounded-md">
-                  <Key className="w-5 h-5 text-muted-foreground" />
-                  <div>
+                <div className="space-y-1 text-sm">
+                  {template.slots.map(slot => (
+                    <div key={slot.id} className="flex justify-between text-muted-foreground">
+                      <span>{slot.label}</span>
+                      <span>{slot.minQuantity === slot.maxQuantity ? slot.minQuantity : `${slot.minQuantity}-${slot.maxQuantity}`} un.</span>
+                    </div>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground flex items-center gap-1">
+                  <Clock className="w-3 h-3" />
+                  {describePeriods(template.activePeriods)}
+                </p>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingTemplate ? 'Editar Combo' : 'Novo Combo'}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label>Nome</Label>
+                <Input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} required data-testid="input-combo-name" />
+              </div>
+              <div className="space-y-2">
+                <Label>Descricao</Label>
+                <Input value={form.description} onChange={(e) => setForm({ ...form, description: e.target.value })} data-testid="input-combo-description" />
+              </div>
+              <div className="space-y-2">
+                <Label>Tipo de desconto</Label>
+                <Select value={form.discountType} onValueChange={(value) => setForm({ ...form, discountType: value as ComboDiscountType })}>
+                  <SelectTrigger data-testid="select-combo-discount-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {COMBO_DISCOUNT_TYPES.map(type => (
+                      <SelectItem key={type} value={type}>{COMBO_DISCOUNT_TYPE_LABELS[type]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Desconto</Label>
+                <Input type="number" step="0.01" min="0" value={form.discountValue} onChange={(e) => setForm({ ...form, discountValue: e.target.value })} required data-testid="input-combo-discount-value" />
+              </div>
+              <div className="space-y-2">
+                <Label>Inicio da campanha (opcional)</Label>
+                <Input type="date" value={form.startsAt} onChange={(e) => setForm({ ...form, startsAt: e.target.value })} data-testid="input-combo-starts-at" />
+              </div>
+              <div className="space-y-2">
+                <Label>Fim da campanha (opcional)</Label>
+                <Input type="date" value={form.endsAt} onChange={(e) => setForm({ ...form, endsAt: e.target.value })} data-testid="input-combo-ends-at" />
+              </div>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Switch checked={form.isActive} onCheckedChange={(isActive) => setForm({ ...form, isActive })} id="combo-active" />
+              <Label htmlFor="combo-active">Ativo</Label>
+            </div>
+
+            <div className="space-y-3">
+              <div className="flex items-center justify-between gap-2">
+                <h3 className="font-semibold">Etapas</h3>
+                <div className="flex gap-2">
+                  {form.slots.length === 0 && (
+                    <Button type="button" size="sm" variant="outline" onClick={applyDefaultSlots} data-testid="button-combo-default-slots">
+                      Usar modelo padrao
+                    </Button>
+                  )}
+                  <Button type="button" size="sm" variant="outline" onClick={() => setForm({ ...form, slots: [...form.slots, newComboSlot(form.slots.length)] })} data-testid="button-add-combo-slot">
+                    <Plus className="w-4 h-4 mr-1" />
+                    Etapa
+                  </Button>
+                </div>
+              </div>
+              {form.slots.map((slot, index) => (
+                <Card key={slot.id}>
+                  <CardContent className="p-3 space-y-3">
+                    <div className="flex items-end gap-2">
+                      <div className="flex-1 space-y-1">
+                        <Label>Nome da etapa</Label>
+                        <Input value={slot.label} onChange={(e) => updateSlot(index, { label: e.target.value })} data-testid={`input-combo-slot-label-${index}`} />
+                      </div>
+                      <div className="w-20 space-y-1">
+                        <Label>Min</Label>
+                        <Input type="number" min="0" value={slot.minQuantity} onChange={(e) => updateSlot(index, { minQuantity: parseInt(e.target.value) || 0 })} data-testid={`input-combo-slot-min-${index}`} />
+                      </div>
+                      <div className="w-20 space-y-1">
+                        <Label>Max</Label>
+                        <Input type="number" min="1" value={slot.maxQuantity} onChange={(e) => updateSlot(index, { maxQuantity: parseInt(e.target.value) || 1 })} data-testid={`input-combo-slot-max-${index}`} />
+                      </div>
+                      <Button
+                        type="button"
+                        size="icon"
+                        variant="ghost"
+                        onClick={() => setForm({ ...form, slots: form.slots.filter((_, i) => i !== index) })}
+                        data-testid={`button-remove-combo-slot-${index}`}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-4">
+                      <Select value={slot.source} onValueChange={(source) => updateSlot(index, { source: source as ComboSlot['source'], ids: [] })}>
+                        <SelectTrigger className="w-48" data-testid={`select-combo-slot-source-${index}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="category">Categorias inteiras</SelectItem>
+                          <SelectItem value="product">Produtos escolhidos</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <div className="flex items-center gap-2">
+                        <Switch
+                          checked={slot.comboEligibleOnly}
+                          onCheckedChange={(comboEligibleOnly) => updateSlot(index, { comboEligibleOnly })}
+                          id={`combo-slot-eligible-${index}`}
+                        />
+                        <Label htmlFor={`combo-slot-eligible-${index}`} className="text-sm">Somente produtos marcados como "combo"</Label>
+                      </div>
+                    </div>
+                    <ScrollArea className="h-32 rounded-md border">
+                      <div className="p-2 grid gap-1 sm:grid-cols-2">
+                        {(slot.source === 'category' ? categories : sortedProducts).map(option => (
+                          <label key={option.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                            <Checkbox checked={slot.ids.includes(option.id)} onCheckedChange={() => toggleSlotId(index, option.id)} />
+                            <span className="truncate">{option.name}</span>
+                          </label>
+                        ))}
+                      </div>
+                    </ScrollArea>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+
+            <div className="space-y-3">
+              <div className="flex items-center justify-between gap-2">
+                <div>
+                  <h3 className="font-semibold">Horarios</h3>
+                  <p className="text-xs text-muted-foreground">Sem horarios, o combo vale todos os dias. Fim antes do inicio atravessa a meia-noite.</p>
+                </div>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setForm({ ...form, activePeriods: [...form.activePeriods, { days: [0, 1, 2, 3, 4, 5, 6], start: '18:00', end: '23:59' }] })}
+                  data-testid="button-add-combo-period"
+                >
+                  <Plus className="w-4 h-4 mr-1" />
+                  Horario
+                </Button>
+              </div>
+              {form.activePeriods.map((period, index) => (
+                <div key={index} className="flex flex-wrap items-center gap-2 p-2 border rounded-md">
+                  <div className="flex gap-1">
+                    {WEEKDAY_LABELS.map((label, day) => (
+                      <Button
+                        key={day}
+                        type="button"
+                        size="sm"
+                        variant={period.days.includes(day) ? 'default' : 'outline'}
+                        className="h-7 px-2 text-xs"
+                        onClick={() => updatePeriod(index, {
+                          days: period.days.includes(day) ? period.days.filter(d => d !== day) : [...period.days, day],
+                        })}
+                      >
+                        {label}
+                      </Button>
+                    ))}
+                  </div>
+                  <Input type="time" className="w-28" value={period.start} onChange={(e) => updatePeriod(index, { start: e.target.value })} />
+                  <span className="text-muted-foreground">ate</span>
+                  <Input type="time" className="w-28" value={period.end} onChange={(e) => updatePeriod(index, { end: e.target.value })} />
+                  <Button
+                    type="button"
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => setForm({ ...form, activePeriods: form.activePeriods.filter((_, i) => i !== index) })}
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+
+            <Button type="submit" className="w-full" disabled={saveMutation.isPending} data-testid="button-submit-combo-template">
+              {editingTemplate ? 'Salvar' : 'Criar'}
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+type ModifierGroupForm = {
+  name: string;
+  isRequired: boolean;
+  maxSelections: string;
+  isActive: boolean;
+  categoryIds: string[];
+  productIds: string[];
+  options: { id: string; name: string; priceDelta: string }[];
+};
+
+const EMPTY_MODIFIER_GROUP_FORM: ModifierGroupForm = {
+  name: '',
+  isRequired: false,
+  maxSelections: '1',
+  isActive: true,
+  categoryIds: [],
+  productIds: [],
+  options: [],
+};
+
+function newModifierOption(index: number): ModifierGroupForm['options'][number] {
+  return { id: `opt-${Date.now()}-${index}`, name: '', priceDelta: '0' };
+}
+
+function AdicionaisTab() {
+  const { toast } = useToast();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingGroup, setEditingGroup] = useState<ModifierGroup | null>(null);
+  const [form, setForm] = useState<ModifierGroupForm>(EMPTY_MODIFIER_GROUP_FORM);
+
+  const { data: groups = [], isLoading } = useQuery<ModifierGroup[]>({
+    queryKey: ['/api/modifier-groups/all'],
+  });
+
+  const { data: categories = [] } = useQuery<Category[]>({
+    queryKey: ['/api/categories'],
+  });
+
+  const { data: products = [] } = useQuery<Product[]>({
+    queryKey: ['/api/products'],
+  });
+
+  const invalidateGroups = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/modifier-groups/all'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/modifier-groups'] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ id, data }: { id?: string; data: Record<string, unknown> }) => {
+      return id
+        ? apiRequest('PATCH', `/api/modifier-groups/${id}`, data)
+        : apiRequest('POST', '/api/modifier-groups', data);
+    },
+    onSuccess: (_data, { id }) => {
+      invalidateGroups();
+      setIsDialogOpen(false);
+      setEditingGroup(null);
+      toast({ title: id ? 'Grupo atualizado!' : 'Grupo criado!' });
+    },
+    onError: (error: Error) => {
+      const apiError = parseApiError(error);
+      toast({ title: 'Erro ao salvar grupo', description: apiError?.body?.error, variant: 'destructive' });
+    },
+  });
+
+  const toggleActiveMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: string; isActive: boolean }) => {
+      return apiRequest('PATCH', `/api/modifier-groups/${id}`, { isActive });
+    },
+    onSuccess: () => invalidateGroups(),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest('DELETE', `/api/modifier-groups/${id}`);
+    },
+    onSuccess: () => {
+      invalidateGroups();
+      toast({ title: 'Grupo excluido!' });
+    },
+  });
+
+  const openDialog = (group: ModifierGroup | null) => {
+    setEditingGroup(group);
+    setForm(group ? {
+      name: group.name,
+      isRequired: group.isRequired,
+      maxSelections: String(group.maxSelections),
+      isActive: group.isActive,
+      categoryIds: group.categoryIds,
+      productIds: group.productIds,
+      options: group.options.map(option => ({ ...option, priceDelta: String(option.priceDelta) })),
+    } : EMPTY_MODIFIER_GROUP_FORM);
+    setIsDialogOpen(true);
+  };
+
+  const updateOption = (index: number, changes: Partial<ModifierGroupForm['options'][number]>) => {
+    setForm(prev => ({ ...prev, options: prev.options.map((option, i) => i === index ? { ...option, ...changes } : option) }));
+  };
+
+  const toggleId = (field: 'categoryIds' | 'productIds', id: string) => {
+    setForm(prev => ({ ...prev, [field]: prev[field].includes(id) ? prev[field].filter(x => x !== id) : [...prev[field], id] }));
+  };
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    saveMutation.mutate({
+      id: editingGroup?.id,
+      data: {
+        name: form.name,
+        isRequired: form.isRequired,
+        maxSelections: parseInt(form.maxSelections) || 1,
+        isActive: form.isActive,
+        categoryIds: form.categoryIds,
+        productIds: form.productIds,
+        options: form.options.map(option => ({ ...option, priceDelta: parseFloat(option.priceDelta) || 0 })),
+      },
+    });
+  };
+
+  const describeTargets = (group: ModifierGroup) => [
+    ...categories.filter(c => group.categoryIds.includes(c.id)).map(c => c.name),
+    ...products.filter(p => group.productIds.includes(p.id)).map(p => p.name),
+  ].join(', ') || 'Nenhum produto';
+
+  const sortedProducts = [...products].sort((a, b) => a.name.localeCompare(b.name));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h2 className="font-serif text-3xl text-primary">Adicionais</h2>
+          <p className="text-sm text-muted-foreground mt-1">Escolhas dos drinks preparados: fruta, destilado, adocante, dose extra</p>
+        </div>
+        <Button onClick={() => openDialog(null)} data-testid="button-add-modifier-group">
+          <Plus className="w-4 h-4 mr-2" />
+          Novo Grupo
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <p className="text-muted-foreground">Carregando...</p>
+      ) : groups.length === 0 ? (
+        <Card>
+          <CardContent className="py-8 text-center text-muted-foreground">
+            Nenhum grupo de adicionais cadastrado
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-2">
+          {groups.map(group => (
+            <Card key={group.id} data-testid={`card-modifier-group-${group.id}`}>
+              <CardContent className="p-4 space-y-3">
+                <div className="flex items-start justify-between gap-2">
+                  <div>
+                    <h3 className="font-semibold">{group.name}</h3>
+                    <div className="flex flex-wrap gap-1 mt-1">
+                      <Badge variant={group.isRequired ? 'default' : 'secondary'}>{group.isRequired ? 'Obrigatorio' : 'Opcional'}</Badge>
+                      <Badge variant="outline">{group.maxSelections === 1 ? 'Escolha unica' : `Ate ${group.maxSelections}`}</Badge>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <Switch
+                      checked={group.isActive}
+                      onCheckedChange={(isActive) => toggleActiveMutation.mutate({ id: group.id, isActive })}
+                      data-testid={`switch-modifier-group-active-${group.id}`}
+                    />
+                    <Button size="icon" variant="ghost" onClick={() => openDialog(group)} data-testid={`button-edit-modifier-group-${group.id}`}>
+                      <Edit2 className="w-4 h-4" />
+                    </Button>
+                    <Button size="icon" variant="ghost" onClick={() => deleteMutation.mutate(group.id)} data-testid={`button-delete-modifier-group-${group.id}`}>
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+                <div className="space-y-1 text-sm">
+                  {group.options.map(option => (
+                    <div key={option.id} className="flex justify-between text-muted-foreground">
+                      <span>{option.name}</span>
+                      <span>{option.priceDelta === 0 ? '-' : formatCurrency(option.priceDelta)}</span>
+                    </div>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">{describeTargets(group)}</p>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingGroup ? 'Editar Grupo' : 'Novo Grupo'}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label>Nome</Label>
+                <Input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} placeholder="Ex: Fruta" required data-testid="input-modifier-group-name" />
+              </div>
+              <div className="space-y-2">
+                <Label>Maximo de escolhas</Label>
+                <Input type="number" min="1" value={form.maxSelections} onChange={(e) => setForm({ ...form, maxSelections: e.target.value })} data-testid="input-modifier-group-max" />
+              </div>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-6">
+              <div className="flex items-center gap-2">
+                <Switch checked={form.isRequired} onCheckedChange={(isRequired) => setForm({ ...form, isRequired })} id="modifier-group-required" />
+                <Label htmlFor="modifier-group-required">Obrigatorio</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch checked={form.isActive} onCheckedChange={(isActive) => setForm({ ...form, isActive })} id="modifier-group-active" />
+                <Label htmlFor="modifier-group-active">Ativo</Label>
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              <div className="flex items-center justify-between gap-2">
+                <div>
+                  <h3 className="font-semibold">Opcoes</h3>
+                  <p className="text-xs text-muted-foreground">Acrescimo somado ao preco do item; use 0 para opcoes sem custo</p>
+                </div>
+                <Button type="button" size="sm" variant="outline" onClick={() => setForm({ ...form, options: [...form.options, newModifierOption(form.options.length)] })} data-testid="button-add-modifier-option">
+                  <Plus className="w-4 h-4 mr-1" />
+                  Opcao
+                </Button>
+              </div>
+              {form.options.map((option, index) => (
+                <div key={option.id} className="flex items-center gap-2">
+                  <Input className="flex-1" placeholder="Nome" value={option.name} onChange={(e) => updateOption(index, { name: e.target.value })} data-testid={`input-modifier-option-name-${index}`} />
+                  <Input className="w-32" type="number" step="0.01" placeholder="Acrescimo" value={option.priceDelta} onChange={(e) => updateOption(index, { priceDelta: e.target.value })} data-testid={`input-modifier-option-price-${index}`} />
+                  <Button
+                    type="button"
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => setForm({ ...form, options: form.options.filter((_, i) => i !== index) })}
+                    data-testid={`button-remove-modifier-option-${index}`}
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label>Categorias</Label>
+                <ScrollArea className="h-40 rounded-md border">
+                  <div className="p-2 space-y-1">
+                    {categories.map(category => (
+                      <label key={category.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                        <Checkbox checked={form.categoryIds.includes(category.id)} onCheckedChange={() => toggleId('categoryIds', category.id)} />
+                        <span className="truncate">{category.name}</span>
+                      </label>
+                    ))}
+                  </div>
+                </ScrollArea>
+              </div>
+              <div className="space-y-2">
+                <Label>Produtos</Label>
+                <ScrollArea className="h-40 rounded-md border">
+                  <div className="p-2 space-y-1">
+                    {sortedProducts.map(product => (
+                      <label key={product.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                        <Checkbox checked={form.productIds.includes(product.id)} onCheckedChange={() => toggleId('productIds', product.id)} />
+                        <span className="truncate">{product.name}</span>
+                      </label>
+                    ))}
+                  </div>
+                </ScrollArea>
+              </div>
+            </div>
+
+            <Button type="submit" className="w-full" disabled={saveMutation.isPending} data-testid="button-submit-modifier-group">
+              {editingGroup ? 'Salvar' : 'Criar'}
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+type CouponForm = {
+  code: string;
+  description: string;
+  type: CouponType;
+  value: string;
+  minSubtotal: string;
+  categoryIds: string[];
+  productIds: string[];
+  maxUses: string;
+  maxUsesPerCustomer: string;
+  firstOrderOnly: boolean;
+  isActive: boolean;
+  startsAt: string;
+  endsAt: string;
+};
+
+const EMPTY_COUPON_FORM: CouponForm = {
+  code: '',
+  description: '',
+  type: 'percent',
+  value: '10',
+  minSubtotal: '',
+  categoryIds: [],
+  productIds: [],
+  maxUses: '',
+  maxUsesPerCustomer: '1',
+  firstOrderOnly: false,
+  isActive: true,
+  startsAt: '',
+  endsAt: '',
+};
+
+function formatCouponValue(coupon: Pick<Coupon, 'type' | 'value'>): string {
+  if (coupon.type === 'free_delivery') return 'Entrega gratis';
+  if (coupon.type === 'percent') return `${Number(coupon.value)}% OFF`;
+  return `${formatCurrency(coupon.value)} OFF`;
+}
+
+function CuponsTab() {
+  const { toast } = useToast();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingCoupon, setEditingCoupon] = useState<CouponWithStats | null>(null);
+  const [form, setForm] = useState<CouponForm>(EMPTY_COUPON_FORM);
+
+  const { data: coupons = [], isLoading } = useQuery<CouponWithStats[]>({
+    queryKey: ['/api/coupons'],
+  });
+
+  const { data: categories = [] } = useQuery<Category[]>({
+    queryKey: ['/api/categories'],
+  });
+
+  const { data: products = [] } = useQuery<Product[]>({
+    queryKey: ['/api/products'],
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ id, data }: { id?: string; data: Record<string, unknown> }) => {
+      return id
+        ? apiRequest('PATCH', `/api/coupons/${id}`, data)
+        : apiRequest('POST', '/api/coupons', data);
+    },
+    onSuccess: (_data, { id }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/coupons'] });
+      setIsDialogOpen(false);
+      setEditingCoupon(null);
+      toast({ title: id ? 'Cupom atualizado!' : 'Cupom criado!' });
+    },
+    onError: (error: Error) => {
+      const apiError = parseApiError(error);
+      toast({ title: 'Erro ao salvar cupom', description: apiError?.body?.error, variant: 'destructive' });
+    },
+  });
+
+  const toggleActiveMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: string; isActive: boolean }) => {
+      return apiRequest('PATCH', `/api/coupons/${id}`, { isActive });
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['/api/coupons'] }),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest('DELETE', `/api/coupons/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/coupons'] });
+      toast({ title: 'Cupom excluido!' });
+    },
+    onError: (error: Error) => {
+      const apiError = parseApiError(error);
+      toast({ title: 'Erro ao excluir cupom', description: apiError?.body?.error, variant: 'destructive' });
+    },
+  });
+
+  const openDialog = (coupon: CouponWithStats | null) => {
+    setEditingCoupon(coupon);
+    setForm(coupon ? {
+      code: coupon.code,
+      description: coupon.description ?? '',
+      type: coupon.type,
+      value: String(Number(coupon.value)),
+      minSubtotal: coupon.minSubtotal ? String(Number(coupon.minSubtotal)) : '',
+      categoryIds: coupon.categoryIds,
+      productIds: coupon.productIds,
+      maxUses: coupon.maxUses?.toString() ?? '',
+      maxUsesPerCustomer: coupon.maxUsesPerCustomer?.toString() ?? '',
+      firstOrderOnly: coupon.firstOrderOnly,
+      isActive: coupon.isActive,
+      startsAt: toStoreDate(coupon.startsAt),
+      endsAt: toStoreDate(coupon.endsAt),
+    } : EMPTY_COUPON_FORM);
+    setIsDialogOpen(true);
+  };
+
+  const toggleId = (field: 'categoryIds' | 'productIds', id: string) => {
+    setForm(prev => ({
+      ...prev,
+      [field]: prev[field].includes(id) ? prev[field].filter(x => x !== id) : [...prev[field], id],
+    }));
+  };
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    saveMutation.mutate({
+      id: editingCoupon?.id,
+      data: {
+        code: form.code,
+        description: form.description,
+        type: form.type,
+        value: form.value,
+        minSubtotal: form.minSubtotal || null,
+        categoryIds: form.categoryIds,
+        productIds: form.productIds,
+        maxUses: form.maxUses || null,
+        maxUsesPerCustomer: form.maxUsesPerCustomer || null,
+        firstOrderOnly: form.firstOrderOnly,
+        isActive: form.isActive,
+        startsAt: form.startsAt ? `${form.startsAt}T00:00:00-03:00` : null,
+        endsAt: form.endsAt ? `${form.endsAt}T23:59:59-03:00` : null,
+      },
+    });
+  };
+
+  const describeRules = (coupon: Coupon) => {
+    const rules: string[] = [];
+    if (coupon.minSubtotal && Number(coupon.minSubtotal) > 0) rules.push(`Minimo ${formatCurrency(coupon.minSubtotal)}`);
+    if (coupon.categoryIds.length > 0 || coupon.productIds.length > 0) {
+      const names = [
+        ...categories.filter(c => coupon.categoryIds.includes(c.id)).map(c => c.name),
+        ...products.filter(p => coupon.productIds.includes(p.id)).map(p => p.name),
+      ];
+      rules.push(`So ${names.join(', ')}`);
+    }
+    if (coupon.maxUsesPerCustomer) rules.push(`${coupon.maxUsesPerCustomer}x por cliente`);
+    if (coupon.firstOrderOnly) rules.push('Primeira compra');
+    if (coupon.startsAt || coupon.endsAt) {
+      const day = (value: Date | string | null) => value ? new Date(value).toLocaleDateString('pt-BR', { timeZone: STORE_TIME_ZONE }) : '...';
+      rules.push(`${day(coupon.startsAt)} ate ${day(coupon.endsAt)}`);
+    }
+    return rules;
+  };
+
+  const sortedProducts = [...products].sort((a, b) => a.name.localeCompare(b.name));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h2 className="font-serif text-3xl text-primary">Cupons</h2>
+          <p className="text-sm text-muted-foreground mt-1">Codigos de desconto, regras de uso e quanto cada um ja rendeu</p>
+        </div>
+        <Button onClick={() => openDialog(null)} data-testid="button-add-coupon">
+          <Plus className="w-4 h-4 mr-2" />
+          Novo Cupom
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <p className="text-muted-foreground">Carregando...</p>
+      ) : coupons.length === 0 ? (
+        <Card>
+          <CardContent className="py-8 text-center text-muted-foreground">
+            Nenhum cupom cadastrado
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-2">
+          {coupons.map(coupon => (
+            <Card key={coupon.id} data-testid={`card-coupon-${coupon.id}`}>
+              <CardContent className="p-4 space-y-3">
+                <div className="flex items-start justify-between gap-2">
+                  <div>
+                    <h3 className="font-mono font-semibold">{coupon.code}</h3>
+                    {coupon.description && <p className="text-xs text-muted-foreground">{coupon.description}</p>}
+                    <div className="flex flex-wrap gap-1 mt-1">
+                      <Badge variant="secondary">{formatCouponValue(coupon)}</Badge>
+                      {coupon.maxUses !== null && coupon.uses >= coupon.maxUses && <Badge variant="outline">Esgotado</Badge>}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <Switch
+                      checked={coupon.isActive}
+                      onCheckedChange={(isActive) => toggleActiveMutation.mutate({ id: coupon.id, isActive })}
+                      data-testid={`switch-coupon-active-${coupon.id}`}
+                    />
+                    <Button size="icon" variant="ghost" onClick={() => openDialog(coupon)} data-testid={`button-edit-coupon-${coupon.id}`}>
+                      <Edit2 className="w-4 h-4" />
+                    </Button>
+                    <Button size="icon" variant="ghost" onClick={() => deleteMutation.mutate(coupon.id)} data-testid={`button-delete-coupon-${coupon.id}`}>
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+                <div className="grid grid-cols-3 gap-2 text-center">
+                  <div className="bg-secondary/50 rounded-md p-2">
+                    <p className="text-lg font-bold" data-testid={`text-coupon-uses-${coupon.id}`}>
+                      {coupon.uses}{coupon.maxUses !== null && <span className="text-xs text-muted-foreground">/{coupon.maxUses}</span>}
+                    </p>
+                    <p className="text-xs text-muted-foreground">Usos</p>
+                  </div>
+                  <div className="bg-secondary/50 rounded-md p-2">
+                    <p className="text-lg font-bold">{coupon.customers}</p>
+                    <p className="text-xs text-muted-foreground">Clientes</p>
+                  </div>
+                  <div className="bg-secondary/50 rounded-md p-2">
+                    <p className="text-lg font-bold text-green-400">{formatCurrency(coupon.totalDiscount)}</p>
+                    <p className="text-xs text-muted-foreground">Descontado</p>
+                  </div>
+                </div>
+                <div className="flex flex-wrap gap-1">
+                  {describeRules(coupon).map(rule => (
+                    <Badge key={rule} variant="outline" className="text-xs font-normal">{rule}</Badge>
+                  ))}
+                </div>
+                {coupon.lastUsedAt && (
+                  <p className="text-xs text-muted-foreground">Ultimo uso: {formatDate(coupon.lastUsedAt)}</p>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingCoupon ? 'Editar Cupom' : 'Novo Cupom'}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label>Codigo</Label>
+                <Input
+                  value={form.code}
+                  onChange={(e) => setForm({ ...form, code: e.target.value.toUpperCase() })}
+                  className="font-mono uppercase"
+                  required
+                  data-testid="input-coupon-code"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Descricao</Label>
+                <Input value={form.description} onChange={(e) => setForm({ ...form, description: e.target.value })} data-testid="input-coupon-description" />
+              </div>
+              <div className="space-y-2">
+                <Label>Tipo</Label>
+                <Select value={form.type} onValueChange={(value) => setForm({ ...form, type: value as CouponType })}>
+                  <SelectTrigger data-testid="select-coupon-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {COUPON_TYPES.map(type => (
+                      <SelectItem key={type} value={type}>{COUPON_TYPE_LABELS[type]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {form.type !== 'free_delivery' && (
+                <div className="space-y-2">
+                  <Label>{form.type === 'percent' ? 'Desconto (%)' : 'Desconto (R$)'}</Label>
+                  <Input type="number" step="0.01" min="0" value={form.value} onChange={(e) => setForm({ ...form, value: e.target.value })} required data-testid="input-coupon-value" />
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label>Pedido minimo R$ (opcional)</Label>
+                <Input type="number" step="0.01" min="0" value={form.minSubtotal} onChange={(e) => setForm({ ...form, minSubtotal: e.target.value })} data-testid="input-coupon-min-subtotal" />
+              </div>
+              <div className="space-y-2">
+                <Label>Limite total de usos (opcional)</Label>
+                <Input type="number" min="1" value={form.maxUses} onChange={(e) => setForm({ ...form, maxUses: e.target.value })} data-testid="input-coupon-max-uses" />
+              </div>
+              <div className="space-y-2">
+                <Label>Usos por cliente (opcional)</Label>
+                <Input type="number" min="1" value={form.maxUsesPerCustomer} onChange={(e) => setForm({ ...form, maxUsesPerCustomer: e.target.value })} data-testid="input-coupon-max-uses-customer" />
+              </div>
+              <div className="space-y-2">
+                <Label>Inicio (opcional)</Label>
+                <Input type="date" value={form.startsAt} onChange={(e) => setForm({ ...form, startsAt: e.target.value })} data-testid="input-coupon-starts-at" />
+              </div>
+              <div className="space-y-2">
+                <Label>Fim (opcional)</Label>
+                <Input type="date" value={form.endsAt} onChange={(e) => setForm({ ...form, endsAt: e.target.value })} data-testid="input-coupon-ends-at" />
+              </div>
+            </div>
+
+            <div className="flex flex-wrap gap-6">
+              <div className="flex items-center gap-2">
+                <Switch checked={form.isActive} onCheckedChange={(isActive) => setForm({ ...form, isActive })} id="coupon-active" />
+                <Label htmlFor="coupon-active">Ativo</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch checked={form.firstOrderOnly} onCheckedChange={(firstOrderOnly) => setForm({ ...form, firstOrderOnly })} id="coupon-first-order" />
+                <Label htmlFor="coupon-first-order">Somente primeira compra</Label>
+              </div>
+            </div>
+
+            {form.type !== 'free_delivery' && (
+              <div className="space-y-2">
+                <h3 className="font-semibold">Vale para</h3>
+                <p className="text-xs text-muted-foreground">Sem nada marcado, o cupom vale para o pedido inteiro.</p>
+                <div className="grid gap-4 md:grid-cols-2">
+                  <ScrollArea className="h-40 rounded-md border">
+                    <div className="p-2 space-y-1">
+                      <p className="text-xs font-medium text-muted-foreground">Categorias</p>
+                      {categories.map(category => (
+                        <label key={category.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                          <Checkbox checked={form.categoryIds.includes(category.id)} onCheckedChange={() => toggleId('categoryIds', category.id)} />
+                          <span className="truncate">{category.name}</span>
+                        </label>
+                      ))}
+                    </div>
+                  </ScrollArea>
+                  <ScrollArea className="h-40 rounded-md border">
+                    <div className="p-2 space-y-1">
+                      <p className="text-xs font-medium text-muted-foreground">Produtos</p>
+                      {sortedProducts.map(product => (
+                        <label key={product.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                          <Checkbox checked={form.productIds.includes(product.id)} onCheckedChange={() => toggleId('productIds', product.id)} />
+                          <span className="truncate">{product.name}</span>
+                        </label>
+                      ))}
+                    </div>
+                  </ScrollArea>
+                </div>
+              </div>
+            )}
+
+            <Button type="submit" className="w-full" disabled={saveMutation.isPending} data-testid="button-submit-coupon">
+              {editingCoupon ? 'Salvar' : 'Criar'}
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+interface MotoboyDetails extends Motoboy {
+  hasPassword?: boolean;
+  userId?: string | null;
+}
+
+function MotoboysTab() {
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [isDetailDialogOpen, setIsDetailDialogOpen] = useState(false);
+  const [isReportDialogOpen, setIsReportDialogOpen] = useState(false);
+  const [editingMotoboy, setEditingMotoboy] = useState<Motoboy | null>(null);
+  const [viewingMotoboyId, setViewingMotoboyId] = useState<string | null>(null);
+  const [reportMotoboyId, setReportMotoboyId] = useState<string | null>(null);
+  const [reportStartDate, setReportStartDate] = useState<string>('');
+  const [reportEndDate, setReportEndDate] = useState<string>('');
+  const [reportSearchTerm, setReportSearchTerm] = useState<string>('');
+  const { toast } = useToast();
+
+  const { data: motoboys = [] } = useQuery<Motoboy[]>({
+    queryKey: ['/api/motoboys'],
+  });
+
+  const { data: motoboyDetails } = useQuery<MotoboyDetails>({
+    queryKey: ['/api/motoboys', viewingMotoboyId, 'details'],
+    enabled: !!viewingMotoboyId,
+    queryFn: async () => {
+      const res = await fetch(`/api/motoboys/${viewingMotoboyId}/details`);
+      if (!res.ok) throw new Error('Failed to fetch motoboy details');
+      return res.json();
+    }
+  });
+
+  const { data: motoboyOrders = [], isLoading: isLoadingOrders } = useQuery<Order[]>({
+    queryKey: ['/api/motoboys', reportMotoboyId, 'orders', reportStartDate, reportEndDate],
+    enabled: !!reportMotoboyId && isReportDialogOpen,
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (reportStartDate) params.append('startDate', reportStartDate);
+      if (reportEndDate) params.append('endDate', reportEndDate);
+      const url = `/api/motoboys/${reportMotoboyId}/orders${params.toString() ? '?' + params.toString() : ''}`;
+      const res = await fetch(url);
+      if (!res.ok) throw new Error('Failed to fetch motoboy orders');
+      return res.json();
+    }
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (data: Partial<Motoboy> & { password?: string }) => {
+      const res = await apiRequest('POST', '/api/motoboys', data);
+      if (!res.ok) {
+        const errorData = await res.json();
+        throw new Error(errorData.error || 'Erro ao criar motoboy');
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/motoboys'] });
+      toast({ title: 'Motoboy criado!' });
+      setIsDialogOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Erro', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: Partial<Motoboy> & { password?: string } }) => {
+      const res = await apiRequest('PATCH', `/api/motoboys/${id}`, data);
+      if (!res.ok) {
+        const errorData = await res.json();
+        throw new Error(errorData.error || 'Erro ao atualizar motoboy');
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/motoboys'] });
+      toast({ title: 'Motoboy atualizado!' });
+      setIsDialogOpen(false);
+      setEditingMotoboy(null);
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Erro', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const toggleActiveMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: string; isActive: boolean }) => {
+      return apiRequest('PATCH', `/api/motoboys/${id}`, { isActive });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/motoboys'] });
+      toast({ title: 'Status atualizado!' });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest('DELETE', `/api/motoboys/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/motoboys'] });
+      toast({ title: 'Motoboy excluido!' });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    const password = formData.get('password') as string;
+    
+    // Validate password format (6 digits)
+    if (password && !/^\d{6}$/.test(password)) {
+      toast({ 
+        title: 'Erro', 
+        description: 'A senha deve ter exatamente 6 digitos numericos',
+        variant: 'destructive' 
+      });
+      return;
+    }
+    
+    const data: Partial<Motoboy> & { password?: string } = {
+      name: formData.get('name') as string,
+      whatsapp: formData.get('whatsapp') as string,
+      isActive: formData.get('isActive') === 'on',
+    };
+    
+    if (password) {
+      data.password = password;
+    }
+
+    if (editingMotoboy) {
+      updateMutation.mutate({ id: editingMotoboy.id, data });
+    } else {
+      createMutation.mutate(data);
+    }
+  };
+
+  const handleViewDetails = (motoboyId: string) => {
+    setViewingMotoboyId(motoboyId);
+    setIsDetailDialogOpen(true);
+  };
+
+  const handleOpenReport = (motoboyId: string) => {
+    setReportMotoboyId(motoboyId);
+    setReportStartDate('');
+    setReportEndDate('');
+    setReportSearchTerm('');
+    setIsReportDialogOpen(true);
+  };
+
+  const reportMotoboy = motoboys.find(m => m.id === reportMotoboyId);
+  
+  const filteredReportOrders = motoboyOrders.filter(order => {
+    if (!reportSearchTerm) return true;
+    const searchLower = reportSearchTerm.toLowerCase();
+    return (
+      order.id.toLowerCase().includes(searchLower) ||
+      (order.customerName && order.customerName.toLowerCase().includes(searchLower)) ||
+      (order.notes && order.notes.toLowerCase().includes(searchLower))
+    );
+  });
+
+  const reportTotals = filteredReportOrders.reduce((acc, order) => {
+    acc.count += 1;
+    acc.total += Number(order.total);
+    acc.deliveryFees += Number(order.deliveryFee);
+    return acc;
+  }, { count: 0, total: 0, deliveryFees: 0 });
+
+  const handleExportReport = () => {
+    if (!reportMotoboy) return;
+    const csvData = [
+      ['Relatorio de Entregas - ' + reportMotoboy.name],
+      ['Periodo: ' + (reportStartDate || 'Inicio') + ' ate ' + (reportEndDate || 'Hoje')],
+      [''],
+      ['Resumo'],
+      ['Total de Entregas', reportTotals.count.toString()],
+      ['Valor Total', formatCurrency(reportTotals.total)],
+      ['Taxas de Entrega', formatCurrency(reportTotals.deliveryFees)],
+      [''],
+      ['Pedidos'],
+      ['ID', 'Data', 'Cliente', 'Valor', 'Taxa Entrega', 'Status'],
+      ...filteredReportOrders.map(order => [
+        order.id,
+        formatDate(order.createdAt),
+        order.customerName || '-',
+        formatCurrency(order.total),
+        formatCurrency(order.deliveryFee),
+        ORDER_STATUS_LABELS[order.status as OrderStatus]
+      ])
+    ];
+    const csvContent = csvData.map(row => row.join(';')).join('\n');
+    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = `relatorio_${reportMotoboy.name.replace(/\s+/g, '_')}_${new Date().toISOString().split('T')[0]}.csv`;
+    link.click();
+    toast({ title: 'Relatorio exportado!' });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <h2 className="font-serif text-3xl text-primary">Motoboys</h2>
+        <Dialog open={isDialogOpen} onOpenChange={(open) => { 
+          setIsDialogOpen(open); 
+          if (!open) setEditingMotoboy(null);
+        }}>
+          <DialogTrigger asChild>
+            <Button onClick={() => setEditingMotoboy(null)} data-testid="button-add-motoboy">
+              <Plus className="w-4 h-4 mr-2" />
+              Novo Motoboy
+            </Button>
+          </DialogTrigger>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>{editingMotoboy ? 'Editar Motoboy' : 'Novo Motoboy'}</DialogTitle>
+            </DialogHeader>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <Label htmlFor="name">Nome</Label>
+                <Input 
+                  id="name" 
+                  name="name" 
+                  defaultValue={editingMotoboy?.name} 
+                  required 
+                  data-testid="input-motoboy-name" 
+                />
+              </div>
+              <div>
+                <Label htmlFor="whatsapp">WhatsApp</Label>
+                <Input 
+                  id="whatsapp" 
+                  name="whatsapp" 
+                  placeholder="11999999999"
+                  defaultValue={editingMotoboy?.whatsapp} 
+                  required 
+                  data-testid="input-motoboy-whatsapp" 
+                />
+              </div>
+              <div>
+                <Label htmlFor="password">
+                  Senha (6 digitos) {editingMotoboy && '- deixe vazio para manter atual'}
+                </Label>
+                <Input 
+                  id="password" 
+                  name="password" 
+                  type="password"
+                  maxLength={6}
+                  pattern="\d{6}"
+                  placeholder={editingMotoboy ? "******" : "123456"}
+                  data-testid="input-motoboy-password" 
+                />
+                <p className="text-xs text-muted-foreground mt-1">
+                  A senha e usada para o motoboy acessar o app
+                </p>
+              </div>
+              <div className="flex items-center gap-3">
+                <Switch 
+                  id="isActive" 
+                  name="isActive"
+                  defaultChecked={editingMotoboy?.isActive ?? true}
+                  data-testid="switch-motoboy-active"
+                />
+                <Label htmlFor="isActive">Motoboy Ativo</Label>
+              </div>
+              <Button 
+                type="submit" 
+                className="w-full" 
+                disabled={createMutation.isPending || updateMutation.isPending}
+                data-testid="button-submit-motoboy"
+              >
+                {(createMutation.isPending || updateMutation.isPending) ? 'Salvando...' : (editingMotoboy ? 'Salvar' : 'Criar')}
+              </Button>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      {/* Detail View Dialog */}
+      <Dialog open={isDetailDialogOpen} onOpenChange={(open) => {
+        setIsDetailDialogOpen(open);
+        if (!open) setViewingMotoboyId(null);
+      }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Detalhes do Motoboy</DialogTitle>
+          </DialogHeader>
+          {motoboyDetails ? (
+            <div className="space-y-4">
+              <div className="flex items-center gap-4">
+                {motoboyDetails.photoUrl ? (
+                  <img 
+                    src={motoboyDetails.photoUrl} 
+                    alt={motoboyDetails.name} 
+                    className="w-16 h-16 object-cover rounded-full"
+                  />
+                ) : (
+                  <div className="w-16 h-16 rounded-full bg-primary/20 flex items-center justify-center">
+                    <Bike className="w-8 h-8 text-primary" />
+                  </div>
+                )}
+                <div>
+                  <h3 className="text-lg font-semibold">{motoboyDetails.name}</h3>
+                  <Badge className={motoboyDetails.isActive ? 'bg-green-500/20 text-green-300' : 'bg-red-500/20 text-red-300'}>
+                    {motoboyDetails.isActive ? 'Ativo' : 'Inativo'}
+                  </Badge>
+                </div>
+              </div>
+              
+              <div className="space-y-3 pt-2">
+                <div className="flex items-center gap-3 p-3 bg-secondary/50 rounded-md">
+                  <Phone className="w-5 h-5 text-muted-foreground" />
+                  <div>
+                    <p className="text-xs text-muted-foreground">WhatsApp</p>
+                    <p className="font-medium" data-testid="text-motoboy-whatsapp">{motoboyDetails.whatsapp}</p>
+                  </div>
+                </div>
+                
+                <div className="flex items-center gap-3 p-3 bg-secondary/50 rounded-md">
+                  <Key className="w-5 h-5 text-muted-foreground" />
+                  <div>
                     <p className="text-xs text-muted-foreground">Senha de Acesso</p>
                     <p className="font-medium" data-testid="text-motoboy-password-status">
                       {motoboyDetails.hasPassword ? 'Configurada' : 'Nao configurada'}
@@ -4832,8 +6417,112 @@ function MotoboysTab() {
             </CardContent>
           </Card>
         ))}
-      </div>
-    </div>
+      </div>
+    </div>
+  );
+}
+
+// "04140 a 04199" or a single prefix per line; the server checks the digits
+function parseCepRangeLines(text: string): CepRange[] {
+  return text.split('\n').map(line => line.trim()).filter(Boolean).map(line => {
+    const [from, to = from] = line.split(/\s+a\s+|\s*\.\.\s*/);
+    return { from: from.replace(/\D/g, ''), to: to.replace(/\D/g, '') };
+  });
+}
+
+function UnlistedNeighborhoodsCard({ zones, neighborhoods }: { zones: DeliveryZone[]; neighborhoods: Neighborhood[] }) {
+  const { toast } = useToast();
+  // Per entry: "zone:<id>" to list it under a zone, "alias:<id>" to add it to an existing neighborhood
+  const [choices, setChoices] = useState<Record<string, string>>({});
+
+  const { data: queue = [] } = useQuery<UnlistedNeighborhood[]>({
+    queryKey: ['/api/unlisted-neighborhoods'],
+  });
+  const entries = queue.filter(entry => entry.status === 'pending');
+
+  const resolveMutation = useMutation({
+    mutationFn: async ({ entry, choice }: { entry: UnlistedNeighborhood; choice: string }) => {
+      const [kind, id] = choice.split(':');
+      const body = kind === 'zone'
+        ? { action: 'create', name: entry.name, zoneId: id }
+        : kind === 'alias' ? { action: 'alias', neighborhoodId: id } : { action: 'ignore' };
+      return apiRequest('POST', `/api/unlisted-neighborhoods/${entry.id}/resolve`, body);
+    },
+    onSuccess: (_data, { choice }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/unlisted-neighborhoods'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/neighborhoods'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/delivery-areas'] });
+      toast({ title: choice === 'ignore' ? 'Bairro ignorado' : 'Bairro revisado!' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Erro ao revisar bairro', description: parseApiError(error)?.body?.error, variant: 'destructive' });
+    },
+  });
+
+  if (entries.length === 0) return null;
+
+  const zoneName = (zoneId: string) => zones.find(zone => zone.id === zoneId)?.code ?? '';
+
+  return (
+    <Card className="border-yellow-500/30" data-testid="card-unlisted-neighborhoods">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <AlertTriangle className="w-5 h-5 text-yellow-500" />
+          Bairros nao cadastrados
+          <Badge variant="secondary">{entries.length}</Badge>
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Pedidos com estes bairros pagaram a taxa padrao. Cadastre o bairro numa zona ou use-o como outro nome de um bairro existente.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {entries.map(entry => (
+          <div key={entry.id} className="flex flex-wrap items-center gap-3 rounded-lg border border-border p-3" data-testid={`row-unlisted-${entry.id}`}>
+            <div className="min-w-[10rem] flex-1">
+              <p className="font-medium">{entry.name}</p>
+              <p className="text-xs text-muted-foreground">
+                {entry.occurrences} pedido(s){entry.zipCode ? ` - CEP ${entry.zipCode}` : ''} - ultimo em {formatDate(entry.lastSeenAt)}
+              </p>
+            </div>
+            <Select value={choices[entry.id] ?? ''} onValueChange={(value) => setChoices(prev => ({ ...prev, [entry.id]: value }))}>
+              <SelectTrigger className="w-64" data-testid={`select-unlisted-action-${entry.id}`}>
+                <SelectValue placeholder="O que fazer?" />
+              </SelectTrigger>
+              <SelectContent>
+                {zones.map(zone => (
+                  <SelectItem key={zone.id} value={`zone:${zone.id}`}>
+                    Cadastrar na zona {zone.code} - {zone.name}
+                  </SelectItem>
+                ))}
+                {neighborhoods.map(neighborhood => (
+                  <SelectItem key={neighborhood.id} value={`alias:${neighborhood.id}`}>
+                    Outro nome de {neighborhood.name} ({zoneName(neighborhood.zoneId)})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              size="sm"
+              disabled={!choices[entry.id] || resolveMutation.isPending}
+              onClick={() => resolveMutation.mutate({ entry, choice: choices[entry.id] })}
+              data-testid={`button-resolve-unlisted-${entry.id}`}
+            >
+              <Check className="w-4 h-4 mr-1" />
+              Aplicar
+            </Button>
+            <Button
+              size="sm"
+              variant="ghost"
+              disabled={resolveMutation.isPending}
+              onClick={() => resolveMutation.mutate({ entry, choice: 'ignore' })}
+              data-testid={`button-ignore-unlisted-${entry.id}`}
+            >
+              Ignorar
+            </Button>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
   );
 }
 
@@ -4860,12 +6549,13 @@ function ZonasTab() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/delivery-zones'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/delivery-areas'] });
       toast({ title: 'Zona criada com sucesso!' });
       setIsZoneDialogOpen(false);
       setEditingZone(null);
     },
-    onError: () => {
-      toast({ title: 'Erro ao criar zona', variant: 'destructive' });
+    onError: (error: Error) => {
+      toast({ title: 'Erro ao criar zona', description: parseApiError(error)?.body?.error, variant: 'destructive' });
     },
   });
 
@@ -4875,12 +6565,13 @@ function ZonasTab() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/delivery-zones'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/delivery-areas'] });
       toast({ title: 'Zona atualizada!' });
       setIsZoneDialogOpen(false);
       setEditingZone(null);
     },
-    onError: () => {
-      toast({ title: 'Erro ao atualizar zona', variant: 'destructive' });
+    onError: (error: Error) => {
+      toast({ title: 'Erro ao atualizar zona', description: parseApiError(error)?.body?.error, variant: 'destructive' });
     },
   });
 
@@ -4891,6 +6582,7 @@ function ZonasTab() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/delivery-zones'] });
       queryClient.invalidateQueries({ queryKey: ['/api/neighborhoods'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/delivery-areas'] });
       toast({ title: 'Zona excluida!' });
     },
     onError: () => {
@@ -4904,12 +6596,13 @@ function ZonasTab() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/neighborhoods'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/delivery-areas'] });
       toast({ title: 'Bairro criado com sucesso!' });
       setIsNeighborhoodDialogOpen(false);
       setEditingNeighborhood(null);
     },
-    onError: () => {
-      toast({ title: 'Erro ao criar bairro', variant: 'destructive' });
+    onError: (error: Error) => {
+      toast({ title: 'Erro ao criar bairro', description: parseApiError(error)?.body?.error, variant: 'destructive' });
     },
   });
 
@@ -4919,12 +6612,13 @@ function ZonasTab() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/neighborhoods'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/delivery-areas'] });
       toast({ title: 'Bairro atualizado!' });
       setIsNeighborhoodDialogOpen(false);
       setEditingNeighborhood(null);
     },
-    onError: () => {
-      toast({ title: 'Erro ao atualizar bairro', variant: 'destructive' });
+    onError: (error: Error) => {
+      toast({ title: 'Erro ao atualizar bairro', description: parseApiError(error)?.body?.error, variant: 'destructive' });
     },
   });
 
@@ -4934,6 +6628,7 @@ function ZonasTab() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/neighborhoods'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/delivery-areas'] });
       toast({ title: 'Bairro excluido!' });
     },
     onError: () => {
@@ -4951,6 +6646,7 @@ function ZonasTab() {
       fee: formData.get('fee') as string,
       sortOrder: parseInt(formData.get('sortOrder') as string) || 0,
       isActive: formData.get('isActive') === 'on',
+      cepRanges: parseCepRangeLines(formData.get('cepRanges') as string),
     };
 
     if (editingZone) {
@@ -4974,6 +6670,7 @@ function ZonasTab() {
       name: formData.get('name') as string,
       zoneId,
       isActive: formData.get('isActive') === 'on',
+      aliases: (formData.get('aliases') as string).split(',').map(alias => alias.trim()).filter(Boolean),
     };
 
     if (editingNeighborhood) {
@@ -5008,8 +6705,9 @@ function ZonasTab() {
   const getNeighborhoodsByZone = (zoneId: string) => {
     const zoneNeighborhoods = neighborhoods.filter(n => n.zoneId === zoneId);
     if (!neighborhoodSearchTerm.trim()) return zoneNeighborhoods;
-    return zoneNeighborhoods.filter(n => 
-      n.name.toLowerCase().includes(neighborhoodSearchTerm.toLowerCase())
+    const term = normalizeNeighborhood(neighborhoodSearchTerm);
+    return zoneNeighborhoods.filter(n =>
+      [n.name, ...n.aliases].some(name => normalizeNeighborhood(name).includes(term))
     );
   };
 
@@ -5055,6 +6753,8 @@ function ZonasTab() {
         </div>
       </div>
 
+      <UnlistedNeighborhoodsCard zones={sortedZones} neighborhoods={neighborhoods} />
+
       {zonesLoading ? (
         <div className="grid gap-4">
           {[1, 2, 3].map(i => (
@@ -5129,6 +6829,11 @@ function ZonasTab() {
                   {zone.description && (
                     <p className="text-sm text-muted-foreground mb-3">{zone.description}</p>
                   )}
+                  {zone.cepRanges.length > 0 && (
+                    <p className="text-xs text-muted-foreground mb-3" data-testid={`text-zone-cep-ranges-${zone.id}`}>
+                      CEPs: {zone.cepRanges.map(formatCepRange).join(', ')}
+                    </p>
+                  )}
                   {zoneNeighborhoods.length === 0 ? (
                     <p className="text-sm text-muted-foreground">Nenhum bairro cadastrado nesta zona.</p>
                   ) : (
@@ -5139,9 +6844,13 @@ function ZonasTab() {
                           variant="secondary"
                           className={`cursor-pointer ${neighborhood.isActive ? '' : 'opacity-50'}`}
                           onClick={() => openEditNeighborhood(neighborhood)}
+                          title={neighborhood.aliases.length > 0 ? `Tambem: ${neighborhood.aliases.join(', ')}` : undefined}
                           data-testid={`badge-neighborhood-${neighborhood.id}`}
                         >
                           {neighborhood.name}
+                          {neighborhood.aliases.length > 0 && (
+                            <span className="ml-1 text-xs text-muted-foreground">+{neighborhood.aliases.length}</span>
+                          )}
                           <Button
                             size="icon"
                             variant="ghost"
@@ -5167,237 +6876,1204 @@ function ZonasTab() {
         </div>
       )}
 
-      <Dialog open={isZoneDialogOpen} onOpenChange={setIsZoneDialogOpen}>
-        <DialogContent>
-          <DialogHeader>
-            <DialogTitle>{editingZone ? 'Editar Zona' : 'Nova Zona'}</DialogTitle>
-          </DialogHeader>
-          <form onSubmit={handleZoneSubmit} className="space-y-4">
-            <div className="grid gap-4 sm:grid-cols-2">
-              <div>
-                <Label htmlFor="code">Codigo (ex: Z1, Z2)</Label>
-                <Input
-                  id="code"
-                  name="code"
-                  defaultValue={editingZone?.code || ''}
-                  required
-                  maxLength={5}
-                  className="uppercase"
-                  data-testid="input-zone-code"
+      <Dialog open={isZoneDialogOpen} onOpenChange={setIsZoneDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingZone ? 'Editar Zona' : 'Nova Zona'}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleZoneSubmit} className="space-y-4">
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div>
+                <Label htmlFor="code">Codigo (ex: Z1, Z2)</Label>
+                <Input
+                  id="code"
+                  name="code"
+                  defaultValue={editingZone?.code || ''}
+                  required
+                  maxLength={5}
+                  className="uppercase"
+                  data-testid="input-zone-code"
+                />
+              </div>
+              <div>
+                <Label htmlFor="fee">Taxa de Entrega (R$)</Label>
+                <Input
+                  id="fee"
+                  name="fee"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  defaultValue={editingZone?.fee || ''}
+                  required
+                  data-testid="input-zone-fee"
+                />
+              </div>
+            </div>
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div>
+                <Label htmlFor="name">Nome da Zona</Label>
+                <Input
+                  id="name"
+                  name="name"
+                  defaultValue={editingZone?.name || ''}
+                  required
+                  data-testid="input-zone-name"
+                />
+              </div>
+              <div>
+                <Label htmlFor="sortOrder">Ordem de Exibicao</Label>
+                <Input
+                  id="sortOrder"
+                  name="sortOrder"
+                  type="number"
+                  min="0"
+                  defaultValue={editingZone?.sortOrder ?? 0}
+                  data-testid="input-zone-sort-order"
+                />
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="description">Descricao (opcional)</Label>
+              <Textarea
+                id="description"
+                name="description"
+                defaultValue={editingZone?.description || ''}
+                data-testid="input-zone-description"
+              />
+            </div>
+            <div>
+              <Label htmlFor="cepRanges">Faixas de CEP (opcional)</Label>
+              <Textarea
+                id="cepRanges"
+                name="cepRanges"
+                placeholder={'04140 a 04199\n0415'}
+                defaultValue={editingZone?.cepRanges.map(formatCepRange).join('\n') ?? ''}
+                data-testid="input-zone-cep-ranges"
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                Uma faixa por linha, pelo inicio do CEP. Enderecos com bairro fora da lista caem nesta zona pelo CEP.
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch
+                id="isActive"
+                name="isActive"
+                defaultChecked={editingZone?.isActive ?? true}
+                data-testid="switch-zone-active"
+              />
+              <Label htmlFor="isActive">Zona ativa</Label>
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => setIsZoneDialogOpen(false)}>
+                Cancelar
+              </Button>
+              <Button type="submit" disabled={createZoneMutation.isPending || updateZoneMutation.isPending} data-testid="button-save-zone">
+                {editingZone ? 'Salvar' : 'Criar'}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={isNeighborhoodDialogOpen} onOpenChange={setIsNeighborhoodDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingNeighborhood ? 'Editar Bairro' : 'Novo Bairro'}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleNeighborhoodSubmit} className="space-y-4">
+            <div>
+              <Label htmlFor="neighborhoodName">Nome do Bairro</Label>
+              <Input
+                id="neighborhoodName"
+                name="name"
+                defaultValue={editingNeighborhood?.name || ''}
+                required
+                data-testid="input-neighborhood-name"
+              />
+            </div>
+            <div>
+              <Label htmlFor="neighborhoodAliases">Outros nomes (opcional)</Label>
+              <Input
+                id="neighborhoodAliases"
+                name="aliases"
+                placeholder="V. Mariana, Metro Vila Mariana"
+                defaultValue={editingNeighborhood?.aliases.join(', ') ?? ''}
+                data-testid="input-neighborhood-aliases"
+              />
+              <p className="text-xs text-muted-foreground mt-1">Separados por virgula. Acentos e maiusculas ja sao ignorados.</p>
+            </div>
+            <div>
+              <Label htmlFor="zoneId">Zona</Label>
+              <input type="hidden" name="zoneId" value={selectedZoneForNeighborhood} />
+              <Select value={selectedZoneForNeighborhood} onValueChange={setSelectedZoneForNeighborhood}>
+                <SelectTrigger data-testid="select-neighborhood-zone">
+                  <SelectValue placeholder="Selecione a zona" />
+                </SelectTrigger>
+                <SelectContent>
+                  {sortedZones.map(zone => (
+                    <SelectItem key={zone.id} value={zone.id}>
+                      {zone.code} - {zone.name} ({formatCurrency(zone.fee)})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch
+                id="neighborhoodIsActive"
+                name="isActive"
+                defaultChecked={editingNeighborhood?.isActive ?? true}
+                data-testid="switch-neighborhood-active"
+              />
+              <Label htmlFor="neighborhoodIsActive">Bairro ativo</Label>
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => setIsNeighborhoodDialogOpen(false)}>
+                Cancelar
+              </Button>
+              <Button type="submit" disabled={createNeighborhoodMutation.isPending || updateNeighborhoodMutation.isPending} data-testid="button-save-neighborhood">
+                {editingNeighborhood ? 'Salvar' : 'Criar'}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+function OpeningHoursCard({ settings }: { settings?: SettingsType }) {
+  const { toast } = useToast();
+  const [hours, setHours] = useState<OpeningHours>(DEFAULT_OPENING_HOURS);
+
+  useEffect(() => {
+    setHours(settings?.openingHours ?? DEFAULT_OPENING_HOURS);
+  }, [settings?.openingHours]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (openingHours: OpeningHours) => {
+      return apiRequest('PATCH', '/api/settings', { openingHours });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/settings'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/store-status'] });
+      toast({ title: 'Horarios salvos!' });
+    },
+    onError: (error: Error) => {
+      const apiError = parseApiError(error);
+      toast({ title: 'Erro ao salvar horarios', description: apiError?.body?.error, variant: 'destructive' });
+    },
+  });
+
+  const dayEntry = (day: number) => hours.weekly.find(entry => entry.day === day);
+
+  const setDay = (day: number, changes: Partial<OpeningHoursDay> | null) => {
+    setHours(prev => {
+      const others = prev.weekly.filter(entry => entry.day !== day);
+      if (changes === null) return { ...prev, weekly: others };
+      const current = prev.weekly.find(entry => entry.day === day) ?? { day, open: '14:00', close: '06:00' };
+      return { ...prev, weekly: [...others, { ...current, ...changes }].sort((a, b) => a.day - b.day) };
+    });
+  };
+
+  const updateException = (index: number, changes: Partial<OpeningHoursException>) => {
+    setHours(prev => ({
+      ...prev,
+      exceptions: prev.exceptions.map((exception, i) => i === index ? { ...exception, ...changes } : exception),
+    }));
+  };
+
+  return (
+    <Card>
+      <CardContent className="p-6 space-y-6">
+        <div>
+          <h3 className="font-semibold flex items-center gap-2">
+            <Clock className="w-4 h-4" />
+            Horario de funcionamento
+          </h3>
+          <p className="text-xs text-muted-foreground">Fechamento antes da abertura atravessa a meia-noite (ex: 14:00 ate 06:00).</p>
+        </div>
+
+        <div className="space-y-2">
+          {WEEKDAY_LABELS.map((label, day) => {
+            const entry = dayEntry(day);
+            return (
+              <div key={day} className="flex flex-wrap items-center gap-3" data-testid={`opening-day-${day}`}>
+                <div className="flex items-center gap-2 w-24">
+                  <Switch checked={!!entry} onCheckedChange={(checked) => setDay(day, checked ? {} : null)} />
+                  <span className="text-sm">{label}</span>
+                </div>
+                {entry ? (
+                  <>
+                    <Input type="time" className="w-28" value={entry.open} onChange={(e) => setDay(day, { open: e.target.value })} />
+                    <span className="text-muted-foreground">ate</span>
+                    <Input type="time" className="w-28" value={entry.close} onChange={(e) => setDay(day, { close: e.target.value })} />
+                  </>
+                ) : (
+                  <span className="text-sm text-muted-foreground">Fechado</span>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between gap-2">
+            <div>
+              <h4 className="font-medium text-sm">Feriados e datas especiais</h4>
+              <p className="text-xs text-muted-foreground">Substituem o horario da semana naquele dia.</p>
+            </div>
+            <Button
+              type="button"
+              size="sm"
+              variant="outline"
+              onClick={() => setHours(prev => ({
+                ...prev,
+                exceptions: [...prev.exceptions, { date: new Date().toLocaleDateString('sv-SE', { timeZone: STORE_TIME_ZONE }), label: '', closed: true }],
+              }))}
+              data-testid="button-add-opening-exception"
+            >
+              <Plus className="w-4 h-4 mr-1" />
+              Data
+            </Button>
+          </div>
+          {hours.exceptions.map((exception, index) => (
+            <div key={index} className="flex flex-wrap items-center gap-2 p-2 border rounded-md">
+              <Input type="date" className="w-40" value={exception.date} onChange={(e) => updateException(index, { date: e.target.value })} />
+              <Input
+                className="w-40"
+                placeholder="Ex: Natal"
+                value={exception.label ?? ''}
+                onChange={(e) => updateException(index, { label: e.target.value })}
+              />
+              <div className="flex items-center gap-2">
+                <Switch
+                  checked={exception.closed}
+                  onCheckedChange={(closed) => updateException(index, closed
+                    ? { closed, open: undefined, close: undefined }
+                    : { closed, open: exception.open ?? '14:00', close: exception.close ?? '06:00' })}
+                />
+                <span className="text-sm">Fechado</span>
+              </div>
+              {!exception.closed && (
+                <>
+                  <Input type="time" className="w-28" value={exception.open ?? ''} onChange={(e) => updateException(index, { open: e.target.value })} />
+                  <span className="text-muted-foreground">ate</span>
+                  <Input type="time" className="w-28" value={exception.close ?? ''} onChange={(e) => updateException(index, { close: e.target.value })} />
+                </>
+              )}
+              <Button
+                type="button"
+                size="icon"
+                variant="ghost"
+                onClick={() => setHours(prev => ({ ...prev, exceptions: prev.exceptions.filter((_, i) => i !== index) }))}
+              >
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <Button
+          className="w-full"
+          onClick={() => saveMutation.mutate(hours)}
+          disabled={saveMutation.isPending}
+          data-testid="button-save-opening-hours"
+        >
+          <Check className="w-4 h-4 mr-2" />
+          Salvar Horarios
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
+
+function ConfiguracoesTab() {
+  const { toast } = useToast();
+
+  const { data: settings } = useQuery<SettingsType>({
+    queryKey: ['/api/settings'],
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async (data: Partial<SettingsType>) => {
+      return apiRequest('PATCH', '/api/settings', data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/settings'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/store-status'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/delivery-quote'] });
+      toast({ title: 'Configuracoes salvas!' });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    const data = {
+      storeAddress: formData.get('storeAddress') as string,
+      pixKey: formData.get('pixKey') as string,
+      pixMerchantName: formData.get('pixMerchantName') as string,
+      pixMerchantCity: formData.get('pixMerchantCity') as string,
+      whatsapp: formData.get('whatsapp') as string,
+      isOpen: formData.get('isOpen') === 'on',
+      holdUnpaidPrepaidOrders: formData.get('holdUnpaidPrepaidOrders') === 'on',
+      deliveryPricingMode: formData.get('deliveryPricingMode') as DeliveryPricingMode,
+      storeLat: (formData.get('storeLat') as string).trim() || null,
+      storeLng: (formData.get('storeLng') as string).trim() || null,
+      deliveryRatePerKm: (formData.get('deliveryRatePerKm') as string) || '0',
+      minDeliveryFee: (formData.get('minDeliveryFee') as string) || '0',
+      maxDeliveryDistance: (formData.get('maxDeliveryDistance') as string) || '0',
+      scheduleSlotMinutes: Number(formData.get('scheduleSlotMinutes')) || 30,
+      scheduleSlotCapacity: Math.max(0, Number(formData.get('scheduleSlotCapacity')) || 0),
+      scheduleLeadMinutes: Math.max(0, Number(formData.get('scheduleLeadMinutes')) || 0),
+    };
+    updateMutation.mutate(data);
+  };
+
+  return (
+    <div className="space-y-6">
+      <h2 className="font-serif text-3xl text-primary">Configuracoes</h2>
+
+      <Card>
+        <CardContent className="p-6">
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="md:col-span-2">
+                <Label htmlFor="storeAddress">Endereco da Loja</Label>
+                <Textarea 
+                  id="storeAddress" 
+                  name="storeAddress" 
+                  defaultValue={settings?.storeAddress || ''} 
+                  placeholder="Rua, numero, bairro, cidade"
+                  data-testid="input-store-address"
                 />
               </div>
               <div>
-                <Label htmlFor="fee">Taxa de Entrega (R$)</Label>
-                <Input
-                  id="fee"
-                  name="fee"
-                  type="number"
-                  step="0.01"
-                  min="0"
-                  defaultValue={editingZone?.fee || ''}
-                  required
-                  data-testid="input-zone-fee"
+                <Label htmlFor="pixKey">Chave PIX</Label>
+                <Input 
+                  id="pixKey" 
+                  name="pixKey" 
+                  defaultValue={settings?.pixKey || ''} 
+                  placeholder="CPF, CNPJ, email ou celular"
+                  data-testid="input-pix-key"
                 />
+                <p className="text-xs text-muted-foreground mt-1">Celular com +55 e DDD, ex: +5511947714676</p>
               </div>
-            </div>
-            <div className="grid gap-4 sm:grid-cols-2">
-              <div>
-                <Label htmlFor="name">Nome da Zona</Label>
-                <Input
-                  id="name"
-                  name="name"
-                  defaultValue={editingZone?.name || ''}
-                  required
-                  data-testid="input-zone-name"
-                />
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <Label htmlFor="pixMerchantName">Recebedor PIX</Label>
+                  <Input
+                    id="pixMerchantName"
+                    name="pixMerchantName"
+                    defaultValue={settings?.pixMerchantName || 'VIBE DRINKS'}
+                    key={`pix-name-${settings?.pixMerchantName}`}
+                    maxLength={25}
+                    required
+                    data-testid="input-pix-merchant-name"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="pixMerchantCity">Cidade</Label>
+                  <Input
+                    id="pixMerchantCity"
+                    name="pixMerchantCity"
+                    defaultValue={settings?.pixMerchantCity || 'SAO PAULO'}
+                    key={`pix-city-${settings?.pixMerchantCity}`}
+                    maxLength={15}
+                    required
+                    data-testid="input-pix-merchant-city"
+                  />
+                </div>
               </div>
               <div>
-                <Label htmlFor="sortOrder">Ordem de Exibicao</Label>
+                <Label htmlFor="whatsapp">WhatsApp da Loja</Label>
                 <Input
-                  id="sortOrder"
-                  name="sortOrder"
-                  type="number"
-                  min="0"
-                  defaultValue={editingZone?.sortOrder ?? 0}
-                  data-testid="input-zone-sort-order"
+                  id="whatsapp"
+                  name="whatsapp"
+                  defaultValue={settings?.whatsapp || ''}
+                  key={`whatsapp-${settings?.whatsapp}`}
+                  placeholder="11947714676"
+                  data-testid="input-store-whatsapp"
                 />
               </div>
             </div>
-            <div>
-              <Label htmlFor="description">Descricao (opcional)</Label>
-              <Textarea
-                id="description"
-                name="description"
-                defaultValue={editingZone?.description || ''}
-                data-testid="input-zone-description"
+
+            <div className="flex items-center gap-3 p-4 bg-secondary rounded-lg">
+              <Switch 
+                id="isOpen" 
+                name="isOpen" 
+                defaultChecked={settings?.isOpen ?? true}
+                data-testid="switch-store-open"
               />
+              <Label htmlFor="isOpen" className="cursor-pointer">
+                Loja aberta para pedidos
+              </Label>
             </div>
-            <div className="flex items-center gap-2">
+
+            <div className="flex items-center gap-3 p-4 bg-secondary rounded-lg">
               <Switch
-                id="isActive"
-                name="isActive"
-                defaultChecked={editingZone?.isActive ?? true}
-                data-testid="switch-zone-active"
+                id="holdUnpaidPrepaidOrders"
+                name="holdUnpaidPrepaidOrders"
+                defaultChecked={settings?.holdUnpaidPrepaidOrders ?? false}
+                key={`hold-${settings?.holdUnpaidPrepaidOrders}`}
+                data-testid="switch-hold-unpaid-orders"
               />
-              <Label htmlFor="isActive">Zona ativa</Label>
+              <Label htmlFor="holdUnpaidPrepaidOrders" className="cursor-pointer">
+                Cozinha so inicia pedidos PIX depois do pagamento confirmado
+              </Label>
             </div>
-            <div className="flex justify-end gap-2">
-              <Button type="button" variant="outline" onClick={() => setIsZoneDialogOpen(false)}>
-                Cancelar
-              </Button>
-              <Button type="submit" disabled={createZoneMutation.isPending || updateZoneMutation.isPending} data-testid="button-save-zone">
-                {editingZone ? 'Salvar' : 'Criar'}
-              </Button>
+
+            <div className="space-y-3">
+              <h3 className="font-semibold flex items-center gap-2">
+                <Truck className="w-4 h-4" />
+                Taxa de entrega
+              </h3>
+              <div className="grid gap-4 md:grid-cols-3">
+                <div className="md:col-span-3">
+                  <Label htmlFor="deliveryPricingMode">Calculo da taxa</Label>
+                  <Select name="deliveryPricingMode" defaultValue={settings?.deliveryPricingMode ?? 'zone'} key={`mode-${settings?.deliveryPricingMode}`}>
+                    <SelectTrigger id="deliveryPricingMode" data-testid="select-delivery-pricing-mode">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {DELIVERY_PRICING_MODES.map(mode => (
+                        <SelectItem key={mode} value={mode}>{DELIVERY_PRICING_MODE_LABELS[mode]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    A distancia e medida em linha reta da loja ate o endereco do cliente. Sem latitude e longitude da loja, vale a tabela de bairros.
+                  </p>
+                </div>
+                <div>
+                  <Label htmlFor="storeLat">Latitude da loja</Label>
+                  <Input id="storeLat" name="storeLat" defaultValue={settings?.storeLat ?? ''} key={`lat-${settings?.storeLat}`} placeholder="-23.5505" data-testid="input-store-lat" />
+                </div>
+                <div>
+                  <Label htmlFor="storeLng">Longitude da loja</Label>
+                  <Input id="storeLng" name="storeLng" defaultValue={settings?.storeLng ?? ''} key={`lng-${settings?.storeLng}`} placeholder="-46.6333" data-testid="input-store-lng" />
+                </div>
+                <div>
+                  <Label htmlFor="deliveryRatePerKm">Valor por km (R$)</Label>
+                  <Input id="deliveryRatePerKm" name="deliveryRatePerKm" type="number" step="0.01" min="0" defaultValue={settings?.deliveryRatePerKm ?? '1.25'} key={`rate-${settings?.deliveryRatePerKm}`} data-testid="input-delivery-rate" />
+                </div>
+                <div>
+                  <Label htmlFor="minDeliveryFee">Taxa minima (R$)</Label>
+                  <Input id="minDeliveryFee" name="minDeliveryFee" type="number" step="0.01" min="0" defaultValue={settings?.minDeliveryFee ?? '5.00'} key={`min-${settings?.minDeliveryFee}`} data-testid="input-min-delivery-fee" />
+                </div>
+                <div>
+                  <Label htmlFor="maxDeliveryDistance">Distancia maxima (km)</Label>
+                  <Input id="maxDeliveryDistance" name="maxDeliveryDistance" type="number" step="0.1" min="0" defaultValue={settings?.maxDeliveryDistance ?? '15'} key={`max-${settings?.maxDeliveryDistance}`} data-testid="input-max-delivery-distance" />
+                  <p className="text-xs text-muted-foreground mt-1">0 sem limite</p>
+                </div>
+              </div>
             </div>
-          </form>
-        </DialogContent>
-      </Dialog>
 
-      <Dialog open={isNeighborhoodDialogOpen} onOpenChange={setIsNeighborhoodDialogOpen}>
-        <DialogContent>
-          <DialogHeader>
-            <DialogTitle>{editingNeighborhood ? 'Editar Bairro' : 'Novo Bairro'}</DialogTitle>
-          </DialogHeader>
-          <form onSubmit={handleNeighborhoodSubmit} className="space-y-4">
-            <div>
-              <Label htmlFor="neighborhoodName">Nome do Bairro</Label>
-              <Input
-                id="neighborhoodName"
-                name="name"
-                defaultValue={editingNeighborhood?.name || ''}
-                required
-                data-testid="input-neighborhood-name"
-              />
+            <div className="space-y-3">
+              <h3 className="font-semibold flex items-center gap-2">
+                <CalendarClock className="w-4 h-4" />
+                Pedidos agendados
+              </h3>
+              <div className="grid gap-4 md:grid-cols-3">
+                <div>
+                  <Label htmlFor="scheduleSlotMinutes">Intervalo dos horarios</Label>
+                  <Select name="scheduleSlotMinutes" defaultValue={String(settings?.scheduleSlotMinutes ?? 30)} key={`slot-${settings?.scheduleSlotMinutes}`}>
+                    <SelectTrigger id="scheduleSlotMinutes" data-testid="select-schedule-slot-minutes">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="15">15 minutos</SelectItem>
+                      <SelectItem value="30">30 minutos</SelectItem>
+                      <SelectItem value="60">1 hora</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="scheduleSlotCapacity">Pedidos por horario</Label>
+                  <Input
+                    id="scheduleSlotCapacity"
+                    name="scheduleSlotCapacity"
+                    type="number"
+                    min="0"
+                    defaultValue={settings?.scheduleSlotCapacity ?? 5}
+                    key={`capacity-${settings?.scheduleSlotCapacity}`}
+                    data-testid="input-schedule-slot-capacity"
+                  />
+                  <p className="text-xs text-muted-foreground mt-1">0 desativa o agendamento</p>
+                </div>
+                <div>
+                  <Label htmlFor="scheduleLeadMinutes">Cozinha recebe (min antes)</Label>
+                  <Input
+                    id="scheduleLeadMinutes"
+                    name="scheduleLeadMinutes"
+                    type="number"
+                    min="0"
+                    defaultValue={settings?.scheduleLeadMinutes ?? 60}
+                    key={`lead-${settings?.scheduleLeadMinutes}`}
+                    data-testid="input-schedule-lead-minutes"
+                  />
+                </div>
+              </div>
             </div>
-            <div>
-              <Label htmlFor="zoneId">Zona</Label>
-              <input type="hidden" name="zoneId" value={selectedZoneForNeighborhood} />
-              <Select value={selectedZoneForNeighborhood} onValueChange={setSelectedZoneForNeighborhood}>
-                <SelectTrigger data-testid="select-neighborhood-zone">
-                  <SelectValue placeholder="Selecione a zona" />
-                </SelectTrigger>
-                <SelectContent>
-                  {sortedZones.map(zone => (
-                    <SelectItem key={zone.id} value={zone.id}>
-                      {zone.code} - {zone.name} ({formatCurrency(zone.fee)})
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
+
+            <Button type="submit" className="w-full" data-testid="button-save-settings">
+              <Check className="w-4 h-4 mr-2" />
+              Salvar Configuracoes
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <OpeningHoursCard settings={settings} />
+
+      <ImageProcessor />
+    </div>
+  );
+}
+
+function EquipeTab() {
+  const { toast } = useToast();
+  const { user: currentUser } = useAuth();
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [newStaff, setNewStaff] = useState({ name: '', role: 'pdv', whatsapp: '', password: '' });
+  const [resetTarget, setResetTarget] = useState<User | null>(null);
+  const [resetPassword, setResetPassword] = useState('');
+
+  const { data: staff = [], isLoading } = useQuery<User[]>({
+    queryKey: ['/api/staff'],
+  });
+
+  const invalidateStaff = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/staff'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/users'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/motoboys'] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (data: typeof newStaff) => {
+      return apiRequest('POST', '/api/staff', data);
+    },
+    onSuccess: () => {
+      invalidateStaff();
+      setIsCreateOpen(false);
+      setNewStaff({ name: '', role: 'pdv', whatsapp: '', password: '' });
+      toast({ title: 'Funcionario criado!' });
+    },
+    onError: (error: Error) => {
+      const apiError = parseApiError(error);
+      toast({ title: 'Erro ao criar funcionario', description: apiError?.body?.error, variant: 'destructive' });
+    },
+  });
+
+  const toggleActiveMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: string; isActive: boolean }) => {
+      return apiRequest('PATCH', `/api/staff/${id}`, { isActive });
+    },
+    onSuccess: (_data, { isActive }) => {
+      invalidateStaff();
+      toast({ title: isActive ? 'Funcionario reativado!' : 'Funcionario desativado!' });
+    },
+    onError: (error: Error) => {
+      const apiError = parseApiError(error);
+      toast({ title: 'Erro ao atualizar funcionario', description: apiError?.body?.error, variant: 'destructive' });
+    },
+  });
+
+  const resetPasswordMutation = useMutation({
+    mutationFn: async ({ id, password }: { id: string; password: string }) => {
+      return apiRequest('POST', `/api/staff/${id}/reset-password`, { password });
+    },
+    onSuccess: () => {
+      setResetTarget(null);
+      setResetPassword('');
+      toast({ title: 'Senha redefinida!' });
+    },
+    onError: (error: Error) => {
+      const apiError = parseApiError(error);
+      toast({ title: 'Erro ao redefinir senha', description: apiError?.body?.error, variant: 'destructive' });
+    },
+  });
+
+  const pinInput = (value: string) => value.replace(/\D/g, '').slice(0, 6);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <h2 className="font-serif text-3xl text-primary">Equipe</h2>
+        <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+          <DialogTrigger asChild>
+            <Button data-testid="button-add-staff">
+              <Plus className="w-4 h-4 mr-2" />
+              Novo Funcionario
+            </Button>
+          </DialogTrigger>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Novo Funcionario</DialogTitle>
+            </DialogHeader>
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label>Nome (usado no login)</Label>
+                <Input
+                  value={newStaff.name}
+                  onChange={(e) => setNewStaff({ ...newStaff, name: e.target.value })}
+                  data-testid="input-staff-name"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Funcao</Label>
+                <Select value={newStaff.role} onValueChange={(role) => setNewStaff({ ...newStaff, role })}>
+                  <SelectTrigger data-testid="select-staff-role">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {STAFF_ROLES.map(role => (
+                      <SelectItem key={role} value={role}>{STAFF_ROLE_LABELS[role]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>WhatsApp</Label>
+                <Input
+                  type="tel"
+                  placeholder="11999999999"
+                  value={newStaff.whatsapp}
+                  onChange={(e) => setNewStaff({ ...newStaff, whatsapp: e.target.value.replace(/\D/g, '').slice(0, 11) })}
+                  data-testid="input-staff-whatsapp"
+                />
+                {newStaff.role === 'motoboy' && (
+                  <p className="text-xs text-muted-foreground">O motoboy entra com este WhatsApp e a senha abaixo.</p>
+                )}
+              </div>
+              <div className="space-y-2">
+                <Label>Senha (6 digitos)</Label>
+                <Input
+                  type="password"
+                  inputMode="numeric"
+                  value={newStaff.password}
+                  onChange={(e) => setNewStaff({ ...newStaff, password: pinInput(e.target.value) })}
+                  data-testid="input-staff-password"
+                />
+              </div>
+              <Button
+                className="w-full"
+                onClick={() => createMutation.mutate(newStaff)}
+                disabled={createMutation.isPending || !newStaff.name.trim() || newStaff.whatsapp.length !== 11 || newStaff.password.length !== 6}
+                data-testid="button-save-staff"
+              >
+                Criar Funcionario
+              </Button>
             </div>
-            <div className="flex items-center gap-2">
-              <Switch
-                id="neighborhoodIsActive"
-                name="isActive"
-                defaultChecked={editingNeighborhood?.isActive ?? true}
-                data-testid="switch-neighborhood-active"
+          </DialogContent>
+        </Dialog>
+      </div>
+      <p className="text-muted-foreground text-sm">
+        Cada funcionario tem seu proprio login. As vendas do PDV ficam registradas no nome de quem estava logado.
+      </p>
+
+      {isLoading ? (
+        <div className="text-muted-foreground">Carregando...</div>
+      ) : (
+        <Card>
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Nome</TableHead>
+                  <TableHead>Funcao</TableHead>
+                  <TableHead>WhatsApp</TableHead>
+                  <TableHead className="text-center">Ativo</TableHead>
+                  <TableHead className="text-right">Acoes</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {staff.map(member => (
+                  <TableRow key={member.id} className={member.isBlocked ? 'opacity-60' : undefined} data-testid={`row-staff-${member.id}`}>
+                    <TableCell className="font-medium">{member.name}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{STAFF_ROLE_LABELS[member.role] || member.role}</Badge>
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">{member.whatsapp}</TableCell>
+                    <TableCell className="text-center">
+                      <Switch
+                        checked={!member.isBlocked}
+                        onCheckedChange={(checked) => toggleActiveMutation.mutate({ id: member.id, isActive: checked })}
+                        disabled={toggleActiveMutation.isPending || member.id === currentUser?.id}
+                        data-testid={`switch-staff-active-${member.id}`}
+                      />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => { setResetTarget(member); setResetPassword(''); }}
+                        data-testid={`button-reset-staff-${member.id}`}
+                      >
+                        <Key className="w-4 h-4 mr-1" />
+                        Nova senha
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog open={!!resetTarget} onOpenChange={(open) => !open && setResetTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Nova senha para {resetTarget?.name}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Senha (6 digitos)</Label>
+              <Input
+                type="password"
+                inputMode="numeric"
+                value={resetPassword}
+                onChange={(e) => setResetPassword(pinInput(e.target.value))}
+                data-testid="input-staff-reset-password"
               />
-              <Label htmlFor="neighborhoodIsActive">Bairro ativo</Label>
-            </div>
-            <div className="flex justify-end gap-2">
-              <Button type="button" variant="outline" onClick={() => setIsNeighborhoodDialogOpen(false)}>
-                Cancelar
-              </Button>
-              <Button type="submit" disabled={createNeighborhoodMutation.isPending || updateNeighborhoodMutation.isPending} data-testid="button-save-neighborhood">
-                {editingNeighborhood ? 'Salvar' : 'Criar'}
-              </Button>
             </div>
-          </form>
+            <Button
+              className="w-full"
+              onClick={() => resetTarget && resetPasswordMutation.mutate({ id: resetTarget.id, password: resetPassword })}
+              disabled={resetPasswordMutation.isPending || resetPassword.length !== 6}
+              data-testid="button-confirm-staff-reset"
+            >
+              Salvar Senha
+            </Button>
+          </div>
         </DialogContent>
       </Dialog>
     </div>
   );
 }
 
-function ConfiguracoesTab() {
+function PermissoesTab() {
   const { toast } = useToast();
+  const { user: currentUser, updateUser } = useAuth();
 
-  const { data: settings } = useQuery<SettingsType>({
-    queryKey: ['/api/settings'],
+  const { data: users = [], isLoading } = useQuery<User[]>({
+    queryKey: ['/api/users'],
   });
 
-  const updateMutation = useMutation({
-    mutationFn: async (data: Partial<SettingsType>) => {
-      return apiRequest('PATCH', '/api/settings', data);
+  const staffUsers = users.filter(u => (STAFF_ROLES as string[]).includes(u.role));
+
+  const updatePermissionsMutation = useMutation({
+    mutationFn: async ({ userId, permissions }: { userId: string; permissions: PermissionScope[] }) => {
+      const res = await apiRequest('PATCH', `/api/users/${userId}/permissions`, { permissions });
+      return res.json() as Promise<User>;
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/settings'] });
-      toast({ title: 'Configuracoes salvas!' });
+    onSuccess: (updated) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/users'] });
+      if (updated.id === currentUser?.id) {
+        updateUser({ permissions: updated.permissions });
+      }
+      toast({ title: 'Permissoes atualizadas!' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Erro ao atualizar permissoes', description: error.message, variant: 'destructive' });
     },
   });
 
-  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
-    e.preventDefault();
-    const formData = new FormData(e.currentTarget);
-    const data = {
-      storeAddress: formData.get('storeAddress') as string,
-      pixKey: formData.get('pixKey') as string,
-      isOpen: formData.get('isOpen') === 'on',
-    };
-    updateMutation.mutate(data);
+  const togglePermission = (staff: User, scope: PermissionScope, enabled: boolean) => {
+    const current = staff.permissions ?? [];
+    const permissions = enabled ? [...current, scope] : current.filter(p => p !== scope);
+    updatePermissionsMutation.mutate({ userId: staff.id, permissions });
   };
 
   return (
     <div className="space-y-6">
-      <h2 className="font-serif text-3xl text-primary">Configuracoes</h2>
+      <h2 className="font-serif text-3xl text-primary">Permissoes</h2>
+      <p className="text-muted-foreground text-sm">
+        Defina o que cada funcionario pode acessar. As permissoes valem no proximo carregamento da pagina do funcionario.
+      </p>
 
-      <Card>
-        <CardContent className="p-6">
-          <form onSubmit={handleSubmit} className="space-y-6">
-            <div className="grid gap-4 md:grid-cols-2">
-              <div className="md:col-span-2">
-                <Label htmlFor="storeAddress">Endereco da Loja</Label>
-                <Textarea 
-                  id="storeAddress" 
-                  name="storeAddress" 
-                  defaultValue={settings?.storeAddress || ''} 
-                  placeholder="Rua, numero, bairro, cidade"
-                  data-testid="input-store-address"
-                />
-              </div>
-              <div>
-                <Label htmlFor="pixKey">Chave PIX</Label>
-                <Input 
-                  id="pixKey" 
-                  name="pixKey" 
-                  defaultValue={settings?.pixKey || ''} 
-                  placeholder="CPF, CNPJ, email ou celular"
-                  data-testid="input-pix-key"
-                />
-              </div>
-            </div>
+      {isLoading ? (
+        <div className="text-muted-foreground">Carregando...</div>
+      ) : (
+        <Card>
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Funcionario</TableHead>
+                  <TableHead>Funcao</TableHead>
+                  {PERMISSION_SCOPES.map(scope => (
+                    <TableHead key={scope} className="text-center">{PERMISSION_LABELS[scope]}</TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {staffUsers.map(staff => (
+                  <TableRow key={staff.id} data-testid={`row-permissions-${staff.id}`}>
+                    <TableCell className="font-medium">{staff.name}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{STAFF_ROLE_LABELS[staff.role] || staff.role}</Badge>
+                    </TableCell>
+                    {PERMISSION_SCOPES.map(scope => (
+                      <TableCell key={scope} className="text-center">
+                        <Switch
+                          checked={(staff.permissions ?? []).includes(scope)}
+                          onCheckedChange={(checked) => togglePermission(staff, scope, checked)}
+                          disabled={updatePermissionsMutation.isPending}
+                          data-testid={`switch-permission-${staff.id}-${scope}`}
+                        />
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
 
-            <div className="flex items-center gap-3 p-4 bg-secondary rounded-lg">
-              <Switch 
-                id="isOpen" 
-                name="isOpen" 
-                defaultChecked={settings?.isOpen ?? true}
-                data-testid="switch-store-open"
-              />
-              <Label htmlFor="isOpen" className="cursor-pointer">
-                Loja aberta para pedidos
-              </Label>
-            </div>
+function formatAuditValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '-';
+  if (typeof value === 'boolean') return value ? 'sim' : 'nao';
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : '-';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
 
-            <Button type="submit" className="w-full" data-testid="button-save-settings">
-              <Check className="w-4 h-4 mr-2" />
-              Salvar Configuracoes
+function AuditChanges({ event }: { event: AuditEvent }) {
+  const before = event.before ?? {};
+  const after = event.after ?? {};
+  const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+  if (keys.length === 0) return <span className="text-muted-foreground">-</span>;
+
+  return (
+    <div className="space-y-1 text-xs">
+      {keys.map(key => (
+        <div key={key} className="flex flex-wrap gap-1">
+          <span className="text-muted-foreground">{key}:</span>
+          {key in before && <span className="line-through text-red-400/80">{formatAuditValue(before[key])}</span>}
+          {key in before && key in after && <span className="text-muted-foreground">→</span>}
+          {key in after && <span className="text-green-400">{formatAuditValue(after[key])}</span>}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function AuditoriaTab() {
+  const [actionFilter, setActionFilter] = useState('all');
+  const [entityFilter, setEntityFilter] = useState('all');
+  const [actorFilter, setActorFilter] = useState('all');
+  const [entityIdFilter, setEntityIdFilter] = useState('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+
+  const { data: users = [] } = useQuery<User[]>({
+    queryKey: ['/api/users'],
+  });
+  const staffUsers = users.filter(u => (STAFF_ROLES as string[]).includes(u.role));
+
+  const params = new URLSearchParams();
+  if (actionFilter !== 'all') params.set('action', actionFilter);
+  if (entityFilter !== 'all') params.set('entityType', entityFilter);
+  if (actorFilter !== 'all') params.set('actorId', actorFilter);
+  if (entityIdFilter.trim()) params.set('entityId', entityIdFilter.trim());
+  if (fromDate) params.set('from', fromDate);
+  if (toDate) params.set('to', toDate);
+  const queryString = params.toString();
+
+  const { data: events = [], isLoading, refetch, isFetching } = useQuery<AuditEvent[]>({
+    queryKey: ['/api/admin/audit-events', queryString],
+    queryFn: async () => {
+      const res = await apiRequest('GET', `/api/admin/audit-events${queryString ? `?${queryString}` : ''}`);
+      return res.json();
+    },
+  });
+
+  const clearFilters = () => {
+    setActionFilter('all');
+    setEntityFilter('all');
+    setActorFilter('all');
+    setEntityIdFilter('');
+    setFromDate('');
+    setToDate('');
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <h2 className="font-serif text-3xl text-primary">Auditoria</h2>
+        <Button variant="outline" onClick={() => refetch()} disabled={isFetching} data-testid="button-refresh-audit">
+          <History className="w-4 h-4 mr-2" />
+          Atualizar
+        </Button>
+      </div>
+      <p className="text-muted-foreground text-sm">
+        Registro de quem alterou pedidos, taxas, precos, usuarios e configuracoes.
+      </p>
+
+      <Card>
+        <CardContent className="p-4 grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+          <div className="space-y-1">
+            <Label>Acao</Label>
+            <Select value={actionFilter} onValueChange={setActionFilter}>
+              <SelectTrigger data-testid="select-audit-action">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Todas</SelectItem>
+                {(Object.keys(AUDIT_ACTION_LABELS) as AuditAction[]).map(action => (
+                  <SelectItem key={action} value={action}>{AUDIT_ACTION_LABELS[action]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Entidade</Label>
+            <Select value={entityFilter} onValueChange={setEntityFilter}>
+              <SelectTrigger data-testid="select-audit-entity">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Todas</SelectItem>
+                {(Object.keys(AUDIT_ENTITY_LABELS) as AuditEntityType[]).map(entity => (
+                  <SelectItem key={entity} value={entity}>{AUDIT_ENTITY_LABELS[entity]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Funcionario</Label>
+            <Select value={actorFilter} onValueChange={setActorFilter}>
+              <SelectTrigger data-testid="select-audit-actor">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Todos</SelectItem>
+                {staffUsers.map(staff => (
+                  <SelectItem key={staff.id} value={staff.id}>
+                    {staff.name} ({STAFF_ROLE_LABELS[staff.role] || staff.role})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>ID do registro</Label>
+            <Input
+              placeholder="Ex: id do pedido"
+              value={entityIdFilter}
+              onChange={(e) => setEntityIdFilter(e.target.value)}
+              data-testid="input-audit-entity-id"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label>De</Label>
+            <Input type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} data-testid="input-audit-from" />
+          </div>
+          <div className="space-y-1">
+            <Label>Ate</Label>
+            <Input type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} data-testid="input-audit-to" />
+          </div>
+          <div className="sm:col-span-2 lg:col-span-3 flex justify-end">
+            <Button variant="ghost" size="sm" onClick={clearFilters} data-testid="button-clear-audit-filters">
+              <X className="w-4 h-4 mr-1" />
+              Limpar filtros
             </Button>
-          </form>
+          </div>
         </CardContent>
       </Card>
 
-      <ImageProcessor />
+      {isLoading ? (
+        <div className="text-muted-foreground">Carregando...</div>
+      ) : events.length === 0 ? (
+        <Card>
+          <CardContent className="p-8 text-center text-muted-foreground">
+            Nenhum registro encontrado
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Data</TableHead>
+                  <TableHead>Funcionario</TableHead>
+                  <TableHead>Acao</TableHead>
+                  <TableHead>Registro</TableHead>
+                  <TableHead>Alteracoes</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {events.map(event => (
+                  <TableRow key={event.id} data-testid={`row-audit-${event.id}`}>
+                    <TableCell className="whitespace-nowrap text-sm">{formatDate(event.createdAt)}</TableCell>
+                    <TableCell className="text-sm">
+                      <p className="font-medium">{event.actorName || 'Sistema'}</p>
+                      {event.actorRole && (
+                        <p className="text-xs text-muted-foreground">{STAFF_ROLE_LABELS[event.actorRole] || event.actorRole}</p>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline">
+                        {AUDIT_ACTION_LABELS[event.action as AuditAction] || event.action}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      <p>{AUDIT_ENTITY_LABELS[event.entityType as AuditEntityType] || event.entityType}</p>
+                      {event.entityId && (
+                        <button
+                          type="button"
+                          className="text-xs text-muted-foreground font-mono hover:text-primary"
+                          onClick={() => setEntityIdFilter(event.entityId!)}
+                          title="Filtrar por este registro"
+                        >
+                          #{event.entityId.slice(0, 8)}
+                        </button>
+                      )}
+                    </TableCell>
+                    <TableCell className="max-w-sm">
+                      <AuditChanges event={event} />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
+
+function CaixasTab() {
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [selected, setSelected] = useState<CashSessionReport | null>(null);
+
+  const params = new URLSearchParams();
+  if (fromDate) params.set('from', fromDate);
+  if (toDate) params.set('to', toDate);
+  const queryString = params.toString();
+
+  const { data: reports = [], isLoading, refetch, isFetching } = useQuery<CashSessionReport[]>({
+    queryKey: ['/api/cash-sessions', queryString],
+    queryFn: async () => {
+      const res = await apiRequest('GET', `/api/cash-sessions${queryString ? `?${queryString}` : ''}`);
+      return res.json();
+    },
+  });
+
+  const closedReports = reports.filter(report => report.session.status === 'closed');
+  const totalVariance = closedReports.reduce((sum, report) => sum + (report.totals.variance ?? 0), 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <h2 className="font-serif text-3xl text-primary">Caixas</h2>
+        <Button variant="outline" onClick={() => refetch()} disabled={isFetching} data-testid="button-refresh-cash-sessions">
+          <History className="w-4 h-4 mr-2" />
+          Atualizar
+        </Button>
+      </div>
+      <p className="text-muted-foreground text-sm">
+        Aberturas, sangrias, suprimentos e fechamentos de caixa do PDV. Sem periodo, mostra os ultimos 30 dias.
+      </p>
+
+      <Card>
+        <CardContent className="p-4 flex flex-wrap items-end gap-3">
+          <div className="space-y-1">
+            <Label>De</Label>
+            <Input type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} data-testid="input-cash-sessions-from" />
+          </div>
+          <div className="space-y-1">
+            <Label>Ate</Label>
+            <Input type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} data-testid="input-cash-sessions-to" />
+          </div>
+          {closedReports.length > 0 && (
+            <div className="ml-auto text-sm">
+              <span className="text-muted-foreground">Diferenca acumulada: </span>
+              <span className={`font-semibold ${Math.abs(totalVariance) < 0.005 ? 'text-green-500' : 'text-destructive'}`}>
+                {formatCurrency(totalVariance)}
+              </span>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {isLoading ? (
+        <div className="text-muted-foreground">Carregando...</div>
+      ) : reports.length === 0 ? (
+        <Card>
+          <CardContent className="p-8 text-center text-muted-foreground">
+            Nenhum caixa no periodo
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Operador</TableHead>
+                  <TableHead>Abertura</TableHead>
+                  <TableHead>Fechamento</TableHead>
+                  <TableHead className="text-right">Vendas</TableHead>
+                  <TableHead className="text-right">Esperado</TableHead>
+                  <TableHead className="text-right">Contado</TableHead>
+                  <TableHead className="text-right">Diferenca</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {reports.map(report => {
+                  const { session, totals } = report;
+                  return (
+                    <TableRow
+                      key={session.id}
+                      className="cursor-pointer"
+                      onClick={() => setSelected(report)}
+                      data-testid={`row-cash-session-${session.id}`}
+                    >
+                      <TableCell className="font-medium">{report.operatorName ?? 'Operador removido'}</TableCell>
+                      <TableCell className="whitespace-nowrap text-sm">{formatDate(session.openedAt)}</TableCell>
+                      <TableCell className="whitespace-nowrap text-sm">
+                        {session.closedAt ? formatDate(session.closedAt) : <Badge variant="outline" className="border-green-500 text-green-500">Aberto</Badge>}
+                      </TableCell>
+                      <TableCell className="text-right">{formatCurrency(totals.salesTotal)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(totals.expectedCash)}</TableCell>
+                      <TableCell className="text-right">{totals.countedCash !== null ? formatCurrency(totals.countedCash) : '-'}</TableCell>
+                      <TableCell className={`text-right font-semibold ${totals.variance === null ? '' : Math.abs(totals.variance) < 0.005 ? 'text-green-500' : 'text-destructive'}`}>
+                        {totals.variance !== null ? formatCurrency(totals.variance) : '-'}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog open={!!selected} onOpenChange={(open) => !open && setSelected(null)}>
+        <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{selected?.session.status === 'closed' ? 'Fechamento do caixa' : 'Caixa aberto'}</DialogTitle>
+          </DialogHeader>
+          {selected && <CashSessionReportView report={selected} />}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
 
 export default function AdminDashboard() {
   const [activeTab, setActiveTab] = useState('pedidos');
-  const [financeiroUnlocked, setFinanceiroUnlocked] = useState(false);
-  const [showFinanceiroDialog, setShowFinanceiroDialog] = useState(false);
-  const [financeiroPassword, setFinanceiroPassword] = useState('');
-  const [financeiroError, setFinanceiroError] = useState('');
   const { user, role, logout, isHydrated } = useAuth();
   const [, setLocation] = useLocation();
   const scrollContainerRef = useRef<HTMLDivElement>(null);
@@ -5468,49 +8144,28 @@ export default function AdminDashboard() {
     }
   };
 
-  const handleTabClick = (tabId: string) => {
-    if (tabId === 'financeiro' && !financeiroUnlocked) {
-      setShowFinanceiroDialog(true);
-      setFinanceiroPassword('');
-      setFinanceiroError('');
-    } else {
-      setActiveTab(tabId);
-    }
-  };
-
-  const handleFinanceiroPasswordSubmit = async () => {
-    try {
-      const res = await fetch('/api/auth/financeiro', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ password: financeiroPassword }),
-      });
-      if (res.ok) {
-        setFinanceiroUnlocked(true);
-        setShowFinanceiroDialog(false);
-        setActiveTab('financeiro');
-        setFinanceiroPassword('');
-        setFinanceiroError('');
-      } else {
-        setFinanceiroError('Senha incorreta');
-      }
-    } catch {
-      setFinanceiroError('Erro ao verificar senha');
-    }
-  };
+  const sessionUser = user ? { role: role ?? '', permissions: user.permissions } : null;
+  const visibleTabs = tabs.filter(tab => !tab.permission || hasPermission(sessionUser, tab.permission));
 
   const renderTab = () => {
     switch (activeTab) {
       case 'pedidos': return <OrdersTab />;
       case 'pdv': return <PDVTab />;
       case 'delivery': return <DeliveryTab />;
-      case 'financeiro': return <FinanceiroTab />;
+      case 'financeiro': return hasPermission(sessionUser, 'finance:read') ? <FinanceiroTab /> : <OrdersTab />;
+      case 'caixas': return hasPermission(sessionUser, 'finance:read') ? <CaixasTab /> : <OrdersTab />;
       case 'estoque': return <EstoqueTab />;
       case 'clientes': return <ClientesTab />;
       case 'produtos': return <ProdutosTab />;
       case 'categorias': return <CategoriasTab />;
+      case 'combos': return <CombosTab />;
+      case 'adicionais': return <AdicionaisTab />;
+      case 'cupons': return <CuponsTab />;
       case 'motoboys': return <MotoboysTab />;
       case 'configuracoes': return <ConfiguracoesTab />;
+      case 'equipe': return hasPermission(sessionUser, 'staff:manage') ? <EquipeTab /> : <OrdersTab />;
+      case 'permissoes': return hasPermission(sessionUser, 'staff:manage') ? <PermissoesTab /> : <OrdersTab />;
+      case 'auditoria': return <AuditoriaTab />;
       default: return <OrdersTab />;
     }
   };
@@ -5564,13 +8219,13 @@ export default function AdminDashboard() {
             className="flex overflow-x-auto px-2 md:px-12 gap-2 py-3 w-full"
             style={{ scrollbarWidth: 'none', msOverflowStyle: 'none' }}
           >
-            {tabs.map(tab => {
+            {visibleTabs.map(tab => {
               const Icon = tab.icon;
               const isActive = activeTab === tab.id;
               return (
                 <Button
                   key={tab.id}
-                  onClick={() => handleTabClick(tab.id)}
+                  onClick={() => setActiveTab(tab.id)}
                   variant={isActive ? "default" : "outline"}
                   className={`flex items-center gap-2 px-4 py-2 whitespace-nowrap flex-shrink-0 min-w-fit ${
                     isActive 
@@ -5601,57 +8256,6 @@ export default function AdminDashboard() {
       <main className="flex-1 p-4 md:p-6 lg:p-8 overflow-y-auto">
         {renderTab()}
       </main>
-
-      <Dialog open={showFinanceiroDialog} onOpenChange={setShowFinanceiroDialog}>
-        <DialogContent className="sm:max-w-md">
-          <DialogHeader>
-            <DialogTitle className="flex items-center gap-2">
-              <Key className="w-5 h-5 text-primary" />
-              Acesso ao Financeiro
-            </DialogTitle>
-          </DialogHeader>
-          <div className="space-y-4">
-            <p className="text-muted-foreground text-sm">
-              Digite a senha para acessar o painel financeiro.
-            </p>
-            <div className="space-y-2">
-              <Label htmlFor="financeiro-password">Senha</Label>
-              <Input
-                id="financeiro-password"
-                type="password"
-                value={financeiroPassword}
-                onChange={(e) => setFinanceiroPassword(e.target.value)}
-                onKeyDown={(e) => {
-                  if (e.key === 'Enter') {
-                    handleFinanceiroPasswordSubmit();
-                  }
-                }}
-                placeholder="Digite a senha"
-                className="bg-secondary"
-                data-testid="input-financeiro-password"
-              />
-              {financeiroError && (
-                <p className="text-destructive text-sm">{financeiroError}</p>
-              )}
-            </div>
-            <div className="flex gap-2 justify-end">
-              <Button 
-                variant="outline" 
-                onClick={() => setShowFinanceiroDialog(false)}
-                data-testid="button-cancel-financeiro"
-              >
-                Cancelar
-              </Button>
-              <Button 
-                onClick={handleFinanceiroPasswordSubmit}
-                data-testid="button-confirm-financeiro"
-              >
-                Acessar
-              </Button>
-            </div>
-          </div>
-        </DialogContent>
-      </Dialog>
     </div>
   );
 }
@@ -0,0 +1,31 @@
+import { MINIMUM_AGE, ageOn } from "@shared/age";
+
+export class AgeVerificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AgeVerificationError";
+  }
+}
+
+// A real YYYY-MM-DD date for someone at least MINIMUM_AGE years old
+export function parseBirthDate(value: unknown, now: Date = new Date()): string {
+  const text = typeof value === "string" ? value.trim() : "";
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(text);
+  const date = match ? new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]))) : null;
+  if (!date || date.toISOString().slice(0, 10) !== text || date > now) {
+    throw new AgeVerificationError("Data de nascimento invalida");
+  }
+  const age = ageOn(text, now);
+  if (age > 120) throw new AgeVerificationError("Data de nascimento invalida");
+  if (age < MINIMUM_AGE) {
+    throw new AgeVerificationError(`A venda de bebidas alcoolicas e proibida para menores de ${MINIMUM_AGE} anos`);
+  }
+  return text;
+}
+
+// Staff turning the order back at hand-over: the reason goes on the order and in the audit log
+export function parseRefusalReason(value: unknown): string {
+  const reason = typeof value === "string" ? value.trim() : "";
+  if (!reason) throw new AgeVerificationError("Informe o motivo da recusa");
+  return reason.slice(0, 500);
+}
@@ -0,0 +1,53 @@
+import type { Request } from "express";
+import { storage } from "./storage";
+import type { AuditAction, AuditEntityType } from "@shared/schema";
+
+interface AuditEntry {
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId?: string | null;
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
+}
+
+// Records who did what; a failed write is logged but never fails the request itself
+export async function recordAudit(req: Request, entry: AuditEntry): Promise<void> {
+  const actor = req.currentUser;
+  try {
+    await storage.createAuditEvent({
+      actorId: actor?.id ?? null,
+      actorName: actor?.name ?? null,
+      actorRole: actor?.role ?? null,
+      action: entry.action,
+      entityType: entry.entityType,
+      entityId: entry.entityId ?? null,
+      before: entry.before ?? null,
+      after: entry.after ?? null,
+      ipAddress: req.ip ?? null,
+    });
+  } catch (error) {
+    console.error("Error recording audit event:", entry.action, error);
+  }
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  // Decimal columns come back as strings ("12.50") while forms often send numbers
+  const numeric = (value: unknown) => (typeof value === "number" || typeof value === "string") && value !== "" && Number.isFinite(Number(value));
+  if (numeric(a) && numeric(b)) return Number(a) === Number(b);
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+// Keeps only the fields of `changes` that differ from `current`, as before/after snapshots
+export function diffFields<T extends object>(
+  current: T,
+  changes: Partial<T>,
+): { before: Record<string, unknown>; after: Record<string, unknown> } | null {
+  const before: Record<string, unknown> = {};
+  const after: Record<string, unknown> = {};
+  for (const key of Object.keys(changes) as (keyof T)[]) {
+    if (changes[key] === undefined || sameValue(current[key], changes[key])) continue;
+    before[key as string] = current[key] ?? null;
+    after[key as string] = changes[key];
+  }
+  return Object.keys(after).length > 0 ? { before, after } : null;
+}
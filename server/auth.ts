@@ -0,0 +1,146 @@
+import type { Express, Request, Response, NextFunction, RequestHandler } from "express";
+import session from "express-session";
+import connectPgSimple from "connect-pg-simple";
+import { randomBytes } from "crypto";
+import { pool } from "./db";
+import { storage } from "./storage";
+import type { User, SafeUser, UserRole, PermissionScope } from "@shared/schema";
+import { STAFF_ROLES, hasPermission } from "@shared/schema";
+
+declare module "express-session" {
+  interface SessionData {
+    userId: string;
+    role: UserRole;
+  }
+}
+
+export type SessionUser = SafeUser & { role: UserRole };
+
+declare global {
+  namespace Express {
+    interface Request {
+      currentUser?: SessionUser;
+    }
+  }
+}
+
+const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 dias
+
+function getSessionSecret(): string {
+  const secret = process.env.SESSION_SECRET;
+  if (secret) return secret;
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET must be set in production.");
+  }
+  // Dev only: sessions are invalidated on every restart
+  return randomBytes(32).toString("hex");
+}
+
+export function toSafeUser(user: User): SafeUser {
+  const { password: _, ...safeUser } = user;
+  return safeUser;
+}
+
+export function setupSession(app: Express) {
+  const PgStore = connectPgSimple(session);
+
+  app.set("trust proxy", 1);
+  app.use(
+    session({
+      store: new PgStore({
+        pool,
+        tableName: "user_sessions",
+        createTableIfMissing: false,
+      }),
+      name: "vibe.sid",
+      secret: getSessionSecret(),
+      resave: false,
+      saveUninitialized: false,
+      rolling: true,
+      cookie: {
+        httpOnly: true,
+        sameSite: "lax",
+        secure: process.env.NODE_ENV === "production",
+        maxAge: SESSION_TTL_MS,
+      },
+    }),
+  );
+
+  // Reload the session user on every request so blocked, deleted or re-roled accounts lose access immediately
+  app.use(async (req: Request, _res: Response, next: NextFunction) => {
+    const { userId, role } = req.session;
+    if (!userId || !role) return next();
+
+    try {
+      const user = await storage.getUser(userId);
+      if (!user || user.isBlocked || user.role !== role) {
+        return req.session.destroy(() => next());
+      }
+      req.currentUser = { ...toSafeUser(user), role: user.role as UserRole };
+      next();
+    } catch (error) {
+      next(error);
+    }
+  });
+}
+
+export function startSession(req: Request, user: User, role: UserRole): Promise<void> {
+  return new Promise((resolve, reject) => {
+    // New session id on login to prevent session fixation
+    req.session.regenerate((err) => {
+      if (err) return reject(err);
+      req.session.userId = user.id;
+      req.session.role = role;
+      req.session.save((saveErr) => (saveErr ? reject(saveErr) : resolve()));
+    });
+  });
+}
+
+export function endSession(req: Request): Promise<void> {
+  return new Promise((resolve, reject) => {
+    req.session.destroy((err) => (err ? reject(err) : resolve()));
+  });
+}
+
+export const requireAuth: RequestHandler = (req, res, next) => {
+  if (!req.currentUser) {
+    return res.status(401).json({ error: "Nao autenticado. Faca login novamente." });
+  }
+  next();
+};
+
+export function requireRole(...roles: UserRole[]): RequestHandler {
+  return (req, res, next) => {
+    if (!req.currentUser) {
+      return res.status(401).json({ error: "Nao autenticado. Faca login novamente." });
+    }
+    if (!roles.includes(req.currentUser.role)) {
+      return res.status(403).json({ error: "Acesso negado" });
+    }
+    next();
+  };
+}
+
+export const requireStaff = requireRole(...STAFF_ROLES);
+
+export function requirePermission(scope: PermissionScope): RequestHandler {
+  return (req, res, next) => {
+    if (!req.currentUser) {
+      return res.status(401).json({ error: "Nao autenticado. Faca login novamente." });
+    }
+    if (!hasPermission(req.currentUser, scope)) {
+      return res.status(403).json({ error: "Sem permissao para esta acao" });
+    }
+    next();
+  };
+}
+
+export function isStaff(req: Request): boolean {
+  return !!req.currentUser && STAFF_ROLES.includes(req.currentUser.role);
+}
+
+// Customers may only touch their own records; staff may touch any
+export function canAccessUser(req: Request, userId: string): boolean {
+  if (!req.currentUser) return false;
+  return req.currentUser.id === userId || isStaff(req);
+}
@@ -0,0 +1,50 @@
+import { CASH_MOVEMENT_KINDS, type CashMovementKind } from "@shared/schema";
+
+export class CashRegisterError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CashRegisterError";
+  }
+}
+
+export interface CashMovementInput {
+  kind: CashMovementKind;
+  amount: number;
+  reason: string;
+}
+
+export interface CashClosingInput {
+  countedCash: number;
+  notes: string | null;
+}
+
+// Amounts of cash in reais; zero is fine for a float or a count, never for a movement
+function parseCashAmount(value: unknown, label: string, allowZero: boolean): number {
+  if (value === undefined || value === null || value === "") throw new CashRegisterError(`Informe ${label}`);
+  const amount = Math.round(Number(value) * 100) / 100;
+  if (!Number.isFinite(amount) || amount < 0 || (!allowZero && amount === 0) || amount > 1_000_000) {
+    throw new CashRegisterError(`Valor invalido para ${label}`);
+  }
+  return amount;
+}
+
+export function parseOpeningFloat(value: unknown): number {
+  return parseCashAmount(value, "o fundo de troco", true);
+}
+
+export function parseCashMovement(body: any): CashMovementInput {
+  const kind = body?.kind;
+  if (!(CASH_MOVEMENT_KINDS as readonly string[]).includes(kind)) {
+    throw new CashRegisterError("Tipo de movimentacao invalido");
+  }
+  const amount = parseCashAmount(body?.amount, "o valor", false);
+  const reason = typeof body?.reason === "string" ? body.reason.trim() : "";
+  if (!reason) throw new CashRegisterError("Informe o motivo da movimentacao");
+  return { kind, amount, reason: reason.slice(0, 500) };
+}
+
+export function parseCashClosing(body: any): CashClosingInput {
+  const countedCash = parseCashAmount(body?.countedCash, "o dinheiro contado", true);
+  const notes = typeof body?.notes === "string" ? body.notes.trim().slice(0, 1000) || null : null;
+  return { countedCash, notes };
+}
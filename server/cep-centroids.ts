@@ -0,0 +1,66 @@
+// Approximate centre [lat, lng] of Sao Paulo CEP areas, keyed by CEP prefix (2 to 5 digits).
+// Good to a couple of km, which is enough to price a delivery when no online geocoder is set.
+export const CEP_CENTROIDS: Record<string, [number, number]> = {
+  // Capital: centro
+  "010": [-23.5475, -46.6361],
+  "011": [-23.5389, -46.6408],
+  "012": [-23.5361, -46.6558],
+  "013": [-23.5580, -46.6480],
+  "014": [-23.5640, -46.6660],
+  "015": [-23.5720, -46.6400],
+  // Zona norte
+  "020": [-23.5020, -46.6250],
+  "021": [-23.5050, -46.5950],
+  "022": [-23.4750, -46.5900],
+  "023": [-23.4600, -46.6100],
+  "024": [-23.4900, -46.6400],
+  "025": [-23.4950, -46.6650],
+  "026": [-23.4750, -46.6850],
+  "027": [-23.4550, -46.6950],
+  "028": [-23.4650, -46.7200],
+  "029": [-23.4500, -46.7400],
+  // Zona leste
+  "030": [-23.5450, -46.6100],
+  "031": [-23.5500, -46.6000],
+  "032": [-23.5700, -46.5650],
+  "033": [-23.5450, -46.5700],
+  "034": [-23.5350, -46.5500],
+  "035": [-23.5500, -46.5250],
+  "036": [-23.5100, -46.5300],
+  "037": [-23.5200, -46.5100],
+  "038": [-23.5050, -46.4900],
+  "039": [-23.5800, -46.5100],
+  "080": [-23.5050, -46.4400],
+  "081": [-23.5300, -46.4500],
+  "082": [-23.5450, -46.4650],
+  "083": [-23.5900, -46.4700],
+  "084": [-23.5500, -46.4100],
+  // Zona sul
+  "040": [-23.5850, -46.6350],
+  "041": [-23.5950, -46.6350],
+  "042": [-23.6100, -46.6000],
+  "043": [-23.6350, -46.6450],
+  "044": [-23.6600, -46.6400],
+  "045": [-23.6000, -46.6750],
+  "046": [-23.6300, -46.6750],
+  "047": [-23.6500, -46.7050],
+  "048": [-23.7000, -46.7000],
+  "049": [-23.7300, -46.6800],
+  // Zona oeste
+  "050": [-23.5300, -46.6800],
+  "051": [-23.5150, -46.7100],
+  "052": [-23.5000, -46.7300],
+  "053": [-23.5400, -46.7500],
+  "054": [-23.5650, -46.6900],
+  "055": [-23.5800, -46.7250],
+  "056": [-23.6100, -46.7400],
+  "057": [-23.6350, -46.7500],
+  "058": [-23.6700, -46.7600],
+  // Grande Sao Paulo
+  "060": [-23.5330, -46.7920],
+  "064": [-23.5050, -46.8750],
+  "070": [-23.4620, -46.5330],
+  "090": [-23.6640, -46.5380],
+  "097": [-23.6940, -46.5650],
+  "09": [-23.6700, -46.5500],
+};
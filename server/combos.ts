@@ -0,0 +1,115 @@
+import { COMBO_DISCOUNT_TYPES } from "@shared/schema";
+import type { ComboActivePeriod, ComboSlot, InsertComboTemplate } from "@shared/schema";
+import { parseTimeOfDay } from "@shared/store-clock";
+
+export class ComboTemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ComboTemplateError";
+  }
+}
+
+function parseSlot(raw: any, index: number): ComboSlot {
+  const label = typeof raw?.label === "string" ? raw.label.trim() : "";
+  if (!label) throw new ComboTemplateError(`Etapa ${index + 1} sem nome`);
+
+  if (raw.source !== "category" && raw.source !== "product") {
+    throw new ComboTemplateError(`Etapa "${label}": escolha categorias ou produtos`);
+  }
+  const ids = Array.isArray(raw.ids) ? raw.ids.filter((id: unknown): id is string => typeof id === "string") : [];
+  if (ids.length === 0) {
+    throw new ComboTemplateError(`Etapa "${label}": selecione ao menos uma opcao`);
+  }
+
+  const minQuantity = Number(raw.minQuantity);
+  const maxQuantity = Number(raw.maxQuantity);
+  if (!Number.isInteger(minQuantity) || !Number.isInteger(maxQuantity) || minQuantity < 0 || maxQuantity < 1 || minQuantity > maxQuantity) {
+    throw new ComboTemplateError(`Etapa "${label}": quantidade minima/maxima invalida`);
+  }
+
+  return {
+    id: typeof raw.id === "string" && raw.id ? raw.id : `slot-${index + 1}`,
+    label,
+    source: raw.source,
+    ids,
+    comboEligibleOnly: raw.comboEligibleOnly === true,
+    minQuantity,
+    maxQuantity,
+  };
+}
+
+function parsePeriod(raw: any): ComboActivePeriod {
+  const days = Array.isArray(raw?.days)
+    ? Array.from(new Set<number>(raw.days.map(Number).filter((d: number) => Number.isInteger(d) && d >= 0 && d <= 6)))
+    : [];
+  if (days.length === 0) throw new ComboTemplateError("Periodo sem dias da semana");
+
+  const start = String(raw.start ?? "");
+  const end = String(raw.end ?? "");
+  if (parseTimeOfDay(start) === null || parseTimeOfDay(end) === null || start === end) {
+    throw new ComboTemplateError("Horario do periodo invalido (use HH:MM)");
+  }
+  return { days: days.sort(), start, end };
+}
+
+function parseDate(value: unknown, label: string): Date | null {
+  if (value === null || value === "") return null;
+  const date = new Date(value as string);
+  if (Number.isNaN(date.getTime())) throw new ComboTemplateError(`Data de ${label} invalida`);
+  return date;
+}
+
+// Validates an admin payload; with `partial` only the fields present are checked and returned
+export function parseComboTemplateInput(body: any, partial = false): Partial<InsertComboTemplate> {
+  const data: Partial<InsertComboTemplate> = {};
+
+  if (!partial || body.name !== undefined) {
+    const name = typeof body.name === "string" ? body.name.trim() : "";
+    if (!name) throw new ComboTemplateError("Nome do combo obrigatorio");
+    data.name = name;
+  }
+  if (body.description !== undefined) {
+    data.description = typeof body.description === "string" && body.description.trim() ? body.description.trim() : null;
+  }
+
+  if (!partial || body.slots !== undefined) {
+    if (!Array.isArray(body.slots) || body.slots.length === 0) {
+      throw new ComboTemplateError("O combo precisa de ao menos uma etapa");
+    }
+    const slots = body.slots.map(parseSlot);
+    if (new Set(slots.map((slot: ComboSlot) => slot.id)).size !== slots.length) {
+      throw new ComboTemplateError("Etapas com identificador repetido");
+    }
+    if (slots.every((slot: ComboSlot) => slot.minQuantity === 0)) {
+      throw new ComboTemplateError("Ao menos uma etapa deve ser obrigatoria");
+    }
+    data.slots = slots;
+  }
+
+  if (!partial || body.discountType !== undefined || body.discountValue !== undefined) {
+    if (!(COMBO_DISCOUNT_TYPES as readonly unknown[]).includes(body.discountType)) {
+      throw new ComboTemplateError("Tipo de desconto invalido");
+    }
+    const value = Number(body.discountValue);
+    if (!Number.isFinite(value) || value < 0 || (body.discountType === "percent" && value > 100)) {
+      throw new ComboTemplateError("Valor de desconto invalido");
+    }
+    data.discountType = body.discountType;
+    data.discountValue = value.toFixed(2);
+  }
+
+  if (body.activePeriods !== undefined) {
+    if (!Array.isArray(body.activePeriods)) throw new ComboTemplateError("Periodos invalidos");
+    data.activePeriods = body.activePeriods.map(parsePeriod);
+  }
+  if (body.startsAt !== undefined) data.startsAt = parseDate(body.startsAt, "inicio");
+  if (body.endsAt !== undefined) data.endsAt = parseDate(body.endsAt, "fim");
+  if (data.startsAt && data.endsAt && data.startsAt >= data.endsAt) {
+    throw new ComboTemplateError("A data de fim deve ser depois do inicio");
+  }
+
+  if (body.isActive !== undefined) data.isActive = body.isActive === true;
+  if (body.sortOrder !== undefined) data.sortOrder = Number(body.sortOrder) || 0;
+
+  return data;
+}
@@ -0,0 +1,116 @@
+import { storage } from "./storage";
+import { COUPON_TYPES } from "@shared/schema";
+import type { Coupon, InsertCoupon } from "@shared/schema";
+import { CouponError, couponDiscountFor, type CouponOrder } from "@shared/coupons";
+
+export { CouponError };
+
+export function normalizeCouponCode(code: unknown): string {
+  return typeof code === "string" ? code.trim().toUpperCase() : "";
+}
+
+interface CouponContext extends CouponOrder {
+  orderType: string;
+  userId: string;
+}
+
+// Looks the code up and checks every rule; returns the coupon and the discount it gives
+export async function evaluateCoupon(code: string, context: CouponContext): Promise<{ coupon: Coupon; discount: number }> {
+  const coupon = await storage.getCouponByCode(code);
+  if (!coupon || !coupon.isActive) throw new CouponError("Cupom invalido");
+
+  const now = new Date();
+  if (coupon.startsAt && coupon.startsAt > now) throw new CouponError("Este cupom ainda nao esta valendo");
+  if (coupon.endsAt && coupon.endsAt <= now) throw new CouponError("Este cupom expirou");
+
+  if (coupon.maxUses !== null && await storage.countCouponRedemptions(coupon.id) >= coupon.maxUses) {
+    throw new CouponError("Este cupom esgotou");
+  }
+
+  // At the counter the logged-in user is the operator, not the customer
+  const isCounter = context.orderType === "counter";
+  if (coupon.firstOrderOnly) {
+    if (isCounter) throw new CouponError("Cupom de primeira compra so vale no app");
+    if (await storage.countActiveOrdersByUser(context.userId) > 0) {
+      throw new CouponError("Cupom valido apenas na primeira compra");
+    }
+  }
+  if (!isCounter && coupon.maxUsesPerCustomer !== null
+    && await storage.countCouponRedemptions(coupon.id, context.userId) >= coupon.maxUsesPerCustomer) {
+    throw new CouponError("Voce ja usou este cupom");
+  }
+
+  return { coupon, discount: couponDiscountFor(coupon, context) };
+}
+
+function parseDate(value: unknown, label: string): Date | null {
+  if (value === null || value === "") return null;
+  const date = new Date(value as string);
+  if (Number.isNaN(date.getTime())) throw new CouponError(`Data de ${label} invalida`);
+  return date;
+}
+
+function parseLimit(value: unknown, label: string): number | null {
+  if (value === null || value === "") return null;
+  const limit = Number(value);
+  if (!Number.isInteger(limit) || limit < 1) throw new CouponError(`Limite de ${label} invalido`);
+  return limit;
+}
+
+function parseIds(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((id): id is string => typeof id === "string") : [];
+}
+
+// Validates an admin payload; with `partial` only the fields present are checked and returned
+export function parseCouponInput(body: any, partial = false): Partial<InsertCoupon> {
+  const data: Partial<InsertCoupon> = {};
+
+  if (!partial || body.code !== undefined) {
+    const code = normalizeCouponCode(body.code);
+    if (!/^[A-Z0-9_-]{3,30}$/.test(code)) {
+      throw new CouponError("Codigo deve ter de 3 a 30 letras, numeros, - ou _");
+    }
+    data.code = code;
+  }
+  if (body.description !== undefined) {
+    data.description = typeof body.description === "string" && body.description.trim() ? body.description.trim() : null;
+  }
+
+  if (!partial || body.type !== undefined || body.value !== undefined) {
+    if (!(COUPON_TYPES as readonly unknown[]).includes(body.type)) {
+      throw new CouponError("Tipo de cupom invalido");
+    }
+    const value = body.type === "free_delivery" ? 0 : Number(body.value);
+    if (!Number.isFinite(value) || (body.type !== "free_delivery" && value <= 0) || (body.type === "percent" && value > 100)) {
+      throw new CouponError("Valor do cupom invalido");
+    }
+    data.type = body.type;
+    data.value = value.toFixed(2);
+  }
+
+  if (body.minSubtotal !== undefined) {
+    if (body.minSubtotal === null || body.minSubtotal === "") {
+      data.minSubtotal = null;
+    } else {
+      const minSubtotal = Number(body.minSubtotal);
+      if (!Number.isFinite(minSubtotal) || minSubtotal < 0) throw new CouponError("Pedido minimo invalido");
+      data.minSubtotal = minSubtotal.toFixed(2);
+    }
+  }
+  if (body.categoryIds !== undefined) data.categoryIds = parseIds(body.categoryIds);
+  if (body.productIds !== undefined) data.productIds = parseIds(body.productIds);
+
+  if (body.maxUses !== undefined) data.maxUses = parseLimit(body.maxUses, "usos");
+  if (body.maxUsesPerCustomer !== undefined) data.maxUsesPerCustomer = parseLimit(body.maxUsesPerCustomer, "usos por cliente");
+  if (body.firstOrderOnly !== undefined) data.firstOrderOnly = body.firstOrderOnly === true;
+
+  if (body.startsAt !== undefined) data.startsAt = parseDate(body.startsAt, "inicio");
+  if (body.endsAt !== undefined) data.endsAt = parseDate(body.endsAt, "fim");
+  if (data.startsAt && data.endsAt && data.startsAt >= data.endsAt) {
+    throw new CouponError("A data de fim deve ser depois do inicio");
+  }
+
+  if (body.isActive !== undefined) data.isActive = body.isActive === true;
+
+  return data;
+}
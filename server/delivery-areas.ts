@@ -0,0 +1,42 @@
+import type { CepRange } from "@shared/schema";
+import { cepDigits, normalizeNeighborhood } from "@shared/delivery-zones";
+
+export class DeliveryAreaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DeliveryAreaError";
+  }
+}
+
+function parseCepRange(raw: any): CepRange {
+  const from = cepDigits(typeof raw?.from === "string" ? raw.from : "");
+  const to = cepDigits(typeof raw?.to === "string" && raw.to.trim() ? raw.to : from);
+  if (from.length < 2 || from.length > 8 || to.length !== from.length) {
+    throw new DeliveryAreaError("Faixa de CEP invalida: use o mesmo numero de digitos (2 a 8) no inicio e no fim");
+  }
+  if (from > to) {
+    throw new DeliveryAreaError(`Faixa de CEP invalida: ${from} e maior que ${to}`);
+  }
+  return { from, to };
+}
+
+export function parseCepRangesInput(body: unknown): CepRange[] {
+  if (!Array.isArray(body)) throw new DeliveryAreaError("Faixas de CEP invalidas");
+  return body.map(parseCepRange).sort((a, b) => a.from.localeCompare(b.from));
+}
+
+// Drops blanks and spellings that normalize to the name or to each other
+export function parseAliasesInput(body: unknown, name: string): string[] {
+  if (!Array.isArray(body)) throw new DeliveryAreaError("Apelidos invalidos");
+  const seen = new Set([normalizeNeighborhood(name)]);
+  const aliases: string[] = [];
+  for (const raw of body) {
+    if (typeof raw !== "string") throw new DeliveryAreaError("Apelidos invalidos");
+    const alias = raw.trim();
+    const normalized = normalizeNeighborhood(alias);
+    if (!normalized || seen.has(normalized)) continue;
+    seen.add(normalized);
+    aliases.push(alias);
+  }
+  return aliases;
+}
@@ -0,0 +1,62 @@
+// The delivery zones the store launched with. Only used to fill empty zone tables;
+// after that the admin panel owns zones and neighborhoods.
+export const SEED_DELIVERY_ZONES = [
+  { code: "S", name: "Super Local", description: "Vila da Saude e arredores imediatos", fee: "4.00" },
+  { code: "A", name: "Muito Proximo", description: "Bairros imediatamente ao redor", fee: "7.00" },
+  { code: "B", name: "Proximo", description: "Raio aproximado 2-4 km", fee: "10.00" },
+  { code: "C", name: "Medio", description: "Raio aproximado 4-6 km", fee: "15.00" },
+  { code: "D", name: "Distante", description: "Regioes de maior alcance", fee: "20.00" },
+];
+
+export const SEED_NEIGHBORHOODS: { name: string; zone: string }[] = [
+  // GRUPO S - SUPER LOCAL (R$ 4,00)
+  { name: "Vila da Saude", zone: "S" },
+
+  // GRUPO A - MUITO PROXIMO (R$ 7,00)
+  { name: "Saude", zone: "A" },
+  { name: "Bosque da Saude", zone: "A" },
+  { name: "Mirandopolis", zone: "A" },
+  { name: "Vila Clementino", zone: "A" },
+  { name: "Chacara Inglesa", zone: "A" },
+  { name: "Planalto Paulista", zone: "A" },
+  { name: "Vila Monte Alegre", zone: "A" },
+  { name: "Vila Guarani", zone: "A" },
+  { name: "Jardim Oriental", zone: "A" },
+  { name: "Vila Fachini", zone: "A" },
+
+  // GRUPO B - PROXIMO (R$ 10,00)
+  { name: "Vila Mariana", zone: "B" },
+  { name: "Chacara Klabin", zone: "B" },
+  { name: "Vila Gumercindo", zone: "B" },
+  { name: "Cursino", zone: "B" },
+  { name: "Sacoma", zone: "B" },
+  { name: "Jardim da Gloria", zone: "B" },
+  { name: "Jardim Previdencia", zone: "B" },
+  { name: "Vila Moraes", zone: "B" },
+  { name: "Ipiranga", zone: "B" },
+  { name: "Alto do Ipiranga", zone: "B" },
+
+  // GRUPO C - MEDIO (R$ 15,00)
+  { name: "Jabaquara", zone: "C" },
+  { name: "Cidade Vargas", zone: "C" },
+  { name: "Americanopolis", zone: "C" },
+  { name: "Vila Mascote", zone: "C" },
+  { name: "Campo Belo", zone: "C" },
+  { name: "Moema", zone: "C" },
+  { name: "Cambuci", zone: "C" },
+  { name: "Aclimacao", zone: "C" },
+  { name: "Liberdade", zone: "C" },
+  { name: "Vila Prudente", zone: "C" },
+
+  // GRUPO D - DISTANTE (R$ 20,00)
+  { name: "Brooklin", zone: "D" },
+  { name: "Santo Amaro", zone: "D" },
+  { name: "Bela Vista", zone: "D" },
+  { name: "Centro", zone: "D" },
+  { name: "Consolacao", zone: "D" },
+  { name: "Itaim Bibi", zone: "D" },
+  { name: "Vila Olimpia", zone: "D" },
+  { name: "Pinheiros", zone: "D" },
+  { name: "Tatuape", zone: "D" },
+  { name: "Mooca", zone: "D" },
+];
@@ -0,0 +1,134 @@
+// Turns delivery addresses into coordinates. The provider is chosen with GEOCODER;
+// "cep" (the default outside production) uses the offline CEP centroid table only.
+import type { Address } from "@shared/schema";
+import { CEP_CENTROIDS } from "./cep-centroids";
+
+export interface GeoPoint {
+  lat: number;
+  lng: number;
+}
+
+export type GeocodeQuery = Pick<Address, "street" | "number" | "neighborhood" | "city" | "state" | "zipCode">;
+
+export interface Geocoder {
+  readonly name: string;
+  geocode(query: GeocodeQuery): Promise<GeoPoint | null>;
+}
+
+// Centroid of the longest CEP prefix in the table; coarse, but needs no network
+export class CepCentroidGeocoder implements Geocoder {
+  readonly name = "cep";
+
+  constructor(private table: Record<string, [number, number]> = CEP_CENTROIDS) {}
+
+  async geocode(query: GeocodeQuery): Promise<GeoPoint | null> {
+    const cep = query.zipCode.replace(/\D/g, "");
+    if (cep.length !== 8) return null;
+    for (let length = 5; length >= 2; length--) {
+      const centroid = this.table[cep.slice(0, length)];
+      if (centroid) return { lat: centroid[0], lng: centroid[1] };
+    }
+    return null;
+  }
+}
+
+// OpenStreetMap's public geocoder; their usage policy asks for an identifying User-Agent.
+// Runs while the order is placed, so a slow answer is abandoned rather than holding up checkout.
+export class NominatimGeocoder implements Geocoder {
+  readonly name = "nominatim";
+
+  constructor(
+    private baseUrl = "https://nominatim.openstreetmap.org",
+    private userAgent = "vibedrinks-delivery",
+    private timeoutMs = 3000,
+  ) {}
+
+  async geocode(query: GeocodeQuery): Promise<GeoPoint | null> {
+    const params = new URLSearchParams({
+      format: "json",
+      limit: "1",
+      countrycodes: "br",
+      street: `${query.number} ${query.street}`,
+      city: query.city,
+      state: query.state,
+      postalcode: query.zipCode,
+    });
+    const response = await fetch(`${this.baseUrl}/search?${params}`, {
+      headers: { "User-Agent": this.userAgent },
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+    if (!response.ok) {
+      throw new Error(`Geocoder responded ${response.status}`);
+    }
+    const [result] = await response.json() as { lat: string; lon: string }[];
+    return result ? { lat: Number(result.lat), lng: Number(result.lon) } : null;
+  }
+}
+
+// First provider with an answer wins; a provider that fails or times out is skipped
+export class ChainGeocoder implements Geocoder {
+  readonly name: string;
+
+  constructor(private geocoders: Geocoder[]) {
+    this.name = geocoders.map(geocoder => geocoder.name).join("+");
+  }
+
+  async geocode(query: GeocodeQuery): Promise<GeoPoint | null> {
+    for (const geocoder of this.geocoders) {
+      try {
+        const point = await geocoder.geocode(query);
+        if (point) return point;
+      } catch (error) {
+        console.error(`Geocoder ${geocoder.name} failed:`, error);
+      }
+    }
+    return null;
+  }
+}
+
+function createGeocoder(): Geocoder {
+  const name = process.env.GEOCODER || (process.env.NODE_ENV === "production" ? "nominatim" : "cep");
+
+  if (name === "cep") return new CepCentroidGeocoder();
+  if (name === "nominatim") {
+    return new ChainGeocoder([new NominatimGeocoder(process.env.NOMINATIM_URL), new CepCentroidGeocoder()]);
+  }
+  throw new Error(`Unknown GEOCODER: ${name}`);
+}
+
+let geocoder: Geocoder | undefined;
+// Checkout re-prices on every cart change, so the same address is asked for over and over
+const cache = new Map<string, GeoPoint | null>();
+const CACHE_LIMIT = 500;
+
+export function getGeocoder(): Geocoder {
+  geocoder ??= createGeocoder();
+  return geocoder;
+}
+
+// For tests and scripts that need a fixed provider
+export function setGeocoder(next: Geocoder): void {
+  geocoder = next;
+  cache.clear();
+}
+
+export async function geocodeAddress(query: GeocodeQuery): Promise<GeoPoint | null> {
+  const key = [query.street, query.number, query.neighborhood, query.city, query.state, query.zipCode]
+    .map(part => part.trim().toLowerCase())
+    .join("|");
+  if (cache.has(key)) return cache.get(key)!;
+
+  const point = await getGeocoder().geocode(query);
+  if (cache.size >= CACHE_LIMIT) cache.delete(cache.keys().next().value!);
+  cache.set(key, point);
+  return point;
+}
+
+// Straight-line distance in km
+export function haversineKm(from: GeoPoint, to: GeoPoint): number {
+  const toRadians = (degrees: number) => degrees * Math.PI / 180;
+  const dLat = toRadians(to.lat - from.lat);
+  const dLng = toRadians(to.lng - from.lng);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLng / 2) ** 2;
+  return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
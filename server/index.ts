@@ -1,6 +1,8 @@
 import express, { type Request, Response, NextFunction } from "express";
 import cors from "cors";
 import { registerRoutes } from "./routes";
+import { setupSession } from "./auth";
+import { getMessageProvider } from "./messaging";
 import { serveStatic } from "./static";
 import { createServer } from "http";
 
@@ -12,7 +14,7 @@ app.use(
     origin: true,
     credentials: true,
     methods: ["GET", "POST", "PUT", "DELETE", "PATCH", "OPTIONS"],
-    allowedHeaders: ["Content-Type", "Authorization", "X-User-Id"],
+    allowedHeaders: ["Content-Type", "Authorization"],
   }),
 );
 
@@ -32,6 +34,10 @@ app.use(
 
 app.use(express.urlencoded({ extended: false }));
 
+setupSession(app);
+// Resolve the WhatsApp provider now so a missing gateway fails the boot, not the first verification code
+getMessageProvider();
+
 export function log(message: string, source = "express") {
   const formattedTime = new Date().toLocaleTimeString("en-US", {
     hour: "numeric",
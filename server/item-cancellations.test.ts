@@ -0,0 +1,131 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { repriceAfterRemoval, type PricedLine, type RepricingRules } from "./item-cancellations";
+import type { ComboTemplate, Coupon } from "@shared/schema";
+
+function line(productId: string, quantity: number, totalPrice: number, combo?: { id: string; slot: string }): PricedLine {
+  return {
+    productId,
+    quantity,
+    totalPrice,
+    comboId: combo?.id ?? null,
+    comboTemplateId: combo ? "template-1" : null,
+    comboSlotId: combo?.slot ?? null,
+  };
+}
+
+function coupon(overrides: Partial<Coupon>): Coupon {
+  return { id: "coupon-1", code: "VIBE", type: "percent", value: "10.00", minSubtotal: null, categoryIds: [], productIds: [], ...overrides } as Coupon;
+}
+
+const noRules: RepricingRules = { combos: new Map(), coupon: null, products: new Map() };
+
+const withCoupon = (applied: Coupon, discount: number): RepricingRules => ({ ...noRules, coupon: { coupon: applied, discount } });
+
+test("removing units takes their share of the line off the subtotal and refunds the overpayment", () => {
+  const before = [line("gin", 2, 60), line("tonica", 1, 20)];
+  const after = [line("gin", 1, 30), line("tonica", 1, 20)];
+
+  const pricing = repriceAfterRemoval({ discount: 0, deliveryFee: 5 }, before, after, noRules, 85);
+
+  assert.deepEqual(pricing, { subtotal: 50, comboDiscount: 0, couponDiscount: 0, discount: 0, total: 55, couponApplies: false, refund: 30 });
+});
+
+test("a percent coupon is worked out again on what is left", () => {
+  const before = [line("gin", 1, 60), line("vodka", 1, 40)];
+  const after = [line("gin", 1, 60)];
+
+  const pricing = repriceAfterRemoval({ discount: 10, deliveryFee: 5 }, before, after, withCoupon(coupon({}), 10), 95);
+
+  assert.equal(pricing.couponDiscount, 6);
+  assert.equal(pricing.discount, 6);
+  assert.equal(pricing.total, 59);
+  assert.equal(pricing.refund, 36);
+});
+
+test("a fixed coupon keeps its full value while the order still qualifies", () => {
+  const fixed = coupon({ type: "fixed", value: "15.00", minSubtotal: "50.00" });
+  const before = [line("gin", 1, 50), line("vodka", 1, 30)];
+
+  const pricing = repriceAfterRemoval({ discount: 15, deliveryFee: 0 }, before, [line("gin", 1, 50)], withCoupon(fixed, 15), 65);
+
+  assert.equal(pricing.couponApplies, true);
+  assert.equal(pricing.couponDiscount, 15);
+  assert.equal(pricing.total, 35);
+  assert.equal(pricing.refund, 30);
+});
+
+test("a coupon whose minimum is no longer met is dropped", () => {
+  const fixed = coupon({ type: "fixed", value: "15.00", minSubtotal: "50.00" });
+  const before = [line("gin", 1, 50), line("vodka", 1, 30)];
+
+  const pricing = repriceAfterRemoval({ discount: 15, deliveryFee: 0 }, before, [line("vodka", 1, 30)], withCoupon(fixed, 15), 65);
+
+  assert.equal(pricing.couponApplies, false);
+  assert.equal(pricing.couponDiscount, 0);
+  assert.equal(pricing.discount, 0);
+  assert.equal(pricing.total, 30);
+  assert.equal(pricing.refund, 35);
+});
+
+test("free delivery stays free while the coupon still qualifies", () => {
+  const freeDelivery = coupon({ type: "free_delivery", value: "0.00" });
+  const before = [line("gin", 1, 50), line("gelo", 1, 10)];
+
+  const pricing = repriceAfterRemoval({ discount: 8, deliveryFee: 8 }, before, [line("gin", 1, 50)], withCoupon(freeDelivery, 8), 60);
+
+  assert.equal(pricing.couponDiscount, 8);
+  assert.equal(pricing.total, 50);
+  assert.equal(pricing.refund, 10);
+});
+
+const combo: Pick<ComboTemplate, "slots" | "discountType" | "discountValue"> = {
+  discountType: "percent",
+  discountValue: "10.00",
+  slots: [
+    { id: "spirit", label: "Destilado", source: "category", ids: [], comboEligibleOnly: false, minQuantity: 1, maxQuantity: 1 },
+    { id: "energy", label: "Energetico", source: "category", ids: [], comboEligibleOnly: false, minQuantity: 2, maxQuantity: 2 },
+  ],
+};
+const comboRules: RepricingRules = { ...noRules, combos: new Map([["template-1", combo]]) };
+const comboOrder = [
+  line("vodka", 1, 100, { id: "c1", slot: "spirit" }),
+  line("energetico", 2, 20, { id: "c1", slot: "energy" }),
+  line("gelo", 1, 10),
+];
+
+test("a combo that still has every step keeps its discount", () => {
+  const after = comboOrder.slice(0, 2);
+
+  const pricing = repriceAfterRemoval({ discount: 12, deliveryFee: 0 }, comboOrder, after, comboRules, 118);
+
+  assert.equal(pricing.comboDiscount, 12);
+  assert.equal(pricing.total, 108);
+  assert.equal(pricing.refund, 10);
+});
+
+test("a combo left short of a step loses its discount", () => {
+  const after = [comboOrder[0], line("energetico", 1, 10, { id: "c1", slot: "energy" }), comboOrder[2]];
+
+  const pricing = repriceAfterRemoval({ discount: 12, deliveryFee: 0 }, comboOrder, after, comboRules, 118);
+
+  assert.equal(pricing.comboDiscount, 0);
+  assert.equal(pricing.discount, 0);
+  assert.equal(pricing.subtotal, 120);
+  assert.equal(pricing.total, 120);
+  assert.equal(pricing.refund, 0);
+});
+
+test("the counter's manual discount stays as given, never above the subtotal", () => {
+  const before = [line("gin", 1, 30), line("vodka", 1, 20)];
+
+  const kept = repriceAfterRemoval({ discount: 5, deliveryFee: 0 }, before, [line("gin", 1, 30)], noRules, 45);
+  assert.equal(kept.discount, 5);
+  assert.equal(kept.total, 25);
+  assert.equal(kept.refund, 20);
+
+  const capped = repriceAfterRemoval({ discount: 25, deliveryFee: 0 }, before, [line("vodka", 1, 20)], noRules, 25);
+  assert.equal(capped.discount, 20);
+  assert.equal(capped.total, 0);
+  assert.equal(capped.refund, 25);
+});
@@ -0,0 +1,141 @@
+import type { ItemCancellationLine } from "./storage";
+import { comboDiscountAmount } from "@shared/combos";
+import { CouponError, couponDiscountFor } from "@shared/coupons";
+import type { ComboTemplate, Coupon, Product } from "@shared/schema";
+
+export class ItemCancellationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ItemCancellationError";
+  }
+}
+
+export interface ItemCancellationInput {
+  lines: ItemCancellationLine[];
+  reason: string;
+}
+
+const MAX_CANCELLATION_LINES = 50;
+
+// Which items (and how many of each) come off the order; whether they exist is checked under lock
+export function parseItemCancellation(body: any): ItemCancellationInput {
+  const raw = body?.items;
+  if (!Array.isArray(raw) || raw.length === 0) throw new ItemCancellationError("Selecione ao menos um item");
+  if (raw.length > MAX_CANCELLATION_LINES) throw new ItemCancellationError("Itens demais em uma alteracao");
+
+  const lines = raw.map(entry => {
+    const orderItemId = entry?.orderItemId;
+    if (typeof orderItemId !== "string" || !orderItemId) throw new ItemCancellationError("Item invalido");
+    const quantity = Number(entry?.quantity);
+    if (!Number.isInteger(quantity) || quantity <= 0) throw new ItemCancellationError("Quantidade invalida");
+    return { orderItemId, quantity };
+  });
+
+  const reason = typeof body?.reason === "string" ? body.reason.trim() : "";
+  if (!reason) throw new ItemCancellationError("Informe o motivo da remocao");
+  return { lines, reason: reason.slice(0, 500) };
+}
+
+// An order item as repricing sees it, before or after the removal
+export interface PricedLine {
+  productId: string;
+  quantity: number;
+  totalPrice: number;
+  comboId: string | null;
+  comboTemplateId: string | null;
+  comboSlotId: string | null;
+}
+
+export interface RepricingRules {
+  combos: Map<string, Pick<ComboTemplate, "slots" | "discountType" | "discountValue">>;
+  // The order's coupon and what its redemption took; null without one
+  coupon: { coupon: Coupon; discount: number } | null;
+  products: Map<string, Pick<Product, "categoryId">>;
+}
+
+export interface ItemRemovalPricing {
+  subtotal: number;
+  comboDiscount: number;
+  couponDiscount: number;
+  // Combos, manual discount and coupon together, as the order stores it
+  discount: number;
+  total: number;
+  // False once the remaining items no longer meet the coupon's rules
+  couponApplies: boolean;
+  // Paid above the new total, to be given back
+  refund: number;
+}
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function sumLines(lines: PricedLine[]): number {
+  return roundMoney(lines.reduce((sum, line) => sum + line.totalPrice, 0));
+}
+
+// A combo keeps its discount only while every step still has its minimum
+function comboDiscountOf(lines: PricedLine[], combos: RepricingRules["combos"]): number {
+  const byCombo = new Map<string, PricedLine[]>();
+  for (const line of lines) {
+    if (!line.comboId || !line.comboTemplateId) continue;
+    byCombo.set(line.comboId, [...(byCombo.get(line.comboId) ?? []), line]);
+  }
+  let discount = 0;
+  for (const comboLines of Array.from(byCombo.values())) {
+    const template = combos.get(comboLines[0].comboTemplateId!);
+    if (!template) continue;
+    const complete = template.slots.every(slot =>
+      comboLines.filter(line => line.comboSlotId === slot.id).reduce((sum, line) => sum + line.quantity, 0) >= slot.minQuantity);
+    if (complete) discount += comboDiscountAmount(template, sumLines(comboLines));
+  }
+  return roundMoney(discount);
+}
+
+// Prices what is left of an order with the rules it was sold under: combos that lost a step
+// drop their discount, the coupon is re-applied to the remaining items (or dropped when they
+// no longer qualify) and never grows. What combos and coupon don't explain, the counter's
+// manual discount or an order from before combos were kept on items, stays as it was.
+export function repriceAfterRemoval(
+  order: { discount: number; deliveryFee: number },
+  before: PricedLine[],
+  after: PricedLine[],
+  rules: RepricingRules,
+  paid: number,
+): ItemRemovalPricing {
+  const previousCouponDiscount = rules.coupon?.discount ?? 0;
+  const fixedDiscount = Math.max(0, roundMoney(order.discount - comboDiscountOf(before, rules.combos) - previousCouponDiscount));
+
+  const subtotal = sumLines(after);
+  const comboDiscount = comboDiscountOf(after, rules.combos);
+  const discount = roundMoney(Math.min(subtotal, comboDiscount + fixedDiscount));
+
+  let couponDiscount = 0;
+  let couponApplies = false;
+  if (rules.coupon) {
+    try {
+      const value = couponDiscountFor(rules.coupon.coupon, {
+        items: after.map(line => ({ productId: line.productId, comboId: line.comboId ?? undefined, totalPrice: line.totalPrice })),
+        products: rules.products,
+        subtotal,
+        comboDiscount,
+        deliveryFee: order.deliveryFee,
+      });
+      couponDiscount = roundMoney(Math.min(value, previousCouponDiscount, subtotal - discount + order.deliveryFee));
+      couponApplies = true;
+    } catch (error) {
+      if (!(error instanceof CouponError)) throw error;
+    }
+  }
+
+  const total = Math.max(0, roundMoney(subtotal - discount - couponDiscount + order.deliveryFee));
+  return {
+    subtotal,
+    comboDiscount,
+    couponDiscount,
+    discount: roundMoney(discount + couponDiscount),
+    total,
+    couponApplies,
+    refund: Math.max(0, roundMoney(paid - total)),
+  };
+}
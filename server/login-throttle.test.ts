@@ -0,0 +1,132 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { LoginThrottle, MemoryLoginAttemptStore, type LockEvent, type ThrottleKey } from "./login-throttle";
+
+const account: ThrottleKey = { scope: "account", identifier: "11999990000" };
+const ip: ThrottleKey = { scope: "ip", identifier: "10.0.0.1" };
+
+function setup(options: { freeAttempts?: number; maxFailures?: number } = {}) {
+  let now = 1_000_000;
+  const locks: LockEvent[] = [];
+  const store = new MemoryLoginAttemptStore();
+  const throttle = new LoginThrottle(store, {
+    account: { freeAttempts: options.freeAttempts ?? 2, maxFailures: options.maxFailures ?? 5 },
+    ip: { freeAttempts: 100, maxFailures: 100 },
+    baseDelayMs: 1000,
+    maxDelayMs: 8000,
+    lockoutMs: 60_000,
+    windowMs: 120_000,
+    now: () => now,
+  }, (event) => { locks.push(event); });
+  // Reads a record without changing it
+  const peek = (key: ThrottleKey) => store.update(`${key.scope}:${key.identifier}`, record => record);
+  return { throttle, locks, peek, advance: (ms: number) => { now += ms; } };
+}
+
+async function fail(throttle: LoginThrottle) {
+  const result = await throttle.reserve([account, ip]);
+  assert.ok(result.allowed);
+  await throttle.recordFailure(result.attempt);
+}
+
+test("free attempts pass without delay", async () => {
+  const { throttle } = setup();
+  await fail(throttle);
+  await fail(throttle);
+  const result = await throttle.reserve([account, ip]);
+  assert.equal(result.allowed, true);
+});
+
+test("failures past the free attempts delay the next one, growing each time", async () => {
+  const { throttle, advance } = setup();
+  await fail(throttle);
+  await fail(throttle);
+  await fail(throttle);
+
+  const delayed = await throttle.reserve([account, ip]);
+  assert.deepEqual(delayed, { allowed: false, locked: false, retryAfterMs: 1000 });
+
+  advance(1000);
+  await fail(throttle);
+  const longer = await throttle.reserve([account, ip]);
+  assert.equal(longer.allowed, false);
+  assert.equal(!longer.allowed && longer.retryAfterMs, 2000);
+});
+
+test("a parallel burst is held to the same attempts as sequential logins", async () => {
+  const { throttle } = setup();
+  const results = await Promise.all(Array.from({ length: 10 }, () => throttle.reserve([account, ip])));
+  // Two free attempts plus the one that sets the first delay
+  assert.equal(results.filter(result => result.allowed).length, 3);
+});
+
+test("reaching the limit locks the account and reports it once", async () => {
+  const { throttle, locks, advance } = setup({ freeAttempts: 5, maxFailures: 3 });
+  await fail(throttle);
+  await fail(throttle);
+  await fail(throttle);
+
+  const result = await throttle.reserve([account, ip]);
+  assert.deepEqual(result, { allowed: false, locked: true, retryAfterMs: 60_000 });
+  assert.equal(locks.length, 1);
+  assert.deepEqual(locks[0].key, account);
+  assert.equal(locks[0].failures, 3);
+
+  advance(60_000);
+  assert.equal((await throttle.reserve([account, ip])).allowed, true);
+});
+
+test("a successful login clears the account but gives the IP only its attempt back", async () => {
+  const { throttle, peek } = setup({ freeAttempts: 1 });
+  await fail(throttle);
+
+  const result = await throttle.reserve([account, ip]);
+  assert.ok(result.allowed);
+  await throttle.recordSuccess(result.attempt);
+
+  assert.equal(await peek(account), undefined);
+  assert.equal((await peek(ip))?.failures, 1);
+});
+
+test("a released attempt doesn't count", async () => {
+  const { throttle } = setup({ freeAttempts: 1 });
+  await fail(throttle);
+  for (let i = 0; i < 3; i++) {
+    const result = await throttle.reserve([account, ip]);
+    assert.ok(result.allowed);
+    await throttle.release(result.attempt);
+  }
+  assert.equal((await throttle.reserve([account, ip])).allowed, true);
+});
+
+test("a delayed key hands back what the other keys reserved", async () => {
+  const { throttle, peek } = setup();
+  await fail(throttle);
+  await fail(throttle);
+  await fail(throttle);
+  const fresh: ThrottleKey = { scope: "ip", identifier: "10.0.0.2" };
+
+  const blocked = await throttle.reserve([account, fresh]);
+  assert.equal(blocked.allowed, false);
+  assert.equal(await peek(fresh), undefined);
+  assert.equal((await peek(account))?.failures, 3);
+});
+
+test("failures age out after the window", async () => {
+  const { throttle, advance } = setup();
+  await fail(throttle);
+  await fail(throttle);
+  await fail(throttle);
+  advance(120_001);
+  assert.equal((await throttle.reserve([account, ip])).allowed, true);
+});
+
+test("an admin unlock lifts the lockout", async () => {
+  const { throttle } = setup({ freeAttempts: 5, maxFailures: 2 });
+  await fail(throttle);
+  await fail(throttle);
+  assert.equal((await throttle.reserve([account, ip])).allowed, false);
+
+  await throttle.unlock(account);
+  assert.equal((await throttle.reserve([account, ip])).allowed, true);
+});
@@ -0,0 +1,194 @@
+// Attempt counters for login endpoints. Failures are tracked per account
+// (WhatsApp number or staff username) and per client IP; each key earns a
+// growing delay between attempts and, past a threshold, a temporary lockout.
+
+export interface AttemptRecord {
+  failures: number;
+  lastFailureAt: number;
+  nextAttemptAt: number;
+  lockedUntil: number | null;
+}
+
+// Kept async so a shared store (e.g. Redis) can replace the in-process one.
+// `update` must read and write in one step: parallel logins rely on it to count every attempt.
+export interface LoginAttemptStore {
+  update(key: string, apply: (record: AttemptRecord | undefined) => AttemptRecord | undefined): Promise<AttemptRecord | undefined>;
+  delete(key: string): Promise<void>;
+}
+
+export class MemoryLoginAttemptStore implements LoginAttemptStore {
+  private records = new Map<string, AttemptRecord>();
+
+  async update(key: string, apply: (record: AttemptRecord | undefined) => AttemptRecord | undefined) {
+    const next = apply(this.records.get(key));
+    if (next) this.records.set(key, next);
+    else this.records.delete(key);
+    return next;
+  }
+
+  async delete(key: string) {
+    this.records.delete(key);
+  }
+}
+
+export type ThrottleScope = "account" | "ip";
+
+export interface ThrottleKey {
+  scope: ThrottleScope;
+  identifier: string;
+}
+
+interface ScopePolicy {
+  freeAttempts: number;
+  maxFailures: number;
+}
+
+export interface LoginThrottleOptions {
+  account: ScopePolicy;
+  ip: ScopePolicy;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  lockoutMs: number;
+  // Failures older than this no longer count
+  windowMs: number;
+  now: () => number;
+}
+
+export interface AttemptContext {
+  ip?: string;
+  route?: string;
+}
+
+export interface LockEvent {
+  key: ThrottleKey;
+  failures: number;
+  lockedUntil: Date;
+  context: AttemptContext;
+}
+
+// An attempt already counted as a failure; the caller settles it once the password is checked
+export interface ReservedAttempt {
+  keys: ThrottleKey[];
+  context: AttemptContext;
+  locks: LockEvent[];
+}
+
+export type ThrottleCheck =
+  | { allowed: true; attempt: ReservedAttempt }
+  | { allowed: false; locked: boolean; retryAfterMs: number };
+
+const DEFAULT_OPTIONS: LoginThrottleOptions = {
+  account: { freeAttempts: 3, maxFailures: 10 },
+  ip: { freeAttempts: 10, maxFailures: 30 },
+  baseDelayMs: 1000,
+  maxDelayMs: 60 * 1000,
+  lockoutMs: 15 * 60 * 1000,
+  windowMs: 15 * 60 * 1000,
+  now: () => Date.now(),
+};
+
+function storeKey(key: ThrottleKey): string {
+  return `${key.scope}:${key.identifier.toLowerCase()}`;
+}
+
+export class LoginThrottle {
+  private options: LoginThrottleOptions;
+
+  constructor(
+    private store: LoginAttemptStore = new MemoryLoginAttemptStore(),
+    options: Partial<LoginThrottleOptions> = {},
+    private onLock?: (event: LockEvent) => void | Promise<void>,
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  // Expired locks and stale failures read as no record
+  private current(record: AttemptRecord | undefined, now: number): AttemptRecord | undefined {
+    if (!record) return undefined;
+    const lockExpired = record.lockedUntil !== null && record.lockedUntil <= now;
+    const windowExpired = record.lockedUntil === null && now - record.lastFailureAt > this.options.windowMs;
+    return lockExpired || windowExpired ? undefined : record;
+  }
+
+  private penalized(scope: ThrottleScope, failures: number, at: number): AttemptRecord {
+    const policy = this.options[scope];
+    const extra = failures - policy.freeAttempts;
+    const delayMs = extra > 0
+      ? Math.min(this.options.baseDelayMs * 2 ** (extra - 1), this.options.maxDelayMs)
+      : 0;
+    return {
+      failures,
+      lastFailureAt: at,
+      nextAttemptAt: at + delayMs,
+      lockedUntil: failures >= policy.maxFailures ? at + this.options.lockoutMs : null,
+    };
+  }
+
+  // Counts the attempt as a failure before the password is compared, so a parallel burst
+  // meets the delay the first requests set instead of all reading the same old count
+  async reserve(keys: ThrottleKey[], context: AttemptContext = {}): Promise<ThrottleCheck> {
+    const now = this.options.now();
+    const attempt: ReservedAttempt = { keys: [], context, locks: [] };
+    let retryAfterMs = 0;
+    let locked = false;
+    for (const key of keys) {
+      let reserved = false;
+      const record = await this.store.update(storeKey(key), (stored) => {
+        const record = this.current(stored, now);
+        if (record?.lockedUntil != null) {
+          locked = true;
+          retryAfterMs = Math.max(retryAfterMs, record.lockedUntil - now);
+          return record;
+        }
+        if (record && record.nextAttemptAt > now) {
+          retryAfterMs = Math.max(retryAfterMs, record.nextAttemptAt - now);
+          return record;
+        }
+        reserved = true;
+        return this.penalized(key.scope, (record?.failures ?? 0) + 1, now);
+      });
+      if (!reserved || !record) continue;
+      attempt.keys.push(key);
+      if (record.lockedUntil !== null) {
+        attempt.locks.push({ key, failures: record.failures, lockedUntil: new Date(record.lockedUntil), context });
+      }
+    }
+
+    if (retryAfterMs > 0) {
+      await this.release(attempt);
+      return { allowed: false, locked, retryAfterMs };
+    }
+    return { allowed: true, attempt };
+  }
+
+  // The failure was already counted; only the lockouts it caused are left to report
+  async recordFailure(attempt: ReservedAttempt): Promise<void> {
+    if (!this.onLock) return;
+    for (const event of attempt.locks) await this.onLock(event);
+  }
+
+  // A successful login clears the account counter; the IP only gets this attempt back
+  async recordSuccess(attempt: ReservedAttempt): Promise<void> {
+    const [account, ...others] = attempt.keys;
+    if (account?.scope === "account") {
+      await this.store.delete(storeKey(account));
+      await this.release({ ...attempt, keys: others });
+    } else {
+      await this.release(attempt);
+    }
+  }
+
+  // Gives the attempt back when it never tested a password (blocked account, wrong login page)
+  async release(attempt: ReservedAttempt): Promise<void> {
+    for (const key of attempt.keys) {
+      await this.store.update(storeKey(key), (record) => {
+        if (!record || record.failures <= 1) return undefined;
+        return this.penalized(key.scope, record.failures - 1, record.lastFailureAt);
+      });
+    }
+  }
+
+  async unlock(key: ThrottleKey): Promise<void> {
+    await this.store.delete(storeKey(key));
+  }
+}
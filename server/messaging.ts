@@ -0,0 +1,57 @@
+// Outgoing WhatsApp messages. The provider is chosen with MESSAGE_PROVIDER;
+// "console" (the default outside production) only prints to the server log.
+
+export interface MessageProvider {
+  readonly name: string;
+  sendWhatsApp(to: string, text: string): Promise<void>;
+}
+
+export class ConsoleMessageProvider implements MessageProvider {
+  readonly name = "console";
+
+  async sendWhatsApp(to: string, text: string): Promise<void> {
+    console.log(`[whatsapp -> ${to}] ${text}`);
+  }
+}
+
+// Posts { to, text } as JSON to a gateway (Z-API, Twilio proxy, etc.)
+export class WebhookMessageProvider implements MessageProvider {
+  readonly name = "webhook";
+
+  constructor(private url: string, private token?: string) {}
+
+  async sendWhatsApp(to: string, text: string): Promise<void> {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (this.token) headers.Authorization = `Bearer ${this.token}`;
+
+    const response = await fetch(this.url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({ to: `55${to}`, text }),
+    });
+    if (!response.ok) {
+      throw new Error(`WhatsApp gateway responded ${response.status}`);
+    }
+  }
+}
+
+function createMessageProvider(): MessageProvider {
+  const name = process.env.MESSAGE_PROVIDER || (process.env.NODE_ENV === "production" ? "webhook" : "console");
+
+  if (name === "console") return new ConsoleMessageProvider();
+  if (name === "webhook") {
+    const url = process.env.WHATSAPP_WEBHOOK_URL;
+    if (!url) {
+      throw new Error("WHATSAPP_WEBHOOK_URL must be set to use the webhook message provider (the production default). Set MESSAGE_PROVIDER=console to only log messages.");
+    }
+    return new WebhookMessageProvider(url, process.env.WHATSAPP_WEBHOOK_TOKEN);
+  }
+  throw new Error(`Unknown MESSAGE_PROVIDER: ${name}`);
+}
+
+let provider: MessageProvider | undefined;
+
+export function getMessageProvider(): MessageProvider {
+  provider ??= createMessageProvider();
+  return provider;
+}
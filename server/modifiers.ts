@@ -0,0 +1,64 @@
+import type { InsertModifierGroup, ModifierOption } from "@shared/schema";
+
+export class ModifierGroupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ModifierGroupError";
+  }
+}
+
+function parseOption(raw: any, index: number): ModifierOption {
+  const name = typeof raw?.name === "string" ? raw.name.trim() : "";
+  if (!name) throw new ModifierGroupError(`Opcao ${index + 1} sem nome`);
+
+  const priceDelta = Number(raw.priceDelta ?? 0);
+  if (!Number.isFinite(priceDelta)) throw new ModifierGroupError(`Opcao "${name}": acrescimo invalido`);
+
+  return {
+    id: typeof raw.id === "string" && raw.id ? raw.id : `opt-${index + 1}`,
+    name,
+    priceDelta: Math.round(priceDelta * 100) / 100,
+  };
+}
+
+function parseIds(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((id): id is string => typeof id === "string") : [];
+}
+
+// Validates an admin payload; with `partial` only the fields present are checked and returned
+export function parseModifierGroupInput(body: any, partial = false): Partial<InsertModifierGroup> {
+  const data: Partial<InsertModifierGroup> = {};
+
+  if (!partial || body.name !== undefined) {
+    const name = typeof body.name === "string" ? body.name.trim() : "";
+    if (!name) throw new ModifierGroupError("Nome do grupo obrigatorio");
+    data.name = name;
+  }
+
+  if (!partial || body.options !== undefined) {
+    if (!Array.isArray(body.options) || body.options.length === 0) {
+      throw new ModifierGroupError("O grupo precisa de ao menos uma opcao");
+    }
+    const options = body.options.map(parseOption);
+    if (new Set(options.map((option: ModifierOption) => option.id)).size !== options.length) {
+      throw new ModifierGroupError("Opcoes com identificador repetido");
+    }
+    data.options = options;
+  }
+
+  if (body.categoryIds !== undefined) data.categoryIds = parseIds(body.categoryIds);
+  if (body.productIds !== undefined) data.productIds = parseIds(body.productIds);
+
+  if (body.maxSelections !== undefined) {
+    const maxSelections = Number(body.maxSelections);
+    if (!Number.isInteger(maxSelections) || maxSelections < 1) {
+      throw new ModifierGroupError("Maximo de escolhas invalido");
+    }
+    data.maxSelections = maxSelections;
+  }
+  if (body.isRequired !== undefined) data.isRequired = body.isRequired === true;
+  if (body.isActive !== undefined) data.isActive = body.isActive === true;
+  if (body.sortOrder !== undefined) data.sortOrder = Number(body.sortOrder) || 0;
+
+  return data;
+}
@@ -0,0 +1,58 @@
+import type { OpeningHours, OpeningHoursDay, OpeningHoursException } from "@shared/schema";
+import { parseTimeOfDay } from "@shared/store-clock";
+
+export class OpeningHoursError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OpeningHoursError";
+  }
+}
+
+function parseTime(value: unknown, label: string): string {
+  if (typeof value !== "string" || parseTimeOfDay(value) === null) {
+    throw new OpeningHoursError(`${label}: horario invalido, use HH:MM`);
+  }
+  return value;
+}
+
+function parseDay(raw: any): OpeningHoursDay {
+  const day = Number(raw?.day);
+  if (!Number.isInteger(day) || day < 0 || day > 6) throw new OpeningHoursError("Dia da semana invalido");
+  return { day, open: parseTime(raw.open, "Abertura"), close: parseTime(raw.close, "Fechamento") };
+}
+
+function parseException(raw: any): OpeningHoursException {
+  const date = typeof raw?.date === "string" ? raw.date : "";
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || Number.isNaN(new Date(`${date}T00:00:00Z`).getTime())) {
+    throw new OpeningHoursError("Data especial invalida");
+  }
+  const label = typeof raw.label === "string" && raw.label.trim() ? raw.label.trim() : undefined;
+  if (raw.closed === true) return { date, label, closed: true };
+  return {
+    date,
+    label,
+    closed: false,
+    open: parseTime(raw.open, `Abertura em ${date}`),
+    close: parseTime(raw.close, `Fechamento em ${date}`),
+  };
+}
+
+export function parseOpeningHoursInput(body: any): OpeningHours {
+  if (!body || !Array.isArray(body.weekly) || !Array.isArray(body.exceptions ?? [])) {
+    throw new OpeningHoursError("Horarios invalidos");
+  }
+
+  const weekly = body.weekly.map(parseDay);
+  if (new Set(weekly.map((entry: OpeningHoursDay) => entry.day)).size !== weekly.length) {
+    throw new OpeningHoursError("Dia da semana repetido");
+  }
+  const exceptions = (body.exceptions ?? []).map(parseException);
+  if (new Set(exceptions.map((entry: OpeningHoursException) => entry.date)).size !== exceptions.length) {
+    throw new OpeningHoursError("Data especial repetida");
+  }
+
+  return {
+    weekly: weekly.sort((a: OpeningHoursDay, b: OpeningHoursDay) => a.day - b.day),
+    exceptions: exceptions.sort((a: OpeningHoursException, b: OpeningHoursException) => a.date.localeCompare(b.date)),
+  };
+}
@@ -0,0 +1,98 @@
+import type { Response } from "express";
+
+// Server-sent order events. Every event is published to a set of channels
+// ("desk", "kitchen", "user:<id>", "motoboy:<id>") and only reaches the
+// subscribers listening on one of them. Events are numbered so a client that
+// reconnects can ask for what it missed since its last seen id. Ids carry the
+// process's boot epoch ("<epoch>-<seq>"), so one kept across a restart is
+// recognised as stale instead of being read as a position in the new sequence.
+
+export type OrderEventChannel = string;
+
+interface OrderEvent {
+  id: number;
+  event: string;
+  data: unknown;
+  channels: OrderEventChannel[];
+}
+
+interface Subscriber {
+  res: Response;
+  channels: Set<OrderEventChannel>;
+}
+
+const DEFAULT_HISTORY_SIZE = 500;
+
+function format(event: string, data: unknown, id?: string): string {
+  const idLine = id !== undefined ? `id: ${id}\n` : "";
+  return `${idLine}event: ${event}\ndata: ${JSON.stringify(data ?? {})}\n\n`;
+}
+
+export class OrderEventBus {
+  private nextId = 1;
+  private history: OrderEvent[] = [];
+  private subscribers = new Set<Subscriber>();
+
+  constructor(
+    private historySize = DEFAULT_HISTORY_SIZE,
+    private epoch = Date.now().toString(36),
+  ) {}
+
+  get lastEventId(): string {
+    return this.eventId(this.nextId - 1);
+  }
+
+  private eventId(sequence: number): string {
+    return `${this.epoch}-${sequence}`;
+  }
+
+  // The sequence number of an id from this process; undefined for another epoch or garbage
+  private sequenceOf(eventId: string): number | undefined {
+    const match = /^([0-9a-z]+)-(\d+)$/.exec(eventId);
+    return match && match[1] === this.epoch ? Number(match[2]) : undefined;
+  }
+
+  publish(event: string, data: unknown, channels: OrderEventChannel[]) {
+    const entry: OrderEvent = { id: this.nextId++, event, data, channels };
+    this.history.push(entry);
+    if (this.history.length > this.historySize) this.history.shift();
+
+    const message = format(event, data, this.eventId(entry.id));
+    this.subscribers.forEach(subscriber => {
+      if (!channels.some(channel => subscriber.channels.has(channel))) return;
+      try {
+        subscriber.res.write(message);
+      } catch (error) {
+        this.subscribers.delete(subscriber);
+      }
+    });
+  }
+
+  // Registers the response and replays missed events; returns the unsubscribe function
+  subscribe(res: Response, channels: OrderEventChannel[], lastEventId?: string): () => void {
+    const subscriber: Subscriber = { res, channels: new Set(channels) };
+
+    res.write(format("connected", { message: "Connected to order updates", lastEventId: this.lastEventId }));
+
+    if (lastEventId !== undefined) {
+      const seen = this.sequenceOf(lastEventId);
+      const current = this.nextId - 1;
+      const oldestKept = this.history[0]?.id ?? this.nextId;
+      if (seen === undefined || seen > current || seen + 1 < oldestKept) {
+        // From a previous server process, or too far behind: the client must refetch everything
+        res.write(format("resync", { lastEventId: this.lastEventId }, this.lastEventId));
+      } else {
+        for (const entry of this.history) {
+          if (entry.id <= seen) continue;
+          if (!entry.channels.some(channel => subscriber.channels.has(channel))) continue;
+          res.write(format(entry.event, entry.data, this.eventId(entry.id)));
+        }
+      }
+    }
+
+    this.subscribers.add(subscriber);
+    return () => {
+      this.subscribers.delete(subscriber);
+    };
+  }
+}
@@ -0,0 +1,34 @@
+import { TENDER_METHODS } from "@shared/schema";
+import { settlePaymentLines, type PaymentLine, type PaymentSettlement } from "@shared/payments";
+
+export class PaymentLineError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PaymentLineError";
+  }
+}
+
+const MAX_PAYMENT_LINES = 10;
+
+// The tenders of a counter sale, checked against the total the server priced
+export function parsePaymentLines(raw: unknown, total: number): PaymentSettlement {
+  if (!Array.isArray(raw) || raw.length === 0) throw new PaymentLineError("Informe ao menos uma forma de pagamento");
+  if (raw.length > MAX_PAYMENT_LINES) throw new PaymentLineError(`No maximo ${MAX_PAYMENT_LINES} formas de pagamento por venda`);
+
+  const lines: PaymentLine[] = raw.map(entry => {
+    const method = entry?.method;
+    if (!(TENDER_METHODS as readonly string[]).includes(method)) throw new PaymentLineError("Forma de pagamento invalida");
+    const amount = Math.round(Number(entry?.amount) * 100) / 100;
+    if (!Number.isFinite(amount) || amount <= 0) throw new PaymentLineError("Valor de pagamento invalido");
+    return { method, amount };
+  });
+
+  const settlement = settlePaymentLines(total, lines);
+  if (settlement.remaining > 0) {
+    throw new PaymentLineError(`Pagamento insuficiente: faltam R$ ${settlement.remaining.toFixed(2)}`);
+  }
+  if (settlement.overpaidByNonCash) {
+    throw new PaymentLineError("Cartao e PIX nao podem passar do total; troco so em dinheiro");
+  }
+  return settlement;
+}
@@ -0,0 +1,51 @@
+import { test, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { createHmac } from "node:crypto";
+import type { Request } from "express";
+import { PaymentWebhookError, mockPaymentProvider } from "./payment-providers";
+
+function webhook(body: Record<string, unknown>, headers: Record<string, string> = {}): Request {
+  return { body, headers, rawBody: Buffer.from(JSON.stringify(body)) } as unknown as Request;
+}
+
+function rejects(req: Request, status: number) {
+  assert.throws(() => mockPaymentProvider.parseWebhook(req), (error: unknown) =>
+    error instanceof PaymentWebhookError && error.status === status);
+}
+
+afterEach(() => {
+  delete process.env.MOCK_PAYMENT_WEBHOOK_SECRET;
+});
+
+test("a confirmed payment becomes a ledger notice", () => {
+  const notice = mockPaymentProvider.parseWebhook(webhook({ id: " evt-1 ", event: "payment.confirmed", txid: "VDABC", amount: "42.50", method: "pix" }));
+  assert.deepEqual(notice, { reference: "evt-1", kind: "payment", amount: 42.5, method: "pix", txid: "VDABC", orderId: undefined });
+});
+
+test("refunds and failures map to their entry kinds; unknown methods are left to the order", () => {
+  const refund = mockPaymentProvider.parseWebhook(webhook({ id: "evt-2", event: "payment.refunded", orderId: "order-1", amount: 10, method: "bitcoin" }));
+  assert.equal(refund.kind, "refund");
+  assert.equal(refund.method, undefined);
+  assert.equal(refund.orderId, "order-1");
+
+  const failure = mockPaymentProvider.parseWebhook(webhook({ id: "evt-3", event: "payment.failed", txid: "VDABC", amount: 0 }));
+  assert.equal(failure.kind, "failure");
+});
+
+test("malformed notices are rejected", () => {
+  rejects(webhook({ id: "evt-4", event: "payment.pending", txid: "VDABC", amount: 10 }), 400);
+  rejects(webhook({ event: "payment.confirmed", txid: "VDABC", amount: 10 }), 400);
+  rejects(webhook({ id: "evt-5", event: "payment.confirmed", txid: "VDABC", amount: 0 }), 400);
+  rejects(webhook({ id: "evt-6", event: "payment.confirmed", txid: "VDABC", amount: -5 }), 400);
+  rejects(webhook({ id: "evt-7", event: "payment.confirmed", amount: 10 }), 400);
+});
+
+test("with a secret set, only correctly signed bodies are accepted", () => {
+  process.env.MOCK_PAYMENT_WEBHOOK_SECRET = "shh";
+  const body = { id: "evt-8", event: "payment.confirmed", txid: "VDABC", amount: 10 };
+  const signature = createHmac("sha256", "shh").update(JSON.stringify(body)).digest("hex");
+
+  assert.equal(mockPaymentProvider.parseWebhook(webhook(body, { "x-mock-signature": signature })).reference, "evt-8");
+  rejects(webhook(body), 401);
+  rejects(webhook({ ...body, amount: 1000 }, { "x-mock-signature": signature }), 401);
+});
@@ -0,0 +1,87 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import type { Request } from "express";
+import type { PaymentEntryKind, PaymentMethod } from "@shared/schema";
+import { PAYMENT_METHOD_LABELS } from "@shared/schema";
+
+export class PaymentWebhookError extends Error {
+  constructor(message: string, public readonly status = 400) {
+    super(message);
+    this.name = "PaymentWebhookError";
+  }
+}
+
+// What a gateway told us, in our terms. The order is found by the PIX txid when
+// there is one, otherwise by our order id passed along as the gateway's metadata.
+export interface PaymentNotice {
+  // Gateway's event id; the same notice delivered twice is recorded once
+  reference: string;
+  kind: PaymentEntryKind;
+  amount: number;
+  method?: PaymentMethod;
+  txid?: string;
+  orderId?: string;
+}
+
+// One per gateway. parseWebhook authenticates the request (signature, token)
+// and translates its body; it throws PaymentWebhookError for anything it rejects.
+export interface PaymentProvider {
+  name: string;
+  isEnabled(): boolean;
+  parseWebhook(req: Request): PaymentNotice;
+}
+
+function rawBodyOf(req: Request): Buffer {
+  return Buffer.isBuffer(req.rawBody) ? req.rawBody : Buffer.from(JSON.stringify(req.body ?? {}));
+}
+
+const MOCK_EVENT_KINDS: Record<string, PaymentEntryKind> = {
+  "payment.confirmed": "payment",
+  "payment.refunded": "refund",
+  "payment.failed": "failure",
+};
+
+// Local stand-in for a real gateway, for testing the flow end to end:
+//   curl -X POST localhost:5000/api/payments/webhooks/mock -H 'Content-Type: application/json' \
+//     -d '{"id":"evt-1","event":"payment.confirmed","txid":"VD...","amount":42.5}'
+// With MOCK_PAYMENT_WEBHOOK_SECRET set, x-mock-signature must be the hex HMAC-SHA256 of the body.
+export const mockPaymentProvider: PaymentProvider = {
+  name: "mock",
+  isEnabled: () => process.env.NODE_ENV !== "production" || process.env.PAYMENT_MOCK_ENABLED === "true",
+  parseWebhook(req) {
+    const secret = process.env.MOCK_PAYMENT_WEBHOOK_SECRET;
+    if (secret) {
+      const expected = createHmac("sha256", secret).update(rawBodyOf(req)).digest();
+      const given = Buffer.from(String(req.headers["x-mock-signature"] ?? ""), "hex");
+      if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+        throw new PaymentWebhookError("Assinatura invalida", 401);
+      }
+    }
+
+    const body = req.body ?? {};
+    const kind = MOCK_EVENT_KINDS[body.event];
+    if (!kind) throw new PaymentWebhookError("Evento desconhecido");
+    if (typeof body.id !== "string" || !body.id.trim()) throw new PaymentWebhookError("Evento sem id");
+    const amount = Number(body.amount);
+    if (!Number.isFinite(amount) || amount < 0 || (kind !== "failure" && amount === 0)) {
+      throw new PaymentWebhookError("Valor invalido");
+    }
+    if (typeof body.txid !== "string" && typeof body.orderId !== "string") {
+      throw new PaymentWebhookError("Informe txid ou orderId");
+    }
+
+    return {
+      reference: body.id.trim(),
+      kind,
+      amount,
+      method: body.method in PAYMENT_METHOD_LABELS ? body.method : undefined,
+      txid: typeof body.txid === "string" ? body.txid : undefined,
+      orderId: typeof body.orderId === "string" ? body.orderId : undefined,
+    };
+  },
+};
+
+const PAYMENT_PROVIDERS: PaymentProvider[] = [mockPaymentProvider];
+
+export function paymentProvider(name: string): PaymentProvider | undefined {
+  return PAYMENT_PROVIDERS.find(provider => provider.name === name && provider.isEnabled());
+}
@@ -0,0 +1,76 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { PixError, buildPixPayload, crc16, normalizePixKey } from "./pix";
+
+// Splits an EMV payload into its fields, checking each declared length against what follows
+function readFields(payload: string): Map<string, string> {
+  const fields = new Map<string, string>();
+  let position = 0;
+  while (position < payload.length) {
+    const id = payload.slice(position, position + 2);
+    const length = Number(payload.slice(position + 2, position + 4));
+    const value = payload.slice(position + 4, position + 4 + length);
+    assert.equal(value.length, length, `field ${id} is shorter than its declared length`);
+    fields.set(id, value);
+    position += 4 + length;
+  }
+  assert.equal(position, payload.length);
+  return fields;
+}
+
+test("crc16 matches the BR Code manual example", () => {
+  const example = "00020126580014br.gov.bcb.pix0136123e4567-e12b-12d1-a456-426655440000"
+    + "5204000053039865802BR5913Fulano de Tal6008BRASILIA62070503***6304";
+  assert.equal(crc16(example), "1D3D");
+  // The CRC-16/CCITT-FALSE check value
+  assert.equal(crc16("123456789"), "29B1");
+});
+
+test("payload fields declare their real length, with accents and long names cut to size", () => {
+  const payload = buildPixPayload({
+    key: "loja@vibedrinks.com.br",
+    amount: 57.9,
+    merchantName: "Adega São João dos Drinks Especiais Ltda",
+    merchantCity: "São José dos Campos",
+    txid: "VDABC123",
+  });
+
+  const fields = readFields(payload);
+  assert.equal(fields.get("59"), "ADEGA SAO JOAO DOS DRINKS");
+  assert.equal(fields.get("60"), "SAO JOSE DOS CA");
+  assert.equal(fields.get("54"), "57.90");
+  const account = readFields(fields.get("26")!);
+  assert.equal(account.get("00"), "br.gov.bcb.pix");
+  assert.equal(account.get("01"), "loja@vibedrinks.com.br");
+  assert.equal(readFields(fields.get("62")!).get("05"), "VDABC123");
+  assert.equal(fields.get("63"), crc16(payload.slice(0, -4)));
+});
+
+test("a key too long for its field is refused instead of producing a broken code", () => {
+  assert.throws(() => buildPixPayload({
+    key: `${"a".repeat(80)}@vibedrinks.com.br`,
+    amount: 10,
+    merchantName: "Vibe Drinks",
+    merchantCity: "Sao Paulo",
+    txid: "VDABC123",
+  }), PixError);
+});
+
+test("phone keys get the +55 prefix however they were typed", () => {
+  assert.equal(normalizePixKey("+55 (11) 99999-8888"), "+5511999998888");
+  assert.equal(normalizePixKey("5511999998888"), "+5511999998888");
+  assert.equal(normalizePixKey("(11) 99999-8888"), "+5511999998888");
+  assert.equal(normalizePixKey("11999998888"), "+5511999998888");
+  assert.equal(normalizePixKey("1133334444"), "+551133334444");
+});
+
+test("CPF and CNPJ keys keep only their digits", () => {
+  assert.equal(normalizePixKey("529.982.247-25"), "52998224725");
+  assert.equal(normalizePixKey("52998224725"), "52998224725");
+  assert.equal(normalizePixKey("11.222.333/0001-81"), "11222333000181");
+});
+
+test("e-mail and random keys are lowercased", () => {
+  assert.equal(normalizePixKey("  Loja@VibeDrinks.com.br "), "loja@vibedrinks.com.br");
+  assert.equal(normalizePixKey("123E4567-E12B-12D1-A456-426655440000"), "123e4567-e12b-12d1-a456-426655440000");
+});
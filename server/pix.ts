@@ -0,0 +1,111 @@
+import type { Order, PixCharge, Settings } from "@shared/schema";
+
+export class PixError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PixError";
+  }
+}
+
+// Order ids are UUIDs; a BR Code txid is at most 25 letters and digits
+export function pixTxidFor(orderId: string): string {
+  return ("VD" + orderId.replace(/[^A-Za-z0-9]/g, "")).slice(0, 25).toUpperCase();
+}
+
+function emvField(id: string, value: string): string {
+  if (value.length > 99) throw new PixError(`Campo ${id} do codigo PIX muito longo`);
+  return id + String(value.length).padStart(2, "0") + value;
+}
+
+// CRC16/CCITT-FALSE over the whole payload, "6304" included, as the BR Code spec asks
+export function crc16(payload: string): string {
+  let crc = 0xffff;
+  for (let i = 0; i < payload.length; i++) {
+    crc ^= payload.charCodeAt(i) << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? (crc << 1) ^ 0x1021 : crc << 1;
+      crc &= 0xffff;
+    }
+  }
+  return crc.toString(16).toUpperCase().padStart(4, "0");
+}
+
+// Name and city only take plain ASCII; bank apps reject accents
+function emvText(value: string, maxLength: number): string {
+  return value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^A-Za-z0-9 ]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+    .toUpperCase()
+    .slice(0, maxLength)
+    .trim();
+}
+
+function isCpf(digits: string): boolean {
+  if (!/^\d{11}$/.test(digits) || /^(\d)\1+$/.test(digits)) return false;
+  const checkDigit = (length: number) => {
+    let sum = 0;
+    for (let i = 0; i < length; i++) sum += Number(digits[i]) * (length + 1 - i);
+    return (sum * 10) % 11 % 10;
+  };
+  return checkDigit(9) === Number(digits[9]) && checkDigit(10) === Number(digits[10]);
+}
+
+// Keys are stored as typed in the panel; the payload needs the canonical form.
+// Phone keys are +55 and the number; typed without it, a phone is told from a CPF by the check digits.
+export function normalizePixKey(raw: string): string {
+  const key = raw.trim();
+  if (key.includes("@")) return key.toLowerCase();
+  if (/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(key)) return key.toLowerCase();
+  if (key.startsWith("+")) return "+" + key.replace(/\D/g, "");
+  if (!/^[\d.\-\/\s()]+$/.test(key)) return key;
+
+  const digits = key.replace(/\D/g, "");
+  const looksLikePhone = key.includes("(") || digits.length === 10 || (digits.length === 11 && !isCpf(digits));
+  if (digits.length === 13 && digits.startsWith("55")) return "+" + digits;
+  return looksLikePhone ? "+55" + digits : digits;
+}
+
+export interface PixPayloadInput {
+  key: string;
+  amount: number;
+  merchantName: string;
+  merchantCity: string;
+  txid: string;
+}
+
+export function buildPixPayload({ key, amount, merchantName, merchantCity, txid }: PixPayloadInput): string {
+  const name = emvText(merchantName, 25);
+  const city = emvText(merchantCity, 15);
+  if (!name || !city) throw new PixError("Nome e cidade do recebedor PIX sao obrigatorios");
+  if (!(amount > 0)) throw new PixError("Valor do PIX invalido");
+
+  const payload = [
+    emvField("00", "01"),
+    emvField("26", emvField("00", "br.gov.bcb.pix") + emvField("01", key)),
+    emvField("52", "0000"),
+    emvField("53", "986"),
+    emvField("54", amount.toFixed(2)),
+    emvField("58", "BR"),
+    emvField("59", name),
+    emvField("60", city),
+    emvField("62", emvField("05", txid)),
+    "6304",
+  ].join("");
+  return payload + crc16(payload);
+}
+
+export function pixChargeFor(order: Order, settings: Settings | undefined, amount = Number(order.total)): PixCharge {
+  if (!settings?.pixKey?.trim()) throw new PixError("Chave PIX da loja nao configurada");
+  const txid = order.pixTxid ?? pixTxidFor(order.id);
+  const payload = buildPixPayload({
+    key: normalizePixKey(settings.pixKey),
+    amount,
+    merchantName: settings.pixMerchantName,
+    merchantCity: settings.pixMerchantCity,
+    txid,
+  });
+  return { orderId: order.id, txid, amount, payload };
+}
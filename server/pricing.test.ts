@@ -0,0 +1,59 @@
+import { test, mock, after } from "node:test";
+import assert from "node:assert/strict";
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import type { Address, Settings } from "@shared/schema";
+
+// storage opens its pool lazily; the URL only has to exist for the import
+process.env.DATABASE_URL ??= "postgres://test@localhost:5432/test";
+const { storage } = await import("./storage");
+const { quoteDeliveryFee } = await import("./pricing");
+const { ChainGeocoder, CepCentroidGeocoder, NominatimGeocoder, setGeocoder } = await import("./geocoding");
+
+// A Nominatim that accepts the connection and never answers
+const stalled = createServer(() => {});
+await new Promise<void>(resolve => stalled.listen(0, "127.0.0.1", resolve));
+after(() => {
+  stalled.closeAllConnections();
+  stalled.close();
+});
+
+const address = {
+  id: "address-1",
+  userId: "user-1",
+  street: "Rua Voluntarios da Patria",
+  number: "100",
+  neighborhood: "Santana",
+  city: "Sao Paulo",
+  state: "SP",
+  zipCode: "02010-000",
+} as Address;
+
+// Store at the centre of CEP 010xx
+const settings = {
+  deliveryPricingMode: "distance",
+  storeLat: "-23.5475",
+  storeLng: "-46.6361",
+  deliveryRatePerKm: "2.50",
+  minDeliveryFee: "7.00",
+  maxDeliveryDistance: "15",
+} as Settings;
+
+test("a Nominatim timeout falls back to the CEP centroid distance", async () => {
+  mock.method(storage, "getAddress", async () => address);
+  mock.method(storage, "getSettings", async () => settings);
+  mock.method(storage, "getDeliveryAreas", async () => []);
+  const logged = mock.method(console, "error", () => {});
+  const { port } = stalled.address() as AddressInfo;
+  setGeocoder(new ChainGeocoder([
+    new NominatimGeocoder(`http://127.0.0.1:${port}`, "vibedrinks-test", 50),
+    new CepCentroidGeocoder(),
+  ]));
+
+  const quote = await quoteDeliveryFee({ orderType: "delivery", userId: "user-1", addressId: "address-1" });
+
+  assert.equal(logged.mock.callCount(), 1);
+  assert.match(String(logged.mock.calls[0].arguments[0]), /nominatim failed/);
+  // CEP 020xx centroid is about 5.2 km north of the store, at 2.50 per km
+  assert.deepEqual(quote, { fee: 12.95, distanceKm: 5.18, source: "distance", zoneName: null, unlistedNeighborhood: "Santana" });
+});
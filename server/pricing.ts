@@ -0,0 +1,305 @@
+import { storage } from "./storage";
+import { matchDeliveryArea } from "@shared/delivery-zones";
+import { geocodeAddress, haversineKm } from "./geocoding";
+import { comboDiscountAmount, comboSlotAccepts, isComboTemplateAvailable } from "@shared/combos";
+import { CouponError, evaluateCoupon, normalizeCouponCode } from "./coupons";
+import { variantDisplayName } from "@shared/variants";
+import { modifierGroupsFor, modifiersPriceDelta } from "@shared/modifiers";
+import type { Address, DeliveryQuote, ModifierGroup, OrderItemModifier, Product, ProductVariant, OrderPricing, OrderPricingItem, Settings } from "@shared/schema";
+
+export class OrderPricingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OrderPricingError";
+  }
+}
+
+// The saved address falls outside every zone; the order route queues the name for the zone admins
+export class UnlistedNeighborhoodError extends OrderPricingError {
+  constructor(readonly neighborhood: string, readonly zipCode: string | null) {
+    super(neighborhood ? `Ainda nao entregamos no bairro ${neighborhood}` : "Endereco sem bairro cadastrado");
+    this.name = "UnlistedNeighborhoodError";
+  }
+}
+
+interface OrderPricingInput {
+  orderType: string;
+  userId: string;
+  addressId?: string | null;
+  items: unknown;
+  // Combo instances in the order: [{ id, templateId }]; items point at them by comboId
+  combos?: unknown;
+  // Only honoured for counter sales, where staff may give a manual discount
+  discount?: number | string | null;
+  couponCode?: unknown;
+  // What the client displayed; only used to flag a corrected breakdown
+  clientTotal?: number | string | null;
+}
+
+interface RequestedItem {
+  productId: string;
+  variantId?: string;
+  // Chosen options: [{ groupId, optionId }]
+  modifiers: { groupId: string; optionId: string }[];
+  quantity: number;
+  comboId?: string;
+  comboSlotId?: string;
+}
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Request bodies are untrusted JSON; fields are read off a plain record and checked one by one
+function asRecord(value: unknown): Record<string, unknown> {
+  return typeof value === "object" && value !== null ? value as Record<string, unknown> : {};
+}
+
+function parseModifiers(rawModifiers: unknown): RequestedItem["modifiers"] {
+  if (!Array.isArray(rawModifiers)) return [];
+  const modifiers: RequestedItem["modifiers"] = [];
+  for (const value of rawModifiers as unknown[]) {
+    const { groupId, optionId } = asRecord(value);
+    if (typeof groupId === "string" && typeof optionId === "string") {
+      modifiers.push({ groupId, optionId });
+    }
+  }
+  return modifiers;
+}
+
+function parseItems(rawItems: unknown): RequestedItem[] {
+  if (!Array.isArray(rawItems) || rawItems.length === 0) {
+    throw new OrderPricingError("Pedido sem itens");
+  }
+  return (rawItems as unknown[]).map((value) => {
+    const raw = asRecord(value);
+    const quantity = Number(raw.quantity);
+    if (typeof raw.productId !== "string" || !Number.isInteger(quantity) || quantity <= 0) {
+      throw new OrderPricingError("Item de pedido invalido");
+    }
+    return {
+      productId: raw.productId,
+      variantId: typeof raw.variantId === "string" && raw.variantId ? raw.variantId : undefined,
+      modifiers: parseModifiers(raw.modifiers),
+      quantity,
+      comboId: typeof raw.comboId === "string" ? raw.comboId : undefined,
+      comboSlotId: typeof raw.comboSlotId === "string" ? raw.comboSlotId : undefined,
+    };
+  });
+}
+
+function parseCombos(rawCombos: unknown): Map<string, string> {
+  const templateByCombo = new Map<string, string>();
+  if (!Array.isArray(rawCombos)) return templateByCombo;
+  for (const value of rawCombos as unknown[]) {
+    const { id, templateId } = asRecord(value);
+    if (typeof id === "string" && typeof templateId === "string") {
+      templateByCombo.set(id, templateId);
+    }
+  }
+  return templateByCombo;
+}
+
+// Checks every combo against its template and returns the total discount they earn
+async function priceCombos(items: OrderPricingItem[], products: Map<string, Product>, templateByCombo: Map<string, string>): Promise<number> {
+  const itemsByCombo = new Map<string, OrderPricingItem[]>();
+  for (const item of items) {
+    if (!item.comboId) continue;
+    itemsByCombo.set(item.comboId, [...(itemsByCombo.get(item.comboId) ?? []), item]);
+  }
+
+  const now = new Date();
+  let discount = 0;
+  for (const [comboId, comboItems] of Array.from(itemsByCombo)) {
+    const templateId = templateByCombo.get(comboId);
+    const template = templateId ? await storage.getComboTemplate(templateId) : undefined;
+    if (!template) throw new OrderPricingError("Combo invalido");
+    if (!isComboTemplateAvailable(template, now)) {
+      throw new OrderPricingError(`O combo ${template.name} nao esta disponivel agora`);
+    }
+
+    const quantityBySlot = new Map<string, number>();
+    for (const item of comboItems) {
+      const slot = template.slots.find(s => s.id === item.comboSlotId);
+      if (!slot || !comboSlotAccepts(slot, products.get(item.productId)!)) {
+        throw new OrderPricingError(`${item.productName} nao faz parte do combo ${template.name}`);
+      }
+      quantityBySlot.set(slot.id, (quantityBySlot.get(slot.id) ?? 0) + item.quantity);
+    }
+    for (const slot of template.slots) {
+      const quantity = quantityBySlot.get(slot.id) ?? 0;
+      if (quantity < slot.minQuantity || quantity > slot.maxQuantity) {
+        throw new OrderPricingError(`Combo ${template.name}: quantidade invalida em ${slot.label}`);
+      }
+    }
+
+    const comboSubtotal = comboItems.reduce((sum, item) => sum + item.totalPrice, 0);
+    discount += comboDiscountAmount(template, comboSubtotal);
+  }
+  return roundMoney(discount);
+}
+
+// Checks the picks against the groups offered for the product and snapshots names and prices.
+// Combo items are sold as the template defines them, so they take no modifiers.
+function resolveModifiers(item: RequestedItem, product: Product, allGroups: ModifierGroup[]): OrderItemModifier[] {
+  if (item.comboId) {
+    if (item.modifiers.length > 0) throw new OrderPricingError(`${product.name} nao aceita adicionais dentro de combo`);
+    return [];
+  }
+
+  const groups = modifierGroupsFor(allGroups, product);
+  const modifiers: OrderItemModifier[] = [];
+  for (const pick of item.modifiers) {
+    const group = groups.find(g => g.id === pick.groupId);
+    const option = group?.options.find(o => o.id === pick.optionId);
+    if (!group || !option) throw new OrderPricingError(`Adicional indisponivel para ${product.name}`);
+    if (modifiers.some(m => m.groupId === group.id && m.optionId === option.id)) {
+      throw new OrderPricingError(`${product.name}: opcao repetida em ${group.name}`);
+    }
+    modifiers.push({ groupId: group.id, groupName: group.name, optionId: option.id, optionName: option.name, priceDelta: option.priceDelta });
+  }
+
+  for (const group of groups) {
+    const picked = modifiers.filter(m => m.groupId === group.id).length;
+    if (group.isRequired && picked === 0) throw new OrderPricingError(`${product.name}: escolha ${group.name}`);
+    if (picked > group.maxSelections) {
+      throw new OrderPricingError(`${product.name}: no maximo ${group.maxSelections} em ${group.name}`);
+    }
+  }
+  return modifiers;
+}
+
+// Null when the store or the address can't be placed on the map
+async function distanceFromStore(address: Address | undefined, settings: Settings | undefined): Promise<number | null> {
+  if (!address || settings?.storeLat == null || settings?.storeLng == null) return null;
+  const point = await geocodeAddress(address);
+  if (!point) return null;
+  return haversineKm({ lat: Number(settings.storeLat), lng: Number(settings.storeLng) }, point);
+}
+
+// Priced from the customer's saved address only, never from a neighborhood the client names
+export async function quoteDeliveryFee(
+  input: Pick<OrderPricingInput, "orderType" | "userId" | "addressId">,
+): Promise<DeliveryQuote> {
+  if (input.orderType === "counter") return { fee: 0, distanceKm: null, source: "counter", zoneName: null, unlistedNeighborhood: null };
+
+  if (!input.addressId) throw new OrderPricingError("Cadastre um endereco de entrega");
+  const address = await storage.getAddress(input.addressId);
+  if (!address || address.userId !== input.userId) {
+    throw new OrderPricingError("Endereco de entrega invalido");
+  }
+  const neighborhood = address.neighborhood.trim();
+
+  const settings = await storage.getSettings();
+  const mode = settings?.deliveryPricingMode ?? "zone";
+
+  const match = matchDeliveryArea(await storage.getDeliveryAreas(), { neighborhood, zipCode: address.zipCode });
+  // Matched only by CEP still counts as unlisted: the spelling is worth an alias
+  const unlistedNeighborhood = neighborhood && match?.matchedBy !== "name" && match?.matchedBy !== "alias" ? neighborhood : null;
+
+  if (mode !== "distance") {
+    if (match) return { fee: Number(match.zone.fee), distanceKm: null, source: "zone", zoneName: match.zone.name, unlistedNeighborhood };
+    if (mode === "zone") throw new UnlistedNeighborhoodError(neighborhood, address.zipCode);
+  }
+
+  const distance = await distanceFromStore(address, settings);
+  if (distance === null) {
+    if (mode === "distance") throw new OrderPricingError("Nao foi possivel calcular a distancia ate o endereco. Confira o CEP.");
+    throw new UnlistedNeighborhoodError(neighborhood, address.zipCode);
+  }
+
+  const distanceKm = roundMoney(distance);
+  const maxDistance = Number(settings?.maxDeliveryDistance ?? 0);
+  if (maxDistance > 0 && distanceKm > maxDistance) {
+    throw new OrderPricingError(`Endereco fora da area de entrega (${distanceKm.toFixed(1)} km, maximo ${maxDistance} km)`);
+  }
+  const fee = Math.max(Number(settings?.minDeliveryFee ?? 0), distanceKm * Number(settings?.deliveryRatePerKm ?? 0));
+  return { fee: roundMoney(fee), distanceKm, source: "distance", zoneName: null, unlistedNeighborhood };
+}
+
+// Rebuilds every price of an order from the catalogue, ignoring client-sent amounts
+export async function priceOrder(input: OrderPricingInput): Promise<OrderPricing> {
+  const requested = parseItems(input.items);
+  const templateByCombo = parseCombos(input.combos);
+
+  const productCache = new Map<string, Product>();
+  const variantCache = new Map<string, ProductVariant[]>();
+  const modifierGroups = await storage.getModifierGroups();
+  const items: OrderPricingItem[] = [];
+  for (const item of requested) {
+    let product = productCache.get(item.productId);
+    if (!product) {
+      product = await storage.getProduct(item.productId);
+      if (!product || !product.isActive) {
+        throw new OrderPricingError("Produto indisponivel no cardapio");
+      }
+      productCache.set(product.id, product);
+      variantCache.set(product.id, (await storage.getProductVariants(product.id)).filter(v => v.isActive));
+    }
+
+    // Products with variants are only sold through one of them
+    const variants = variantCache.get(product.id)!;
+    let variant: ProductVariant | undefined;
+    if (item.variantId || variants.length > 0) {
+      variant = variants.find(v => v.id === item.variantId);
+      if (!variant) throw new OrderPricingError(`Escolha uma opcao valida de ${product.name}`);
+    }
+
+    const modifiers = resolveModifiers(item, product, modifierGroups);
+    const unitPrice = roundMoney(Math.max(0, Number(variant?.salePrice ?? product.salePrice) + modifiersPriceDelta(modifiers)));
+    items.push({
+      productId: product.id,
+      productName: variantDisplayName(product, variant),
+      variantId: variant?.id,
+      variantName: variant?.name,
+      modifiers,
+      quantity: item.quantity,
+      unitPrice,
+      totalPrice: roundMoney(unitPrice * item.quantity),
+      comboId: item.comboId,
+      comboTemplateId: item.comboId ? templateByCombo.get(item.comboId) : undefined,
+      comboSlotId: item.comboSlotId,
+    });
+  }
+
+  const subtotal = roundMoney(items.reduce((sum, item) => sum + item.totalPrice, 0));
+
+  const comboDiscount = await priceCombos(items, productCache, templateByCombo);
+
+  const manualDiscount = input.orderType === "counter" ? Math.max(0, Number(input.discount) || 0) : 0;
+  const discount = roundMoney(Math.min(subtotal, comboDiscount + manualDiscount));
+
+  const delivery = await quoteDeliveryFee(input);
+  const deliveryFee = roundMoney(delivery.fee);
+
+  let couponDiscount = 0;
+  let coupon: OrderPricing["coupon"] = null;
+  const couponCode = normalizeCouponCode(input.couponCode);
+  if (couponCode) {
+    try {
+      const result = await evaluateCoupon(couponCode, {
+        orderType: input.orderType,
+        userId: input.userId,
+        items,
+        products: productCache,
+        subtotal,
+        comboDiscount,
+        deliveryFee,
+      });
+      coupon = { id: result.coupon.id, code: result.coupon.code };
+      // Whatever the other discounts left of the order is the most it can take
+      couponDiscount = roundMoney(Math.min(result.discount, subtotal - discount + deliveryFee));
+    } catch (error) {
+      if (error instanceof CouponError) throw new OrderPricingError(error.message);
+      throw error;
+    }
+  }
+
+  const totalDiscount = roundMoney(discount + couponDiscount);
+  const total = roundMoney(subtotal - totalDiscount + deliveryFee);
+
+  const clientTotal = Number(input.clientTotal);
+  const adjusted = !Number.isFinite(clientTotal) || Math.abs(clientTotal - total) >= 0.01;
+
+  return { items, subtotal, comboDiscount, discount: totalDiscount, deliveryFee, deliveryDistance: delivery.distanceKm, unlistedNeighborhood: delivery.unlistedNeighborhood, couponDiscount, coupon, total, adjusted };
+}
@@ -0,0 +1,30 @@
+import type { RecipeLine } from "./storage";
+
+export class RecipeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RecipeError";
+  }
+}
+
+// Validates the full ingredient list of a product's recipe; the route checks the ids exist
+export function parseRecipeInput(body: any, productId: string): RecipeLine[] {
+  if (!Array.isArray(body?.ingredients)) throw new RecipeError("Lista de ingredientes invalida");
+
+  const lines: RecipeLine[] = body.ingredients.map((raw: any) => {
+    const quantity = Number(raw?.quantity);
+    if (typeof raw?.ingredientProductId !== "string" || !raw.ingredientProductId) {
+      throw new RecipeError("Ingrediente invalido");
+    }
+    if (!Number.isInteger(quantity) || quantity < 1) throw new RecipeError("Quantidade de ingrediente invalida");
+    return { ingredientProductId: raw.ingredientProductId, quantity };
+  });
+
+  if (lines.some(line => line.ingredientProductId === productId)) {
+    throw new RecipeError("Um produto nao pode ser ingrediente de si mesmo");
+  }
+  if (new Set(lines.map(line => line.ingredientProductId)).size !== lines.length) {
+    throw new RecipeError("Ingrediente repetido na receita");
+  }
+  return lines;
+}
@@ -1,6 +1,34 @@
-import type { Express, Response } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
-import { storage, seedDatabase } from "./storage";
+import { storage, seedDatabase, bootstrapAdminPermissions, bootstrapCategoryFlags, bootstrapAlcoholFlags, bootstrapSalespersonIds, bootstrapDeliveryZones, InsufficientStockError, CouponUnavailableError, ScheduleSlotFullError, PaymentRejectedError, CashSessionError, ItemCancellationRejectedError, type StockDeduction, type UnlistedNeighborhoodResolution, type PaymentRecordResult } from "./storage";
+import { priceOrder, quoteDeliveryFee, OrderPricingError, UnlistedNeighborhoodError } from "./pricing";
+import { LoginThrottle, MemoryLoginAttemptStore, type ReservedAttempt, type ThrottleKey } from "./login-throttle";
+import { recordAudit, diffFields } from "./audit";
+import { sendVerificationCode, confirmVerificationCode, isVerificationPurpose, VerificationError } from "./verification";
+import { requireAuth, requireRole, requireStaff, requirePermission, canAccessUser, startSession, endSession, toSafeUser, type SessionUser } from "./auth";
+import { OrderEventBus, type OrderEventChannel } from "./order-events";
+import { parseComboTemplateInput, ComboTemplateError } from "./combos";
+import { parseModifierGroupInput, ModifierGroupError } from "./modifiers";
+import { parseRecipeInput, RecipeError } from "./recipes";
+import { parseCouponInput, CouponError } from "./coupons";
+import { parseProductVariantInput, ProductVariantError } from "./variants";
+import { resolveScheduledFor, ScheduleError } from "./scheduling";
+import { parseOpeningHoursInput, OpeningHoursError } from "./opening-hours";
+import { parseAliasesInput, parseCepRangesInput, DeliveryAreaError } from "./delivery-areas";
+import { parseBirthDate, parseRefusalReason, AgeVerificationError } from "./age-verification";
+import { pixChargeFor, PixError } from "./pix";
+import { paymentProvider, PaymentWebhookError } from "./payment-providers";
+import { parsePaymentLines, PaymentLineError } from "./payment-lines";
+import { parseOpeningFloat, parseCashMovement, parseCashClosing, CashRegisterError } from "./cash-register";
+import { parseItemCancellation, ItemCancellationError } from "./item-cancellations";
+import { amountDue, isHeldForPayment, isPrepaidMethod, netPaid } from "@shared/payments";
+import { isAdult, isAgeRestricted } from "@shared/age";
+import { isComboTemplateAvailable } from "@shared/combos";
+import { scheduleConfig, scheduleSlotStarts, type ScheduleSlot } from "@shared/scheduling";
+import { storeStatus, DEFAULT_OPENING_HOURS } from "@shared/opening-hours";
+import type { CashSession, Order, Product, ProductVariant, UserRole, PermissionScope, InsertComboTemplate, InsertCoupon, InsertProductVariant, InsertModifierGroup } from "@shared/schema";
+import { groupVariantsByProduct, sellableCostPrice, sellableStock, sellableUnitPrice, variantDisplayName } from "@shared/variants";
+import { PERMISSION_SCOPES, STAFF_ROLES, COMBO_ROLES, SHOWCASE_GROUPS, DELIVERY_PRICING_MODES, UNLISTED_NEIGHBORHOOD_STATUSES, PAYMENT_METHOD_LABELS, hasPermission, canRefuseHandOver, categoryTracksStock, isPreparedProduct, tracksProductStock } from "@shared/schema";
 import bcrypt from "bcrypt";
 import multer from "multer";
 import { uploadFile, deleteFile, getStorageUrl, supabaseAdmin, STORAGE_BUCKET } from "./supabase";
@@ -35,21 +63,208 @@ const uploadCSV = multer({
 
 const SALT_ROUNDS = 10;
 
-// SSE clients for real-time order updates
-const orderClients: Set<Response> = new Set();
+// SSE channels for real-time order updates
+const orderEvents = new OrderEventBus();
 
-// Broadcast order updates to all connected SSE clients
-function broadcastOrderUpdate(event: string, data?: any) {
-  const message = `event: ${event}\ndata: ${JSON.stringify(data || {})}\n\n`;
-  orderClients.forEach(client => {
-    try {
-      client.write(message);
-    } catch (error) {
-      orderClients.delete(client);
+// The order desk always listens; the kitchen, the customer and the assigned motoboy only for their orders
+function orderChannels(order: Pick<Order, 'userId' | 'motoboyId'>, options: { kitchen?: boolean } = {}): OrderEventChannel[] {
+  const channels: OrderEventChannel[] = ['desk', `user:${order.userId}`];
+  if (options.kitchen !== false) channels.push('kitchen');
+  if (order.motoboyId) channels.push(`motoboy:${order.motoboyId}`);
+  return channels;
+}
+
+function broadcastOrderUpdate(event: string, data: Record<string, unknown>, channels: OrderEventChannel[]) {
+  orderEvents.publish(event, data, channels);
+}
+
+async function subscriberChannels(user: SessionUser): Promise<OrderEventChannel[]> {
+  switch (user.role) {
+    case 'admin':
+    case 'pdv':
+      return ['desk'];
+    case 'kitchen':
+      return ['kitchen'];
+    case 'motoboy': {
+      const motoboy = await storage.getMotoboyByWhatsapp(user.whatsapp);
+      return motoboy ? [`motoboy:${motoboy.id}`] : [];
+    }
+    default:
+      return [`user:${user.id}`];
+  }
+}
+
+// Roles that see the whole order book (kitchen display, PDV, admin panel)
+const ORDER_DESK_ROLES = ['admin', 'kitchen', 'pdv'] as const;
+
+// Customers see their own orders, motoboys the ones assigned to them
+async function canAccessOrder(req: Request, order: Order): Promise<boolean> {
+  const current = req.currentUser;
+  if (!current) return false;
+  if ((ORDER_DESK_ROLES as readonly string[]).includes(current.role)) return true;
+  if (current.role === 'motoboy') {
+    const motoboy = await storage.getMotoboyByWhatsapp(current.whatsapp);
+    return !!motoboy && order.motoboyId === motoboy.id;
+  }
+  return order.userId === current.id;
+}
+
+// The operator works their own till; an admin may step in, and finance may read any report
+function canManageCashSession(req: Request, session: CashSession): boolean {
+  const current = req.currentUser;
+  return !!current && (session.operatorId === current.id || current.role === 'admin');
+}
+
+function canReadCashSession(req: Request, session: CashSession): boolean {
+  return canManageCashSession(req, session) || hasPermission(req.currentUser, 'finance:read');
+}
+
+// Audit trail and live update for a new ledger entry, whether staff or a gateway recorded it
+async function announcePayment(req: Request, { order, payment, previousStatus }: PaymentRecordResult): Promise<void> {
+  if (!payment) return;
+  await recordAudit(req, {
+    action: payment.kind === 'refund' ? 'order.payment_refunded' : 'order.payment_recorded',
+    entityType: 'order',
+    entityId: order.id,
+    before: { paymentStatus: previousStatus },
+    after: { paymentStatus: order.paymentStatus, kind: payment.kind, amount: payment.amount, method: payment.method, provider: payment.provider },
+  });
+  broadcastOrderUpdate('order_payment_updated', {
+    orderId: order.id,
+    paymentStatus: order.paymentStatus,
+    previousPaymentStatus: previousStatus,
+    orderType: order.orderType,
+    customerName: order.customerName,
+  }, orderChannels(order));
+}
+
+// A cancelled order gives back everything paid; a split counter sale goes back through the last tender taken
+async function refundCancelledOrder(req: Request, order: Order, notes: string): Promise<PaymentRecordResult | undefined> {
+  const ledger = await storage.getPayments(order.id);
+  const paid = netPaid(ledger);
+  if (paid <= 0.005) return undefined;
+  const lastPayment = [...ledger].reverse().find(entry => entry.kind === 'payment');
+  const refund = await storage.recordPayment({
+    orderId: order.id,
+    kind: 'refund',
+    method: order.paymentMethod === 'split' ? lastPayment?.method ?? 'cash' : order.paymentMethod,
+    amount: paid.toFixed(2),
+    recordedBy: req.currentUser!.id,
+    notes,
+  });
+  if (refund) await announcePayment(req, refund);
+  return refund;
+}
+
+// Puts back what a cancelled order took from the shelf (only for products that track stock)
+async function restoreOrderStock(orderId: string): Promise<void> {
+  const orderItems = await storage.getOrderItems(orderId);
+  const allCategories = await storage.getCategories();
+  const categoryById = new Map(allCategories.map(c => [c.id, c]));
+  
+  for (const item of orderItems) {
+    const product = await storage.getProduct(item.productId);
+    if (product) {
+      if (!tracksProductStock(product, categoryById.get(product.categoryId))) continue;
+      const variant = item.variantId ? await storage.getProductVariant(item.variantId) : undefined;
+      if (variant) {
+        await storage.updateProductVariant(variant.id, { stock: variant.stock + item.quantity });
+        await storage.createStockLog({
+          productId: item.productId,
+          variantId: variant.id,
+          previousStock: variant.stock,
+          newStock: variant.stock + item.quantity,
+          change: item.quantity,
+          reason: `Cancelamento pedido #${orderId.slice(0, 8)}`,
+        });
+      } else {
+        const previousStock = product.stock;
+        const newStock = previousStock + item.quantity;
+        await storage.updateProduct(item.productId, { stock: newStock });
+        
+        // Log the stock restoration
+        await storage.createStockLog({
+          productId: item.productId,
+          previousStock,
+          newStock,
+          change: item.quantity,
+          reason: `Cancelamento pedido #${orderId.slice(0, 8)}`,
+        });
+      }
     }
+  }
+}
+
+const loginThrottle = new LoginThrottle(new MemoryLoginAttemptStore(), {}, async (event) => {
+  try {
+    await storage.createLoginLockEvent({
+      scope: event.key.scope,
+      identifier: event.key.identifier,
+      ipAddress: event.context.ip ?? null,
+      route: event.context.route ?? null,
+      failedAttempts: event.failures,
+      lockedUntil: event.lockedUntil,
+    });
+  } catch (error) {
+    console.error("Failed to record login lock event:", error);
+  }
+});
+
+function loginKeys(req: Request, account: string): ThrottleKey[] {
+  return [
+    { scope: 'account', identifier: String(account ?? '') },
+    { scope: 'ip', identifier: req.ip || 'unknown' },
+  ];
+}
+
+// Reserves the attempt, or answers 429 and returns null while the caller is delayed or locked out
+async function passLoginThrottle(req: Request, res: Response, keys: ThrottleKey[]): Promise<ReservedAttempt | null> {
+  const result = await loginThrottle.reserve(keys, { ip: req.ip, route: req.path });
+  if (result.allowed) return result.attempt;
+  const seconds = Math.ceil(result.retryAfterMs / 1000);
+  res.setHeader('Retry-After', String(seconds));
+  res.status(429).json({
+    success: false,
+    error: result.locked
+      ? `Acesso bloqueado temporariamente. Tente novamente em ${Math.ceil(seconds / 60)} minuto(s).`
+      : `Muitas tentativas. Aguarde ${seconds} segundo(s) e tente novamente.`,
+    locked: result.locked,
+    retryAfter: seconds,
+  });
+  return null;
+}
+
+function sendVerificationError(res: Response, error: VerificationError) {
+  if (error.retryAfter) res.setHeader('Retry-After', String(error.retryAfter));
+  res.status(error.status).json({ error: error.message, retryAfter: error.retryAfter });
+}
+
+interface StockUnit {
+  product: Product;
+  variant?: ProductVariant;
+}
+
+// What stock reports list: each active variant of a product sold by variant,
+// otherwise the product itself
+function toStockUnits(products: Product[], variants: ProductVariant[]): StockUnit[] {
+  const variantsByProduct = groupVariantsByProduct(variants);
+  return products.flatMap(product => {
+    const productVariants = variantsByProduct.get(product.id);
+    return productVariants ? productVariants.map(variant => ({ product, variant })) : [{ product }];
   });
 }
 
+// Combo role and showcase group are optional, but must be known values when sent
+function categoryFlagsError(body: Record<string, unknown>): string | null {
+  if (body.comboRole != null && !(COMBO_ROLES as readonly unknown[]).includes(body.comboRole)) {
+    return "Funcao no combo invalida";
+  }
+  if (body.showcaseGroup != null && !(SHOWCASE_GROUPS as readonly unknown[]).includes(body.showcaseGroup)) {
+    return "Vitrine invalida";
+  }
+  return null;
+}
+
 // Delivery orders flow: pending -> accepted -> preparing -> ready -> dispatched -> (arrived optional) -> delivered
 const VALID_STATUS_TRANSITIONS: Record<string, string[]> = {
   pending: ['accepted', 'cancelled'],
@@ -100,20 +315,51 @@ export async function registerRoutes(
   app: Express
 ): Promise<Server> {
 
+  try {
+    await bootstrapAdminPermissions();
+  } catch (error) {
+    console.error("Failed to bootstrap admin permissions:", error);
+  }
+
+  try {
+    await bootstrapCategoryFlags();
+  } catch (error) {
+    console.error("Failed to bootstrap category flags:", error);
+  }
+
+  try {
+    await bootstrapAlcoholFlags();
+  } catch (error) {
+    console.error("Failed to bootstrap alcohol flags:", error);
+  }
+
+  try {
+    await bootstrapSalespersonIds();
+  } catch (error) {
+    console.error("Failed to link salespeople to staff users:", error);
+  }
+
+  try {
+    await bootstrapDeliveryZones();
+  } catch (error) {
+    console.error("Failed to bootstrap delivery zones:", error);
+  }
+
   // SSE endpoint for real-time order updates
-  app.get("/api/orders/sse", (req, res) => {
+  app.get("/api/orders/sse", requireAuth, async (req, res) => {
+    const channels = await subscriberChannels(req.currentUser!);
+
+    // Browsers send Last-Event-ID on native reconnects; our hook passes it as a query param
+    const rawLastEventId = req.get('Last-Event-ID') ?? req.query.lastEventId;
+    const lastEventId = typeof rawLastEventId === 'string' && rawLastEventId ? rawLastEventId.slice(0, 64) : undefined;
+
     res.writeHead(200, {
       'Content-Type': 'text/event-stream',
       'Cache-Control': 'no-cache',
       'Connection': 'keep-alive',
-      'Access-Control-Allow-Origin': '*',
     });
 
-    // Send initial connection message
-    res.write(`event: connected\ndata: ${JSON.stringify({ message: 'Connected to order updates' })}\n\n`);
-
-    // Add client to the set
-    orderClients.add(res);
+    const unsubscribe = orderEvents.subscribe(res, channels, lastEventId);
 
     // Send heartbeat every 30 seconds to keep connection alive
     const heartbeat = setInterval(() => {
@@ -121,54 +367,271 @@ export async function registerRoutes(
         res.write(`event: heartbeat\ndata: ${JSON.stringify({ timestamp: Date.now() })}\n\n`);
       } catch (error) {
         clearInterval(heartbeat);
-        orderClients.delete(res);
+        unsubscribe();
       }
     }, 30000);
 
     // Remove client on disconnect
     req.on('close', () => {
       clearInterval(heartbeat);
-      orderClients.delete(res);
+      unsubscribe();
     });
   });
 
-  app.get("/api/users", async (_req, res) => {
+  app.get("/api/users", requireStaff, async (_req, res) => {
     const users = await storage.getUsers();
-    res.json(users);
+    res.json(users.map(toSafeUser));
   });
 
-  app.get("/api/users/:id", async (req, res) => {
+  app.get("/api/users/:id", requireAuth, async (req, res) => {
+    if (!canAccessUser(req, req.params.id)) {
+      return res.status(403).json({ error: "Acesso negado" });
+    }
     const user = await storage.getUser(req.params.id);
     if (!user) return res.status(404).json({ error: "User not found" });
-    res.json(user);
+    res.json(toSafeUser(user));
   });
 
-  app.post("/api/users", async (req, res) => {
+  app.post("/api/users", requireRole('admin'), async (req, res) => {
     const userData = { ...req.body };
+    // Scopes are only granted through the permissions endpoint
+    delete userData.permissions;
     if (userData.password) {
       userData.password = await bcrypt.hash(userData.password, SALT_ROUNDS);
     }
     const user = await storage.createUser(userData);
-    res.status(201).json(user);
+    res.status(201).json(toSafeUser(user));
   });
 
-  app.patch("/api/users/:id", async (req, res) => {
+  app.patch("/api/users/:id", requireAuth, async (req, res) => {
+    const isAdmin = req.currentUser!.role === 'admin';
+    if (!isAdmin && req.currentUser!.id !== req.params.id) {
+      return res.status(403).json({ error: "Acesso negado" });
+    }
     const userData = { ...req.body };
+    delete userData.permissions;
+    if (!isAdmin) {
+      // The number was proven by a code at signup; the PIN changes through change-password or the reset flow
+      if (userData.password !== undefined) {
+        return res.status(400).json({ error: "Use a alteracao de senha para trocar o PIN" });
+      }
+      if (userData.whatsapp !== undefined && userData.whatsapp !== req.currentUser!.whatsapp) {
+        return res.status(400).json({ error: "O WhatsApp nao pode ser alterado pelo perfil" });
+      }
+      delete userData.whatsapp;
+      // Customers editing their profile cannot escalate or unblock themselves
+      delete userData.role;
+      delete userData.isBlocked;
+      delete userData.requiresPasswordChange;
+      // Recorded once, at registration or the first checkout with alcohol
+      delete userData.birthDate;
+    }
     if (userData.password) {
       userData.password = await bcrypt.hash(userData.password, SALT_ROUNDS);
     }
+    const previous = await storage.getUser(req.params.id);
+    if (!previous) return res.status(404).json({ error: "User not found" });
     const user = await storage.updateUser(req.params.id, userData);
     if (!user) return res.status(404).json({ error: "User not found" });
-    res.json(user);
+    if (user.isBlocked !== previous.isBlocked) {
+      await recordAudit(req, {
+        action: user.isBlocked ? 'user.blocked' : 'user.unblocked',
+        entityType: 'user',
+        entityId: user.id,
+        before: { name: previous.name, isBlocked: previous.isBlocked },
+        after: { name: user.name, isBlocked: user.isBlocked },
+      });
+    }
+    res.json(toSafeUser(user));
   });
 
-  app.delete("/api/users/:id", async (req, res) => {
+  app.delete("/api/users/:id", requireRole('admin'), async (req, res) => {
     const user = await storage.getUser(req.params.id);
     if (!user) return res.status(404).json({ error: "User not found" });
     await storage.deleteUser(req.params.id);
     res.status(204).send();
   });
 
+  app.patch("/api/users/:id/permissions", requirePermission('staff:manage'), async (req, res) => {
+    try {
+      const { permissions } = req.body;
+      if (!Array.isArray(permissions) || permissions.some(p => !PERMISSION_SCOPES.includes(p))) {
+        return res.status(400).json({ error: "Permissoes invalidas" });
+      }
+
+      const target = await storage.getUser(req.params.id);
+      if (!target) return res.status(404).json({ error: "User not found" });
+      if (!(STAFF_ROLES as string[]).includes(target.role)) {
+        return res.status(400).json({ error: "Permissoes so podem ser atribuidas a funcionarios" });
+      }
+      // Keeps at least one account able to manage permissions
+      if (target.id === req.currentUser!.id && !permissions.includes('staff:manage')) {
+        return res.status(400).json({ error: "Voce nao pode remover sua propria permissao de gerenciar permissoes" });
+      }
+
+      const uniquePermissions = Array.from(new Set(permissions as PermissionScope[]));
+      const user = await storage.updateUser(req.params.id, { permissions: uniquePermissions });
+      if (!user) return res.status(404).json({ error: "User not found" });
+      await recordAudit(req, {
+        action: 'user.permissions_changed',
+        entityType: 'user',
+        entityId: user.id,
+        before: { name: target.name, permissions: target.permissions },
+        after: { name: user.name, permissions: user.permissions },
+      });
+      res.json(toSafeUser(user));
+    } catch (error) {
+      console.error("Error updating permissions:", error);
+      res.status(500).json({ error: "Erro ao atualizar permissoes" });
+    }
+  });
+
+  // Staff directory: individual logins for admin, kitchen, PDV and motoboys
+  app.get("/api/staff", requirePermission('staff:manage'), async (_req, res) => {
+    const users = await storage.getUsers();
+    const staff = users
+      .filter(u => (STAFF_ROLES as string[]).includes(u.role))
+      .sort((a, b) => a.role.localeCompare(b.role) || a.name.localeCompare(b.name));
+    res.json(staff.map(toSafeUser));
+  });
+
+  app.post("/api/staff", requirePermission('staff:manage'), async (req, res) => {
+    try {
+      const name = String(req.body.name ?? '').trim();
+      const whatsapp = String(req.body.whatsapp ?? '').replace(/\D/g, '');
+      const { role, password } = req.body;
+
+      if (!name) {
+        return res.status(400).json({ error: "Nome obrigatorio" });
+      }
+      if (!(STAFF_ROLES as string[]).includes(role)) {
+        return res.status(400).json({ error: "Funcao invalida" });
+      }
+      if (!/^\d{11}$/.test(whatsapp)) {
+        return res.status(400).json({ error: "Formato de WhatsApp invalido. Use 11 digitos (DDD + numero)" });
+      }
+      if (typeof password !== 'string' || !/^\d{6}$/.test(password)) {
+        return res.status(400).json({ error: "Senha deve ter exatamente 6 digitos numericos" });
+      }
+
+      const users = await storage.getUsers();
+      // Staff log in by name, so names must be unique among staff
+      if (users.some(u => (STAFF_ROLES as string[]).includes(u.role) && u.name.toLowerCase() === name.toLowerCase())) {
+        return res.status(400).json({ error: "Ja existe um funcionario com este nome" });
+      }
+      if (users.some(u => u.whatsapp === whatsapp) || (await storage.getMotoboyByWhatsapp(whatsapp))) {
+        return res.status(400).json({ error: "Este WhatsApp ja esta em uso" });
+      }
+
+      const user = await storage.createUser({
+        name,
+        whatsapp,
+        role,
+        password: await bcrypt.hash(password, SALT_ROUNDS),
+        isBlocked: false,
+      });
+      if (role === 'motoboy') {
+        await storage.createMotoboy({ name, whatsapp, isActive: true });
+      }
+
+      await recordAudit(req, {
+        action: 'staff.created',
+        entityType: 'user',
+        entityId: user.id,
+        after: { name, role, whatsapp },
+      });
+      res.status(201).json(toSafeUser(user));
+    } catch (error) {
+      console.error("Error creating staff user:", error);
+      res.status(500).json({ error: "Erro ao criar funcionario" });
+    }
+  });
+
+  app.patch("/api/staff/:id", requirePermission('staff:manage'), async (req, res) => {
+    try {
+      const target = await storage.getUser(req.params.id);
+      if (!target || !(STAFF_ROLES as string[]).includes(target.role)) {
+        return res.status(404).json({ error: "Funcionario nao encontrado" });
+      }
+
+      const updates: { name?: string; isBlocked?: boolean } = {};
+      if (req.body.name !== undefined) {
+        const name = String(req.body.name).trim();
+        if (!name) return res.status(400).json({ error: "Nome obrigatorio" });
+        const users = await storage.getUsers();
+        if (users.some(u => u.id !== target.id && (STAFF_ROLES as string[]).includes(u.role) && u.name.toLowerCase() === name.toLowerCase())) {
+          return res.status(400).json({ error: "Ja existe um funcionario com este nome" });
+        }
+        updates.name = name;
+      }
+      if (req.body.isActive !== undefined) {
+        if (target.id === req.currentUser!.id && !req.body.isActive) {
+          return res.status(400).json({ error: "Voce nao pode desativar sua propria conta" });
+        }
+        updates.isBlocked = !req.body.isActive;
+      }
+
+      const change = diffFields(target, updates);
+      if (!change) return res.json(toSafeUser(target));
+
+      const user = await storage.updateUser(target.id, updates);
+      if (!user) return res.status(404).json({ error: "Funcionario nao encontrado" });
+
+      if (target.role === 'motoboy') {
+        const motoboy = await storage.getMotoboyByWhatsapp(target.whatsapp);
+        if (motoboy) {
+          await storage.updateMotoboy(motoboy.id, {
+            ...(updates.name !== undefined && { name: updates.name }),
+            ...(updates.isBlocked !== undefined && { isActive: !updates.isBlocked }),
+          });
+        }
+      }
+
+      const activationChanged = 'isBlocked' in change.after;
+      await recordAudit(req, {
+        action: activationChanged ? (user.isBlocked ? 'staff.deactivated' : 'staff.reactivated') : 'staff.updated',
+        entityType: 'user',
+        entityId: user.id,
+        before: { name: target.name, ...change.before },
+        after: { name: user.name, ...change.after },
+      });
+      res.json(toSafeUser(user));
+    } catch (error) {
+      console.error("Error updating staff user:", error);
+      res.status(500).json({ error: "Erro ao atualizar funcionario" });
+    }
+  });
+
+  app.post("/api/staff/:id/reset-password", requirePermission('staff:manage'), async (req, res) => {
+    try {
+      const { password } = req.body;
+      if (typeof password !== 'string' || !/^\d{6}$/.test(password)) {
+        return res.status(400).json({ error: "Senha deve ter exatamente 6 digitos numericos" });
+      }
+
+      const target = await storage.getUser(req.params.id);
+      if (!target || !(STAFF_ROLES as string[]).includes(target.role)) {
+        return res.status(404).json({ error: "Funcionario nao encontrado" });
+      }
+
+      await storage.updateUser(target.id, { password: await bcrypt.hash(password, SALT_ROUNDS) });
+      // Staff sign in by name, motoboys by WhatsApp
+      await loginThrottle.unlock({ scope: 'account', identifier: target.role === 'motoboy' ? target.whatsapp : target.name });
+
+      await recordAudit(req, {
+        action: 'staff.password_reset',
+        entityType: 'user',
+        entityId: target.id,
+        after: { name: target.name, role: target.role },
+      });
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error resetting staff password:", error);
+      res.status(500).json({ error: "Erro ao redefinir senha" });
+    }
+  });
+
+  // Bootstrap only: seedDatabase is a no-op once any user exists
   app.post("/api/seed-users", async (_req, res) => {
     try {
       await seedDatabase();
@@ -180,6 +643,12 @@ export async function registerRoutes(
 
   app.post("/api/auth/login", async (req, res) => {
     const { username, password, role } = req.body;
+    if (typeof username !== 'string' || typeof password !== 'string') {
+      return res.status(400).json({ success: false, error: "Usuario e senha obrigatorios" });
+    }
+    const attempt = await passLoginThrottle(req, res, loginKeys(req, username.trim()));
+    if (!attempt) return;
+    
     const users = await storage.getUsers();
     
     let candidates;
@@ -206,26 +675,36 @@ export async function registerRoutes(
     }
     
     if (!user) {
+      await loginThrottle.recordFailure(attempt);
       return res.status(401).json({ success: false, error: "Invalid credentials" });
     }
-    const { password: _, ...safeUser } = user;
-    res.json({ success: true, user: safeUser, role: user.role });
+    if (user.isBlocked) {
+      await loginThrottle.release(attempt);
+      return res.status(403).json({ success: false, error: "Usuario bloqueado" });
+    }
+    await loginThrottle.recordSuccess(attempt);
+    await startSession(req, user, user.role as UserRole);
+    res.json({ success: true, user: toSafeUser(user), role: user.role });
   });
 
-  app.post("/api/auth/whatsapp", async (req, res) => {
-    const { whatsapp, name } = req.body;
-    let user = await storage.getUserByWhatsapp(whatsapp);
-    if (!user) {
-      user = await storage.createUser({ 
-        name, 
-        whatsapp, 
-        role: "customer",
-        password: null,
-        isBlocked: false
-      });
+  app.get("/api/auth/me", async (req, res) => {
+    const current = req.currentUser;
+    if (!current) {
+      return res.json({ user: null, role: null, address: null });
     }
-    const { password: _, ...safeUser } = user;
-    res.json(safeUser);
+    let address = null;
+    if (current.role === 'customer') {
+      const addresses = await storage.getAddresses(current.id);
+      address = addresses.find(a => a.isDefault) || addresses[0] || null;
+    }
+    const { role, ...user } = current;
+    res.json({ user, role, address });
+  });
+
+  app.post("/api/auth/logout", async (req, res) => {
+    await endSession(req);
+    res.clearCookie("vibe.sid");
+    res.json({ success: true });
   });
 
   app.post("/api/auth/check-phone", async (req, res) => {
@@ -250,8 +729,12 @@ export async function registerRoutes(
       return res.status(400).json({ success: false, error: "Senha deve ter exatamente 6 digitos" });
     }
     
+    const attempt = await passLoginThrottle(req, res, loginKeys(req, whatsapp));
+    if (!attempt) return;
+    
     const motoboy = await storage.getMotoboyByWhatsapp(whatsapp);
     if (motoboy) {
+      await loginThrottle.release(attempt);
       return res.status(403).json({ 
         success: false, 
         error: "Motoboys devem usar o login de funcionarios",
@@ -261,29 +744,40 @@ export async function registerRoutes(
     
     const user = await storage.getUserByWhatsapp(whatsapp);
     if (!user) {
+      await loginThrottle.recordFailure(attempt);
       return res.status(401).json({ success: false, error: "Usuario nao encontrado" });
     }
     
     if (user.isBlocked) {
+      await loginThrottle.release(attempt);
       return res.status(403).json({ success: false, error: "Usuario bloqueado" });
     }
     
+    // The session keeps the role it was opened with, so staff accounts must use their own login
+    if (user.role !== 'customer') {
+      await loginThrottle.release(attempt);
+      return res.status(403).json({ success: false, error: "Funcionarios devem usar o login de funcionarios" });
+    }
+    
     if (!user.password) {
+      await loginThrottle.release(attempt);
       return res.status(401).json({ success: false, error: "Senha nao cadastrada" });
     }
     
     const isValid = await bcrypt.compare(password, user.password);
     if (!isValid) {
+      await loginThrottle.recordFailure(attempt);
       return res.status(401).json({ success: false, error: "Senha incorreta" });
     }
     
+    await loginThrottle.recordSuccess(attempt);
     const addresses = await storage.getAddresses(user.id);
     const defaultAddress = addresses.find(a => a.isDefault) || addresses[0];
     
-    const { password: _, ...safeUser } = user;
+    await startSession(req, user, 'customer');
     res.json({ 
       success: true, 
-      user: safeUser, 
+      user: toSafeUser(user), 
       address: defaultAddress || null,
       requiresPasswordChange: user.requiresPasswordChange || false
     });
@@ -296,44 +790,94 @@ export async function registerRoutes(
       return res.status(400).json({ success: false, error: "Senha deve ter exatamente 6 digitos" });
     }
     
+    const attempt = await passLoginThrottle(req, res, loginKeys(req, whatsapp));
+    if (!attempt) return;
+    
     const motoboy = await storage.getMotoboyByWhatsapp(whatsapp);
     if (!motoboy) {
+      await loginThrottle.recordFailure(attempt);
       return res.status(401).json({ success: false, error: "Motoboy nao encontrado" });
     }
     
     if (!motoboy.isActive) {
+      await loginThrottle.release(attempt);
       return res.status(403).json({ success: false, error: "Motoboy desativado" });
     }
     
     const user = await storage.getUserByWhatsapp(whatsapp);
-    if (!user) {
+    if (!user || user.role !== 'motoboy') {
+      await loginThrottle.release(attempt);
       return res.status(401).json({ success: false, error: "Usuario do motoboy nao encontrado" });
     }
     
     if (!user.password) {
+      await loginThrottle.release(attempt);
       return res.status(401).json({ success: false, error: "Senha nao cadastrada pelo administrador" });
     }
     
     const isValid = await bcrypt.compare(password, user.password);
     if (!isValid) {
+      await loginThrottle.recordFailure(attempt);
       return res.status(401).json({ success: false, error: "Senha incorreta" });
     }
     
-    const { password: _, ...safeUser } = user;
+    await loginThrottle.recordSuccess(attempt);
+    await startSession(req, user, 'motoboy');
     res.json({ 
       success: true, 
-      user: { ...safeUser, role: 'motoboy' }, 
+      user: { ...toSafeUser(user), role: 'motoboy' }, 
       role: 'motoboy',
       motoboy: motoboy
     });
   });
 
+  // Sends a one-time code to the WhatsApp number before registration or password reset
+  app.post("/api/auth/verification-code", async (req, res) => {
+    const { purpose } = req.body;
+    const whatsapp = String(req.body.whatsapp ?? '').replace(/\D/g, '');
+    
+    if (!/^\d{11}$/.test(whatsapp)) {
+      return res.status(400).json({ error: "Formato de WhatsApp invalido. Use 11 digitos (DDD + numero)" });
+    }
+    if (!isVerificationPurpose(purpose)) {
+      return res.status(400).json({ error: "Finalidade do codigo invalida" });
+    }
+    
+    const user = await storage.getUserByWhatsapp(whatsapp);
+    if (purpose === 'register') {
+      if (await storage.getMotoboyByWhatsapp(whatsapp)) {
+        return res.status(400).json({ error: "Este numero pertence a um motoboy. Use o login de funcionarios." });
+      }
+      if (user) {
+        return res.status(400).json({ error: "Usuario ja cadastrado com este WhatsApp" });
+      }
+    } else if (!user || user.role !== 'customer') {
+      return res.status(404).json({ error: "Usuario nao encontrado" });
+    }
+    
+    try {
+      const { expiresAt } = await sendVerificationCode(whatsapp, purpose);
+      res.json({ success: true, expiresAt });
+    } catch (error) {
+      if (error instanceof VerificationError) return sendVerificationError(res, error);
+      res.status(500).json({ error: "Erro ao enviar codigo de verificacao" });
+    }
+  });
+
   app.post("/api/auth/register", async (req, res) => {
-    const { user: userData, address: addressData } = req.body;
+    const { user: userData, address: addressData, verificationCode } = req.body;
     
     if (!userData.password || !/^\d{6}$/.test(userData.password)) {
       return res.status(400).json({ error: "Senha deve ter exatamente 6 digitos" });
     }
+
+    let birthDate: string;
+    try {
+      birthDate = parseBirthDate(userData.birthDate);
+    } catch (error) {
+      if (error instanceof AgeVerificationError) return res.status(400).json({ error: error.message });
+      throw error;
+    }
     
     const motoboy = await storage.getMotoboyByWhatsapp(userData.whatsapp);
     if (motoboy) {
@@ -345,6 +889,13 @@ export async function registerRoutes(
       return res.status(400).json({ error: "Usuario ja cadastrado com este WhatsApp" });
     }
     
+    try {
+      await confirmVerificationCode(userData.whatsapp, 'register', verificationCode);
+    } catch (error) {
+      if (error instanceof VerificationError) return sendVerificationError(res, error);
+      throw error;
+    }
+    
     const hashedPassword = await bcrypt.hash(userData.password, SALT_ROUNDS);
     
     const user = await storage.createUser({
@@ -352,7 +903,8 @@ export async function registerRoutes(
       whatsapp: userData.whatsapp,
       role: "customer",
       password: hashedPassword,
-      isBlocked: false
+      isBlocked: false,
+      birthDate,
     });
     
     const address = await storage.createAddress({
@@ -368,23 +920,40 @@ export async function registerRoutes(
       isDefault: true
     });
     
-    const { password: _, ...safeUser } = user;
-    res.json({ user: safeUser, address });
+    await startSession(req, user, 'customer');
+    res.json({ user: toSafeUser(user), address });
   });
 
-  // Financeiro password validation
-  const FINANCEIRO_PASSWORD = "0014";
-  
-  app.post("/api/auth/financeiro", async (req, res) => {
-    const { password } = req.body;
-    if (password === FINANCEIRO_PASSWORD) {
-      res.json({ success: true });
-    } else {
-      res.status(401).json({ error: "Senha incorreta" });
+  // Self-service reset: the WhatsApp code proves ownership, then the customer picks a new PIN
+  app.post("/api/auth/reset-password", async (req, res) => {
+    const { code, newPassword } = req.body;
+    const whatsapp = String(req.body.whatsapp ?? '').replace(/\D/g, '');
+    
+    if (!newPassword || !/^\d{6}$/.test(newPassword)) {
+      return res.status(400).json({ error: "Nova senha deve ter 6 digitos" });
+    }
+    
+    const user = await storage.getUserByWhatsapp(whatsapp);
+    if (!user || user.role !== 'customer') {
+      return res.status(404).json({ error: "Usuario nao encontrado" });
+    }
+    
+    try {
+      await confirmVerificationCode(whatsapp, 'password_reset', code);
+      
+      const hashedPassword = await bcrypt.hash(newPassword, SALT_ROUNDS);
+      await storage.updateUser(user.id, { password: hashedPassword, requiresPasswordChange: false });
+      // The customer proved ownership, so earlier failed attempts no longer count against them
+      await loginThrottle.unlock({ scope: 'account', identifier: whatsapp });
+      
+      res.json({ success: true, message: "Senha redefinida com sucesso" });
+    } catch (error) {
+      if (error instanceof VerificationError) return sendVerificationError(res, error);
+      res.status(500).json({ error: "Erro ao redefinir senha" });
     }
   });
 
-  // Password reset request - customer requests password reset
+  // Manual fallback - the admin resets the PIN and contacts the customer
   app.post("/api/auth/forgot-password", async (req, res) => {
     try {
       const { whatsapp: rawWhatsapp } = req.body;
@@ -420,8 +989,64 @@ export async function registerRoutes(
     }
   });
 
+  app.get("/api/admin/login-locks", requireRole('admin'), async (_req, res) => {
+    try {
+      const events = await storage.getLoginLockEvents();
+      res.json(events);
+    } catch (error) {
+      res.status(500).json({ error: "Erro ao buscar bloqueios de login" });
+    }
+  });
+
+  app.post("/api/admin/login-locks/:id/unlock", requireRole('admin'), async (req, res) => {
+    try {
+      const event = await storage.getLoginLockEvent(req.params.id);
+      if (!event) return res.status(404).json({ error: "Bloqueio nao encontrado" });
+      
+      await loginThrottle.unlock({ scope: event.scope as ThrottleKey['scope'], identifier: event.identifier });
+      const updated = await storage.markLoginLockEventUnlocked(event.id, req.currentUser!.id);
+      await recordAudit(req, {
+        action: 'login_lock.unlocked',
+        entityType: 'login_lock',
+        entityId: event.id,
+        before: { scope: event.scope, identifier: event.identifier, lockedUntil: event.lockedUntil },
+      });
+      res.json(updated);
+    } catch (error) {
+      res.status(500).json({ error: "Erro ao desbloquear acesso" });
+    }
+  });
+
+  app.get("/api/admin/audit-events", requireRole('admin'), async (req, res) => {
+    try {
+      const { action, entityType, entityId, actorId, from, to, limit } = req.query;
+      const param = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : undefined);
+      const date = (value: unknown) => {
+        const parsed = param(value) ? new Date(value as string) : undefined;
+        return parsed && !isNaN(parsed.getTime()) ? parsed : undefined;
+      };
+
+      const toDate = date(to);
+      // A bare date ("2024-05-01") means the whole day
+      if (toDate && /^\d{4}-\d{2}-\d{2}$/.test(String(to))) toDate.setUTCHours(23, 59, 59, 999);
+
+      const events = await storage.getAuditEvents({
+        action: param(action),
+        entityType: param(entityType),
+        entityId: param(entityId),
+        actorId: param(actorId),
+        from: date(from),
+        to: toDate,
+        limit: Math.min(Number(limit) || 200, 1000),
+      });
+      res.json(events);
+    } catch (error) {
+      res.status(500).json({ error: "Erro ao buscar auditoria" });
+    }
+  });
+
   // Admin: Get pending password reset requests
-  app.get("/api/admin/password-reset-requests", async (_req, res) => {
+  app.get("/api/admin/password-reset-requests", requireRole('admin'), async (_req, res) => {
     try {
       const requests = await storage.getPendingPasswordResetRequests();
       res.json(requests);
@@ -431,10 +1056,10 @@ export async function registerRoutes(
   });
 
   // Admin: Complete password reset request
-  app.post("/api/admin/password-reset/:id/complete", async (req, res) => {
+  app.post("/api/admin/password-reset/:id/complete", requireRole('admin'), async (req, res) => {
     try {
       const { id } = req.params;
-      const { newPassword, adminId } = req.body;
+      const { newPassword } = req.body;
       
       if (!newPassword || !/^\d{6}$/.test(newPassword)) {
         return res.status(400).json({ error: "Nova senha deve ter 6 digitos" });
@@ -460,7 +1085,13 @@ export async function registerRoutes(
       });
       
       // Mark request as completed
-      await storage.completePasswordResetRequest(id, adminId || "admin");
+      await storage.completePasswordResetRequest(id, req.currentUser!.id);
+      await recordAudit(req, {
+        action: 'password_reset.completed',
+        entityType: 'user',
+        entityId: request.userId,
+        after: { name: request.userName, whatsapp: request.userWhatsapp, requestId: id },
+      });
       
       res.json({ success: true, message: "Senha redefinida com sucesso" });
     } catch (error: any) {
@@ -469,13 +1100,10 @@ export async function registerRoutes(
   });
 
   // User: Change password (used when requiresPasswordChange is true)
-  app.post("/api/auth/change-password", async (req, res) => {
+  app.post("/api/auth/change-password", requireAuth, async (req, res) => {
     try {
-      const { userId, newPassword } = req.body;
-      
-      if (!userId) {
-        return res.status(400).json({ error: "Usuario nao identificado" });
-      }
+      const userId = req.currentUser!.id;
+      const { newPassword } = req.body;
       
       if (!newPassword || !/^\d{6}$/.test(newPassword)) {
         return res.status(400).json({ error: "Nova senha deve ter 6 digitos" });
@@ -491,26 +1119,35 @@ export async function registerRoutes(
         return res.status(404).json({ error: "Usuario nao encontrado" });
       }
       
-      const { password: _, ...safeUser } = user;
-      res.json({ success: true, user: safeUser });
+      res.json({ success: true, user: toSafeUser(user) });
     } catch (error: any) {
       res.status(500).json({ error: "Erro ao alterar senha" });
     }
   });
 
-  app.get("/api/addresses/:userId", async (req, res) => {
+  app.get("/api/addresses/:userId", requireAuth, async (req, res) => {
+    if (!canAccessUser(req, req.params.userId)) {
+      return res.status(403).json({ error: "Acesso negado" });
+    }
     const addresses = await storage.getAddresses(req.params.userId);
     res.json(addresses);
   });
 
-  app.post("/api/addresses", async (req, res) => {
-    const address = await storage.createAddress(req.body);
+  app.post("/api/addresses", requireAuth, async (req, res) => {
+    const addressData = { ...req.body };
+    if (req.currentUser!.role !== 'admin') {
+      addressData.userId = req.currentUser!.id;
+    }
+    const address = await storage.createAddress(addressData);
     res.status(201).json(address);
   });
 
-  app.patch("/api/addresses/:id", async (req, res) => {
+  app.patch("/api/addresses/:id", requireAuth, async (req, res) => {
     const existingAddress = await storage.getAddress(req.params.id);
     if (!existingAddress) return res.status(404).json({ error: "Address not found" });
+    if (!canAccessUser(req, existingAddress.userId)) {
+      return res.status(403).json({ error: "Acesso negado" });
+    }
     
     // If setting this address as default, clear the default from other addresses
     if (req.body.isDefault === true && existingAddress.userId) {
@@ -527,7 +1164,12 @@ export async function registerRoutes(
     res.json(address);
   });
 
-  app.delete("/api/addresses/:id", async (req, res) => {
+  app.delete("/api/addresses/:id", requireAuth, async (req, res) => {
+    const existingAddress = await storage.getAddress(req.params.id);
+    if (!existingAddress) return res.status(404).json({ error: "Address not found" });
+    if (!canAccessUser(req, existingAddress.userId)) {
+      return res.status(403).json({ error: "Acesso negado" });
+    }
     const deleted = await storage.deleteAddress(req.params.id);
     if (!deleted) return res.status(404).json({ error: "Address not found" });
     res.status(204).send();
@@ -549,18 +1191,22 @@ export async function registerRoutes(
     res.json(category);
   });
 
-  app.post("/api/categories", async (req, res) => {
+  app.post("/api/categories", requireRole('admin'), async (req, res) => {
+    const flagsError = categoryFlagsError(req.body);
+    if (flagsError) return res.status(400).json({ error: flagsError });
     const category = await storage.createCategory(req.body);
     res.status(201).json(category);
   });
 
-  app.patch("/api/categories/:id", async (req, res) => {
+  app.patch("/api/categories/:id", requireRole('admin'), async (req, res) => {
+    const flagsError = categoryFlagsError(req.body);
+    if (flagsError) return res.status(400).json({ error: flagsError });
     const category = await storage.updateCategory(req.params.id, req.body);
     if (!category) return res.status(404).json({ error: "Category not found" });
     res.json(category);
   });
 
-  app.delete("/api/categories/:id", async (req, res) => {
+  app.delete("/api/categories/:id", requireRole('admin'), async (req, res) => {
     try {
       const categoryId = req.params.id;
       
@@ -606,7 +1252,7 @@ export async function registerRoutes(
   });
 
   // Export products to CSV (must be before /:id route)
-  app.get("/api/products/export-csv", async (_req, res) => {
+  app.get("/api/products/export-csv", requireRole('admin'), async (_req, res) => {
     try {
       const products = await storage.getProducts();
       const categories = await storage.getCategories();
@@ -646,12 +1292,12 @@ export async function registerRoutes(
     res.json(curatedProducts.map(item => item.product));
   });
 
-  app.get("/api/admin/trending-products", async (_req, res) => {
+  app.get("/api/admin/trending-products", requireRole('admin'), async (_req, res) => {
     const trendingProducts = await storage.getCuratedTrendingProducts();
     res.json(trendingProducts);
   });
 
-  app.post("/api/admin/trending-products", async (req, res) => {
+  app.post("/api/admin/trending-products", requireRole('admin'), async (req, res) => {
     try {
       const { productId } = req.body;
       if (!productId) {
@@ -667,12 +1313,12 @@ export async function registerRoutes(
     }
   });
 
-  app.delete("/api/admin/trending-products/:id", async (req, res) => {
+  app.delete("/api/admin/trending-products/:id", requireRole('admin'), async (req, res) => {
     await storage.removeTrendingProduct(req.params.id);
     res.status(204).send();
   });
 
-  app.patch("/api/admin/trending-products/reorder", async (req, res) => {
+  app.patch("/api/admin/trending-products/reorder", requireRole('admin'), async (req, res) => {
     const { orderedIds } = req.body;
     if (!Array.isArray(orderedIds)) {
       return res.status(400).json({ error: "orderedIds must be an array" });
@@ -692,25 +1338,142 @@ export async function registerRoutes(
     res.json(product);
   });
 
-  app.post("/api/products", async (req, res) => {
+  app.post("/api/products", requireRole('admin'), async (req, res) => {
     const product = await storage.createProduct(req.body);
     res.status(201).json(product);
   });
 
-  app.patch("/api/products/:id", async (req, res) => {
+  app.patch("/api/products/:id", requireRole('admin'), async (req, res) => {
+    const existing = await storage.getProduct(req.params.id);
+    if (!existing) return res.status(404).json({ error: "Product not found" });
+    // Product forms always resend stock; only an actual change needs the scope
+    if (req.body.stock !== undefined && !hasPermission(req.currentUser, 'stock:write')) {
+      if (Number(req.body.stock) !== existing.stock) {
+        return res.status(403).json({ error: "Sem permissao para alterar estoque" });
+      }
+    }
     const product = await storage.updateProduct(req.params.id, req.body);
     if (!product) return res.status(404).json({ error: "Product not found" });
+    const priceChange = diffFields(existing, { costPrice: req.body.costPrice, salePrice: req.body.salePrice });
+    if (priceChange) {
+      await recordAudit(req, {
+        action: 'product.price_changed',
+        entityType: 'product',
+        entityId: product.id,
+        before: { name: existing.name, ...priceChange.before },
+        after: { name: product.name, ...priceChange.after },
+      });
+    }
     res.json(product);
   });
 
-  app.delete("/api/products/:id", async (req, res) => {
+  app.delete("/api/products/:id", requireRole('admin'), async (req, res) => {
     const deleted = await storage.deleteProduct(req.params.id);
     if (!deleted) return res.status(404).json({ error: "Product not found" });
     res.status(204).send();
   });
 
+  // Active variants of every product, for the storefront and the PDV
+  app.get("/api/product-variants", async (_req, res) => {
+    const variants = await storage.getProductVariants();
+    res.json(variants.filter(v => v.isActive));
+  });
+
+  app.get("/api/products/:id/variants", requireRole('admin'), async (req, res) => {
+    const variants = await storage.getProductVariants(req.params.id);
+    res.json(variants);
+  });
+
+  app.post("/api/products/:id/variants", requireRole('admin'), async (req, res) => {
+    try {
+      const product = await storage.getProduct(req.params.id);
+      if (!product) return res.status(404).json({ error: "Product not found" });
+      const data = parseProductVariantInput(req.body);
+      if (data.stock !== undefined && data.stock !== 0 && !hasPermission(req.currentUser, 'stock:write')) {
+        return res.status(403).json({ error: "Sem permissao para alterar estoque" });
+      }
+      const variant = await storage.createProductVariant({ ...data, productId: product.id } as InsertProductVariant);
+      res.status(201).json(variant);
+    } catch (error: any) {
+      if (error instanceof ProductVariantError) return res.status(400).json({ error: error.message });
+      if (error.code === '23505') return res.status(409).json({ error: "SKU ja usado em outra variacao" });
+      console.error("Error creating product variant:", error);
+      res.status(500).json({ error: "Erro ao criar variacao" });
+    }
+  });
+
+  app.patch("/api/product-variants/:id", requireRole('admin'), async (req, res) => {
+    try {
+      const existing = await storage.getProductVariant(req.params.id);
+      if (!existing) return res.status(404).json({ error: "Variacao nao encontrada" });
+      const updates = parseProductVariantInput(req.body, true);
+      if (updates.stock !== undefined && updates.stock !== existing.stock && !hasPermission(req.currentUser, 'stock:write')) {
+        return res.status(403).json({ error: "Sem permissao para alterar estoque" });
+      }
+
+      const variant = await storage.updateProductVariant(existing.id, updates);
+      if (!variant) return res.status(404).json({ error: "Variacao nao encontrada" });
+
+      const priceChange = diffFields(existing, { costPrice: updates.costPrice, salePrice: updates.salePrice });
+      if (priceChange) {
+        const product = await storage.getProduct(existing.productId);
+        const name = product ? variantDisplayName(product, variant) : variant.name;
+        await recordAudit(req, {
+          action: 'product.price_changed',
+          entityType: 'product',
+          entityId: existing.productId,
+          before: { name, ...priceChange.before },
+          after: { name, ...priceChange.after },
+        });
+      }
+      res.json(variant);
+    } catch (error: any) {
+      if (error instanceof ProductVariantError) return res.status(400).json({ error: error.message });
+      if (error.code === '23505') return res.status(409).json({ error: "SKU ja usado em outra variacao" });
+      console.error("Error updating product variant:", error);
+      res.status(500).json({ error: "Erro ao atualizar variacao" });
+    }
+  });
+
+  app.delete("/api/product-variants/:id", requireRole('admin'), async (req, res) => {
+    const deleted = await storage.deleteProductVariant(req.params.id);
+    if (!deleted) return res.status(404).json({ error: "Variacao nao encontrada" });
+    res.status(204).send();
+  });
+
+  app.get("/api/recipes", requireRole('admin', 'kitchen'), async (_req, res) => {
+    const recipes = await storage.getRecipes();
+    res.json(recipes);
+  });
+
+  app.get("/api/products/:id/recipe", requireRole('admin', 'kitchen'), async (req, res) => {
+    const recipe = await storage.getRecipe(req.params.id);
+    res.json(recipe);
+  });
+
+  // Replaces the whole recipe; an empty list removes it
+  app.put("/api/products/:id/recipe", requireRole('admin'), async (req, res) => {
+    try {
+      const product = await storage.getProduct(req.params.id);
+      if (!product) return res.status(404).json({ error: "Produto nao encontrado" });
+
+      const lines = parseRecipeInput(req.body, product.id);
+      for (const line of lines) {
+        if (!(await storage.getProduct(line.ingredientProductId))) {
+          return res.status(400).json({ error: "Ingrediente nao encontrado" });
+        }
+      }
+      const recipe = await storage.replaceRecipe(product.id, lines);
+      res.json(recipe);
+    } catch (error) {
+      if (error instanceof RecipeError) return res.status(400).json({ error: error.message });
+      console.error("Error saving recipe:", error);
+      res.status(500).json({ error: "Erro ao salvar receita" });
+    }
+  });
+
   // Import products from CSV
-  app.post("/api/products/import-csv", uploadCSV.single('file'), async (req, res) => {
+  app.post("/api/products/import-csv", requireRole('admin'), requirePermission('stock:write'), uploadCSV.single('file'), async (req, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ error: "Nenhum arquivo enviado" });
@@ -816,12 +1579,12 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/orders", async (_req, res) => {
+  app.get("/api/orders", requireRole(...ORDER_DESK_ROLES), async (_req, res) => {
     const orders = await storage.getOrders();
     res.json(orders);
   });
 
-  app.get("/api/order-items", async (req, res) => {
+  app.get("/api/order-items", requireAuth, async (req, res) => {
     const orderIdsParam = req.query.orderIds;
     if (orderIdsParam) {
       const orderIds = typeof orderIdsParam === 'string' 
@@ -833,29 +1596,72 @@ export async function registerRoutes(
         return res.json([]);
       }
       const items = await storage.getOrderItemsByOrderIds(orderIds);
-      return res.json(items);
+      const current = req.currentUser!;
+      if ((ORDER_DESK_ROLES as readonly string[]).includes(current.role)) {
+        return res.json(items);
+      }
+      let allowedOrders: Order[] = [];
+      if (current.role === 'motoboy') {
+        const motoboy = await storage.getMotoboyByWhatsapp(current.whatsapp);
+        allowedOrders = motoboy ? await storage.getOrdersByMotoboy(motoboy.id) : [];
+      } else {
+        allowedOrders = await storage.getOrdersByUser(current.id);
+      }
+      const allowedIds = new Set(allowedOrders.map(o => o.id));
+      return res.json(items.filter(item => allowedIds.has(item.orderId)));
     }
     return res.json([]);
   });
 
-  app.get("/api/orders/:id", async (req, res) => {
+  app.get("/api/orders/:id", requireAuth, async (req, res) => {
     const order = await storage.getOrder(req.params.id);
     if (!order) return res.status(404).json({ error: "Order not found" });
+    if (!(await canAccessOrder(req, order))) {
+      return res.status(403).json({ error: "Acesso negado" });
+    }
     res.json(order);
   });
 
-  app.get("/api/orders/user/:userId", async (req, res) => {
+  // Built on request for what is still due, so a fee adjustment or the card part of a split sale is reflected
+  app.get("/api/orders/:id/pix", requireAuth, async (req, res) => {
+    const order = await storage.getOrder(req.params.id);
+    if (!order) return res.status(404).json({ error: "Order not found" });
+    if (!(await canAccessOrder(req, order))) {
+      return res.status(403).json({ error: "Acesso negado" });
+    }
+    if (order.paymentMethod !== 'pix' && order.paymentMethod !== 'split') {
+      return res.status(400).json({ error: "Este pedido nao e pago com PIX" });
+    }
+    if (order.status === 'cancelled') {
+      return res.status(400).json({ error: "Pedido cancelado" });
+    }
+    const due = amountDue(Number(order.total), await storage.getPayments(order.id));
+    if (due <= 0) {
+      return res.status(400).json({ error: "Pedido ja pago" });
+    }
+    try {
+      res.json(pixChargeFor(order, await storage.getSettings(), due));
+    } catch (error) {
+      if (error instanceof PixError) return res.status(400).json({ error: error.message });
+      throw error;
+    }
+  });
+
+  app.get("/api/orders/user/:userId", requireAuth, async (req, res) => {
+    if (!canAccessUser(req, req.params.userId)) {
+      return res.status(403).json({ error: "Acesso negado" });
+    }
     const orders = await storage.getOrdersByUser(req.params.userId);
     res.json(orders);
   });
 
-  app.get("/api/orders/status/:status", async (req, res) => {
+  app.get("/api/orders/status/:status", requireRole(...ORDER_DESK_ROLES), async (req, res) => {
     const orders = await storage.getOrdersByStatus(req.params.status);
     res.json(orders);
   });
 
   // Secure endpoint for motoboy - returns only orders assigned to them
-  app.get("/api/motoboy/:motoboyId/orders", async (req, res) => {
+  app.get("/api/motoboy/:motoboyId/orders", requireRole('motoboy', 'admin'), async (req, res) => {
     const { motoboyId } = req.params;
     
     // Verify motoboy exists
@@ -863,6 +1669,9 @@ export async function registerRoutes(
     if (!motoboy) {
       return res.status(404).json({ error: "Motoboy not found" });
     }
+    if (req.currentUser!.role === 'motoboy' && motoboy.whatsapp !== req.currentUser!.whatsapp) {
+      return res.status(403).json({ error: "Acesso negado" });
+    }
     
     // Get all orders and filter by motoboyId (include dispatched and arrived)
     const allOrders = await storage.getOrders();
@@ -873,64 +1682,231 @@ export async function registerRoutes(
     res.json(motoboyOrders);
   });
 
-  app.post("/api/orders", async (req, res) => {
+  // Fee the checkout shows for the customer's address, priced the same way as the order
+  app.post("/api/delivery-quote", requireAuth, async (req, res) => {
+    try {
+      const quote = await quoteDeliveryFee({
+        orderType: 'delivery',
+        userId: req.currentUser!.id,
+        addressId: req.body.addressId,
+      });
+      res.json(quote);
+    } catch (error) {
+      if (error instanceof OrderPricingError) return res.status(400).json({ error: error.message });
+      console.error("Error quoting delivery fee:", error);
+      res.status(500).json({ error: "Erro ao calcular taxa de entrega" });
+    }
+  });
+
+  // Delivery slots offered at checkout, with the places each one has left
+  app.get("/api/schedule/slots", async (_req, res) => {
+    try {
+      const settings = await storage.getSettings();
+      const config = scheduleConfig(settings);
+      const now = new Date();
+      const booked = await storage.getScheduledOrderCounts(now);
+      // The manual switch stops bookings too; hours and special dates only shape the slots
+      const bookable = config.capacity > 0 && settings?.isOpen !== false;
+      const hours = settings?.openingHours ?? DEFAULT_OPENING_HOURS;
+      const slots: ScheduleSlot[] = !bookable ? [] : scheduleSlotStarts(config, hours, now).map(start => ({
+        start: start.toISOString(),
+        remaining: Math.max(0, config.capacity - (booked.get(start.toISOString()) ?? 0)),
+      }));
+      res.json({ slotMinutes: config.slotMinutes, leadMinutes: config.leadMinutes, slots });
+    } catch (error) {
+      res.status(500).json({ error: "Erro ao buscar horarios" });
+    }
+  });
+
+  app.post("/api/orders", requireAuth, async (req, res) => {
     try {
-      const { userId, orderType } = req.body;
+      const { orderType } = req.body;
+      const current = req.currentUser!;
       
-      // Validate userId for delivery orders (not counter/PDV orders)
-      if (orderType !== 'counter' && !userId) {
-        return res.status(401).json({ error: "Usuario nao autenticado. Faca login novamente." });
+      // Counter sales are rung up by staff at the PDV
+      if (orderType === 'counter' && current.role !== 'pdv' && current.role !== 'admin') {
+        return res.status(403).json({ error: "Acesso negado" });
+      }
+
+      // ...into the operator's open till, so their cash is accounted for at closing
+      const cashSession = orderType === 'counter' ? await storage.getOpenCashSession(current.id) : undefined;
+      if (orderType === 'counter' && !cashSession) {
+        return res.status(409).json({ error: "Abra o caixa antes de registrar vendas", code: "cash_session_required" });
       }
       
-      const order = await storage.createOrder(req.body);
+      // Only deliveries can be booked for later, and only they depend on the store being open
+      const settings = await storage.getSettings();
+      const config = scheduleConfig(settings);
+      const scheduledFor = orderType === 'counter' ? null
+        : resolveScheduledFor(req.body.scheduledFor, config, settings?.openingHours ?? DEFAULT_OPENING_HOURS);
+      if (orderType !== 'counter') {
+        const status = storeStatus(settings);
+        if (status.reason === 'manual' || (!status.isOpen && !scheduledFor)) {
+          return res.status(409).json({ error: status.message, code: "store_closed" });
+        }
+      }
       
-      if (req.body.items && Array.isArray(req.body.items)) {
-        for (const item of req.body.items) {
-          await storage.createOrderItem({
-            orderId: order.id,
-            productId: item.productId,
-            productName: item.productName,
-            quantity: item.quantity,
-            unitPrice: item.unitPrice,
-            totalPrice: item.totalPrice,
-          });
-          
-          // Deduct stock for each item (only for non-prepared products)
-          const product = await storage.getProduct(item.productId);
-          if (product) {
-            // Get categories to check if product is from a prepared category
-            const categories = await storage.getCategories();
-            const preparedCategoryNames = ['doses', 'caipirinhas', 'batidas', 'drinks especiais', 'copao'];
-            const preparedCategoryIds = new Set(
-              categories.filter(c => preparedCategoryNames.some(name => c.name.toLowerCase().includes(name.toLowerCase()))).map(c => c.id)
-            );
-            const isPreparedProduct = product.isPrepared || preparedCategoryIds.has(product.categoryId);
-            
-            // Only deduct stock for non-prepared products
-            if (!isPreparedProduct) {
-              const previousStock = product.stock;
-              const newStock = Math.max(0, previousStock - item.quantity);
-              await storage.updateProduct(item.productId, { stock: newStock });
-              
-              // Log the stock change
-              await storage.createStockLog({
-                productId: item.productId,
-                previousStock,
-                newStock,
-                change: -item.quantity,
-                reason: `Pedido #${order.id.slice(0, 8)}`,
-              });
-            }
-          }
+      // Prices always come from the catalogue; client amounts only flag an adjustment
+      const pricing = await priceOrder({
+        orderType: orderType || 'delivery',
+        userId: current.id,
+        addressId: req.body.addressId,
+        items: req.body.items,
+        combos: req.body.combos,
+        discount: req.body.discount,
+        couponCode: req.body.couponCode,
+        clientTotal: req.body.total,
+      });
+      
+      // Prepared drinks are made to order, so only shelf products reserve stock
+      const categories = await storage.getCategories();
+      const categoryById = new Map(categories.map(c => [c.id, c]));
+      const stockChanges: StockDeduction[] = [];
+      let idCheckRequired = false;
+      for (const item of pricing.items) {
+        const product = await storage.getProduct(item.productId);
+        if (product && tracksProductStock(product, categoryById.get(product.categoryId))) {
+          stockChanges.push({ productId: item.productId, variantId: item.variantId, quantity: item.quantity });
+        }
+        if (!product || isAgeRestricted(categoryById.get(product.categoryId))) idCheckRequired = true;
+      }
+
+      // At the counter the operator sees the customer; online the buyer declares it and the motoboy checks the ID
+      if (idCheckRequired && orderType !== 'counter') {
+        if (req.body.ageConfirmed !== true) {
+          return res.status(400).json({ error: "Confirme que voce tem 18 anos ou mais para comprar bebidas alcoolicas", code: "age_confirmation_required" });
+        }
+        if (!current.birthDate) {
+          await storage.updateUser(current.id, { birthDate: parseBirthDate(req.body.birthDate) });
+        } else if (!isAdult(current.birthDate)) {
+          throw new AgeVerificationError("A venda de bebidas alcoolicas e proibida para menores de 18 anos");
+        }
+      }
+      const counterIdChecked = idCheckRequired && orderType === 'counter' && req.body.idChecked === true;
+
+      // A counter sale may be split across tenders, which together must cover the priced total
+      const settlement = orderType === 'counter' && req.body.payments !== undefined
+        ? parsePaymentLines(req.body.payments, pricing.total)
+        : null;
+      if (!settlement && req.body.paymentMethod === 'split') {
+        throw new PaymentLineError("Informe as formas de pagamento da venda");
+      }
+      const tenderMethods = settlement ? Array.from(new Set(settlement.recorded.map(line => line.method))) : [];
+      const cashKept = settlement?.recorded.filter(line => line.method === 'cash').reduce((sum, line) => sum + line.amount, 0) ?? 0;
+      
+      // Usage limits were checked while pricing; placeOrder re-checks them under a lock
+      const coupon = pricing.coupon ? await storage.getCoupon(pricing.coupon.id) : undefined;
+      const couponClaim = coupon ? {
+        couponId: coupon.id,
+        // At the counter the operator is logged in, so there is no customer to limit
+        userId: orderType === 'counter' ? null : current.id,
+        discount: pricing.couponDiscount,
+        maxUses: coupon.maxUses,
+        maxUsesPerCustomer: coupon.maxUsesPerCustomer,
+        firstOrderOnly: coupon.firstOrderOnly,
+      } : undefined;
+      
+      // Only the customer's choices come from the body; the server decides everything else,
+      // and the order always belongs to the logged-in user, never to an id sent by the client
+      let { order } = await storage.placeOrder(
+        {
+          orderType: orderType === 'counter' ? 'counter' : 'delivery',
+          addressId: orderType === 'counter' ? null : req.body.addressId ?? null,
+          paymentMethod: req.body.paymentMethod,
+          changeFor: req.body.changeFor ?? null,
+          notes: req.body.notes ?? null,
+          // Staff hand a counter sale over on the spot; everything else waits for the kitchen to accept it
+          status: orderType === 'counter' ? 'accepted' : 'pending',
+          userId: current.id,
+          // Counter sales are credited to the operator who is logged in at the PDV
+          salespersonId: orderType === 'counter' ? current.id : null,
+          customerName: req.body.customerName || (orderType === 'counter' ? current.name : null),
+          subtotal: pricing.subtotal.toFixed(2),
+          deliveryFee: pricing.deliveryFee.toFixed(2),
+          deliveryDistance: pricing.deliveryDistance !== null ? pricing.deliveryDistance.toFixed(2) : null,
+          discount: pricing.discount.toFixed(2),
+          total: pricing.total.toFixed(2),
+          ...(settlement && {
+            paymentMethod: tenderMethods.length === 1 ? tenderMethods[0] : 'split',
+            // What the customer handed over in cash, when there was change to give back
+            changeFor: settlement.change > 0 ? (cashKept + settlement.change).toFixed(2) : null,
+          }),
+          couponId: pricing.coupon?.id ?? null,
+          couponCode: pricing.coupon?.code ?? null,
+          cashSessionId: cashSession?.id ?? null,
+          idCheckRequired,
+          // The operator may check the ID while ringing up; otherwise it happens on hand-over
+          idCheckedAt: counterIdChecked ? new Date() : null,
+          idCheckedBy: counterIdChecked ? current.id : null,
+        },
+        pricing.items.map(item => ({
+          productId: item.productId,
+          productName: item.productName,
+          variantId: item.variantId ?? null,
+          variantName: item.variantName ?? null,
+          modifiers: item.modifiers,
+          quantity: item.quantity,
+          unitPrice: item.unitPrice.toFixed(2),
+          totalPrice: item.totalPrice.toFixed(2),
+          comboId: item.comboId ?? null,
+          comboTemplateId: item.comboTemplateId ?? null,
+          comboSlotId: item.comboSlotId ?? null,
+        })),
+        stockChanges,
+        couponClaim,
+        scheduledFor ? { scheduledFor, capacity: config.capacity } : undefined,
+      );
+
+      // The operator takes cash or card while ringing up; a PIX tender waits for its QR code to be paid
+      const tenders = settlement?.recorded
+        ?? (orderType === 'counter' ? [{ method: order.paymentMethod, amount: Number(order.total) }] : []);
+      for (const tender of tenders) {
+        if (isPrepaidMethod(tender.method)) continue;
+        const recorded = await storage.recordPayment({
+          orderId: order.id,
+          kind: 'payment',
+          method: tender.method,
+          amount: tender.amount.toFixed(2),
+          recordedBy: current.id,
+        });
+        if (recorded) order = recorded.order;
+      }
+
+      // The order stands either way; the queue is only a hint for the zone admins
+      if (pricing.unlistedNeighborhood) {
+        try {
+          const address = order.addressId ? await storage.getAddress(order.addressId) : undefined;
+          await storage.recordUnlistedNeighborhood(pricing.unlistedNeighborhood, address?.zipCode ?? null);
+        } catch (error) {
+          console.error("Failed to queue unlisted neighborhood:", error);
         }
       }
       
-      // Broadcast new order to all connected clients
-      broadcastOrderUpdate('order_created', { orderId: order.id, status: order.status });
+      broadcastOrderUpdate('order_created', {
+        orderId: order.id,
+        status: order.status,
+        orderType: order.orderType,
+        customerName: order.customerName,
+      }, orderChannels(order));
       
-      res.status(201).json(order);
+      res.status(201).json({ ...order, pricing });
     } catch (error: any) {
-      if (error.code === '23503') {
+      // A refused address is still demand worth a zone; the quote endpoint doesn't count, only order attempts
+      if (error instanceof UnlistedNeighborhoodError && error.neighborhood) {
+        await storage.recordUnlistedNeighborhood(error.neighborhood, error.zipCode)
+          .catch(queueError => console.error("Failed to queue unlisted neighborhood:", queueError));
+      }
+      if (error instanceof OrderPricingError || error instanceof ScheduleError || error instanceof PaymentLineError) {
+        res.status(400).json({ error: error.message });
+      } else if (error instanceof AgeVerificationError) {
+        res.status(400).json({ error: error.message, code: "age_verification" });
+      } else if (error instanceof CouponUnavailableError) {
+        res.status(409).json({ error: error.message, code: "coupon_unavailable" });
+      } else if (error instanceof ScheduleSlotFullError) {
+        res.status(409).json({ error: error.message, code: "schedule_slot_full" });
+      } else if (error instanceof InsufficientStockError) {
+        res.status(409).json({ error: error.message, code: "insufficient_stock", items: error.items });
+      } else if (error.code === '23503') {
         res.status(400).json({ error: "Dados invalidos. Faca login novamente e cadastre um endereco." });
       } else {
         res.status(500).json({ error: "Erro ao criar pedido" });
@@ -938,36 +1914,24 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/orders/:orderId/items/:itemId/ingredients", async (req, res) => {
+  // Extra ingredient used on top of (or instead of) the recipe
+  app.post("/api/orders/:orderId/items/:itemId/ingredients", requireRole('admin', 'kitchen'), async (req, res) => {
     try {
       const { orderId, itemId } = req.params;
-      const { ingredientProductId, quantity, shouldDeductStock } = req.body;
+      const { ingredientProductId, shouldDeductStock } = req.body;
+      const quantity = parseInt(req.body.quantity);
       
-      if (!ingredientProductId || !quantity) {
+      if (!ingredientProductId || !Number.isInteger(quantity) || quantity < 1) {
         return res.status(400).json({ error: "ingredientProductId and quantity required" });
       }
       
-      const ingredient = await storage.createPreparationIngredient({
+      const ingredient = await storage.addPreparationIngredient({
         orderItemId: itemId,
-        ingredientProductId,
-        quantity: parseInt(quantity)
-      });
-      
-      // Only deduct stock if shouldDeductStock is true
-      if (shouldDeductStock !== false) {
-        const product = await storage.getProduct(ingredientProductId);
-        if (product) {
-          const newStock = Math.max(0, product.stock - quantity);
-          await storage.updateProduct(ingredientProductId, { stock: newStock });
-          await storage.createStockLog({
-            productId: ingredientProductId,
-            previousStock: product.stock,
-            newStock,
-            change: -quantity,
-            reason: `Ingredient used in order ${orderId}`
-          });
-        }
-      }
+        ingredientProductId,
+        quantity,
+        source: 'manual',
+        stockDeducted: shouldDeductStock !== false,
+      }, `Ingrediente pedido #${orderId.slice(0, 8)}`);
       
       res.json(ingredient);
     } catch (error: any) {
@@ -975,9 +1939,31 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/orders/:orderId/items/:itemId/ingredients", async (req, res) => {
+  // Kitchen override of a recipe (or manual) line: the stock it took goes back
+  app.delete("/api/orders/:orderId/items/:itemId/ingredients/:ingredientId", requireRole('admin', 'kitchen'), async (req, res) => {
+    try {
+      const { orderId, itemId, ingredientId } = req.params;
+      const items = await storage.getOrderItems(orderId);
+      const ingredients = items.some(item => item.id === itemId) ? await storage.getPreparationIngredients(itemId) : [];
+      if (!ingredients.some(ingredient => ingredient.id === ingredientId)) {
+        return res.status(404).json({ error: "Ingrediente nao encontrado" });
+      }
+
+      await storage.removePreparationIngredient(ingredientId, `Ingrediente removido pedido #${orderId.slice(0, 8)}`);
+      res.status(204).send();
+    } catch (error: any) {
+      res.status(500).json({ error: "Erro ao remover ingrediente" });
+    }
+  });
+
+  app.get("/api/orders/:orderId/items/:itemId/ingredients", requireAuth, async (req, res) => {
     try {
-      const { itemId } = req.params;
+      const { orderId, itemId } = req.params;
+      const order = await storage.getOrder(orderId);
+      if (!order) return res.status(404).json({ error: "Order not found" });
+      if (!(await canAccessOrder(req, order))) {
+        return res.status(403).json({ error: "Acesso negado" });
+      }
       const ingredients = await storage.getPreparationIngredients(itemId);
       const enriched = await Promise.all(
         ingredients.map(async (ing) => {
@@ -991,11 +1977,22 @@ export async function registerRoutes(
     }
   });
 
-  app.patch("/api/orders/:id/status", async (req, res) => {
+  app.patch("/api/orders/:id/status", requireRole('admin', 'kitchen', 'pdv', 'motoboy'), async (req, res) => {
     const { status } = req.body;
     const order = await storage.getOrder(req.params.id);
     if (!order) return res.status(404).json({ error: "Order not found" });
 
+    // Motoboys only confirm arrival/delivery of their own assignments
+    if (req.currentUser!.role === 'motoboy') {
+      if (!(await canAccessOrder(req, order)) || (status !== 'arrived' && status !== 'delivered')) {
+        return res.status(403).json({ error: "Acesso negado" });
+      }
+    }
+
+    if (status === 'cancelled' && !hasPermission(req.currentUser, 'orders:cancel')) {
+      return res.status(403).json({ error: "Sem permissao para cancelar pedidos" });
+    }
+
     const transitionResult = await isValidStatusTransition(order.status, status, order.orderType, req.params.id);
     if (!transitionResult.valid) {
       return res.status(400).json({ 
@@ -1005,8 +2002,11 @@ export async function registerRoutes(
       });
     }
 
-    // Note: Preparation ingredients are optional - products can be marked as ready without them
-    // This prevents interruption in the order flow
+    // Only holds orders the kitchen hasn't started; one already in production is finished normally
+    const startsProduction = status === 'preparing' || (status === 'ready' && order.status !== 'preparing');
+    if (startsProduction && isHeldForPayment(order, await storage.getSettings())) {
+      return res.status(409).json({ error: "Aguardando confirmacao do pagamento PIX", code: "payment_pending" });
+    }
 
     const updates: Partial<typeof order> = { status };
     const now = new Date();
@@ -1028,51 +2028,304 @@ export async function registerRoutes(
         updates.arrivedAt = now;
         break;
       case "delivered":
+        // Alcohol is only handed over once the ID was seen; the client sends the confirmation with the status
+        if (order.idCheckRequired && !order.idCheckedAt) {
+          if (req.body.idChecked !== true) {
+            return res.status(409).json({ error: "Confira o documento do cliente (18+) antes de entregar", code: "id_check_required" });
+          }
+          updates.idCheckedAt = now;
+          updates.idCheckedBy = req.currentUser!.id;
+        }
         updates.deliveredAt = now;
         break;
       case "cancelled":
-        // Restore stock for cancelled orders (only for non-prepared products)
-        const orderItems = await storage.getOrderItems(req.params.id);
-        const allCategories = await storage.getCategories();
-        const preparedCatNames = ['doses', 'caipirinhas', 'batidas', 'drinks especiais', 'copao'];
-        const preparedCatIds = new Set(
-          allCategories.filter(c => preparedCatNames.some(name => c.name.toLowerCase().includes(name.toLowerCase()))).map(c => c.id)
-        );
-        
-        for (const item of orderItems) {
-          const product = await storage.getProduct(item.productId);
-          if (product) {
-            const isPreparedProd = product.isPrepared || preparedCatIds.has(product.categoryId);
-            
-            // Only restore stock for non-prepared products
-            if (!isPreparedProd) {
-              const previousStock = product.stock;
-              const newStock = previousStock + item.quantity;
-              await storage.updateProduct(item.productId, { stock: newStock });
-              
-              // Log the stock restoration
-              await storage.createStockLog({
-                productId: item.productId,
-                previousStock,
-                newStock,
-                change: item.quantity,
-                reason: `Cancelamento pedido #${req.params.id.slice(0, 8)}`,
-              });
-            }
-          }
-        }
+        await restoreOrderStock(req.params.id);
         break;
     }
 
-    const updated = await storage.updateOrder(req.params.id, updates);
+    let updated = await storage.updateOrder(req.params.id, updates);
+    const refund = status === 'cancelled' ? await refundCancelledOrder(req, order, 'Pedido cancelado') : undefined;
+    if (refund) updated = refund.order;
+
+    // Recipes come out of stock when the kitchen starts (or, for orders that skip
+    // preparing, finishes) the order; a failure here must not undo the status change
+    if (status === 'preparing' || status === 'ready') {
+      try {
+        await storage.applyRecipes(order.id);
+      } catch (error) {
+        console.error("Error applying recipes:", error);
+      }
+    }
+
+    await recordAudit(req, {
+      action: 'order.status_changed',
+      entityType: 'order',
+      entityId: order.id,
+      before: { status: order.status },
+      after: refund ? { status, paymentStatus: refund.order.paymentStatus, refunded: refund.payment?.amount ?? null } : { status },
+    });
     
-    // Broadcast status change to all connected clients
-    broadcastOrderUpdate('order_status_changed', { orderId: req.params.id, status, previousStatus: order.status });
+    broadcastOrderUpdate('order_status_changed', {
+      orderId: req.params.id,
+      status,
+      previousStatus: order.status,
+      orderType: order.orderType,
+      customerName: order.customerName,
+    }, orderChannels(order));
     
     res.json(updated);
   });
 
-  app.patch("/api/orders/:id/assign", async (req, res) => {
+  // Ledger of several orders at once, for revenue by the tender actually used
+  app.get("/api/payments", requirePermission('finance:read'), async (req, res) => {
+    const orderIds = typeof req.query.orderIds === 'string'
+      ? req.query.orderIds.split(',').map(id => id.trim()).filter(id => id)
+      : [];
+    res.json(await storage.getPaymentsByOrderIds(orderIds));
+  });
+
+  app.get("/api/orders/:id/payments", requireRole('admin', 'pdv', 'motoboy'), async (req, res) => {
+    const order = await storage.getOrder(req.params.id);
+    if (!order) return res.status(404).json({ error: "Order not found" });
+    if (!(await canAccessOrder(req, order))) return res.status(403).json({ error: "Acesso negado" });
+    res.json(await storage.getPayments(order.id));
+  });
+
+  // Staff settling an order by hand (cash on delivery, card machine) or giving money back.
+  // Without an amount, a payment covers what is still due and a refund returns everything paid.
+  app.post("/api/orders/:id/payments", requireRole('admin', 'pdv', 'motoboy'), async (req, res) => {
+    const order = await storage.getOrder(req.params.id);
+    if (!order) return res.status(404).json({ error: "Order not found" });
+    if (!(await canAccessOrder(req, order))) return res.status(403).json({ error: "Acesso negado" });
+
+    const kind = req.body.kind === 'refund' ? 'refund' : 'payment';
+    if (kind === 'refund' && !hasPermission(req.currentUser, 'orders:cancel')) {
+      return res.status(403).json({ error: "Sem permissao para estornar pagamentos" });
+    }
+    if (kind === 'payment' && order.status === 'cancelled') {
+      return res.status(400).json({ error: "Pedido cancelado" });
+    }
+
+    const ledger = await storage.getPayments(order.id);
+    const amount = req.body.amount === undefined || req.body.amount === null || req.body.amount === ''
+      ? (kind === 'payment' ? amountDue(Number(order.total), ledger) : netPaid(ledger))
+      : Number(req.body.amount);
+    if (!Number.isFinite(amount) || amount <= 0) {
+      return res.status(400).json({ error: kind === 'payment' ? "Nada a receber neste pedido" : "Nada a estornar neste pedido" });
+    }
+    // What a split sale still owes is its PIX part; the other tenders were taken at the counter
+    const fallbackMethod = order.paymentMethod === 'split' && kind === 'payment' ? 'pix' : order.paymentMethod;
+    const method = req.body.method in PAYMENT_METHOD_LABELS ? req.body.method : fallbackMethod;
+
+    try {
+      const result = await storage.recordPayment({
+        orderId: order.id,
+        kind,
+        method,
+        amount: amount.toFixed(2),
+        recordedBy: req.currentUser!.id,
+        notes: typeof req.body.notes === 'string' ? req.body.notes.trim().slice(0, 500) || null : null,
+      });
+      if (!result) return res.status(404).json({ error: "Order not found" });
+      await announcePayment(req, result);
+      res.status(201).json(result.order);
+    } catch (error) {
+      if (error instanceof PaymentRejectedError) {
+        return res.status(409).json({ error: error.message, code: "payment_rejected" });
+      }
+      console.error("Error recording payment:", error);
+      res.status(500).json({ error: "Erro ao registrar pagamento" });
+    }
+  });
+
+  // Gateways confirm payments here; each provider authenticates its own requests
+  app.post("/api/payments/webhooks/:provider", async (req, res) => {
+    const provider = paymentProvider(req.params.provider);
+    if (!provider) return res.status(404).json({ error: "Provedor desconhecido" });
+
+    try {
+      const notice = provider.parseWebhook(req);
+      const order = notice.txid
+        ? await storage.getOrderByPixTxid(notice.txid)
+        : await storage.getOrder(notice.orderId!);
+      if (!order) return res.status(404).json({ error: "Order not found" });
+
+      const result = await storage.recordPayment({
+        orderId: order.id,
+        kind: notice.kind,
+        method: notice.method ?? order.paymentMethod,
+        amount: notice.amount.toFixed(2),
+        provider: provider.name,
+        providerReference: notice.reference,
+      });
+      if (!result) return res.status(404).json({ error: "Order not found" });
+      await announcePayment(req, result);
+      res.json({ received: true, duplicate: !result.payment, paymentStatus: result.order.paymentStatus });
+    } catch (error) {
+      if (error instanceof PaymentWebhookError) return res.status(error.status).json({ error: error.message });
+      if (error instanceof PaymentRejectedError) return res.status(409).json({ error: error.message });
+      console.error("Error handling payment webhook:", error);
+      res.status(500).json({ error: "Erro ao processar notificacao de pagamento" });
+    }
+  });
+
+  // The logged-in operator's open till with its running totals, or null before opening one
+  app.get("/api/cash-sessions/current", requireRole('admin', 'pdv'), async (req, res) => {
+    const session = await storage.getOpenCashSession(req.currentUser!.id);
+    if (!session) return res.json(null);
+    const [report] = await storage.getCashSessionReports([session]);
+    res.json(report);
+  });
+
+  // Closing reports by opening date; the last 30 days unless a range is given
+  app.get("/api/cash-sessions", requirePermission('finance:read'), async (req, res) => {
+    const date = (value: unknown) => {
+      const parsed = typeof value === 'string' && value.trim() ? new Date(value) : undefined;
+      return parsed && !isNaN(parsed.getTime()) ? parsed : undefined;
+    };
+    const to = date(req.query.to);
+    // to=2024-05-01 includes that whole day
+    if (to && /^\d{4}-\d{2}-\d{2}$/.test(String(req.query.to))) to.setUTCHours(23, 59, 59, 999);
+    const from = date(req.query.from) ?? new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
+    res.json(await storage.getCashSessionReports(await storage.getCashSessions(from, to)));
+  });
+
+  app.get("/api/cash-sessions/:id", requireStaff, async (req, res) => {
+    const session = await storage.getCashSession(req.params.id);
+    if (!session) return res.status(404).json({ error: "Caixa nao encontrado" });
+    if (!canReadCashSession(req, session)) return res.status(403).json({ error: "Acesso negado" });
+    const [report] = await storage.getCashSessionReports([session]);
+    res.json(report);
+  });
+
+  app.post("/api/cash-sessions", requireRole('admin', 'pdv'), async (req, res) => {
+    try {
+      const openingFloat = parseOpeningFloat(req.body.openingFloat);
+      const session = await storage.openCashSession({
+        operatorId: req.currentUser!.id,
+        openingFloat: openingFloat.toFixed(2),
+      });
+      await recordAudit(req, {
+        action: 'cash_session.opened',
+        entityType: 'cash_session',
+        entityId: session.id,
+        after: { openingFloat: session.openingFloat },
+      });
+      const [report] = await storage.getCashSessionReports([session]);
+      res.status(201).json(report);
+    } catch (error) {
+      if (error instanceof CashRegisterError) return res.status(400).json({ error: error.message });
+      if (error instanceof CashSessionError) return res.status(409).json({ error: error.message, code: "cash_session" });
+      console.error("Error opening cash session:", error);
+      res.status(500).json({ error: "Erro ao abrir o caixa" });
+    }
+  });
+
+  // Sangria or suprimento, always with a reason
+  app.post("/api/cash-sessions/:id/movements", requireRole('admin', 'pdv'), async (req, res) => {
+    try {
+      const session = await storage.getCashSession(req.params.id);
+      if (!session) return res.status(404).json({ error: "Caixa nao encontrado" });
+      if (!canManageCashSession(req, session)) return res.status(403).json({ error: "Acesso negado" });
+
+      const { kind, amount, reason } = parseCashMovement(req.body);
+      const movement = await storage.addCashMovement({
+        sessionId: session.id,
+        kind,
+        amount: amount.toFixed(2),
+        reason,
+        recordedBy: req.currentUser!.id,
+      });
+      if (!movement) return res.status(404).json({ error: "Caixa nao encontrado" });
+      await recordAudit(req, {
+        action: 'cash_session.movement_recorded',
+        entityType: 'cash_session',
+        entityId: session.id,
+        after: { kind, amount: movement.amount, reason },
+      });
+      const [report] = await storage.getCashSessionReports([session]);
+      res.status(201).json(report);
+    } catch (error) {
+      if (error instanceof CashRegisterError) return res.status(400).json({ error: error.message });
+      if (error instanceof CashSessionError) return res.status(409).json({ error: error.message, code: "cash_session" });
+      console.error("Error recording cash movement:", error);
+      res.status(500).json({ error: "Erro ao registrar movimentacao" });
+    }
+  });
+
+  // The operator counts the drawer; the expected amount and the variance are frozen with the closing
+  app.post("/api/cash-sessions/:id/close", requireRole('admin', 'pdv'), async (req, res) => {
+    try {
+      const session = await storage.getCashSession(req.params.id);
+      if (!session) return res.status(404).json({ error: "Caixa nao encontrado" });
+      if (!canManageCashSession(req, session)) return res.status(403).json({ error: "Acesso negado" });
+
+      const { countedCash, notes } = parseCashClosing(req.body);
+      const closed = await storage.closeCashSession(session.id, { countedCash, notes, closedBy: req.currentUser!.id });
+      if (!closed) return res.status(404).json({ error: "Caixa nao encontrado" });
+      const [report] = await storage.getCashSessionReports([closed]);
+      await recordAudit(req, {
+        action: 'cash_session.closed',
+        entityType: 'cash_session',
+        entityId: closed.id,
+        after: { expectedCash: closed.expectedCash, countedCash: closed.countedCash, variance: report.totals.variance },
+      });
+      res.json(report);
+    } catch (error) {
+      if (error instanceof CashRegisterError) return res.status(400).json({ error: error.message });
+      if (error instanceof CashSessionError) return res.status(409).json({ error: error.message, code: "cash_session" });
+      console.error("Error closing cash session:", error);
+      res.status(500).json({ error: "Erro ao fechar o caixa" });
+    }
+  });
+
+  // The customer could not show an ID or is under 18: nothing is handed over, the order is
+  // cancelled and whatever was paid goes back through the ledger
+  app.post("/api/orders/:id/id-check-refusal", requireRole('admin', 'kitchen', 'pdv', 'motoboy'), async (req, res) => {
+    try {
+      const order = await storage.getOrder(req.params.id);
+      if (!order) return res.status(404).json({ error: "Order not found" });
+      if (!(await canAccessOrder(req, order))) return res.status(403).json({ error: "Acesso negado" });
+      if (!canRefuseHandOver(req.currentUser, order)) {
+        return res.status(403).json({ error: "Sem permissao para esta acao" });
+      }
+      // Only at the door or the counter: ready for pickup, out for delivery or arrived
+      const atHandOver = order.status === 'ready' || order.status === 'dispatched' || order.status === 'arrived';
+      if (!order.idCheckRequired || order.idCheckedAt || !atHandOver) {
+        return res.status(400).json({ error: "Este pedido nao aguarda conferencia de documento" });
+      }
+
+      const reason = parseRefusalReason(req.body.reason);
+      await restoreOrderStock(order.id);
+      let updated = await storage.updateOrder(order.id, { status: 'cancelled', idCheckRefusalReason: reason });
+      const refund = await refundCancelledOrder(req, order, `Entrega recusada: ${reason}`);
+      if (refund) updated = refund.order;
+
+      await recordAudit(req, {
+        action: 'order.id_check_refused',
+        entityType: 'order',
+        entityId: order.id,
+        before: { status: order.status, paymentStatus: order.paymentStatus },
+        after: { status: 'cancelled', reason, paymentStatus: updated?.paymentStatus, refunded: refund?.payment?.amount ?? null },
+      });
+
+      broadcastOrderUpdate('order_status_changed', {
+        orderId: order.id,
+        status: 'cancelled',
+        previousStatus: order.status,
+        orderType: order.orderType,
+        customerName: order.customerName,
+      }, orderChannels(order));
+
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof AgeVerificationError) return res.status(400).json({ error: error.message });
+      console.error("Error refusing order hand-over:", error);
+      res.status(500).json({ error: "Erro ao registrar recusa" });
+    }
+  });
+
+  app.patch("/api/orders/:id/assign", requireRole('admin'), async (req, res) => {
     const { motoboyId } = req.body;
     const order = await storage.getOrder(req.params.id);
     if (!order) return res.status(404).json({ error: "Order not found" });
@@ -1095,27 +2348,108 @@ export async function registerRoutes(
       status: "dispatched",
       dispatchedAt: new Date()
     });
+    await recordAudit(req, {
+      action: 'order.motoboy_assigned',
+      entityType: 'order',
+      entityId: order.id,
+      before: { status: order.status, motoboyId: order.motoboyId },
+      after: { status: 'dispatched', motoboyId },
+    });
     
-    // Broadcast motoboy assignment to all connected clients
-    broadcastOrderUpdate('order_assigned', { orderId: req.params.id, motoboyId, status: 'dispatched' });
+    broadcastOrderUpdate('order_assigned', { orderId: req.params.id, motoboyId, status: 'dispatched' }, orderChannels({ ...order, motoboyId }));
     
     res.json(updated);
   });
 
-  app.get("/api/orders/:id/items", async (req, res) => {
+  app.get("/api/orders/:id/items", requireAuth, async (req, res) => {
+    const order = await storage.getOrder(req.params.id);
+    if (!order) return res.status(404).json({ error: "Order not found" });
+    if (!(await canAccessOrder(req, order))) {
+      return res.status(403).json({ error: "Acesso negado" });
+    }
     const items = await storage.getOrderItems(req.params.id);
     res.json(items);
   });
 
-  app.delete("/api/orders/:id", async (req, res) => {
+  // Takes some items off a live order (out of stock, customer changed their mind) instead of cancelling it.
+  // Totals are recomputed, shelf stock comes back and anything paid above the new total is refunded.
+  app.post("/api/orders/:id/item-cancellations", requireRole('admin', 'kitchen', 'pdv'), requirePermission('orders:cancel'), async (req, res) => {
     const order = await storage.getOrder(req.params.id);
     if (!order) return res.status(404).json({ error: "Order not found" });
-    
-    await storage.deleteOrder(req.params.id);
-    
-    broadcastOrderUpdate('order_deleted', { orderId: req.params.id });
-    
-    res.status(204).send();
+    if (!(await canAccessOrder(req, order))) return res.status(403).json({ error: "Acesso negado" });
+
+    try {
+      const { lines, reason } = parseItemCancellation(req.body);
+      const result = await storage.cancelOrderItems(order.id, lines, reason, req.currentUser!.id);
+      if (!result) return res.status(404).json({ error: "Order not found" });
+      const { order: updated, cancellations, refund, previousTotal, previousStatus } = result;
+
+      const removed = cancellations.map(c => ({ productName: c.productName, quantity: c.quantity, amount: c.amount }));
+      await recordAudit(req, {
+        action: 'order.items_cancelled',
+        entityType: 'order',
+        entityId: updated.id,
+        before: { total: previousTotal, discount: order.discount, couponCode: order.couponCode, paymentStatus: previousStatus },
+        after: {
+          total: updated.total,
+          discount: updated.discount,
+          couponCode: updated.couponCode,
+          paymentStatus: updated.paymentStatus,
+          items: removed,
+          reason,
+          refund: refund?.amount ?? null,
+        },
+      });
+      if (refund) await announcePayment(req, { order: updated, payment: refund, previousStatus });
+      broadcastOrderUpdate('order_items_cancelled', {
+        orderId: updated.id,
+        items: removed.map(({ productName, quantity }) => ({ productName, quantity })),
+        reason,
+        previousTotal,
+        newTotal: updated.total,
+        refundAmount: refund?.amount ?? null,
+        orderType: updated.orderType,
+      }, orderChannels(updated));
+
+      res.status(201).json({ order: updated, cancellations, refund });
+    } catch (error) {
+      if (error instanceof ItemCancellationError) return res.status(400).json({ error: error.message });
+      if (error instanceof ItemCancellationRejectedError) {
+        return res.status(409).json({ error: error.message, code: "item_cancellation" });
+      }
+      console.error("Error cancelling order items:", error);
+      res.status(500).json({ error: "Erro ao remover itens do pedido" });
+    }
+  });
+
+  app.delete("/api/orders/:id", requireRole('admin'), requirePermission('orders:cancel'), async (req, res) => {
+    try {
+      const order = await storage.getOrder(req.params.id);
+      if (!order) return res.status(404).json({ error: "Order not found" });
+      
+      await storage.deleteOrder(req.params.id);
+      await recordAudit(req, {
+        action: 'order.deleted',
+        entityType: 'order',
+        entityId: order.id,
+        before: {
+          status: order.status,
+          orderType: order.orderType,
+          customerName: order.customerName,
+          userId: order.userId,
+          total: order.total,
+          paymentMethod: order.paymentMethod,
+          createdAt: order.createdAt,
+        },
+      });
+      
+      broadcastOrderUpdate('order_deleted', { orderId: req.params.id }, orderChannels(order));
+      
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting order:", error);
+      res.status(500).json({ error: "Erro ao excluir pedido" });
+    }
   });
 
   app.get("/api/banners", async (_req, res) => {
@@ -1129,36 +2463,206 @@ export async function registerRoutes(
     res.json(banner);
   });
 
-  app.post("/api/banners", async (req, res) => {
+  app.post("/api/banners", requireRole('admin'), async (req, res) => {
     const banner = await storage.createBanner(req.body);
     res.status(201).json(banner);
   });
 
-  app.patch("/api/banners/:id", async (req, res) => {
+  app.patch("/api/banners/:id", requireRole('admin'), async (req, res) => {
     const banner = await storage.updateBanner(req.params.id, req.body);
     if (!banner) return res.status(404).json({ error: "Banner not found" });
     res.json(banner);
   });
 
-  app.delete("/api/banners/:id", async (req, res) => {
+  app.delete("/api/banners/:id", requireRole('admin'), async (req, res) => {
     const deleted = await storage.deleteBanner(req.params.id);
     if (!deleted) return res.status(404).json({ error: "Banner not found" });
     res.status(204).send();
   });
 
-  app.get("/api/motoboys", async (_req, res) => {
+  // Storefront: only the combos that can be ordered right now
+  app.get("/api/combo-templates", async (_req, res) => {
+    const templates = await storage.getComboTemplates();
+    const now = new Date();
+    res.json(templates.filter(template => isComboTemplateAvailable(template, now)));
+  });
+
+  app.get("/api/combo-templates/all", requireRole('admin'), async (_req, res) => {
+    const templates = await storage.getComboTemplates();
+    res.json(templates);
+  });
+
+  app.post("/api/combo-templates", requireRole('admin'), async (req, res) => {
+    try {
+      const data = parseComboTemplateInput(req.body);
+      const template = await storage.createComboTemplate(data as InsertComboTemplate);
+      res.status(201).json(template);
+    } catch (error) {
+      if (error instanceof ComboTemplateError) return res.status(400).json({ error: error.message });
+      console.error("Error creating combo template:", error);
+      res.status(500).json({ error: "Erro ao criar combo" });
+    }
+  });
+
+  app.patch("/api/combo-templates/:id", requireRole('admin'), async (req, res) => {
+    try {
+      const existing = await storage.getComboTemplate(req.params.id);
+      if (!existing) return res.status(404).json({ error: "Combo nao encontrado" });
+
+      const updates = parseComboTemplateInput(req.body, true);
+      const startsAt = updates.startsAt !== undefined ? updates.startsAt : existing.startsAt;
+      const endsAt = updates.endsAt !== undefined ? updates.endsAt : existing.endsAt;
+      if (startsAt && endsAt && startsAt >= endsAt) {
+        return res.status(400).json({ error: "A data de fim deve ser depois do inicio" });
+      }
+
+      const template = await storage.updateComboTemplate(req.params.id, updates);
+      res.json(template);
+    } catch (error) {
+      if (error instanceof ComboTemplateError) return res.status(400).json({ error: error.message });
+      console.error("Error updating combo template:", error);
+      res.status(500).json({ error: "Erro ao atualizar combo" });
+    }
+  });
+
+  app.delete("/api/combo-templates/:id", requireRole('admin'), async (req, res) => {
+    const deleted = await storage.deleteComboTemplate(req.params.id);
+    if (!deleted) return res.status(404).json({ error: "Combo nao encontrado" });
+    res.status(204).send();
+  });
+
+  // Storefront and PDV: groups the admin switched on
+  app.get("/api/modifier-groups", async (_req, res) => {
+    const groups = await storage.getModifierGroups();
+    res.json(groups.filter(group => group.isActive));
+  });
+
+  app.get("/api/modifier-groups/all", requireRole('admin'), async (_req, res) => {
+    const groups = await storage.getModifierGroups();
+    res.json(groups);
+  });
+
+  app.post("/api/modifier-groups", requireRole('admin'), async (req, res) => {
+    try {
+      const data = parseModifierGroupInput(req.body);
+      const group = await storage.createModifierGroup(data as InsertModifierGroup);
+      res.status(201).json(group);
+    } catch (error) {
+      if (error instanceof ModifierGroupError) return res.status(400).json({ error: error.message });
+      console.error("Error creating modifier group:", error);
+      res.status(500).json({ error: "Erro ao criar grupo de adicionais" });
+    }
+  });
+
+  app.patch("/api/modifier-groups/:id", requireRole('admin'), async (req, res) => {
+    try {
+      const updates = parseModifierGroupInput(req.body, true);
+      const group = await storage.updateModifierGroup(req.params.id, updates);
+      if (!group) return res.status(404).json({ error: "Grupo de adicionais nao encontrado" });
+      res.json(group);
+    } catch (error) {
+      if (error instanceof ModifierGroupError) return res.status(400).json({ error: error.message });
+      console.error("Error updating modifier group:", error);
+      res.status(500).json({ error: "Erro ao atualizar grupo de adicionais" });
+    }
+  });
+
+  app.delete("/api/modifier-groups/:id", requireRole('admin'), async (req, res) => {
+    const deleted = await storage.deleteModifierGroup(req.params.id);
+    if (!deleted) return res.status(404).json({ error: "Grupo de adicionais nao encontrado" });
+    res.status(204).send();
+  });
+
+  // Prices the cart as POST /api/orders would, so the customer sees the coupon before ordering
+  app.post("/api/coupons/validate", requireAuth, async (req, res) => {
+    try {
+      const current = req.currentUser!;
+      const orderType = req.body.orderType || 'delivery';
+      if (orderType === 'counter' && current.role !== 'pdv' && current.role !== 'admin') {
+        return res.status(403).json({ error: "Acesso negado" });
+      }
+      if (!req.body.couponCode) return res.status(400).json({ error: "Informe o codigo do cupom" });
+
+      const pricing = await priceOrder({
+        orderType,
+        userId: current.id,
+        addressId: req.body.addressId,
+        items: req.body.items,
+        combos: req.body.combos,
+        discount: req.body.discount,
+        couponCode: req.body.couponCode,
+      });
+      res.json(pricing);
+    } catch (error) {
+      if (error instanceof OrderPricingError) return res.status(400).json({ error: error.message });
+      console.error("Error validating coupon:", error);
+      res.status(500).json({ error: "Erro ao validar cupom" });
+    }
+  });
+
+  app.get("/api/coupons", requireRole('admin'), async (_req, res) => {
+    const coupons = await storage.getCoupons();
+    res.json(coupons);
+  });
+
+  app.post("/api/coupons", requireRole('admin'), async (req, res) => {
+    try {
+      const data = parseCouponInput(req.body);
+      const coupon = await storage.createCoupon(data as InsertCoupon);
+      res.status(201).json(coupon);
+    } catch (error: any) {
+      if (error instanceof CouponError) return res.status(400).json({ error: error.message });
+      if (error.code === '23505') return res.status(409).json({ error: "Ja existe um cupom com este codigo" });
+      console.error("Error creating coupon:", error);
+      res.status(500).json({ error: "Erro ao criar cupom" });
+    }
+  });
+
+  app.patch("/api/coupons/:id", requireRole('admin'), async (req, res) => {
+    try {
+      const existing = await storage.getCoupon(req.params.id);
+      if (!existing) return res.status(404).json({ error: "Cupom nao encontrado" });
+
+      const updates = parseCouponInput(req.body, true);
+      const startsAt = updates.startsAt !== undefined ? updates.startsAt : existing.startsAt;
+      const endsAt = updates.endsAt !== undefined ? updates.endsAt : existing.endsAt;
+      if (startsAt && endsAt && startsAt >= endsAt) {
+        return res.status(400).json({ error: "A data de fim deve ser depois do inicio" });
+      }
+
+      const coupon = await storage.updateCoupon(req.params.id, updates);
+      res.json(coupon);
+    } catch (error: any) {
+      if (error instanceof CouponError) return res.status(400).json({ error: error.message });
+      if (error.code === '23505') return res.status(409).json({ error: "Ja existe um cupom com este codigo" });
+      console.error("Error updating coupon:", error);
+      res.status(500).json({ error: "Erro ao atualizar cupom" });
+    }
+  });
+
+  app.delete("/api/coupons/:id", requireRole('admin'), async (req, res) => {
+    const existing = await storage.getCoupon(req.params.id);
+    if (!existing) return res.status(404).json({ error: "Cupom nao encontrado" });
+    const deleted = await storage.deleteCoupon(req.params.id);
+    if (!deleted) {
+      return res.status(409).json({ error: "Cupom ja utilizado em pedidos; desative-o em vez de excluir" });
+    }
+    res.status(204).send();
+  });
+
+  app.get("/api/motoboys", requireAuth, async (_req, res) => {
     const motoboys = await storage.getMotoboys();
     res.json(motoboys);
   });
 
-  app.get("/api/motoboys/:id", async (req, res) => {
+  app.get("/api/motoboys/:id", requireAuth, async (req, res) => {
     const motoboy = await storage.getMotoboy(req.params.id);
     if (!motoboy) return res.status(404).json({ error: "Motoboy not found" });
     res.json(motoboy);
   });
 
   // Get motoboy with linked user data (for admin view)
-  app.get("/api/motoboys/:id/details", async (req, res) => {
+  app.get("/api/motoboys/:id/details", requireRole('admin'), async (req, res) => {
     const motoboy = await storage.getMotoboy(req.params.id);
     if (!motoboy) return res.status(404).json({ error: "Motoboy not found" });
     
@@ -1173,7 +2677,7 @@ export async function registerRoutes(
   });
 
   // Get orders by motoboy for reports (admin)
-  app.get("/api/motoboys/:id/orders", async (req, res) => {
+  app.get("/api/motoboys/:id/orders", requireRole('admin'), async (req, res) => {
     const { id } = req.params;
     const { startDate, endDate } = req.query;
     
@@ -1196,7 +2700,7 @@ export async function registerRoutes(
     res.json(orders);
   });
 
-  app.post("/api/motoboys", async (req, res) => {
+  app.post("/api/motoboys", requireRole('admin'), async (req, res) => {
     const { name, whatsapp, photoUrl, isActive, password } = req.body;
     
     // Validate password if provided (must be 6 digits)
@@ -1237,7 +2741,7 @@ export async function registerRoutes(
     res.status(201).json(motoboy);
   });
 
-  app.patch("/api/motoboys/:id", async (req, res) => {
+  app.patch("/api/motoboys/:id", requireRole('admin'), async (req, res) => {
     const { name, whatsapp, photoUrl, isActive, password } = req.body;
     
     // Validate password if provided (must be 6 digits)
@@ -1294,7 +2798,7 @@ export async function registerRoutes(
     res.json(motoboy);
   });
 
-  app.delete("/api/motoboys/:id", async (req, res) => {
+  app.delete("/api/motoboys/:id", requireRole('admin'), async (req, res) => {
     const motoboy = await storage.getMotoboy(req.params.id);
     if (!motoboy) {
       return res.status(404).json({ error: "Motoboy not found" });
@@ -1315,7 +2819,7 @@ export async function registerRoutes(
   });
 
   // Batch update sort orders for categories
-  app.patch("/api/categories/reorder", async (req, res) => {
+  app.patch("/api/categories/reorder", requireRole('admin'), async (req, res) => {
     const { items } = req.body;
     if (!Array.isArray(items)) {
       return res.status(400).json({ error: "items array required" });
@@ -1335,7 +2839,7 @@ export async function registerRoutes(
   });
 
   // Batch update sort orders for products
-  app.patch("/api/products/reorder", async (req, res) => {
+  app.patch("/api/products/reorder", requireRole('admin'), async (req, res) => {
     const { items } = req.body;
     if (!Array.isArray(items)) {
       return res.status(400).json({ error: "items array required" });
@@ -1359,14 +2863,53 @@ export async function registerRoutes(
     res.json(settings || {});
   });
 
-  app.patch("/api/settings", async (req, res) => {
-    const settings = await storage.updateSettings(req.body);
+  // Open/closed as Header, Footer and Checkout show it; orders are held to the same answer
+  app.get("/api/store-status", async (_req, res) => {
+    try {
+      res.json(storeStatus(await storage.getSettings()));
+    } catch (error) {
+      res.status(500).json({ error: "Erro ao buscar horario de funcionamento" });
+    }
+  });
+
+  app.patch("/api/settings", requirePermission('settings:write'), async (req, res) => {
+    const updates = { ...req.body };
+    delete updates.alcoholFlagsReviewedAt;
+    try {
+      if (updates.openingHours !== undefined && updates.openingHours !== null) {
+        updates.openingHours = parseOpeningHoursInput(updates.openingHours);
+      }
+    } catch (error) {
+      if (error instanceof OpeningHoursError) return res.status(400).json({ error: error.message });
+      throw error;
+    }
+    if (updates.deliveryPricingMode !== undefined && !DELIVERY_PRICING_MODES.includes(updates.deliveryPricingMode)) {
+      return res.status(400).json({ error: "Modo de taxa de entrega invalido" });
+    }
+    if (updates.whatsapp !== undefined) {
+      updates.whatsapp = String(updates.whatsapp ?? '').replace(/\D/g, '') || null;
+    }
+    for (const field of ['pixMerchantName', 'pixMerchantCity'] as const) {
+      if (updates[field] === undefined) continue;
+      updates[field] = String(updates[field] ?? '').trim();
+      if (!updates[field]) return res.status(400).json({ error: "Informe nome e cidade do recebedor PIX" });
+    }
+
+    const previous = await storage.getSettings();
+    const settings = await storage.updateSettings(updates);
+    const change = previous ? diffFields(previous, updates) : { before: {}, after: updates };
+    if (change) {
+      await recordAudit(req, {
+        action: 'settings.updated',
+        entityType: 'settings',
+        entityId: settings.id,
+        ...change,
+      });
+    }
     res.json(settings);
   });
 
   // Supabase Storage Routes
-  // Direct file upload endpoint using server-side Supabase service role
-  // Requires admin or pdv role for security
   // Image proxy endpoint with cache headers to reduce egress
   app.get("/api/images/proxy", async (req, res) => {
     try {
@@ -1401,8 +2944,8 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/storage/upload", upload.single('file'), async (req, res) => {
-    const userId = req.headers['x-user-id'] as string | undefined;
+  // Direct file upload endpoint using server-side Supabase service role
+  app.post("/api/storage/upload", requireRole('admin', 'pdv'), upload.single('file'), async (req, res) => {
     const { folder = 'products' } = req.body;
     
     if (!req.file) {
@@ -1422,20 +2965,10 @@ export async function registerRoutes(
     }
   });
 
-  // Delete file from storage (requires admin role)
-  app.delete("/api/storage/delete", async (req, res) => {
-    const userId = req.headers['x-user-id'] as string | undefined;
+  // Delete file from storage
+  app.delete("/api/storage/delete", requireRole('admin', 'pdv'), async (req, res) => {
     const { path } = req.body;
     
-    if (!userId) {
-      return res.status(401).json({ error: "Unauthorized: User ID required" });
-    }
-    
-    const user = await storage.getUser(userId);
-    if (!user || (user.role !== 'admin' && user.role !== 'pdv')) {
-      return res.status(403).json({ error: "Forbidden: Admin access required" });
-    }
-    
     if (!path) {
       return res.status(400).json({ error: "Path is required" });
     }
@@ -1449,7 +2982,7 @@ export async function registerRoutes(
   });
 
   // Search for product images using Serper API
-  app.post("/api/search/images", async (req, res) => {
+  app.post("/api/search/images", requireRole('admin'), async (req, res) => {
     const { query } = req.body;
     
     if (!query || !query.trim()) {
@@ -1493,7 +3026,7 @@ export async function registerRoutes(
   });
 
   // Download image from external URL (with CORS handling)
-  app.post("/api/download-image", async (req, res) => {
+  app.post("/api/download-image", requireRole('admin'), async (req, res) => {
     const { imageUrl } = req.body;
     
     if (!imageUrl || !imageUrl.trim()) {
@@ -1549,18 +3082,7 @@ export async function registerRoutes(
   });
 
   // Clean old products folder in storage bucket
-  app.post("/api/storage/clean-products", async (req, res) => {
-    const userId = req.headers['x-user-id'] as string | undefined;
-    
-    if (!userId) {
-      return res.status(401).json({ error: "Unauthorized: User ID required" });
-    }
-    
-    const user = await storage.getUser(userId);
-    if (!user || (user.role !== 'admin' && user.role !== 'pdv')) {
-      return res.status(403).json({ error: "Forbidden: Admin access required" });
-    }
-
+  app.post("/api/storage/clean-products", requireRole('admin', 'pdv'), async (req, res) => {
     try {
       if (!supabaseAdmin) {
         return res.status(500).json({ error: "Supabase not configured" });
@@ -1595,7 +3117,7 @@ export async function registerRoutes(
   });
 
   // Update product image after upload
-  app.put("/api/products/:id/image", async (req, res) => {
+  app.put("/api/products/:id/image", requireRole('admin'), async (req, res) => {
     const { imageUrl } = req.body;
     if (!imageUrl) {
       return res.status(400).json({ error: "imageUrl is required" });
@@ -1610,32 +3132,17 @@ export async function registerRoutes(
   });
 
   // Prepared Products Sales Report - Revenue from prepared products
-  // Includes: isPrepared products, doses (Copos/Drinks), 
-  // Caipirinhas, Caipi Ices, and Drinks Especiais - these are prepared/mixed drinks
-  app.get("/api/prepared-products/sales", async (req, res) => {
+  // Includes isPrepared products and everything in categories flagged as prepared
+  app.get("/api/prepared-products/sales", requirePermission('finance:read'), async (req, res) => {
     try {
       const orders = await storage.getOrders();
       const orderItems = await storage.getAllOrderItems();
       const allProducts = await storage.getProducts();
       const categories = await storage.getCategories();
       
-      const categoryMap = new Map(categories.map(c => [c.id, c.name]));
+      const categoryById = new Map(categories.map(c => [c.id, c]));
       const productMap = new Map(allProducts.map(p => [p.id, p]));
       
-      // Categories that are prepared drinks/doses
-      const preparedCategoryPatterns = [
-        'copos', 'doses', 'copao', 'drinks', 'caipirinhas', 'drinks especiais', 'batidas'
-      ];
-      
-      // Build a set of category IDs for prepared products
-      const preparedCategoryIds = new Set(
-        categories
-          .filter(c => preparedCategoryPatterns.some(pattern => 
-            c.name.toLowerCase().includes(pattern)
-          ))
-          .map(c => c.id)
-      );
-      
       // Calculate revenue from prepared products
       let totalRevenue = 0;
       let totalQuantitySold = 0;
@@ -1645,10 +3152,7 @@ export async function registerRoutes(
         const product = productMap.get(item.productId);
         if (!product) return;
         
-        const isPrepared = product.isPrepared || false;
-        const isFromPreparedCategory = preparedCategoryIds.has(product.categoryId);
-        
-        if (isPrepared || isFromPreparedCategory) {
+        if (isPreparedProduct(product, categoryById.get(product.categoryId))) {
           const order = orders.find(o => o.id === item.orderId);
           if (order && order.status === 'delivered') {
             totalRevenue += parseFloat(item.totalPrice);
@@ -1670,43 +3174,28 @@ export async function registerRoutes(
   });
 
   // Stock Report - Complete inventory report with values, profits, and projections
-  // Excludes from value calculations: isPrepared products, doses (Copos/Drinks), 
-  // Caipirinhas, Caipi Ices, and Drinks Especiais - these are prepared/mixed drinks
-  app.get("/api/stock/report", async (req, res) => {
+  // Excludes from value calculations products that do not track stock (prepared
+  // products and categories with stock tracking turned off)
+  app.get("/api/stock/report", requireRole('admin'), async (req, res) => {
     try {
       const allProducts = await storage.getProducts();
       const categories = await storage.getCategories();
-      
-      const categoryMap = new Map(categories.map(c => [c.id, c.name]));
-      
-      // Categories that should be excluded from stock value calculations
-      // These are prepared drinks, doses, and mixed drinks
-      const excludedCategoryPatterns = [
-        'copos', 'doses', 'copao', 'drinks', 'caipirinhas', 'drinks especiais', 'batidas'
-      ];
-      
-      // Build a set of category IDs to exclude
-      const excludedCategoryIds = new Set(
-        categories
-          .filter(c => excludedCategoryPatterns.some(pattern => 
-            c.name.toLowerCase().includes(pattern)
-          ))
-          .map(c => c.id)
-      );
-      
-      const productDetails = allProducts.map(product => {
-        const costPrice = parseFloat(product.costPrice);
-        const salePrice = parseFloat(product.salePrice);
-        const profitMargin = parseFloat(product.profitMargin);
-        const stock = product.stock;
-        const isPrepared = product.isPrepared || false;
-        const categoryName = categoryMap.get(product.categoryId) || 'Sem categoria';
-        
-        // Check if product is in an excluded category (doses, drinks, caipirinhas)
-        const isExcludedCategory = excludedCategoryIds.has(product.categoryId);
+      const units = toStockUnits(allProducts, await storage.getProductVariants());
+      
+      const categoryById = new Map(categories.map(c => [c.id, c]));
+      
+      const productDetails = units.map(({ product, variant }) => {
+        const costPrice = sellableCostPrice({ product, variant });
+        const salePrice = sellableUnitPrice({ product, variant });
+        const profitMargin = variant
+          ? (costPrice > 0 ? ((salePrice - costPrice) / costPrice) * 100 : 0)
+          : parseFloat(product.profitMargin);
+        const stock = sellableStock({ product, variant });
+        const category = categoryById.get(product.categoryId);
+        const categoryName = category?.name || 'Sem categoria';
+        const isPrepared = isPreparedProduct(product, category);
         
-        // Exclude from stock value: prepared products OR products from excluded categories
-        const shouldExcludeFromValue = isPrepared || isExcludedCategory;
+        const shouldExcludeFromValue = !tracksProductStock(product, category);
         
         const totalCostValue = shouldExcludeFromValue ? 0 : costPrice * stock;
         const totalSaleValue = shouldExcludeFromValue ? 0 : salePrice * stock;
@@ -1714,8 +3203,11 @@ export async function registerRoutes(
         const totalPotentialProfit = shouldExcludeFromValue ? 0 : profitPerUnit * stock;
         
         return {
-          id: product.id,
-          name: product.name,
+          // Variant rows are keyed by the variant so each line stays unique
+          id: variant?.id ?? product.id,
+          productId: product.id,
+          variantId: variant?.id ?? null,
+          name: variantDisplayName(product, variant),
           categoryId: product.categoryId,
           categoryName,
           stock,
@@ -1739,7 +3231,7 @@ export async function registerRoutes(
       const summary = {
         totalProducts: allProducts.length,
         activeProducts: allProducts.filter(p => p.isActive).length,
-        preparedProducts: allProducts.filter(p => p.isPrepared).length,
+        preparedProducts: productDetails.filter(p => p.isPrepared).length,
         excludedFromValueCount: excludedProducts.length,
         totalUnitsInStock: stockProducts.reduce((sum, p) => sum + p.stock, 0),
         totalCostValue: stockProducts.reduce((sum, p) => sum + p.totalCostValue, 0),
@@ -1756,50 +3248,39 @@ export async function registerRoutes(
   });
 
   // Low Stock Suggestions (Shopping List) - Products with stock below threshold
-  // Excludes: isPrepared products, doses (Copos/Drinks), Caipirinhas, Caipi Ices, 
-  // Drinks Especiais - these are prepared items that don't need to be purchased
-  app.get("/api/stock/low-stock", async (req, res) => {
+  // Excludes products that do not track stock - prepared items are not purchased
+  app.get("/api/stock/low-stock", requireRole('admin'), async (req, res) => {
     try {
       const threshold = parseInt(req.query.threshold as string) || 10;
       const allProducts = await storage.getProducts();
       const categories = await storage.getCategories();
       
+      const categoryById = new Map(categories.map(c => [c.id, c]));
       const categoryMap = new Map(categories.map(c => [c.id, c.name]));
       
-      // Categories that should be excluded from shopping list
-      // These are prepared drinks, doses, and mixed drinks - not items you purchase
-      const excludedCategoryPatterns = [
-        'copos', 'doses', 'copao', 'drinks', 'caipirinhas', 'drinks especiais', 'batidas'
-      ];
-      
-      // Build a set of category IDs to exclude
-      const excludedCategoryIds = new Set(
-        categories
-          .filter(c => excludedCategoryPatterns.some(pattern => 
-            c.name.toLowerCase().includes(pattern)
-          ))
-          .map(c => c.id)
-      );
-      
-      const lowStockProducts = allProducts
-        .filter(p => {
-          // Exclude prepared products
-          if (p.isPrepared) return false;
-          // Exclude products from dose/drinks categories
-          if (excludedCategoryIds.has(p.categoryId)) return false;
+      const lowStockProducts = toStockUnits(allProducts, await storage.getProductVariants())
+        .filter(unit => {
+          if (!tracksProductStock(unit.product, categoryById.get(unit.product.categoryId))) return false;
           // Only include products below threshold
-          return p.stock < threshold;
+          return sellableStock(unit) < threshold;
+        })
+        .map(unit => {
+          const { product, variant } = unit;
+          const stock = sellableStock(unit);
+          const costPrice = sellableCostPrice(unit);
+          return {
+            id: variant?.id ?? product.id,
+            productId: product.id,
+            variantId: variant?.id ?? null,
+            name: variantDisplayName(product, variant),
+            categoryId: product.categoryId,
+            categoryName: categoryMap.get(product.categoryId) || 'Sem categoria',
+            currentStock: stock,
+            suggestedPurchase: Math.max(10 - stock, 5),
+            costPrice,
+            estimatedPurchaseCost: costPrice * Math.max(10 - stock, 5),
+          };
         })
-        .map(product => ({
-          id: product.id,
-          name: product.name,
-          categoryId: product.categoryId,
-          categoryName: categoryMap.get(product.categoryId) || 'Sem categoria',
-          currentStock: product.stock,
-          suggestedPurchase: Math.max(10 - product.stock, 5),
-          costPrice: parseFloat(product.costPrice),
-          estimatedPurchaseCost: parseFloat(product.costPrice) * Math.max(10 - product.stock, 5),
-        }))
         .sort((a, b) => a.currentStock - b.currentStock);
       
       const summary = {
@@ -1816,53 +3297,47 @@ export async function registerRoutes(
 
   // Shopping List with Category Selection - Allows filtering by selected categories
   // POST endpoint that accepts categoryIds and threshold to generate custom shopping list
-  app.post("/api/stock/shopping-list", async (req, res) => {
+  app.post("/api/stock/shopping-list", requireRole('admin'), async (req, res) => {
     try {
       const { categoryIds = [], threshold = 10 } = req.body;
       const allProducts = await storage.getProducts();
       const categories = await storage.getCategories();
       
+      const categoryById = new Map(categories.map(c => [c.id, c]));
       const categoryMap = new Map(categories.map(c => [c.id, c.name]));
       
-      // Categories that should ALWAYS be excluded from shopping list
-      // These are prepared drinks, doses, and mixed drinks - not items you purchase
-      const alwaysExcludedPatterns = [
-        'copos', 'doses', 'copao', 'drinks', 'caipirinhas', 'drinks especiais', 'batidas'
-      ];
-      
-      // Build a set of category IDs that are always excluded
-      const alwaysExcludedIds = new Set(
-        categories
-          .filter(c => alwaysExcludedPatterns.some(pattern => 
-            c.name.toLowerCase().includes(pattern)
-          ))
-          .map(c => c.id)
-      );
+      // Categories that do not track stock are never purchased
+      const alwaysExcludedIds = new Set(categories.filter(c => !categoryTracksStock(c)).map(c => c.id));
       
       // Build a set of selected category IDs (if any)
       const selectedCategoryIds = new Set(categoryIds.filter((id: string) => !alwaysExcludedIds.has(id)));
       
-      const shoppingListProducts = allProducts
-        .filter(p => {
-          // Always exclude prepared products
-          if (p.isPrepared) return false;
-          // Always exclude products from doses/drinks categories
-          if (alwaysExcludedIds.has(p.categoryId)) return false;
+      const shoppingListProducts = toStockUnits(allProducts, await storage.getProductVariants())
+        .filter(unit => {
+          const p = unit.product;
+          if (!tracksProductStock(p, categoryById.get(p.categoryId))) return false;
           // If categoryIds were specified, only include those
           if (selectedCategoryIds.size > 0 && !selectedCategoryIds.has(p.categoryId)) return false;
           // Only include products below threshold
-          return p.stock < threshold;
+          return sellableStock(unit) < threshold;
+        })
+        .map(unit => {
+          const { product, variant } = unit;
+          const stock = sellableStock(unit);
+          const costPrice = sellableCostPrice(unit);
+          return {
+            id: variant?.id ?? product.id,
+            productId: product.id,
+            variantId: variant?.id ?? null,
+            name: variantDisplayName(product, variant),
+            categoryId: product.categoryId,
+            categoryName: categoryMap.get(product.categoryId) || 'Sem categoria',
+            currentStock: stock,
+            suggestedPurchase: Math.max(10 - stock, 5),
+            costPrice,
+            estimatedPurchaseCost: costPrice * Math.max(10 - stock, 5),
+          };
         })
-        .map(product => ({
-          id: product.id,
-          name: product.name,
-          categoryId: product.categoryId,
-          categoryName: categoryMap.get(product.categoryId) || 'Sem categoria',
-          currentStock: product.stock,
-          suggestedPurchase: Math.max(10 - product.stock, 5),
-          costPrice: parseFloat(product.costPrice),
-          estimatedPurchaseCost: parseFloat(product.costPrice) * Math.max(10 - product.stock, 5),
-        }))
         .sort((a, b) => a.currentStock - b.currentStock);
       
       const summary = {
@@ -1892,11 +3367,15 @@ export async function registerRoutes(
     res.json(zone);
   });
 
-  app.post("/api/delivery-zones", async (req, res) => {
+  app.post("/api/delivery-zones", requirePermission('settings:write'), async (req, res) => {
     try {
-      const zone = await storage.createDeliveryZone(req.body);
+      const cepRanges = req.body.cepRanges !== undefined ? parseCepRangesInput(req.body.cepRanges) : [];
+      const zone = await storage.createDeliveryZone({ ...req.body, cepRanges });
       res.status(201).json(zone);
     } catch (error: any) {
+      if (error instanceof DeliveryAreaError) {
+        return res.status(400).json({ error: error.message });
+      }
       if (error.code === '23505') {
         return res.status(400).json({ error: "Codigo de zona ja existe" });
       }
@@ -1904,12 +3383,18 @@ export async function registerRoutes(
     }
   });
 
-  app.patch("/api/delivery-zones/:id", async (req, res) => {
+  app.patch("/api/delivery-zones/:id", requirePermission('settings:write'), async (req, res) => {
     try {
-      const zone = await storage.updateDeliveryZone(req.params.id, req.body);
+      const updates = req.body.cepRanges !== undefined
+        ? { ...req.body, cepRanges: parseCepRangesInput(req.body.cepRanges) }
+        : req.body;
+      const zone = await storage.updateDeliveryZone(req.params.id, updates);
       if (!zone) return res.status(404).json({ error: "Zone not found" });
       res.json(zone);
     } catch (error: any) {
+      if (error instanceof DeliveryAreaError) {
+        return res.status(400).json({ error: error.message });
+      }
       if (error.code === '23505') {
         return res.status(400).json({ error: "Codigo de zona ja existe" });
       }
@@ -1917,7 +3402,7 @@ export async function registerRoutes(
     }
   });
 
-  app.delete("/api/delivery-zones/:id", async (req, res) => {
+  app.delete("/api/delivery-zones/:id", requirePermission('settings:write'), async (req, res) => {
     try {
       // Check if zone has neighborhoods
       const neighborhoods = await storage.getNeighborhoodsByZone(req.params.id);
@@ -1953,21 +3438,25 @@ export async function registerRoutes(
     res.json(neighborhood);
   });
 
-  app.post("/api/neighborhoods", async (req, res) => {
+  app.post("/api/neighborhoods", requirePermission('settings:write'), async (req, res) => {
     try {
       // Verify zone exists
       const zone = await storage.getDeliveryZone(req.body.zoneId);
       if (!zone) {
         return res.status(400).json({ error: "Zona nao encontrada" });
       }
-      const neighborhood = await storage.createNeighborhood(req.body);
+      const aliases = req.body.aliases !== undefined ? parseAliasesInput(req.body.aliases, req.body.name ?? "") : [];
+      const neighborhood = await storage.createNeighborhood({ ...req.body, aliases });
       res.status(201).json(neighborhood);
     } catch (error: any) {
+      if (error instanceof DeliveryAreaError) {
+        return res.status(400).json({ error: error.message });
+      }
       res.status(500).json({ error: "Erro ao criar bairro" });
     }
   });
 
-  app.patch("/api/neighborhoods/:id", async (req, res) => {
+  app.patch("/api/neighborhoods/:id", requirePermission('settings:write'), async (req, res) => {
     try {
       // If changing zone, verify new zone exists
       if (req.body.zoneId) {
@@ -1976,15 +3465,23 @@ export async function registerRoutes(
           return res.status(400).json({ error: "Zona nao encontrada" });
         }
       }
-      const neighborhood = await storage.updateNeighborhood(req.params.id, req.body);
+      const existing = await storage.getNeighborhood(req.params.id);
+      if (!existing) return res.status(404).json({ error: "Neighborhood not found" });
+      const updates = req.body.aliases !== undefined
+        ? { ...req.body, aliases: parseAliasesInput(req.body.aliases, req.body.name ?? existing.name) }
+        : req.body;
+      const neighborhood = await storage.updateNeighborhood(req.params.id, updates);
       if (!neighborhood) return res.status(404).json({ error: "Neighborhood not found" });
       res.json(neighborhood);
     } catch (error: any) {
+      if (error instanceof DeliveryAreaError) {
+        return res.status(400).json({ error: error.message });
+      }
       res.status(500).json({ error: "Erro ao atualizar bairro" });
     }
   });
 
-  app.delete("/api/neighborhoods/:id", async (req, res) => {
+  app.delete("/api/neighborhoods/:id", requirePermission('settings:write'), async (req, res) => {
     try {
       const deleted = await storage.deleteNeighborhood(req.params.id);
       if (!deleted) return res.status(404).json({ error: "Neighborhood not found" });
@@ -1994,42 +3491,93 @@ export async function registerRoutes(
     }
   });
 
+  // Active zones with their neighborhoods: the one list every address form and the fee quote use
+  app.get("/api/delivery-areas", async (_req, res) => {
+    try {
+      res.json(await storage.getDeliveryAreas());
+    } catch (error) {
+      res.status(500).json({ error: "Erro ao carregar bairros" });
+    }
+  });
+
+  // Neighborhoods customers ordered to that no zone listed
+  app.get("/api/unlisted-neighborhoods", requirePermission('settings:write'), async (req, res) => {
+    const status = UNLISTED_NEIGHBORHOOD_STATUSES.find(s => s === req.query.status);
+    res.json(await storage.getUnlistedNeighborhoods(status));
+  });
+
+  app.post("/api/unlisted-neighborhoods/:id/resolve", requirePermission('settings:write'), async (req, res) => {
+    try {
+      const { action } = req.body;
+      let resolution: UnlistedNeighborhoodResolution;
+      if (action === 'create') {
+        const name = typeof req.body.name === 'string' ? req.body.name.trim() : '';
+        const zone = typeof req.body.zoneId === 'string' ? await storage.getDeliveryZone(req.body.zoneId) : undefined;
+        if (!name || !zone) return res.status(400).json({ error: "Informe o nome e a zona do bairro" });
+        resolution = { action, name, zoneId: zone.id };
+      } else if (action === 'alias') {
+        if (typeof req.body.neighborhoodId !== 'string') return res.status(400).json({ error: "Escolha o bairro" });
+        resolution = { action, neighborhoodId: req.body.neighborhoodId };
+      } else if (action === 'ignore') {
+        resolution = { action };
+      } else {
+        return res.status(400).json({ error: "Acao invalida" });
+      }
+
+      const entry = await storage.resolveUnlistedNeighborhood(req.params.id, resolution);
+      if (!entry) return res.status(404).json({ error: "Bairro nao encontrado" });
+      res.json(entry);
+    } catch (error) {
+      console.error("Error resolving unlisted neighborhood:", error);
+      res.status(500).json({ error: "Erro ao revisar bairro" });
+    }
+  });
+
   // =============================================
   // Order Delivery Fee Adjustment
   // =============================================
-  app.patch("/api/orders/:id/delivery-fee", async (req, res) => {
+  app.patch("/api/orders/:id/delivery-fee", requireRole('admin'), async (req, res) => {
     try {
       const { deliveryFee } = req.body;
       if (deliveryFee === undefined || isNaN(parseFloat(deliveryFee))) {
         return res.status(400).json({ error: "Taxa de entrega invalida" });
       }
 
-      const order = await storage.getOrder(req.params.id);
-      if (!order) {
+      const result = await storage.changeDeliveryFee(req.params.id, Math.round(parseFloat(deliveryFee) * 100) / 100);
+      if (!result) {
         return res.status(404).json({ error: "Pedido nao encontrado" });
       }
-
-      // Store original fee if not already stored
-      const originalFee = order.originalDeliveryFee || order.deliveryFee;
-      const newFee = parseFloat(deliveryFee).toFixed(2);
-      const newTotal = (parseFloat(order.subtotal) - parseFloat(order.discount || "0") + parseFloat(newFee)).toFixed(2);
-
-      const updatedOrder = await storage.updateOrder(req.params.id, {
-        deliveryFee: newFee,
-        originalDeliveryFee: originalFee,
-        deliveryFeeAdjusted: true,
-        deliveryFeeAdjustedAt: new Date(),
-        total: newTotal,
+      const { order: updatedOrder, previous: order } = result;
+
+      await recordAudit(req, {
+        action: 'order.delivery_fee_changed',
+        entityType: 'order',
+        entityId: order.id,
+        before: { deliveryFee: order.deliveryFee, total: order.total, paymentStatus: order.paymentStatus },
+        after: {
+          deliveryFee: updatedOrder.deliveryFee,
+          total: updatedOrder.total,
+          originalDeliveryFee: updatedOrder.originalDeliveryFee,
+          paymentStatus: updatedOrder.paymentStatus,
+        },
       });
 
-      // Broadcast update via SSE
+      // The kitchen has no use for fee changes
       broadcastOrderUpdate('order_fee_updated', {
         orderId: order.id,
-        userId: order.userId,
-        originalFee: parseFloat(originalFee),
-        newFee: parseFloat(newFee),
-        newTotal: parseFloat(newTotal),
-      });
+        originalFee: parseFloat(updatedOrder.originalDeliveryFee ?? order.deliveryFee),
+        newFee: parseFloat(updatedOrder.deliveryFee),
+        newTotal: parseFloat(updatedOrder.total),
+      }, orderChannels(order, { kitchen: false }));
+      if (updatedOrder.paymentStatus !== order.paymentStatus) {
+        broadcastOrderUpdate('order_payment_updated', {
+          orderId: order.id,
+          paymentStatus: updatedOrder.paymentStatus,
+          previousPaymentStatus: order.paymentStatus,
+          orderType: order.orderType,
+          customerName: order.customerName,
+        }, orderChannels(order));
+      }
 
       res.json(updatedOrder);
     } catch (error) {
@@ -2038,7 +3586,7 @@ export async function registerRoutes(
   });
 
   // Seed BATIDAS category with products
-  app.post("/api/seed-batidas", async (_req, res) => {
+  app.post("/api/seed-batidas", requireRole('admin'), async (_req, res) => {
     try {
       // Check if BATIDAS category already exists
       const categories = await storage.getCategories();
@@ -2106,35 +3654,37 @@ export async function registerRoutes(
   // =============================================
   // Shopping Lists API
   // =============================================
-  app.get("/api/shopping-lists", async (_req, res) => {
+  app.get("/api/shopping-lists", requireRole('admin'), async (_req, res) => {
     const lists = await storage.getShoppingLists();
     res.json(lists);
   });
 
-  app.get("/api/shopping-lists/active", async (_req, res) => {
+  app.get("/api/shopping-lists/active", requireRole('admin'), async (_req, res) => {
     const list = await storage.getActiveShoppingList();
     if (!list) return res.json(null);
     const items = await storage.getShoppingListItems(list.id);
     res.json({ ...list, items });
   });
 
-  app.get("/api/shopping-lists/:id", async (req, res) => {
+  app.get("/api/shopping-lists/:id", requireRole('admin'), async (req, res) => {
     const list = await storage.getShoppingList(req.params.id);
     if (!list) return res.status(404).json({ error: "Lista nao encontrada" });
     const items = await storage.getShoppingListItems(list.id);
     res.json({ ...list, items });
   });
 
-  app.post("/api/shopping-lists", async (req, res) => {
+  app.post("/api/shopping-lists", requireRole('admin'), async (req, res) => {
     try {
+      // Lines as the low-stock screen sends them: { productId, variantId?, productName, categoryName, suggestedQuantity, unitCost }
       const { products } = req.body;
+      const lineCost = (p: any) => Number(p.unitCost) * Number(p.suggestedQuantity);
       
       // Create the shopping list
       const list = await storage.createShoppingList({
         status: "active",
         totalItems: products.length,
         purchasedItems: 0,
-        totalCost: products.reduce((sum: number, p: any) => sum + p.estimatedPurchaseCost, 0).toString(),
+        totalCost: products.reduce((sum: number, p: any) => sum + lineCost(p), 0).toString(),
         purchasedCost: "0",
       });
       
@@ -2142,12 +3692,13 @@ export async function registerRoutes(
       for (const product of products) {
         await storage.createShoppingListItem({
           listId: list.id,
-          productId: product.id,
-          productName: product.name,
+          productId: product.productId,
+          variantId: product.variantId ?? null,
+          productName: product.productName,
           categoryName: product.categoryName,
-          suggestedQuantity: product.suggestedPurchase,
-          unitCost: product.costPrice.toString(),
-          totalCost: product.estimatedPurchaseCost.toString(),
+          suggestedQuantity: product.suggestedQuantity,
+          unitCost: Number(product.unitCost).toString(),
+          totalCost: lineCost(product).toString(),
           isPurchased: false,
         });
       }
@@ -2159,7 +3710,7 @@ export async function registerRoutes(
     }
   });
 
-  app.patch("/api/shopping-lists/:id/items/:itemId/purchase", async (req, res) => {
+  app.patch("/api/shopping-lists/:id/items/:itemId/purchase", requireRole('admin'), async (req, res) => {
     try {
       const { purchased, actualQuantity } = req.body;
       const item = await storage.markItemPurchased(req.params.itemId, purchased, actualQuantity);
@@ -2181,7 +3732,7 @@ export async function registerRoutes(
     }
   });
 
-  app.patch("/api/shopping-lists/:id/complete", async (req, res) => {
+  app.patch("/api/shopping-lists/:id/complete", requireRole('admin'), async (req, res) => {
     try {
       const list = await storage.completeShoppingList(req.params.id);
       if (!list) return res.status(404).json({ error: "Lista nao encontrada" });
@@ -2191,7 +3742,7 @@ export async function registerRoutes(
     }
   });
 
-  app.delete("/api/shopping-lists/:id", async (req, res) => {
+  app.delete("/api/shopping-lists/:id", requireRole('admin'), async (req, res) => {
     try {
       const deleted = await storage.deleteShoppingList(req.params.id);
       if (!deleted) return res.status(404).json({ error: "Lista nao encontrada" });
@@ -2206,7 +3757,7 @@ export async function registerRoutes(
   // =============================================
   
   // Get list of all images in the bucket
-  app.get("/api/admin/images", async (_req, res) => {
+  app.get("/api/admin/images", requireRole('admin'), async (_req, res) => {
     try {
       const { supabaseAdmin, STORAGE_BUCKET } = await import('./supabase');
       if (!supabaseAdmin) {
@@ -2242,7 +3793,7 @@ export async function registerRoutes(
   });
 
   // Process a single image
-  app.post("/api/admin/images/process", async (req, res) => {
+  app.post("/api/admin/images/process", requireRole('admin'), async (req, res) => {
     try {
       const { path } = req.body;
       if (!path) {
@@ -2327,7 +3878,7 @@ export async function registerRoutes(
   });
 
   // Batch process multiple images
-  app.post("/api/admin/images/process-batch", async (req, res) => {
+  app.post("/api/admin/images/process-batch", requireRole('admin'), async (req, res) => {
     try {
       const { paths } = req.body;
       if (!paths || !Array.isArray(paths) || paths.length === 0) {
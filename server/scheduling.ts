@@ -0,0 +1,22 @@
+import type { OpeningHours } from "@shared/schema";
+import { scheduleSlotStarts, type ScheduleConfig } from "@shared/scheduling";
+
+export class ScheduleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ScheduleError";
+  }
+}
+
+// Only starts the checkout could have offered are accepted; capacity is checked when the order is placed
+export function resolveScheduledFor(value: unknown, config: ScheduleConfig, hours: OpeningHours, now: Date = new Date()): Date | null {
+  if (value === undefined || value === null || value === "") return null;
+
+  const requested = new Date(typeof value === "string" || typeof value === "number" ? value : NaN);
+  if (Number.isNaN(requested.getTime())) throw new ScheduleError("Horario de agendamento invalido");
+  if (config.capacity === 0) throw new ScheduleError("Agendamento indisponivel no momento");
+
+  const slot = scheduleSlotStarts(config, hours, now).find(start => start.getTime() === requested.getTime());
+  if (!slot) throw new ScheduleError("Horario de agendamento fora do funcionamento ou muito proximo");
+  return slot;
+}
@@ -1,17 +1,26 @@
 import { randomUUID } from "crypto";
-import { eq, desc, inArray, and, gte, lte } from "drizzle-orm";
+import { eq, desc, inArray, and, gte, lt, lte, isNull, sql } from "drizzle-orm";
 import { db } from "./db";
 import { 
-  users, addresses, categories, products, orders, orderItems, 
+  users, addresses, categories, products, productVariants, orders, orderItems, 
   banners, motoboys, stockLogs, settings, deliveryZones, neighborhoods, trendingProducts, passwordResetRequests,
-  shoppingLists, shoppingListItems, preparationIngredients
+  shoppingLists, shoppingListItems, preparationIngredients, loginLockEvents, verificationCodes, auditEvents, comboTemplates, modifierGroups, coupons, couponRedemptions, recipeIngredients, unlistedNeighborhoods, payments, cashSessions, cashMovements, orderItemCancellations, PERMISSION_SCOPES,
+  tracksProductStock
 } from "@shared/schema";
 import bcrypt from "bcrypt";
+import { normalizeNeighborhood, type DeliveryArea } from "@shared/delivery-zones";
+import { SEED_DELIVERY_ZONES, SEED_NEIGHBORHOODS } from "./delivery-zone-seed";
+import { pixTxidFor } from "./pix";
+import { netPaid, paymentStatusFor } from "@shared/payments";
+import { cashSessionTotals } from "@shared/cash-register";
+import { repriceAfterRemoval, type PricedLine } from "./item-cancellations";
 import type { 
+  StockShortage,
   User, InsertUser, 
   Address, InsertAddress,
   Category, InsertCategory,
   Product, InsertProduct,
+  ProductVariant, InsertProductVariant,
   Order, InsertOrder,
   OrderItem, InsertOrderItem,
   Banner, InsertBanner,
@@ -20,13 +29,236 @@ import type {
   Settings, InsertSettings,
   DeliveryZone, InsertDeliveryZone,
   Neighborhood, InsertNeighborhood,
+  UnlistedNeighborhood, UnlistedNeighborhoodStatus,
   TrendingProduct, InsertTrendingProduct,
   PasswordResetRequest, InsertPasswordResetRequest,
   ShoppingList, InsertShoppingList,
   ShoppingListItem, InsertShoppingListItem,
-  PreparationIngredient, InsertPreparationIngredient
+  PreparationIngredient, InsertPreparationIngredient,
+  RecipeIngredient,
+  LoginLockEvent, InsertLoginLockEvent,
+  VerificationCode, InsertVerificationCode,
+  AuditEvent, InsertAuditEvent,
+  ComboTemplate, InsertComboTemplate,
+  ModifierGroup, InsertModifierGroup,
+  Coupon, InsertCoupon, CouponWithStats,
+  Payment, InsertPayment, PaymentStatus,
+  OrderItemCancellation,
+  CashSession, InsertCashSession, CashMovement, InsertCashMovement, CashSessionReport,
+  ComboRole, ShowcaseGroup
 } from "@shared/schema";
 
+export type OrderItemDraft = Omit<InsertOrderItem, "orderId">;
+
+export interface StockDeduction {
+  productId: string;
+  // Products sold by variant keep stock on the variant row
+  variantId?: string;
+  quantity: number;
+}
+
+// One ingredient of a recipe, per unit of the prepared product
+export interface RecipeLine {
+  ingredientProductId: string;
+  quantity: number;
+}
+
+export interface AuditEventFilters {
+  action?: string;
+  entityType?: string;
+  entityId?: string;
+  actorId?: string;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+}
+
+// Coupon to redeem with the order; limits are re-checked under a row lock
+export interface CouponClaim {
+  couponId: string;
+  userId: string | null;
+  discount: number;
+  maxUses: number | null;
+  maxUsesPerCustomer: number | null;
+  firstOrderOnly: boolean;
+}
+
+// Delivery slot to book with the order; its capacity is re-checked under a lock
+export interface ScheduleClaim {
+  scheduledFor: Date;
+  capacity: number;
+}
+
+// What an admin did with a queued neighborhood: list it under a zone, teach an existing one the spelling, or drop it
+export type UnlistedNeighborhoodResolution =
+  | { action: "create"; name: string; zoneId: string }
+  | { action: "alias"; neighborhoodId: string }
+  | { action: "ignore" };
+
+// The ledger entry and the order with its payment status recomputed; `payment` is
+// null when a gateway re-sent an event that was already recorded
+export interface PaymentRecordResult {
+  order: Order;
+  payment: Payment | null;
+  previousStatus: PaymentStatus;
+}
+
+export class PaymentRejectedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PaymentRejectedError";
+  }
+}
+
+export interface ItemCancellationLine {
+  orderItemId: string;
+  quantity: number;
+}
+
+// The order with its new totals; `refund` is set when more had been paid than the new total
+export interface ItemCancellationResult {
+  order: Order;
+  previousTotal: string;
+  cancellations: OrderItemCancellation[];
+  refund: Payment | null;
+  previousStatus: PaymentStatus;
+}
+
+export class ItemCancellationRejectedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ItemCancellationRejectedError";
+  }
+}
+
+export class CashSessionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CashSessionError";
+  }
+}
+
+export interface CashSessionClosing {
+  countedCash: number;
+  notes: string | null;
+  closedBy: string;
+}
+
+export class ScheduleSlotFullError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ScheduleSlotFullError";
+  }
+}
+
+export class CouponUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CouponUnavailableError";
+  }
+}
+
+export class InsufficientStockError extends Error {
+  constructor(public readonly items: StockShortage[]) {
+    super("Estoque insuficiente");
+    this.name = "InsufficientStockError";
+  }
+}
+
+// Status and the timestamps that go with it, after the ledger or the total changed
+function paymentFields(order: Order, status: PaymentStatus) {
+  const now = new Date();
+  return {
+    paymentStatus: status,
+    paidAt: status === "paid" ? order.paidAt ?? now : order.paidAt,
+    refundedAt: status === "refunded" ? order.refundedAt ?? now : order.refundedAt,
+  };
+}
+
+function toOrderRow(id: string, insertOrder: InsertOrder) {
+  return {
+    id,
+    userId: insertOrder.userId,
+    addressId: insertOrder.addressId ?? null,
+    orderType: insertOrder.orderType ?? "delivery",
+    status: insertOrder.status ?? "pending",
+    subtotal: insertOrder.subtotal,
+    deliveryFee: insertOrder.deliveryFee,
+    deliveryDistance: insertOrder.deliveryDistance ?? null,
+    discount: insertOrder.discount ?? "0",
+    total: insertOrder.total,
+    paymentMethod: insertOrder.paymentMethod,
+    changeFor: insertOrder.changeFor ?? null,
+    notes: insertOrder.notes ?? null,
+    customerName: insertOrder.customerName ?? null,
+    motoboyId: insertOrder.motoboyId ?? null,
+    salespersonId: insertOrder.salespersonId ?? null,
+    couponId: insertOrder.couponId ?? null,
+    couponCode: insertOrder.couponCode ?? null,
+    idCheckRequired: insertOrder.idCheckRequired ?? false,
+    idCheckedAt: insertOrder.idCheckedAt ?? null,
+    idCheckedBy: insertOrder.idCheckedBy ?? null,
+    // A split counter sale may have a PIX part, charged under the same txid
+    pixTxid: insertOrder.paymentMethod === "pix" || insertOrder.paymentMethod === "split" ? pixTxidFor(id) : null,
+    cashSessionId: insertOrder.cashSessionId ?? null,
+  };
+}
+
+// Movements, counter orders and their ledger for a batch of tills, in a few queries
+async function cashSessionReports(conn: Pick<typeof db, "select">, sessions: CashSession[]): Promise<CashSessionReport[]> {
+  if (sessions.length === 0) return [];
+  const sessionIds = sessions.map(session => session.id);
+  const movements = await conn.select().from(cashMovements)
+    .where(inArray(cashMovements.sessionId, sessionIds)).orderBy(cashMovements.createdAt);
+  const sessionOrders = await conn.select().from(orders)
+    .where(inArray(orders.cashSessionId, sessionIds)).orderBy(orders.createdAt);
+  const ledger = sessionOrders.length === 0 ? [] : await conn.select().from(payments)
+    .where(inArray(payments.orderId, sessionOrders.map(order => order.id))).orderBy(payments.createdAt);
+  const operatorIds = Array.from(new Set(sessions.map(session => session.operatorId)));
+  const operators = await conn.select({ id: users.id, name: users.name }).from(users).where(inArray(users.id, operatorIds));
+
+  return sessions.map(session => {
+    const ownMovements = movements.filter(movement => movement.sessionId === session.id);
+    const ownOrders = sessionOrders.filter(order => order.cashSessionId === session.id);
+    const orderIds = new Set(ownOrders.map(order => order.id));
+    const ownLedger = ledger.filter(entry => orderIds.has(entry.orderId));
+    return {
+      session,
+      operatorName: operators.find(operator => operator.id === session.operatorId)?.name ?? null,
+      movements: ownMovements,
+      orders: ownOrders,
+      totals: cashSessionTotals(session, ownMovements, ownOrders, ownLedger),
+    };
+  });
+}
+
+// Redemptions of cancelled orders give the use back
+async function countRedemptions(conn: Pick<typeof db, "select">, couponId: string, userId?: string): Promise<number> {
+  const conditions = [eq(couponRedemptions.couponId, couponId), sql`${orders.status} <> 'cancelled'`];
+  if (userId) conditions.push(eq(couponRedemptions.userId, userId));
+  const [row] = await conn.select({ count: sql<number>`count(*)::int` })
+    .from(couponRedemptions)
+    .innerJoin(orders, eq(orders.id, couponRedemptions.orderId))
+    .where(and(...conditions));
+  return row?.count ?? 0;
+}
+
+// Puts back (positive change) or takes (negative) one ingredient's stock, never below zero
+async function moveIngredientStock(conn: Pick<typeof db, "select" | "update" | "insert">, productId: string, change: number, reason: string): Promise<void> {
+  const [product] = await conn.select().from(products).where(eq(products.id, productId)).for("update");
+  if (!product) return;
+  const newStock = Math.max(0, product.stock + change);
+  await conn.update(products).set({ stock: newStock }).where(eq(products.id, productId));
+  await conn.insert(stockLogs).values({
+    id: randomUUID(),
+    productId,
+    previousStock: product.stock,
+    newStock,
+    change: newStock - product.stock,
+    reason,
+  });
+}
+
 export interface IStorage {
   getUsers(): Promise<User[]>;
   getUser(id: string): Promise<User | undefined>;
@@ -57,14 +289,39 @@ export interface IStorage {
   updateProduct(id: string, product: Partial<InsertProduct>): Promise<Product | undefined>;
   deleteProduct(id: string): Promise<boolean>;
 
+  getProductVariants(productId?: string): Promise<ProductVariant[]>;
+  getProductVariant(id: string): Promise<ProductVariant | undefined>;
+  createProductVariant(variant: InsertProductVariant): Promise<ProductVariant>;
+  updateProductVariant(id: string, variant: Partial<InsertProductVariant>): Promise<ProductVariant | undefined>;
+  deleteProductVariant(id: string): Promise<boolean>;
+
   getOrders(): Promise<Order[]>;
   getOrder(id: string): Promise<Order | undefined>;
+  getOrderByPixTxid(txid: string): Promise<Order | undefined>;
   getOrdersByUser(userId: string): Promise<Order[]>;
   getOrdersByStatus(status: string): Promise<Order[]>;
   createOrder(order: InsertOrder): Promise<Order>;
+  countActiveOrdersByUser(userId: string): Promise<number>;
+  placeOrder(order: InsertOrder, items: OrderItemDraft[], stockChanges: StockDeduction[], coupon?: CouponClaim, schedule?: ScheduleClaim): Promise<{ order: Order; items: OrderItem[] }>;
+  getScheduledOrderCounts(from: Date): Promise<Map<string, number>>;
   updateOrder(id: string, order: Partial<Order>): Promise<Order | undefined>;
+  changeDeliveryFee(id: string, deliveryFee: number): Promise<{ order: Order; previous: Order } | undefined>;
   deleteOrder(id: string): Promise<boolean>;
 
+  getPayments(orderId: string): Promise<Payment[]>;
+  getPaymentsByOrderIds(orderIds: string[]): Promise<Payment[]>;
+  recordPayment(entry: InsertPayment): Promise<PaymentRecordResult | undefined>;
+
+  cancelOrderItems(orderId: string, lines: ItemCancellationLine[], reason: string, recordedBy: string): Promise<ItemCancellationResult | undefined>;
+
+  getCashSession(id: string): Promise<CashSession | undefined>;
+  getOpenCashSession(operatorId: string): Promise<CashSession | undefined>;
+  getCashSessions(from?: Date, to?: Date): Promise<CashSession[]>;
+  getCashSessionReports(sessions: CashSession[]): Promise<CashSessionReport[]>;
+  openCashSession(session: InsertCashSession): Promise<CashSession>;
+  addCashMovement(movement: InsertCashMovement): Promise<CashMovement | undefined>;
+  closeCashSession(id: string, closing: CashSessionClosing): Promise<CashSession | undefined>;
+
   getOrderItems(orderId: string): Promise<OrderItem[]>;
   getAllOrderItems(): Promise<OrderItem[]>;
   getOrderItemsByOrderIds(orderIds: string[]): Promise<OrderItem[]>;
@@ -76,6 +333,26 @@ export interface IStorage {
   updateBanner(id: string, banner: Partial<InsertBanner>): Promise<Banner | undefined>;
   deleteBanner(id: string): Promise<boolean>;
 
+  getComboTemplates(): Promise<ComboTemplate[]>;
+  getComboTemplate(id: string): Promise<ComboTemplate | undefined>;
+  createComboTemplate(template: InsertComboTemplate): Promise<ComboTemplate>;
+  updateComboTemplate(id: string, template: Partial<InsertComboTemplate>): Promise<ComboTemplate | undefined>;
+  deleteComboTemplate(id: string): Promise<boolean>;
+
+  getModifierGroups(): Promise<ModifierGroup[]>;
+  getModifierGroup(id: string): Promise<ModifierGroup | undefined>;
+  createModifierGroup(group: InsertModifierGroup): Promise<ModifierGroup>;
+  updateModifierGroup(id: string, group: Partial<InsertModifierGroup>): Promise<ModifierGroup | undefined>;
+  deleteModifierGroup(id: string): Promise<boolean>;
+
+  getCoupons(): Promise<CouponWithStats[]>;
+  getCoupon(id: string): Promise<Coupon | undefined>;
+  getCouponByCode(code: string): Promise<Coupon | undefined>;
+  createCoupon(coupon: InsertCoupon): Promise<Coupon>;
+  updateCoupon(id: string, coupon: Partial<InsertCoupon>): Promise<Coupon | undefined>;
+  deleteCoupon(id: string): Promise<boolean>;
+  countCouponRedemptions(couponId: string, userId?: string): Promise<number>;
+
   getMotoboys(): Promise<Motoboy[]>;
   getMotoboy(id: string): Promise<Motoboy | undefined>;
   getMotoboyByWhatsapp(whatsapp: string): Promise<Motoboy | undefined>;
@@ -102,6 +379,11 @@ export interface IStorage {
   updateNeighborhood(id: string, neighborhood: Partial<InsertNeighborhood>): Promise<Neighborhood | undefined>;
   deleteNeighborhood(id: string): Promise<boolean>;
 
+  getDeliveryAreas(): Promise<DeliveryArea[]>;
+  recordUnlistedNeighborhood(name: string, zipCode: string | null): Promise<void>;
+  getUnlistedNeighborhoods(status?: UnlistedNeighborhoodStatus): Promise<UnlistedNeighborhood[]>;
+  resolveUnlistedNeighborhood(id: string, resolution: UnlistedNeighborhoodResolution): Promise<UnlistedNeighborhood | undefined>;
+
   getCuratedTrendingProducts(): Promise<(TrendingProduct & { product: Product })[]>;
   addTrendingProduct(productId: string): Promise<TrendingProduct>;
   removeTrendingProduct(id: string): Promise<boolean>;
@@ -113,6 +395,19 @@ export interface IStorage {
   createPasswordResetRequest(request: InsertPasswordResetRequest): Promise<PasswordResetRequest>;
   completePasswordResetRequest(id: string, completedBy: string): Promise<PasswordResetRequest | undefined>;
 
+  getLoginLockEvents(limit?: number): Promise<LoginLockEvent[]>;
+  getLoginLockEvent(id: string): Promise<LoginLockEvent | undefined>;
+  createLoginLockEvent(event: InsertLoginLockEvent): Promise<LoginLockEvent>;
+  markLoginLockEventUnlocked(id: string, unlockedBy: string): Promise<LoginLockEvent | undefined>;
+
+  getAuditEvents(filters?: AuditEventFilters): Promise<AuditEvent[]>;
+  createAuditEvent(event: InsertAuditEvent): Promise<AuditEvent>;
+
+  getLatestVerificationCode(whatsapp: string, purpose: string): Promise<VerificationCode | undefined>;
+  createVerificationCode(code: InsertVerificationCode): Promise<VerificationCode>;
+  reserveVerificationAttempt(id: string, maxAttempts: number): Promise<VerificationCode | undefined>;
+  consumeVerificationCode(id: string): Promise<VerificationCode | undefined>;
+
   getShoppingLists(): Promise<ShoppingList[]>;
   getActiveShoppingList(): Promise<ShoppingList | undefined>;
   getShoppingList(id: string): Promise<ShoppingList | undefined>;
@@ -130,6 +425,13 @@ export interface IStorage {
   getPreparationIngredients(orderItemId: string): Promise<PreparationIngredient[]>;
   createPreparationIngredient(ingredient: InsertPreparationIngredient): Promise<PreparationIngredient>;
   deletePreparationIngredient(id: string): Promise<boolean>;
+  addPreparationIngredient(ingredient: InsertPreparationIngredient, reason: string): Promise<PreparationIngredient>;
+  removePreparationIngredient(id: string, reason: string): Promise<PreparationIngredient | undefined>;
+  applyRecipes(orderId: string): Promise<PreparationIngredient[]>;
+
+  getRecipes(): Promise<RecipeIngredient[]>;
+  getRecipe(productId: string): Promise<RecipeIngredient[]>;
+  replaceRecipe(productId: string, lines: RecipeLine[]): Promise<RecipeIngredient[]>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -148,6 +450,105 @@ export class DatabaseStorage implements IStorage {
     return true;
   }
 
+  // Ingredients never hold up an order: stock bottoms out at zero instead of refusing
+  async addPreparationIngredient(ingredient: InsertPreparationIngredient, reason: string): Promise<PreparationIngredient> {
+    return await db.transaction(async (tx) => {
+      const [created] = await tx.insert(preparationIngredients).values({ id: randomUUID(), ...ingredient }).returning();
+      if (created.stockDeducted) {
+        await moveIngredientStock(tx, created.ingredientProductId, -created.quantity, reason);
+      }
+      return created;
+    });
+  }
+
+  // Kitchen override: drops one ingredient line and gives back what it took from stock
+  async removePreparationIngredient(id: string, reason: string): Promise<PreparationIngredient | undefined> {
+    return await db.transaction(async (tx) => {
+      const [removed] = await tx.delete(preparationIngredients).where(eq(preparationIngredients.id, id)).returning();
+      if (removed?.stockDeducted) {
+        await moveIngredientStock(tx, removed.ingredientProductId, removed.quantity, reason);
+      }
+      return removed || undefined;
+    });
+  }
+
+  // Takes the recipe of every item from stock, once per order: the order row is locked and
+  // stamped, so whichever of preparing/ready comes first does it and the other is a no-op
+  async applyRecipes(orderId: string): Promise<PreparationIngredient[]> {
+    return await db.transaction(async (tx) => {
+      const [order] = await tx.select().from(orders).where(eq(orders.id, orderId)).for("update");
+      if (!order || order.ingredientsDeductedAt) return [];
+
+      const items = await tx.select().from(orderItems).where(eq(orderItems.orderId, orderId));
+      const productIds = Array.from(new Set(items.map(item => item.productId)));
+      const recipe = productIds.length === 0 ? [] : await tx.select().from(recipeIngredients)
+        .where(inArray(recipeIngredients.productId, productIds));
+
+      const rows = items.flatMap(item => recipe
+        .filter(line => line.productId === item.productId)
+        .map(line => ({ orderItemId: item.id, ingredientProductId: line.ingredientProductId, quantity: line.quantity * item.quantity })));
+
+      const needed = new Map<string, number>();
+      for (const row of rows) {
+        needed.set(row.ingredientProductId, (needed.get(row.ingredientProductId) ?? 0) + row.quantity);
+      }
+
+      const ingredientIds = Array.from(needed.keys());
+      const locked = ingredientIds.length === 0 ? [] : await tx.select({ product: products, category: categories })
+        .from(products)
+        .leftJoin(categories, eq(categories.id, products.categoryId))
+        .where(inArray(products.id, ingredientIds))
+        .orderBy(products.id)
+        .for("update", { of: products });
+
+      const tracked = new Set<string>();
+      for (const { product, category } of locked) {
+        if (!tracksProductStock(product, category)) continue;
+        tracked.add(product.id);
+        const newStock = Math.max(0, product.stock - needed.get(product.id)!);
+        await tx.update(products).set({ stock: newStock }).where(eq(products.id, product.id));
+        await tx.insert(stockLogs).values({
+          id: randomUUID(),
+          productId: product.id,
+          previousStock: product.stock,
+          newStock,
+          change: newStock - product.stock,
+          reason: `Receita pedido #${orderId.slice(0, 8)}`,
+        });
+      }
+
+      const created = rows.length === 0 ? [] : await tx.insert(preparationIngredients)
+        .values(rows.map(row => ({
+          id: randomUUID(),
+          ...row,
+          source: "recipe" as const,
+          stockDeducted: tracked.has(row.ingredientProductId),
+        })))
+        .returning();
+
+      await tx.update(orders).set({ ingredientsDeductedAt: new Date() }).where(eq(orders.id, orderId));
+      return created;
+    });
+  }
+
+  async getRecipes(): Promise<RecipeIngredient[]> {
+    return await db.select().from(recipeIngredients);
+  }
+
+  async getRecipe(productId: string): Promise<RecipeIngredient[]> {
+    return await db.select().from(recipeIngredients).where(eq(recipeIngredients.productId, productId));
+  }
+
+  async replaceRecipe(productId: string, lines: RecipeLine[]): Promise<RecipeIngredient[]> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(recipeIngredients).where(eq(recipeIngredients.productId, productId));
+      if (lines.length === 0) return [];
+      return await tx.insert(recipeIngredients)
+        .values(lines.map(line => ({ id: randomUUID(), productId, ...line })))
+        .returning();
+    });
+  }
+
   async getUsers(): Promise<User[]> {
     return await db.select().from(users);
   }
@@ -171,6 +572,7 @@ export class DatabaseStorage implements IStorage {
       role: insertUser.role ?? "customer",
       password: insertUser.password ?? null,
       isBlocked: insertUser.isBlocked ?? false,
+      birthDate: insertUser.birthDate ?? null,
     }).returning();
     return user;
   }
@@ -282,6 +684,10 @@ export class DatabaseStorage implements IStorage {
       iconUrl: insertCategory.iconUrl ?? null,
       sortOrder: insertCategory.sortOrder ?? 0,
       isActive: insertCategory.isActive ?? true,
+      isPrepared: insertCategory.isPrepared ?? false,
+      tracksStock: insertCategory.tracksStock ?? true,
+      comboRole: insertCategory.comboRole ?? null,
+      showcaseGroup: insertCategory.showcaseGroup ?? null,
     }).returning();
     return category;
   }
@@ -355,6 +761,33 @@ export class DatabaseStorage implements IStorage {
     return true;
   }
 
+  async getProductVariants(productId?: string): Promise<ProductVariant[]> {
+    const query = db.select().from(productVariants);
+    const result = productId ? await query.where(eq(productVariants.productId, productId)) : await query;
+    return result.sort((a, b) => a.sortOrder - b.sortOrder || a.name.localeCompare(b.name));
+  }
+
+  async getProductVariant(id: string): Promise<ProductVariant | undefined> {
+    const [variant] = await db.select().from(productVariants).where(eq(productVariants.id, id));
+    return variant || undefined;
+  }
+
+  async createProductVariant(insertVariant: InsertProductVariant): Promise<ProductVariant> {
+    const [variant] = await db.insert(productVariants).values({ ...insertVariant, id: randomUUID() }).returning();
+    return variant;
+  }
+
+  async updateProductVariant(id: string, updates: Partial<InsertProductVariant>): Promise<ProductVariant | undefined> {
+    const [variant] = await db.update(productVariants).set(updates).where(eq(productVariants.id, id)).returning();
+    return variant || undefined;
+  }
+
+  // Like products, variants are only deactivated so past order items keep their reference
+  async deleteProductVariant(id: string): Promise<boolean> {
+    const result = await db.update(productVariants).set({ isActive: false }).where(eq(productVariants.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
   async getTrendingProducts(limit: number = 10): Promise<{ product: Product; salesCount: number }[]> {
     const deliveredOrders = await db.select().from(orders).where(eq(orders.status, 'delivered'));
     const deliveredOrderIds = new Set(deliveredOrders.map(o => o.id));
@@ -404,12 +837,24 @@ export class DatabaseStorage implements IStorage {
     return order || undefined;
   }
 
+  async getOrderByPixTxid(txid: string): Promise<Order | undefined> {
+    const [order] = await db.select().from(orders).where(eq(orders.pixTxid, txid));
+    return order || undefined;
+  }
+
   async getOrdersByUser(userId: string): Promise<Order[]> {
     return await db.select().from(orders)
       .where(eq(orders.userId, userId))
       .orderBy(desc(orders.createdAt));
   }
 
+  async countActiveOrdersByUser(userId: string): Promise<number> {
+    const [row] = await db.select({ count: sql<number>`count(*)::int` })
+      .from(orders)
+      .where(and(eq(orders.userId, userId), sql`${orders.status} <> 'cancelled'`));
+    return row?.count ?? 0;
+  }
+
   async getOrdersByStatus(status: string): Promise<Order[]> {
     return await db.select().from(orders)
       .where(eq(orders.status, status))
@@ -417,39 +862,451 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createOrder(insertOrder: InsertOrder): Promise<Order> {
-    const id = randomUUID();
-    const [order] = await db.insert(orders).values({ 
-      id, 
-      userId: insertOrder.userId,
-      addressId: insertOrder.addressId ?? null,
-      orderType: insertOrder.orderType ?? "delivery",
-      status: insertOrder.status ?? "pending",
-      subtotal: insertOrder.subtotal,
-      deliveryFee: insertOrder.deliveryFee,
-      deliveryDistance: insertOrder.deliveryDistance ?? null,
-      discount: insertOrder.discount ?? "0",
-      total: insertOrder.total,
-      paymentMethod: insertOrder.paymentMethod,
-      changeFor: insertOrder.changeFor ?? null,
-      notes: insertOrder.notes ?? null,
-      customerName: insertOrder.customerName ?? null,
-      motoboyId: insertOrder.motoboyId ?? null,
-      salesperson: insertOrder.salesperson ?? null,
-    }).returning();
+    const [order] = await db.insert(orders).values(toOrderRow(randomUUID(), insertOrder)).returning();
     return order;
   }
 
+  // Order, items, stock and stock logs succeed or fail together. Product and variant
+  // rows are locked in id order so concurrent checkouts queue up instead of overselling;
+  // the coupon row is locked the same way so its last use is only given once.
+  async placeOrder(insertOrder: InsertOrder, drafts: OrderItemDraft[], stockChanges: StockDeduction[], coupon?: CouponClaim, schedule?: ScheduleClaim): Promise<{ order: Order; items: OrderItem[] }> {
+    return await db.transaction(async (tx) => {
+      if (schedule) {
+        // The settings row serialises bookings, so two customers can't take the last place together
+        await tx.select({ id: settings.id }).from(settings).for("update");
+        const [{ count }] = await tx.select({ count: sql<number>`count(*)::int` }).from(orders)
+          .where(and(eq(orders.scheduledFor, schedule.scheduledFor), sql`${orders.status} <> 'cancelled'`));
+        if (count >= schedule.capacity) {
+          throw new ScheduleSlotFullError("Este horario esgotou, escolha outro");
+        }
+      }
+
+      if (coupon) {
+        await tx.select({ id: coupons.id }).from(coupons).where(eq(coupons.id, coupon.couponId)).for("update");
+        if (coupon.maxUses !== null && await countRedemptions(tx, coupon.couponId) >= coupon.maxUses) {
+          throw new CouponUnavailableError("Este cupom esgotou");
+        }
+        if (coupon.userId && coupon.maxUsesPerCustomer !== null
+          && await countRedemptions(tx, coupon.couponId, coupon.userId) >= coupon.maxUsesPerCustomer) {
+          throw new CouponUnavailableError("Voce ja usou este cupom");
+        }
+        // Two first orders with the coupon wait on its row, so the second one sees the first
+        if (coupon.userId && coupon.firstOrderOnly) {
+          const [{ count }] = await tx.select({ count: sql<number>`count(*)::int` }).from(orders)
+            .where(and(eq(orders.userId, coupon.userId), sql`${orders.status} <> 'cancelled'`));
+          if (count > 0) throw new CouponUnavailableError("Cupom valido apenas na primeira compra");
+        }
+      }
+
+      const requested = new Map<string, number>();
+      const requestedVariants = new Map<string, number>();
+      for (const change of stockChanges) {
+        if (change.variantId) {
+          requestedVariants.set(change.variantId, (requestedVariants.get(change.variantId) ?? 0) + change.quantity);
+        } else {
+          requested.set(change.productId, (requested.get(change.productId) ?? 0) + change.quantity);
+        }
+      }
+
+      const productIds = Array.from(requested.keys());
+      const locked = productIds.length === 0 ? [] : await tx.select().from(products)
+        .where(inArray(products.id, productIds))
+        .orderBy(products.id)
+        .for("update");
+
+      const variantIds = Array.from(requestedVariants.keys());
+      const lockedVariants = variantIds.length === 0 ? [] : await tx.select({ variant: productVariants, productName: products.name })
+        .from(productVariants)
+        .innerJoin(products, eq(products.id, productVariants.productId))
+        .where(inArray(productVariants.id, variantIds))
+        .orderBy(productVariants.id)
+        .for("update", { of: productVariants });
+
+      const shortages: StockShortage[] = [];
+      for (const product of locked) {
+        const quantity = requested.get(product.id) ?? 0;
+        if (product.stock < quantity) {
+          shortages.push({ productId: product.id, productName: product.name, requested: quantity, available: Math.max(0, product.stock) });
+        }
+      }
+      for (const { variant, productName } of lockedVariants) {
+        const quantity = requestedVariants.get(variant.id) ?? 0;
+        if (variant.stock < quantity) {
+          shortages.push({
+            productId: variant.productId,
+            variantId: variant.id,
+            productName: `${productName} - ${variant.name}`,
+            requested: quantity,
+            available: Math.max(0, variant.stock),
+          });
+        }
+      }
+      if (shortages.length > 0) {
+        throw new InsufficientStockError(shortages);
+      }
+
+      const id = randomUUID();
+      const [order] = await tx.insert(orders).values({
+        ...toOrderRow(id, insertOrder),
+        scheduledFor: schedule?.scheduledFor ?? null,
+      }).returning();
+
+      const items = drafts.length === 0 ? [] : await tx.insert(orderItems)
+        .values(drafts.map(draft => ({ id: randomUUID(), orderId: id, ...draft })))
+        .returning();
+
+      for (const product of locked) {
+        const quantity = requested.get(product.id) ?? 0;
+        const newStock = product.stock - quantity;
+        await tx.update(products).set({ stock: newStock }).where(eq(products.id, product.id));
+        await tx.insert(stockLogs).values({
+          id: randomUUID(),
+          productId: product.id,
+          previousStock: product.stock,
+          newStock,
+          change: -quantity,
+          reason: `Pedido #${id.slice(0, 8)}`,
+        });
+      }
+
+      for (const { variant } of lockedVariants) {
+        const quantity = requestedVariants.get(variant.id) ?? 0;
+        const newStock = variant.stock - quantity;
+        await tx.update(productVariants).set({ stock: newStock }).where(eq(productVariants.id, variant.id));
+        await tx.insert(stockLogs).values({
+          id: randomUUID(),
+          productId: variant.productId,
+          variantId: variant.id,
+          previousStock: variant.stock,
+          newStock,
+          change: -quantity,
+          reason: `Pedido #${id.slice(0, 8)}`,
+        });
+      }
+
+      if (coupon) {
+        await tx.insert(couponRedemptions).values({
+          id: randomUUID(),
+          couponId: coupon.couponId,
+          orderId: id,
+          userId: coupon.userId,
+          discount: coupon.discount.toFixed(2),
+        });
+      }
+
+      return { order, items };
+    });
+  }
+
+  async getScheduledOrderCounts(from: Date): Promise<Map<string, number>> {
+    const rows = await db.select({ scheduledFor: orders.scheduledFor, count: sql<number>`count(*)::int` })
+      .from(orders)
+      .where(and(gte(orders.scheduledFor, from), sql`${orders.status} <> 'cancelled'`))
+      .groupBy(orders.scheduledFor);
+    return new Map(rows.map(row => [row.scheduledFor!.toISOString(), row.count]));
+  }
+
   async updateOrder(id: string, updates: Partial<Order>): Promise<Order | undefined> {
     const [order] = await db.update(orders).set(updates).where(eq(orders.id, id)).returning();
     return order || undefined;
   }
 
+  // A new fee moves the total, so what is owed (paid or not) is re-derived from the ledger with it
+  async changeDeliveryFee(id: string, deliveryFee: number): Promise<{ order: Order; previous: Order } | undefined> {
+    return await db.transaction(async (tx) => {
+      const [order] = await tx.select().from(orders).where(eq(orders.id, id)).for("update");
+      if (!order) return undefined;
+
+      const total = Math.max(0, Math.round((Number(order.subtotal) - Number(order.discount ?? 0) + deliveryFee) * 100) / 100);
+      const ledger = await tx.select().from(payments).where(eq(payments.orderId, id)).orderBy(payments.createdAt);
+      const [updated] = await tx.update(orders).set({
+        deliveryFee: deliveryFee.toFixed(2),
+        // The fee the order was placed with, kept through later changes
+        originalDeliveryFee: order.originalDeliveryFee ?? order.deliveryFee,
+        deliveryFeeAdjusted: true,
+        deliveryFeeAdjustedAt: new Date(),
+        total: total.toFixed(2),
+        ...paymentFields(order, paymentStatusFor(total, ledger)),
+      }).where(eq(orders.id, id)).returning();
+      return { order: updated, previous: order };
+    });
+  }
+
+  // Everything that references the order goes with it, or nothing does
   async deleteOrder(id: string): Promise<boolean> {
-    await db.delete(orderItems).where(eq(orderItems.orderId, id));
-    await db.delete(orders).where(eq(orders.id, id));
+    await db.transaction(async (tx) => {
+      await tx.delete(payments).where(eq(payments.orderId, id));
+      await tx.delete(couponRedemptions).where(eq(couponRedemptions.orderId, id));
+      await tx.delete(orderItemCancellations).where(eq(orderItemCancellations.orderId, id));
+      await tx.delete(orderItems).where(eq(orderItems.orderId, id));
+      await tx.delete(orders).where(eq(orders.id, id));
+    });
     return true;
   }
 
+  async getPayments(orderId: string): Promise<Payment[]> {
+    return await db.select().from(payments).where(eq(payments.orderId, orderId)).orderBy(payments.createdAt);
+  }
+
+  async getPaymentsByOrderIds(orderIds: string[]): Promise<Payment[]> {
+    if (orderIds.length === 0) return [];
+    return await db.select().from(payments).where(inArray(payments.orderId, orderIds)).orderBy(payments.createdAt);
+  }
+
+  // The order row is locked so a webhook and a staff click can't both settle it
+  async recordPayment(entry: InsertPayment): Promise<PaymentRecordResult | undefined> {
+    return await db.transaction(async (tx) => {
+      const [order] = await tx.select().from(orders).where(eq(orders.id, entry.orderId)).for("update");
+      if (!order) return undefined;
+
+      const ledger = await tx.select().from(payments).where(eq(payments.orderId, order.id)).orderBy(payments.createdAt);
+      if (entry.kind === "refund" && Number(entry.amount) > netPaid(ledger) + 0.005) {
+        throw new PaymentRejectedError("O estorno e maior que o valor pago");
+      }
+
+      const [payment] = await tx.insert(payments).values({ id: randomUUID(), ...entry }).onConflictDoNothing().returning();
+      if (!payment) return { order, payment: null, previousStatus: order.paymentStatus };
+
+      const status = paymentStatusFor(Number(order.total), [...ledger, payment]);
+      const [updated] = await tx.update(orders).set({
+        ...paymentFields(order, status),
+        paymentFailedAt: status === "failed" ? new Date() : order.paymentFailedAt,
+      }).where(eq(orders.id, order.id)).returning();
+      return { order: updated, payment, previousStatus: order.paymentStatus };
+    });
+  }
+
+  // Items, totals, stock and the refund change together or not at all
+  async cancelOrderItems(orderId: string, lines: ItemCancellationLine[], reason: string, recordedBy: string): Promise<ItemCancellationResult | undefined> {
+    return await db.transaction(async (tx) => {
+      const [order] = await tx.select().from(orders).where(eq(orders.id, orderId)).for("update");
+      if (!order) return undefined;
+      if (order.status === "cancelled" || order.status === "delivered") {
+        throw new ItemCancellationRejectedError("Este pedido nao pode mais ser alterado");
+      }
+
+      const items = await tx.select().from(orderItems).where(eq(orderItems.orderId, orderId));
+      const removing = new Map<string, number>();
+      for (const line of lines) {
+        const item = items.find(candidate => candidate.id === line.orderItemId);
+        if (!item) throw new ItemCancellationRejectedError("Item nao pertence a este pedido");
+        const quantity = (removing.get(item.id) ?? 0) + line.quantity;
+        if (quantity > item.quantity) {
+          throw new ItemCancellationRejectedError(`${item.productName}: o pedido tem ${item.quantity} unidade(s)`);
+        }
+        removing.set(item.id, quantity);
+      }
+      if (items.every(item => removing.get(item.id) === item.quantity)) {
+        throw new ItemCancellationRejectedError("Para remover todos os itens, cancele o pedido");
+      }
+
+      const cancellations: OrderItemCancellation[] = [];
+      for (const item of items) {
+        const quantity = removing.get(item.id);
+        if (!quantity) continue;
+        // Line total over quantity, so modifiers priced into the line go with the unit
+        const amount = Math.round(Number(item.totalPrice) * quantity / item.quantity * 100) / 100;
+        if (quantity === item.quantity) {
+          await tx.delete(orderItems).where(eq(orderItems.id, item.id));
+        } else {
+          await tx.update(orderItems).set({
+            quantity: item.quantity - quantity,
+            totalPrice: (Number(item.totalPrice) - amount).toFixed(2),
+          }).where(eq(orderItems.id, item.id));
+        }
+        const [cancellation] = await tx.insert(orderItemCancellations).values({
+          id: randomUUID(),
+          orderId,
+          orderItemId: item.id,
+          productId: item.productId,
+          productName: item.productName,
+          quantity,
+          amount: amount.toFixed(2),
+          reason,
+          recordedBy,
+        }).returning();
+        cancellations.push(cancellation);
+
+        // Same rule as a full cancellation: shelf stock comes back, prepared drinks were made to order
+        const [stocked] = await tx.select({ product: products, category: categories })
+          .from(products)
+          .leftJoin(categories, eq(categories.id, products.categoryId))
+          .where(eq(products.id, item.productId))
+          .for("update", { of: products });
+        if (!stocked || !tracksProductStock(stocked.product, stocked.category)) continue;
+        const stockReason = `Item removido pedido #${orderId.slice(0, 8)}`;
+        const [variant] = item.variantId
+          ? await tx.select().from(productVariants).where(eq(productVariants.id, item.variantId)).for("update")
+          : [];
+        if (variant) {
+          await tx.update(productVariants).set({ stock: variant.stock + quantity }).where(eq(productVariants.id, variant.id));
+          await tx.insert(stockLogs).values({
+            id: randomUUID(),
+            productId: item.productId,
+            variantId: variant.id,
+            previousStock: variant.stock,
+            newStock: variant.stock + quantity,
+            change: quantity,
+            reason: stockReason,
+          });
+        } else {
+          await tx.update(products).set({ stock: stocked.product.stock + quantity }).where(eq(products.id, item.productId));
+          await tx.insert(stockLogs).values({
+            id: randomUUID(),
+            productId: item.productId,
+            previousStock: stocked.product.stock,
+            newStock: stocked.product.stock + quantity,
+            change: quantity,
+            reason: stockReason,
+          });
+        }
+      }
+
+      // The rest of the order is priced again with the combos and coupon it was sold with; the delivery fee stays
+      const before: PricedLine[] = items.map(item => ({
+        productId: item.productId,
+        quantity: item.quantity,
+        totalPrice: Number(item.totalPrice),
+        comboId: item.comboId,
+        comboTemplateId: item.comboTemplateId,
+        comboSlotId: item.comboSlotId,
+      }));
+      const after = before.flatMap((line, index) => {
+        const quantity = removing.get(items[index].id) ?? 0;
+        if (quantity === line.quantity) return [];
+        const amount = Math.round(line.totalPrice * quantity / line.quantity * 100) / 100;
+        return [{ ...line, quantity: line.quantity - quantity, totalPrice: Math.round((line.totalPrice - amount) * 100) / 100 }];
+      });
+
+      const templateIds = Array.from(new Set(items.map(item => item.comboTemplateId).filter((id): id is string => !!id)));
+      const templates = templateIds.length > 0
+        ? await tx.select().from(comboTemplates).where(inArray(comboTemplates.id, templateIds))
+        : [];
+      const [coupon] = order.couponId ? await tx.select().from(coupons).where(eq(coupons.id, order.couponId)) : [];
+      const [redemption] = coupon
+        ? await tx.select().from(couponRedemptions).where(eq(couponRedemptions.orderId, orderId))
+        : [];
+      const productRows = await tx.select({ id: products.id, categoryId: products.categoryId }).from(products)
+        .where(inArray(products.id, Array.from(new Set(after.map(line => line.productId)))));
+
+      const ledger = await tx.select().from(payments).where(eq(payments.orderId, orderId)).orderBy(payments.createdAt);
+      const pricing = repriceAfterRemoval(
+        { discount: Number(order.discount ?? 0), deliveryFee: Number(order.deliveryFee) },
+        before,
+        after,
+        {
+          combos: new Map(templates.map(template => [template.id, template])),
+          // Orders from before redemptions were recorded keep their coupon share as a fixed discount
+          coupon: coupon && redemption ? { coupon, discount: Number(redemption.discount) } : null,
+          products: new Map(productRows.map(product => [product.id, product])),
+        },
+        netPaid(ledger),
+      );
+
+      // A coupon the remaining items no longer qualify for is given back, use included
+      if (redemption && !pricing.couponApplies) {
+        await tx.delete(couponRedemptions).where(eq(couponRedemptions.id, redemption.id));
+      } else if (redemption) {
+        await tx.update(couponRedemptions).set({ discount: pricing.couponDiscount.toFixed(2) })
+          .where(eq(couponRedemptions.id, redemption.id));
+      }
+
+      // A split sale is paid back through the last tender taken
+      const lastPayment = [...ledger].reverse().find(entry => entry.kind === "payment");
+      const refundMethod = order.paymentMethod === "split" ? lastPayment?.method ?? "cash" : order.paymentMethod;
+      const [refund] = pricing.refund > 0 ? await tx.insert(payments).values({
+        id: randomUUID(),
+        orderId,
+        kind: "refund",
+        method: refundMethod,
+        amount: pricing.refund.toFixed(2),
+        recordedBy,
+        notes: reason,
+      }).returning() : [];
+
+      const status = paymentStatusFor(pricing.total, refund ? [...ledger, refund] : ledger);
+      const [updated] = await tx.update(orders).set({
+        subtotal: pricing.subtotal.toFixed(2),
+        discount: pricing.discount.toFixed(2),
+        total: pricing.total.toFixed(2),
+        ...(redemption && !pricing.couponApplies && { couponId: null, couponCode: null }),
+        ...paymentFields(order, status),
+      }).where(eq(orders.id, orderId)).returning();
+
+      return { order: updated, previousTotal: order.total, cancellations, refund: refund ?? null, previousStatus: order.paymentStatus };
+    });
+  }
+
+  async getCashSession(id: string): Promise<CashSession | undefined> {
+    const [session] = await db.select().from(cashSessions).where(eq(cashSessions.id, id));
+    return session;
+  }
+
+  async getOpenCashSession(operatorId: string): Promise<CashSession | undefined> {
+    const [session] = await db.select().from(cashSessions)
+      .where(and(eq(cashSessions.operatorId, operatorId), eq(cashSessions.status, "open")));
+    return session;
+  }
+
+  async getCashSessions(from?: Date, to?: Date): Promise<CashSession[]> {
+    const conditions = [];
+    if (from) conditions.push(gte(cashSessions.openedAt, from));
+    if (to) conditions.push(lte(cashSessions.openedAt, to));
+    return await db.select().from(cashSessions)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(cashSessions.openedAt));
+  }
+
+  async getCashSessionReports(sessions: CashSession[]): Promise<CashSessionReport[]> {
+    return await cashSessionReports(db, sessions);
+  }
+
+  async openCashSession(session: InsertCashSession): Promise<CashSession> {
+    try {
+      const [created] = await db.insert(cashSessions).values({ id: randomUUID(), ...session }).returning();
+      return created;
+    } catch (error: any) {
+      // cash_sessions_one_open_idx: one open till per operator
+      if (error?.code === "23505") throw new CashSessionError("Ja existe um caixa aberto para este operador");
+      throw error;
+    }
+  }
+
+  // The session row is locked so a sangria can't race the closing count
+  async addCashMovement(movement: InsertCashMovement): Promise<CashMovement | undefined> {
+    return await db.transaction(async (tx) => {
+      const [session] = await tx.select().from(cashSessions).where(eq(cashSessions.id, movement.sessionId)).for("update");
+      if (!session) return undefined;
+      if (session.status !== "open") throw new CashSessionError("Este caixa ja foi fechado");
+      if (movement.kind === "withdrawal") {
+        const [report] = await cashSessionReports(tx, [session]);
+        if (Number(movement.amount) > report.totals.expectedCash + 0.005) {
+          throw new CashSessionError("A sangria e maior que o dinheiro esperado em caixa");
+        }
+      }
+      const [created] = await tx.insert(cashMovements).values({ id: randomUUID(), ...movement }).returning();
+      return created;
+    });
+  }
+
+  async closeCashSession(id: string, closing: CashSessionClosing): Promise<CashSession | undefined> {
+    return await db.transaction(async (tx) => {
+      const [session] = await tx.select().from(cashSessions).where(eq(cashSessions.id, id)).for("update");
+      if (!session) return undefined;
+      if (session.status !== "open") throw new CashSessionError("Este caixa ja foi fechado");
+      const [report] = await cashSessionReports(tx, [session]);
+      const [closed] = await tx.update(cashSessions).set({
+        status: "closed",
+        closedAt: new Date(),
+        closedBy: closing.closedBy,
+        expectedCash: report.totals.expectedCash.toFixed(2),
+        countedCash: closing.countedCash.toFixed(2),
+        closingNotes: closing.notes,
+      }).where(eq(cashSessions.id, id)).returning();
+      return closed;
+    });
+  }
+
   async getOrderItems(orderId: string): Promise<OrderItem[]> {
     return await db.select().from(orderItems).where(eq(orderItems.orderId, orderId));
   }
@@ -503,6 +1360,116 @@ export class DatabaseStorage implements IStorage {
     return true;
   }
 
+  async getComboTemplates(): Promise<ComboTemplate[]> {
+    const result = await db.select().from(comboTemplates);
+    return result.sort((a, b) => (a.sortOrder ?? 0) - (b.sortOrder ?? 0));
+  }
+
+  async getComboTemplate(id: string): Promise<ComboTemplate | undefined> {
+    const [template] = await db.select().from(comboTemplates).where(eq(comboTemplates.id, id));
+    return template || undefined;
+  }
+
+  async createComboTemplate(insertTemplate: InsertComboTemplate): Promise<ComboTemplate> {
+    const [template] = await db.insert(comboTemplates).values({ ...insertTemplate, id: randomUUID() }).returning();
+    return template;
+  }
+
+  async updateComboTemplate(id: string, updates: Partial<InsertComboTemplate>): Promise<ComboTemplate | undefined> {
+    const [template] = await db.update(comboTemplates).set(updates).where(eq(comboTemplates.id, id)).returning();
+    return template || undefined;
+  }
+
+  async deleteComboTemplate(id: string): Promise<boolean> {
+    const result = await db.delete(comboTemplates).where(eq(comboTemplates.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async getModifierGroups(): Promise<ModifierGroup[]> {
+    const result = await db.select().from(modifierGroups);
+    return result.sort((a, b) => (a.sortOrder ?? 0) - (b.sortOrder ?? 0));
+  }
+
+  async getModifierGroup(id: string): Promise<ModifierGroup | undefined> {
+    const [group] = await db.select().from(modifierGroups).where(eq(modifierGroups.id, id));
+    return group || undefined;
+  }
+
+  async createModifierGroup(insertGroup: InsertModifierGroup): Promise<ModifierGroup> {
+    const [group] = await db.insert(modifierGroups).values({ ...insertGroup, id: randomUUID() }).returning();
+    return group;
+  }
+
+  async updateModifierGroup(id: string, updates: Partial<InsertModifierGroup>): Promise<ModifierGroup | undefined> {
+    const [group] = await db.update(modifierGroups).set(updates).where(eq(modifierGroups.id, id)).returning();
+    return group || undefined;
+  }
+
+  // Order items keep a copy of their choices, so a group can go away without touching history
+  async deleteModifierGroup(id: string): Promise<boolean> {
+    const result = await db.delete(modifierGroups).where(eq(modifierGroups.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async getCoupons(): Promise<CouponWithStats[]> {
+    const rows = await db.select().from(coupons).orderBy(desc(coupons.createdAt));
+    const stats = await db.select({
+      couponId: couponRedemptions.couponId,
+      uses: sql<number>`count(*)::int`,
+      customers: sql<number>`count(distinct ${couponRedemptions.userId})::int`,
+      totalDiscount: sql<string>`coalesce(sum(${couponRedemptions.discount}), 0)`,
+      lastUsedAt: sql<string | null>`max(${couponRedemptions.createdAt})`,
+    })
+      .from(couponRedemptions)
+      .innerJoin(orders, eq(orders.id, couponRedemptions.orderId))
+      .where(sql`${orders.status} <> 'cancelled'`)
+      .groupBy(couponRedemptions.couponId);
+    const statsById = new Map(stats.map(s => [s.couponId, s]));
+    return rows.map(coupon => {
+      const s = statsById.get(coupon.id);
+      return {
+        ...coupon,
+        uses: s?.uses ?? 0,
+        customers: s?.customers ?? 0,
+        totalDiscount: Number(s?.totalDiscount ?? 0),
+        lastUsedAt: s?.lastUsedAt ?? null,
+      };
+    });
+  }
+
+  async getCoupon(id: string): Promise<Coupon | undefined> {
+    const [coupon] = await db.select().from(coupons).where(eq(coupons.id, id));
+    return coupon || undefined;
+  }
+
+  async getCouponByCode(code: string): Promise<Coupon | undefined> {
+    const [coupon] = await db.select().from(coupons).where(eq(coupons.code, code.trim().toUpperCase()));
+    return coupon || undefined;
+  }
+
+  async createCoupon(insertCoupon: InsertCoupon): Promise<Coupon> {
+    const [coupon] = await db.insert(coupons).values({ ...insertCoupon, id: randomUUID() }).returning();
+    return coupon;
+  }
+
+  async updateCoupon(id: string, updates: Partial<InsertCoupon>): Promise<Coupon | undefined> {
+    const [coupon] = await db.update(coupons).set(updates).where(eq(coupons.id, id)).returning();
+    return coupon || undefined;
+  }
+
+  // Redeemed coupons stay for the order history; callers should deactivate them instead
+  async deleteCoupon(id: string): Promise<boolean> {
+    const [used] = await db.select({ id: couponRedemptions.id }).from(couponRedemptions)
+      .where(eq(couponRedemptions.couponId, id)).limit(1);
+    if (used) return false;
+    const result = await db.delete(coupons).where(eq(coupons.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async countCouponRedemptions(couponId: string, userId?: string): Promise<number> {
+    return countRedemptions(db, couponId, userId);
+  }
+
   async getMotoboys(): Promise<Motoboy[]> {
     return await db.select().from(motoboys);
   }
@@ -610,6 +1577,7 @@ export class DatabaseStorage implements IStorage {
       fee: insertZone.fee,
       sortOrder: insertZone.sortOrder ?? 0,
       isActive: insertZone.isActive ?? true,
+      cepRanges: insertZone.cepRanges ?? [],
     }).returning();
     return zone;
   }
@@ -644,6 +1612,7 @@ export class DatabaseStorage implements IStorage {
       name: insertNeighborhood.name,
       zoneId: insertNeighborhood.zoneId,
       isActive: insertNeighborhood.isActive ?? true,
+      aliases: insertNeighborhood.aliases ?? [],
     }).returning();
     return neighborhood;
   }
@@ -658,6 +1627,66 @@ export class DatabaseStorage implements IStorage {
     return true;
   }
 
+  async getDeliveryAreas(): Promise<DeliveryArea[]> {
+    const zones = await this.getDeliveryZones();
+    const activeNeighborhoods = await db.select().from(neighborhoods).where(eq(neighborhoods.isActive, true));
+    return zones
+      .filter(zone => zone.isActive !== false)
+      .map(zone => ({
+        zone,
+        neighborhoods: activeNeighborhoods
+          .filter(n => n.zoneId === zone.id)
+          .sort((a, b) => a.name.localeCompare(b.name, "pt-BR")),
+      }));
+  }
+
+  // Counts repeat spellings; one that was resolved but no longer matches goes back to pending
+  async recordUnlistedNeighborhood(name: string, zipCode: string | null): Promise<void> {
+    const normalizedName = normalizeNeighborhood(name);
+    if (!normalizedName) return;
+    await db.insert(unlistedNeighborhoods)
+      .values({ id: randomUUID(), name: name.trim(), normalizedName, zipCode })
+      .onConflictDoUpdate({
+        target: unlistedNeighborhoods.normalizedName,
+        set: {
+          occurrences: sql`${unlistedNeighborhoods.occurrences} + 1`,
+          zipCode: sql`coalesce(excluded.zip_code, ${unlistedNeighborhoods.zipCode})`,
+          status: sql`case when ${unlistedNeighborhoods.status} = 'ignored' then 'ignored' else 'pending' end`,
+          lastSeenAt: new Date(),
+        },
+      });
+  }
+
+  async getUnlistedNeighborhoods(status?: UnlistedNeighborhoodStatus): Promise<UnlistedNeighborhood[]> {
+    return await db.select().from(unlistedNeighborhoods)
+      .where(status ? eq(unlistedNeighborhoods.status, status) : undefined)
+      .orderBy(desc(unlistedNeighborhoods.occurrences), desc(unlistedNeighborhoods.lastSeenAt));
+  }
+
+  async resolveUnlistedNeighborhood(id: string, resolution: UnlistedNeighborhoodResolution): Promise<UnlistedNeighborhood | undefined> {
+    return await db.transaction(async (tx) => {
+      const [entry] = await tx.select().from(unlistedNeighborhoods).where(eq(unlistedNeighborhoods.id, id)).for("update");
+      if (!entry) return undefined;
+
+      if (resolution.action === "create") {
+        await tx.insert(neighborhoods).values({ id: randomUUID(), name: resolution.name, zoneId: resolution.zoneId, isActive: true, aliases: [] });
+      } else if (resolution.action === "alias") {
+        const [target] = await tx.select().from(neighborhoods).where(eq(neighborhoods.id, resolution.neighborhoodId)).for("update");
+        if (!target) return undefined;
+        const known = [target.name, ...target.aliases].map(normalizeNeighborhood);
+        if (!known.includes(entry.normalizedName)) {
+          await tx.update(neighborhoods).set({ aliases: [...target.aliases, entry.name] }).where(eq(neighborhoods.id, target.id));
+        }
+      }
+
+      const [updated] = await tx.update(unlistedNeighborhoods)
+        .set({ status: resolution.action === "ignore" ? "ignored" : "resolved", resolvedAt: new Date() })
+        .where(eq(unlistedNeighborhoods.id, id))
+        .returning();
+      return updated;
+    });
+  }
+
   async getCuratedTrendingProducts(): Promise<(TrendingProduct & { product: Product })[]> {
     const result = await db.select()
       .from(trendingProducts)
@@ -734,6 +1763,80 @@ export class DatabaseStorage implements IStorage {
     return updated || undefined;
   }
 
+  async getLoginLockEvents(limit = 100): Promise<LoginLockEvent[]> {
+    return await db.select().from(loginLockEvents).orderBy(desc(loginLockEvents.createdAt)).limit(limit);
+  }
+
+  async getLoginLockEvent(id: string): Promise<LoginLockEvent | undefined> {
+    const [event] = await db.select().from(loginLockEvents).where(eq(loginLockEvents.id, id));
+    return event || undefined;
+  }
+
+  async createLoginLockEvent(event: InsertLoginLockEvent): Promise<LoginLockEvent> {
+    const id = randomUUID();
+    const [created] = await db.insert(loginLockEvents).values({ id, ...event }).returning();
+    return created;
+  }
+
+  async markLoginLockEventUnlocked(id: string, unlockedBy: string): Promise<LoginLockEvent | undefined> {
+    const [updated] = await db.update(loginLockEvents)
+      .set({ unlockedAt: new Date(), unlockedBy })
+      .where(eq(loginLockEvents.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async getAuditEvents(filters: AuditEventFilters = {}): Promise<AuditEvent[]> {
+    const conditions = [];
+    if (filters.action) conditions.push(eq(auditEvents.action, filters.action));
+    if (filters.entityType) conditions.push(eq(auditEvents.entityType, filters.entityType));
+    if (filters.entityId) conditions.push(eq(auditEvents.entityId, filters.entityId));
+    if (filters.actorId) conditions.push(eq(auditEvents.actorId, filters.actorId));
+    if (filters.from) conditions.push(gte(auditEvents.createdAt, filters.from));
+    if (filters.to) conditions.push(lte(auditEvents.createdAt, filters.to));
+
+    return await db.select().from(auditEvents)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(auditEvents.createdAt))
+      .limit(filters.limit ?? 200);
+  }
+
+  async createAuditEvent(event: InsertAuditEvent): Promise<AuditEvent> {
+    const [created] = await db.insert(auditEvents).values({ id: randomUUID(), ...event }).returning();
+    return created;
+  }
+
+  async getLatestVerificationCode(whatsapp: string, purpose: string): Promise<VerificationCode | undefined> {
+    const [code] = await db.select().from(verificationCodes)
+      .where(and(eq(verificationCodes.whatsapp, whatsapp), eq(verificationCodes.purpose, purpose)))
+      .orderBy(desc(verificationCodes.createdAt))
+      .limit(1);
+    return code || undefined;
+  }
+
+  async createVerificationCode(code: InsertVerificationCode): Promise<VerificationCode> {
+    const [created] = await db.insert(verificationCodes).values({ id: randomUUID(), ...code }).returning();
+    return created;
+  }
+
+  // Counts the guess before it is compared; undefined once the cap is reached, however many arrive at once
+  async reserveVerificationAttempt(id: string, maxAttempts: number): Promise<VerificationCode | undefined> {
+    const [updated] = await db.update(verificationCodes)
+      .set({ attempts: sql`${verificationCodes.attempts} + 1` })
+      .where(and(eq(verificationCodes.id, id), lt(verificationCodes.attempts, maxAttempts)))
+      .returning();
+    return updated || undefined;
+  }
+
+  // Only the first caller wins, so a code cannot be used twice by concurrent requests
+  async consumeVerificationCode(id: string): Promise<VerificationCode | undefined> {
+    const [updated] = await db.update(verificationCodes)
+      .set({ consumedAt: new Date() })
+      .where(and(eq(verificationCodes.id, id), isNull(verificationCodes.consumedAt)))
+      .returning();
+    return updated || undefined;
+  }
+
   async getShoppingLists(): Promise<ShoppingList[]> {
     return await db.select().from(shoppingLists).orderBy(desc(shoppingLists.createdAt));
   }
@@ -807,6 +1910,116 @@ export const storage = new DatabaseStorage();
 
 const SALT_ROUNDS = 10;
 
+// Databases created before permission scopes existed have nobody able to grant them;
+// hand every scope to the current admins so the panel stays manageable
+export async function bootstrapAdminPermissions() {
+  const existingUsers = await db.select().from(users);
+  if (existingUsers.some(u => u.permissions?.includes("staff:manage"))) {
+    return;
+  }
+  await db.update(users).set({ permissions: PERMISSION_SCOPES }).where(eq(users.role, "admin"));
+}
+
+// Category flags replaced name matching ("doses", "caipirinhas", ...). Databases that never
+// had a flag set get them derived once from the names; after that admins own them.
+export async function bootstrapCategoryFlags() {
+  const existing = await db.select().from(categories);
+  const configured = existing.some(c => c.isPrepared || !c.tracksStock || c.comboRole || c.showcaseGroup);
+  if (configured) {
+    return;
+  }
+
+  const preparedPatterns = ["copos", "doses", "copao", "drinks", "caipirinha", "caipi ice", "batida"];
+  const showcaseNames = ["caipirinhas", "drinks especiais", "copao", "batidas"];
+  const spiritNames = ["gin", "vodka", "cachaca", "whisky"];
+
+  for (const category of existing) {
+    const name = category.name.toLowerCase().trim();
+    const isPrepared = preparedPatterns.some(pattern => name.includes(pattern));
+    const comboRole: ComboRole | null = spiritNames.includes(name)
+      ? "spirit"
+      : name.includes("energetico") ? "energy_drink"
+      : name.includes("gelo") ? "ice"
+      : null;
+    const showcaseGroup: ShowcaseGroup | null = showcaseNames.includes(name) ? "special_drinks" : null;
+
+    if (!isPrepared && !comboRole && !showcaseGroup) continue;
+    await db.update(categories)
+      .set({ isPrepared, tracksStock: !isPrepared, comboRole, showcaseGroup })
+      .where(eq(categories.id, category.id));
+  }
+}
+
+// The alcohol flag first shipped on for every category. If that is still the case, only
+// categories whose name says alcohol keep it. Runs once per database, then the panel decides.
+export async function bootstrapAlcoholFlags() {
+  // No settings row yet means a fresh database, which the seed fills in with the flags set
+  const [current] = await db.select().from(settings);
+  if (!current || current.alcoholFlagsReviewedAt) {
+    return;
+  }
+  await deriveAlcoholFlags();
+  await db.update(settings).set({ alcoholFlagsReviewedAt: new Date() }).where(eq(settings.id, current.id));
+}
+
+async function deriveAlcoholFlags() {
+  const existing = await db.select().from(categories);
+  if (existing.length === 0 || existing.some(c => !c.containsAlcohol)) {
+    return;
+  }
+
+  const alcoholPatterns = [
+    "destilado", "cerveja", "chopp", "vinho", "espumante", "licor", "gin", "vodka", "cachaca", "whisky",
+    "copos", "doses", "copao", "drinks", "caipirinha", "caipi ice", "batida",
+  ];
+  for (const category of existing) {
+    const name = category.name.toLowerCase().trim();
+    if (alcoholPatterns.some(pattern => name.includes(pattern))) continue;
+    await db.update(categories).set({ containsAlcohol: false }).where(eq(categories.id, category.id));
+  }
+}
+
+// Counter sales used to record the operator as a typed name. Link the ones that name exactly one
+// staff user; the rest keep only the name, which the sales report still shows.
+export async function bootstrapSalespersonIds() {
+  await db.execute(sql`
+    update ${orders} set salesperson_id = matched.id
+    from (
+      select min(${users.id}) as id, lower(trim(${users.name})) as name
+      from ${users}
+      where ${users.role} <> 'customer'
+      group by lower(trim(${users.name}))
+      having count(*) = 1
+    ) as matched
+    where ${orders.salespersonId} is null
+      and ${orders.salesperson} is not null
+      and lower(trim(${orders.salesperson})) = matched.name
+  `);
+}
+
+// Zones used to live in a static table the checkout read directly; databases that never
+// got zones from the panel start from that table so fees don't drop to the fallback
+export async function bootstrapDeliveryZones() {
+  const [{ count }] = await db.select({ count: sql<number>`count(*)::int` }).from(deliveryZones);
+  if (count > 0) {
+    return;
+  }
+
+  const zoneIds = new Map<string, string>();
+  await db.insert(deliveryZones).values(SEED_DELIVERY_ZONES.map((zone, index) => {
+    const id = randomUUID();
+    zoneIds.set(zone.code, id);
+    return { id, ...zone, sortOrder: index, isActive: true, cepRanges: [] };
+  }));
+  await db.insert(neighborhoods).values(SEED_NEIGHBORHOODS.map(n => ({
+    id: randomUUID(),
+    name: n.name,
+    zoneId: zoneIds.get(n.zone)!,
+    isActive: true,
+    aliases: [],
+  })));
+}
+
 export async function seedDatabase() {
   const existingUsers = await db.select().from(users);
   if (existingUsers.length > 0) {
@@ -821,7 +2034,7 @@ export async function seedDatabase() {
   const hashedPassword = await bcrypt.hash("939393", SALT_ROUNDS);
 
   await db.insert(users).values([
-    { id: adminId, name: "Admin", whatsapp: "00000000000", role: "admin", password: hashedPassword, isBlocked: false },
+    { id: adminId, name: "Admin", whatsapp: "00000000000", role: "admin", password: hashedPassword, isBlocked: false, permissions: PERMISSION_SCOPES },
     { id: kitchenId, name: "Cozinha", whatsapp: "00000000001", role: "kitchen", password: hashedPassword, isBlocked: false },
     { id: pdvId, name: "Balcao", whatsapp: "00000000002", role: "pdv", password: hashedPassword, isBlocked: false },
   ]);
@@ -836,11 +2049,11 @@ export async function seedDatabase() {
   const catAguasId = randomUUID();
 
   await db.insert(categories).values([
-    { id: catDestiladosId, name: "Destilados", iconUrl: "wine", sortOrder: 1, isActive: true },
-    { id: catCervejasId, name: "Cervejas", iconUrl: "beer", sortOrder: 2, isActive: true },
-    { id: catVinhosId, name: "Vinhos", iconUrl: "grape", sortOrder: 3, isActive: true },
-    { id: catGelosId, name: "Gelos", iconUrl: "snowflake", sortOrder: 4, isActive: true },
-    { id: catEnergeticosId, name: "Energeticos", iconUrl: "zap", sortOrder: 5, isActive: true },
+    { id: catDestiladosId, name: "Destilados", iconUrl: "wine", sortOrder: 1, isActive: true, comboRole: "spirit", containsAlcohol: true },
+    { id: catCervejasId, name: "Cervejas", iconUrl: "beer", sortOrder: 2, isActive: true, containsAlcohol: true },
+    { id: catVinhosId, name: "Vinhos", iconUrl: "grape", sortOrder: 3, isActive: true, containsAlcohol: true },
+    { id: catGelosId, name: "Gelos", iconUrl: "snowflake", sortOrder: 4, isActive: true, comboRole: "ice" },
+    { id: catEnergeticosId, name: "Energeticos", iconUrl: "zap", sortOrder: 5, isActive: true, comboRole: "energy_drink" },
     { id: catMisturaId, name: "Misturas", iconUrl: "glass-water", sortOrder: 6, isActive: true },
     { id: catPetiscosId, name: "Petiscos", iconUrl: "utensils", sortOrder: 7, isActive: true },
     { id: catAguasId, name: "Aguas e Sucos", iconUrl: "droplets", sortOrder: 8, isActive: true },
@@ -881,6 +2094,22 @@ export async function seedDatabase() {
     });
   }
 
+  await db.insert(comboTemplates).values({
+    id: randomUUID(),
+    name: "Combo Vibe",
+    description: "Destilado + energetico + 4 gelos",
+    slots: [
+      { id: "destilado", label: "Destilado", source: "category", ids: [catDestiladosId], comboEligibleOnly: false, minQuantity: 1, maxQuantity: 1 },
+      { id: "energetico", label: "Energetico", source: "category", ids: [catEnergeticosId], comboEligibleOnly: false, minQuantity: 1, maxQuantity: 4 },
+      { id: "gelo", label: "Gelo", source: "category", ids: [catGelosId], comboEligibleOnly: false, minQuantity: 4, maxQuantity: 4 },
+    ],
+    discountType: "percent",
+    discountValue: "5.00",
+    activePeriods: [],
+    isActive: true,
+    sortOrder: 0,
+  });
+
   await db.insert(settings).values({
     id: randomUUID(),
     storeAddress: "Rua das Bebidas, 123 - Centro",
@@ -892,6 +2121,8 @@ export async function seedDatabase() {
     pixKey: "vibedrinks@pix.com",
     openingHours: null,
     isOpen: true,
+    // The seeded categories already carry the right alcohol flags
+    alcoholFlagsReviewedAt: new Date(),
   });
 
 }
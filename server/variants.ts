@@ -0,0 +1,43 @@
+import type { InsertProductVariant } from "@shared/schema";
+
+export class ProductVariantError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProductVariantError";
+  }
+}
+
+function parsePrice(value: unknown, label: string): string {
+  const price = Number(value);
+  if (value === null || value === "" || !Number.isFinite(price) || price < 0) {
+    throw new ProductVariantError(`${label} invalido`);
+  }
+  return price.toFixed(2);
+}
+
+// Validates an admin payload; with `partial` only the fields present are checked and returned
+export function parseProductVariantInput(body: any, partial = false): Partial<InsertProductVariant> {
+  const data: Partial<InsertProductVariant> = {};
+
+  if (!partial || body.name !== undefined) {
+    const name = typeof body.name === "string" ? body.name.trim() : "";
+    if (!name) throw new ProductVariantError("Nome da variacao obrigatorio");
+    data.name = name;
+  }
+  if (body.sku !== undefined) {
+    data.sku = typeof body.sku === "string" && body.sku.trim() ? body.sku.trim().toUpperCase() : null;
+  }
+
+  if (!partial || body.salePrice !== undefined) data.salePrice = parsePrice(body.salePrice, "Preco de venda");
+  if (!partial || body.costPrice !== undefined) data.costPrice = parsePrice(body.costPrice ?? 0, "Preco de custo");
+
+  if (body.stock !== undefined) {
+    const stock = Number(body.stock);
+    if (!Number.isInteger(stock) || stock < 0) throw new ProductVariantError("Estoque invalido");
+    data.stock = stock;
+  }
+  if (body.isActive !== undefined) data.isActive = body.isActive === true;
+  if (body.sortOrder !== undefined) data.sortOrder = Number(body.sortOrder) || 0;
+
+  return data;
+}
@@ -0,0 +1,83 @@
+import bcrypt from "bcrypt";
+import { randomInt } from "crypto";
+import { storage } from "./storage";
+import { getMessageProvider } from "./messaging";
+import type { VerificationPurpose } from "@shared/schema";
+
+// One-time codes sent by WhatsApp to prove the customer owns the number
+
+export class VerificationError extends Error {
+  constructor(message: string, public status = 400, public retryAfter?: number) {
+    super(message);
+    this.name = "VerificationError";
+  }
+}
+
+const CODE_TTL_MS = 10 * 60 * 1000;
+const RESEND_COOLDOWN_MS = 60 * 1000;
+const MAX_ATTEMPTS = 5;
+const SALT_ROUNDS = 10;
+
+const MESSAGES: Record<VerificationPurpose, (code: string) => string> = {
+  register: (code) => `Vibe Drinks: seu codigo de cadastro e ${code}. Valido por 10 minutos.`,
+  password_reset: (code) => `Vibe Drinks: seu codigo para redefinir a senha e ${code}. Valido por 10 minutos. Se nao foi voce, ignore.`,
+};
+
+export function isVerificationPurpose(value: unknown): value is VerificationPurpose {
+  return value === "register" || value === "password_reset";
+}
+
+export async function sendVerificationCode(whatsapp: string, purpose: VerificationPurpose): Promise<{ expiresAt: Date }> {
+  const previous = await storage.getLatestVerificationCode(whatsapp, purpose);
+  const sinceLast = previous?.createdAt ? Date.now() - previous.createdAt.getTime() : Infinity;
+  if (sinceLast < RESEND_COOLDOWN_MS) {
+    const seconds = Math.ceil((RESEND_COOLDOWN_MS - sinceLast) / 1000);
+    throw new VerificationError(`Aguarde ${seconds} segundo(s) para pedir outro codigo`, 429, seconds);
+  }
+
+  const code = String(randomInt(0, 1_000_000)).padStart(6, "0");
+  const expiresAt = new Date(Date.now() + CODE_TTL_MS);
+
+  // Store first so a code that reached the customer can always be checked
+  await storage.createVerificationCode({
+    whatsapp,
+    purpose,
+    codeHash: await bcrypt.hash(code, SALT_ROUNDS),
+    expiresAt,
+  });
+
+  try {
+    await getMessageProvider().sendWhatsApp(whatsapp, MESSAGES[purpose](code));
+  } catch (error) {
+    console.error("Error sending verification code:", error);
+    throw new VerificationError("Nao foi possivel enviar o codigo pelo WhatsApp", 502);
+  }
+
+  return { expiresAt };
+}
+
+// Checks the latest code for the number and consumes it; throws on any mismatch
+export async function confirmVerificationCode(whatsapp: string, purpose: VerificationPurpose, code: unknown): Promise<void> {
+  if (typeof code !== "string" || !/^\d{6}$/.test(code)) {
+    throw new VerificationError("Codigo de verificacao invalido");
+  }
+
+  const record = await storage.getLatestVerificationCode(whatsapp, purpose);
+  if (!record || record.consumedAt) {
+    throw new VerificationError("Solicite um codigo de verificacao");
+  }
+  if (record.expiresAt.getTime() <= Date.now()) {
+    throw new VerificationError("Codigo expirado. Solicite um novo codigo");
+  }
+  if (!(await storage.reserveVerificationAttempt(record.id, MAX_ATTEMPTS))) {
+    throw new VerificationError("Muitas tentativas. Solicite um novo codigo", 429);
+  }
+
+  if (!(await bcrypt.compare(code, record.codeHash))) {
+    throw new VerificationError("Codigo de verificacao incorreto");
+  }
+
+  if (!(await storage.consumeVerificationCode(record.id))) {
+    throw new VerificationError("Codigo ja utilizado. Solicite um novo codigo");
+  }
+}
@@ -0,0 +1,27 @@
+import type { Category } from "./schema";
+import { STORE_TIME_ZONE } from "./store-clock";
+
+export const MINIMUM_AGE = 18;
+
+// Whole years completed on the store's calendar day
+export function ageOn(birthDate: string, now: Date = new Date()): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: STORE_TIME_ZONE,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).formatToParts(now);
+  const part = (type: string) => Number(parts.find(p => p.type === type)?.value);
+  const [year, month, day] = birthDate.split("-").map(Number);
+  const hadBirthday = part("month") > month || (part("month") === month && part("day") >= day);
+  return part("year") - year - (hadBirthday ? 0 : 1);
+}
+
+export function isAdult(birthDate: string | null | undefined, now: Date = new Date()): boolean {
+  return !!birthDate && ageOn(birthDate, now) >= MINIMUM_AGE;
+}
+
+// A category has to be explicitly marked alcohol-free for its items to skip the ID check
+export function isAgeRestricted(category?: Pick<Category, "containsAlcohol"> | null): boolean {
+  return category?.containsAlcohol !== false;
+}
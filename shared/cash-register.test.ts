@@ -0,0 +1,82 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { cashSessionTotals } from "./cash-register";
+import type { CashMovement, CashSession, Order, Payment } from "./schema";
+
+const openedAt = new Date("2026-10-19T12:00:00Z");
+const minutesLater = (minutes: number) => new Date(openedAt.getTime() + minutes * 60_000);
+
+const session = {
+  id: "session-1",
+  operatorId: "operator-1",
+  openingFloat: "100.00",
+  openedAt,
+  closedAt: null,
+  expectedCash: null,
+  countedCash: null,
+} as CashSession;
+
+const order = (id: string, total: number, extra: Partial<Order> = {}) =>
+  ({ id, total: total.toFixed(2), status: "delivered", changeFor: null, ...extra }) as Order;
+
+let sequence = 0;
+const entry = (orderId: string, kind: Payment["kind"], method: string, amount: number, minutes = 10) =>
+  ({ id: `payment-${++sequence}`, orderId, kind, method, amount: amount.toFixed(2), createdAt: minutesLater(minutes) }) as Payment;
+
+const movement = (kind: CashMovement["kind"], amount: number) =>
+  ({ id: `movement-${kind}`, sessionId: session.id, kind, amount: amount.toFixed(2), reason: "troco" }) as CashMovement;
+
+// Cash with change, a card and cash split, a PIX sale cancelled and refunded, and a cash
+// sale with an item taken back
+const orders = [
+  order("cash-with-change", 35, { changeFor: "50.00" }),
+  order("split", 60),
+  order("cancelled-pix", 25, { status: "cancelled" }),
+  order("item-removed", 20),
+];
+const ledger = [
+  entry("cash-with-change", "payment", "cash", 35),
+  entry("split", "payment", "card", 40),
+  entry("split", "payment", "cash", 20),
+  entry("cancelled-pix", "payment", "pix", 25),
+  entry("cancelled-pix", "refund", "pix", 25, 20),
+  entry("item-removed", "payment", "cash", 30),
+  entry("item-removed", "refund", "cash", 10, 30),
+];
+const movements = [movement("top_up", 50), movement("withdrawal", 80)];
+
+test("the drawer holds the float, cash kept and top-ups, less cash refunds and withdrawals", () => {
+  const totals = cashSessionTotals(session, movements, orders, ledger);
+
+  assert.equal(totals.openingFloat, 100);
+  // 35 + 20 + 30 kept, plus the 15 handed back as change
+  assert.equal(totals.cashReceived, 100);
+  assert.equal(totals.changeGiven, 15);
+  assert.equal(totals.cashRefunds, 10);
+  assert.equal(totals.topUps, 50);
+  assert.equal(totals.withdrawals, 80);
+  assert.equal(totals.expectedCash, 145);
+  assert.equal(totals.countedCash, null);
+  assert.equal(totals.variance, null);
+});
+
+test("sales leave out cancelled orders and tenders are net of refunds", () => {
+  const totals = cashSessionTotals(session, movements, orders, ledger);
+
+  assert.equal(totals.ordersCount, 3);
+  assert.equal(totals.salesTotal, 115);
+  assert.deepEqual(totals.tenders, { cash: 75, card: 40, pix: 0 });
+});
+
+test("a closed session keeps its frozen expectation and ignores entries after the closing", () => {
+  const closed = { ...session, closedAt: minutesLater(60), expectedCash: "145.00", countedCash: "140.00" };
+  const lateRefund = entry("split", "refund", "cash", 20, 90);
+
+  const totals = cashSessionTotals(closed, movements, orders, [...ledger, lateRefund]);
+
+  assert.equal(totals.expectedCash, 145);
+  assert.equal(totals.countedCash, 140);
+  assert.equal(totals.variance, -5);
+  assert.equal(totals.cashRefunds, 10);
+  assert.equal(totals.tenders.cash, 75);
+});
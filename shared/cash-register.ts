@@ -0,0 +1,58 @@
+import { tenderTotals } from "./payments";
+import type { CashMovement, CashSession, CashSessionTotals, Order, Payment } from "./schema";
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+function sumAmounts(entries: { amount: string }[]): number {
+  return entries.reduce((sum, entry) => sum + Number(entry.amount), 0);
+}
+
+// What the till should hold: the float, plus cash kept from sales and top-ups, minus cash
+// refunds and withdrawals. Once closed, only what happened up to the closing counts.
+export function cashSessionTotals(
+  session: CashSession,
+  movements: CashMovement[],
+  orders: Order[],
+  ledger: Payment[],
+): CashSessionTotals {
+  const cutoff = session.closedAt ? new Date(session.closedAt).getTime() : Infinity;
+  const entries = ledger.filter(entry => !entry.createdAt || new Date(entry.createdAt).getTime() <= cutoff);
+  const cashEntries = entries.filter(entry => entry.method === "cash");
+  // Ledger cash is what stayed in the drawer; the change went back out of it
+  const cashKept = sumAmounts(cashEntries.filter(entry => entry.kind === "payment"));
+  const cashRefunds = sumAmounts(cashEntries.filter(entry => entry.kind === "refund"));
+
+  const changeGiven = orders.reduce((sum, order) => {
+    if (!order.changeFor) return sum;
+    const kept = sumAmounts(cashEntries.filter(entry => entry.orderId === order.id && entry.kind === "payment"));
+    return kept > 0 ? sum + Math.max(0, Number(order.changeFor) - kept) : sum;
+  }, 0);
+
+  const topUps = sumAmounts(movements.filter(movement => movement.kind === "top_up"));
+  const withdrawals = sumAmounts(movements.filter(movement => movement.kind === "withdrawal"));
+  const openingFloat = Number(session.openingFloat);
+  const expectedCash = session.expectedCash !== null
+    ? Number(session.expectedCash)
+    : round(openingFloat + cashKept - cashRefunds + topUps - withdrawals);
+  const countedCash = session.countedCash !== null ? Number(session.countedCash) : null;
+
+  const sales = orders.filter(order => order.status !== "cancelled");
+  const tenders = Object.fromEntries(
+    Object.entries(tenderTotals(entries)).map(([method, amount]) => [method, round(amount)]),
+  );
+
+  return {
+    openingFloat,
+    cashReceived: round(cashKept + changeGiven),
+    changeGiven: round(changeGiven),
+    cashRefunds: round(cashRefunds),
+    topUps: round(topUps),
+    withdrawals: round(withdrawals),
+    expectedCash,
+    countedCash,
+    variance: countedCash !== null ? round(countedCash - expectedCash) : null,
+    ordersCount: sales.length,
+    salesTotal: round(sales.reduce((sum, order) => sum + Number(order.total), 0)),
+    tenders,
+  };
+}
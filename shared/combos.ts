@@ -0,0 +1,46 @@
+import type { ComboActivePeriod, ComboSlot, ComboTemplate, Product } from "./schema";
+import { parseTimeOfDay, storeClock } from "./store-clock";
+
+function periodCovers(period: ComboActivePeriod, day: number, minutes: number): boolean {
+  const start = parseTimeOfDay(period.start);
+  const end = parseTimeOfDay(period.end);
+  if (start === null || end === null) return false;
+
+  if (start < end) {
+    return period.days.includes(day) && minutes >= start && minutes < end;
+  }
+  // Runs past midnight: the early hours belong to the day the period started
+  const previousDay = (day + 6) % 7;
+  return (period.days.includes(day) && minutes >= start) || (period.days.includes(previousDay) && minutes < end);
+}
+
+export function isComboTemplateAvailable(
+  template: Pick<ComboTemplate, "isActive" | "startsAt" | "endsAt" | "activePeriods">,
+  now: Date = new Date(),
+): boolean {
+  if (!template.isActive) return false;
+  if (template.startsAt && new Date(template.startsAt) > now) return false;
+  if (template.endsAt && new Date(template.endsAt) <= now) return false;
+  if (template.activePeriods.length === 0) return true;
+
+  const { day, minutes } = storeClock(now);
+  return template.activePeriods.some(period => periodCovers(period, day, minutes));
+}
+
+export function comboSlotAccepts(slot: ComboSlot, product: Product): boolean {
+  if (slot.comboEligibleOnly && !product.comboEligible) return false;
+  return slot.source === "category" ? slot.ids.includes(product.categoryId) : slot.ids.includes(product.id);
+}
+
+// Never more than the combo itself costs
+export function comboDiscountAmount(template: Pick<ComboTemplate, "discountType" | "discountValue">, subtotal: number): number {
+  const value = Number(template.discountValue) || 0;
+  const discount = template.discountType === "percent" ? subtotal * (value / 100) : value;
+  return Math.round(Math.min(Math.max(discount, 0), subtotal) * 100) / 100;
+}
+
+export function formatComboDiscount(template: Pick<ComboTemplate, "discountType" | "discountValue">): string {
+  const value = Number(template.discountValue) || 0;
+  if (template.discountType === "percent") return `${value}% OFF`;
+  return `${value.toLocaleString("pt-BR", { style: "currency", currency: "BRL" })} OFF`;
+}
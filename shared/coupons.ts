@@ -0,0 +1,60 @@
+import type { Coupon, OrderPricingItem, Product } from "./schema";
+
+export class CouponError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CouponError";
+  }
+}
+
+// The order as a coupon sees it; `comboDiscount` is already off the subtotal
+export interface CouponOrder {
+  items: Pick<OrderPricingItem, "productId" | "comboId" | "totalPrice">[];
+  products: Map<string, Pick<Product, "categoryId">>;
+  subtotal: number;
+  comboDiscount: number;
+  deliveryFee: number;
+}
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function formatMoney(value: number): string {
+  return value.toLocaleString("pt-BR", { style: "currency", currency: "BRL" });
+}
+
+// Items a restricted coupon applies to; combo items already carry their own discount
+function eligibleSubtotal(coupon: Coupon, order: CouponOrder): number {
+  if (coupon.categoryIds.length === 0 && coupon.productIds.length === 0) {
+    return order.subtotal - order.comboDiscount;
+  }
+  return order.items
+    .filter(item => !item.comboId)
+    .filter(item => {
+      const product = order.products.get(item.productId);
+      return coupon.productIds.includes(item.productId) || (!!product && coupon.categoryIds.includes(product.categoryId));
+    })
+    .reduce((sum, item) => sum + item.totalPrice, 0);
+}
+
+// What the coupon takes off these items: its minimum, item restrictions and type. Dates and
+// usage limits are checked when the coupon is redeemed, not here.
+export function couponDiscountFor(coupon: Coupon, order: CouponOrder): number {
+  const minSubtotal = Number(coupon.minSubtotal ?? 0);
+  if (minSubtotal > 0 && order.subtotal < minSubtotal) {
+    throw new CouponError(`Pedido minimo de ${formatMoney(minSubtotal)} para este cupom`);
+  }
+
+  if (coupon.type === "free_delivery") {
+    if (order.deliveryFee <= 0) throw new CouponError("Cupom de entrega gratis so vale para delivery");
+    return order.deliveryFee;
+  }
+
+  const base = Math.max(0, eligibleSubtotal(coupon, order));
+  if (base <= 0) throw new CouponError("Nenhum item do pedido participa deste cupom");
+
+  const value = Number(coupon.value) || 0;
+  const discount = coupon.type === "percent" ? base * (value / 100) : value;
+  return roundMoney(Math.min(discount, base));
+}
@@ -1,106 +1,81 @@
-export type DeliveryZone = 'S' | 'A' | 'B' | 'C' | 'D';
+import type { CepRange, DeliveryZone, Neighborhood } from "./schema";
 
-export interface DeliveryZoneInfo {
+// An active zone with its active neighborhoods, as served by /api/delivery-areas
+export interface DeliveryArea {
   zone: DeliveryZone;
-  name: string;
-  description: string;
-  fee: number;
+  neighborhoods: Neighborhood[];
 }
 
-export const DELIVERY_ZONES: Record<DeliveryZone, DeliveryZoneInfo> = {
-  S: { zone: 'S', name: 'Super Local', description: 'Vila da Saude e arredores imediatos', fee: 4.00 },
-  A: { zone: 'A', name: 'Muito Proximo', description: 'Bairros imediatamente ao redor', fee: 7.00 },
-  B: { zone: 'B', name: 'Proximo', description: 'Raio aproximado 2-4 km', fee: 10.00 },
-  C: { zone: 'C', name: 'Medio', description: 'Raio aproximado 4-6 km', fee: 15.00 },
-  D: { zone: 'D', name: 'Distante', description: 'Regioes de maior alcance', fee: 20.00 },
-};
-
-export interface Neighborhood {
-  name: string;
+export interface DeliveryAreaMatch {
   zone: DeliveryZone;
+  // Null when only the CEP placed the address
+  neighborhood: Neighborhood | null;
+  matchedBy: "name" | "alias" | "cep";
 }
 
-export const NEIGHBORHOODS: Neighborhood[] = [
-  // GRUPO S - SUPER LOCAL (R$ 4,00)
-  { name: 'Vila da Saude', zone: 'S' },
-
-  // GRUPO A - MUITO PROXIMO (R$ 7,00)
-  { name: 'Saude', zone: 'A' },
-  { name: 'Bosque da Saude', zone: 'A' },
-  { name: 'Mirandopolis', zone: 'A' },
-  { name: 'Vila Clementino', zone: 'A' },
-  { name: 'Chacara Inglesa', zone: 'A' },
-  { name: 'Planalto Paulista', zone: 'A' },
-  { name: 'Vila Monte Alegre', zone: 'A' },
-  { name: 'Vila Guarani', zone: 'A' },
-  { name: 'Jardim Oriental', zone: 'A' },
-  { name: 'Vila Fachini', zone: 'A' },
-
-  // GRUPO B - PROXIMO (R$ 10,00)
-  { name: 'Vila Mariana', zone: 'B' },
-  { name: 'Chacara Klabin', zone: 'B' },
-  { name: 'Vila Gumercindo', zone: 'B' },
-  { name: 'Cursino', zone: 'B' },
-  { name: 'Sacoma', zone: 'B' },
-  { name: 'Jardim da Gloria', zone: 'B' },
-  { name: 'Jardim Previdencia', zone: 'B' },
-  { name: 'Vila Moraes', zone: 'B' },
-  { name: 'Ipiranga', zone: 'B' },
-  { name: 'Alto do Ipiranga', zone: 'B' },
-
-  // GRUPO C - MEDIO (R$ 15,00)
-  { name: 'Jabaquara', zone: 'C' },
-  { name: 'Cidade Vargas', zone: 'C' },
-  { name: 'Americanopolis', zone: 'C' },
-  { name: 'Vila Mascote', zone: 'C' },
-  { name: 'Campo Belo', zone: 'C' },
-  { name: 'Moema', zone: 'C' },
-  { name: 'Cambuci', zone: 'C' },
-  { name: 'Aclimacao', zone: 'C' },
-  { name: 'Liberdade', zone: 'C' },
-  { name: 'Vila Prudente', zone: 'C' },
+// Street-sign shorthand customers type for the usual words in neighborhood names
+const ABBREVIATIONS: Record<string, string> = {
+  v: "vila",
+  vl: "vila",
+  jd: "jardim",
+  jdm: "jardim",
+  pq: "parque",
+  pque: "parque",
+  cid: "cidade",
+  res: "residencial",
+  sta: "santa",
+  sto: "santo",
+};
 
-  // GRUPO D - DISTANTE (R$ 20,00)
-  { name: 'Brooklin', zone: 'D' },
-  { name: 'Santo Amaro', zone: 'D' },
-  { name: 'Bela Vista', zone: 'D' },
-  { name: 'Centro', zone: 'D' },
-  { name: 'Consolacao', zone: 'D' },
-  { name: 'Itaim Bibi', zone: 'D' },
-  { name: 'Vila Olimpia', zone: 'D' },
-  { name: 'Pinheiros', zone: 'D' },
-  { name: 'Tatuape', zone: 'D' },
-  { name: 'Mooca', zone: 'D' },
-];
+// "Jd. São Luís" and "jardim sao luis" both become "jardim sao luis"
+export function normalizeNeighborhood(name: string): string {
+  return name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+    .map(word => ABBREVIATIONS[word] ?? word)
+    .join(" ");
+}
 
-export function getDeliveryFeeByNeighborhood(neighborhood: string): number | null {
-  const found = NEIGHBORHOODS.find(n => 
-    n.name.toLowerCase() === neighborhood.toLowerCase()
-  );
-  if (!found) return null;
-  return DELIVERY_ZONES[found.zone].fee;
+export function cepDigits(zipCode: string | null | undefined): string {
+  return (zipCode ?? "").replace(/\D/g, "");
 }
 
-export function getZoneByNeighborhood(neighborhood: string): DeliveryZoneInfo | null {
-  const found = NEIGHBORHOODS.find(n => 
-    n.name.toLowerCase() === neighborhood.toLowerCase()
-  );
-  if (!found) return null;
-  return DELIVERY_ZONES[found.zone];
+export function cepInRange(range: CepRange, zipCode: string): boolean {
+  const cep = cepDigits(zipCode);
+  if (cep.length !== 8) return false;
+  const prefix = cep.slice(0, range.from.length);
+  return prefix >= range.from && prefix <= range.to;
 }
 
-export function getNeighborhoodsByZone(zone: DeliveryZone): Neighborhood[] {
-  return NEIGHBORHOODS.filter(n => n.zone === zone);
+export function formatCepRange(range: CepRange): string {
+  return range.from === range.to ? range.from : `${range.from} a ${range.to}`;
 }
 
-export function getGroupedNeighborhoods(): Record<DeliveryZone, Neighborhood[]> {
-  return {
-    S: getNeighborhoodsByZone('S'),
-    A: getNeighborhoodsByZone('A'),
-    B: getNeighborhoodsByZone('B'),
-    C: getNeighborhoodsByZone('C'),
-    D: getNeighborhoodsByZone('D'),
-  };
+// Name first, then aliases, then the CEP ranges; areas are tried in the order given
+export function matchDeliveryArea(
+  areas: DeliveryArea[],
+  address: { neighborhood?: string | null; zipCode?: string | null },
+): DeliveryAreaMatch | null {
+  const wanted = normalizeNeighborhood(address.neighborhood ?? "");
+  if (wanted) {
+    for (const area of areas) {
+      const neighborhood = area.neighborhoods.find(n => normalizeNeighborhood(n.name) === wanted);
+      if (neighborhood) return { zone: area.zone, neighborhood, matchedBy: "name" };
+    }
+    for (const area of areas) {
+      const neighborhood = area.neighborhoods.find(n => n.aliases.some(alias => normalizeNeighborhood(alias) === wanted));
+      if (neighborhood) return { zone: area.zone, neighborhood, matchedBy: "alias" };
+    }
+  }
+
+  if (address.zipCode) {
+    const area = areas.find(a => a.zone.cepRanges.some(range => cepInRange(range, address.zipCode!)));
+    if (area) return { zone: area.zone, neighborhood: null, matchedBy: "cep" };
+  }
+  return null;
 }
 
 export const DELIVERY_FEE_WARNING = "A taxa de entrega e calculada automaticamente com base no bairro selecionado.";
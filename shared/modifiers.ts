@@ -0,0 +1,40 @@
+import type { ModifierGroup, OrderItemModifier, Product } from "./schema";
+import { sellableUnitPrice } from "./variants";
+
+// Active groups offered for a product, in the order the admin arranged them
+export function modifierGroupsFor(groups: ModifierGroup[], product: Pick<Product, "id" | "categoryId">): ModifierGroup[] {
+  return groups
+    .filter(group => group.isActive && group.options.length > 0)
+    .filter(group => group.productIds.includes(product.id) || group.categoryIds.includes(product.categoryId))
+    .sort((a, b) => (a.sortOrder ?? 0) - (b.sortOrder ?? 0) || a.name.localeCompare(b.name));
+}
+
+export function modifiersPriceDelta(modifiers: OrderItemModifier[] | null | undefined): number {
+  return (modifiers ?? []).reduce((sum, modifier) => sum + modifier.priceDelta, 0);
+}
+
+// Two cart lines of the same product only merge when they carry the same choices
+export function modifiersKey(modifiers: OrderItemModifier[] | null | undefined): string {
+  return (modifiers ?? []).map(modifier => `${modifier.groupId}:${modifier.optionId}`).sort().join("|");
+}
+
+function formatDelta(value: number): string {
+  const amount = Math.abs(value).toLocaleString("pt-BR", { style: "currency", currency: "BRL" });
+  return value > 0 ? ` (+${amount})` : ` (-${amount})`;
+}
+
+// "Fruta: Limao, Morango" lines, one per group, for cart and kitchen tickets
+export function formatModifierLines(modifiers: OrderItemModifier[] | null | undefined, withPrices = false): string[] {
+  const byGroup = new Map<string, { name: string; options: string[] }>();
+  for (const modifier of modifiers ?? []) {
+    const entry = byGroup.get(modifier.groupId) ?? { name: modifier.groupName, options: [] };
+    entry.options.push(modifier.optionName + (withPrices && modifier.priceDelta !== 0 ? formatDelta(modifier.priceDelta) : ""));
+    byGroup.set(modifier.groupId, entry);
+  }
+  return Array.from(byGroup.values()).map(group => `${group.name}: ${group.options.join(", ")}`);
+}
+
+// Catalogue price of the product (or variant) plus the options picked for it
+export function unitPriceWithModifiers(item: Parameters<typeof sellableUnitPrice>[0] & { modifiers?: OrderItemModifier[] | null }): number {
+  return Math.max(0, sellableUnitPrice(item) + modifiersPriceDelta(item.modifiers));
+}
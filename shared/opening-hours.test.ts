@@ -0,0 +1,91 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { DEFAULT_OPENING_HOURS, storeStatus } from "./opening-hours";
+import { parseTimeOfDay, storeClock } from "./store-clock";
+import type { OpeningHours } from "./schema";
+
+// Sao Paulo is UTC-3 all year; 2026-10-19 is a Monday
+const at = (iso: string) => new Date(iso);
+
+function settings(hours: OpeningHours = DEFAULT_OPENING_HOURS, isOpen = true) {
+  return { openingHours: hours, isOpen, whatsapp: "11900000000" };
+}
+
+test("the store clock reads weekday and minutes in Sao Paulo, not UTC", () => {
+  // 02:30 UTC on Tuesday is still 23:30 on Monday in the store
+  assert.deepEqual(storeClock(at("2026-10-20T02:30:00Z")), { day: 1, minutes: 23 * 60 + 30 });
+  assert.deepEqual(storeClock(at("2026-10-20T03:00:00Z")), { day: 2, minutes: 0 });
+});
+
+test("times of day must be HH:MM within a day", () => {
+  assert.equal(parseTimeOfDay("06:00"), 360);
+  assert.equal(parseTimeOfDay("23:59"), 23 * 60 + 59);
+  assert.equal(parseTimeOfDay("24:00"), null);
+  assert.equal(parseTimeOfDay("6:00"), null);
+});
+
+test("hours crossing midnight stay open into the early morning", () => {
+  // Tuesday 05:30 in the store, inside Monday's 14:00 - 06:00
+  const status = storeStatus(settings(), at("2026-10-20T08:30:00Z"));
+  assert.equal(status.isOpen, true);
+  assert.equal(status.reason, "open");
+  assert.equal(status.closesAt, "2026-10-20T09:00:00.000Z");
+  assert.equal(status.message, "Aberto ate 06:00");
+});
+
+test("closing time shows when the store reopens the same day", () => {
+  const status = storeStatus(settings(), at("2026-10-20T09:00:00Z"));
+  assert.equal(status.isOpen, false);
+  assert.equal(status.reason, "hours");
+  assert.equal(status.opensAt, "2026-10-20T17:00:00.000Z");
+  assert.equal(status.message, "Fechado. Abrimos as 14:00.");
+});
+
+test("the early hours belong to the day before, not to the weekday they fall on", () => {
+  const mondayNights: OpeningHours = { weekly: [{ day: 1, open: "22:00", close: "02:00" }], exceptions: [] };
+  // Tuesday 01:00 is still Monday night
+  assert.equal(storeStatus(settings(mondayNights), at("2026-10-20T04:00:00Z")).isOpen, true);
+  // Wednesday 01:00 would need Tuesday hours
+  assert.equal(storeStatus(settings(mondayNights), at("2026-10-21T04:00:00Z")).isOpen, false);
+});
+
+test("a closed date keeps the store shut and names the reason", () => {
+  const holiday: OpeningHours = {
+    ...DEFAULT_OPENING_HOURS,
+    exceptions: [{ date: "2026-10-20", closed: true, label: "Feriado" }],
+  };
+  const status = storeStatus(settings(holiday), at("2026-10-20T18:00:00Z"));
+  assert.equal(status.isOpen, false);
+  assert.equal(status.reason, "exception");
+  assert.equal(status.exceptionLabel, "Feriado");
+  assert.equal(status.opensAt, "2026-10-21T17:00:00.000Z");
+  assert.equal(status.message, "Fechado hoje (Feriado). Abrimos quarta-feira as 14:00.");
+});
+
+test("a closed date does not cut short the night that started the day before", () => {
+  const holiday: OpeningHours = {
+    ...DEFAULT_OPENING_HOURS,
+    exceptions: [{ date: "2026-10-20", closed: true, label: "Feriado" }],
+  };
+  assert.equal(storeStatus(settings(holiday), at("2026-10-20T06:00:00Z")).isOpen, true);
+});
+
+test("a date with special hours replaces the weekly ones", () => {
+  const shortDay: OpeningHours = {
+    ...DEFAULT_OPENING_HOURS,
+    exceptions: [{ date: "2026-10-20", closed: false, open: "18:00", close: "23:00" }],
+  };
+  const afternoon = storeStatus(settings(shortDay), at("2026-10-20T18:00:00Z"));
+  assert.equal(afternoon.isOpen, false);
+  assert.equal(afternoon.reason, "hours");
+  assert.equal(afternoon.opensAt, "2026-10-20T21:00:00.000Z");
+
+  assert.equal(storeStatus(settings(shortDay), at("2026-10-21T01:00:00Z")).isOpen, true);
+  assert.equal(storeStatus(settings(shortDay), at("2026-10-21T02:30:00Z")).isOpen, false);
+});
+
+test("the manual switch closes the store whatever the hours say", () => {
+  const status = storeStatus(settings(DEFAULT_OPENING_HOURS, false), at("2026-10-20T20:00:00Z"));
+  assert.equal(status.isOpen, false);
+  assert.equal(status.reason, "manual");
+});
@@ -0,0 +1,166 @@
+import type { OpeningHours, OpeningHoursException, Settings } from "./schema";
+import { STORE_TIME_ZONE, WEEKDAY_LABELS, parseTimeOfDay } from "./store-clock";
+
+// What the store ran on before hours were configurable
+export const DEFAULT_OPENING_HOURS: OpeningHours = {
+  weekly: [0, 1, 2, 3, 4, 5, 6].map(day => ({ day, open: "14:00", close: "06:00" })),
+  exceptions: [],
+};
+
+export const DEFAULT_WHATSAPP = "11947714676";
+
+export interface StoreStatus {
+  isOpen: boolean;
+  // Closed by the manual switch, outside the weekly hours, or by a special date
+  reason: "open" | "manual" | "hours" | "exception";
+  message: string;
+  opensAt: string | null;
+  closesAt: string | null;
+  exceptionLabel: string | null;
+  hours: OpeningHours;
+  whatsapp: string;
+}
+
+interface StoreDate {
+  date: string;
+  minutes: number;
+}
+
+// Minutes from the store day's midnight; `end` past 1440 spills into the next day
+interface OpeningWindow {
+  start: number;
+  end: number;
+}
+
+function storeDate(now: Date): StoreDate {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: STORE_TIME_ZONE,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(now);
+  const part = (type: string) => parts.find(p => p.type === type)?.value ?? "";
+  return {
+    date: `${part("year")}-${part("month")}-${part("day")}`,
+    minutes: Number(part("hour")) * 60 + Number(part("minute")),
+  };
+}
+
+function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+function weekdayOf(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+// Wall-clock time in the store turned into an instant, whatever zone this code runs in
+function storeInstant(date: string, minutes: number): Date {
+  const [year, month, day] = date.split("-").map(Number);
+  const guess = Date.UTC(year, month - 1, day, 0, minutes);
+  const wall = storeDate(new Date(guess));
+  const [wallYear, wallMonth, wallDay] = wall.date.split("-").map(Number);
+  const offset = Date.UTC(wallYear, wallMonth - 1, wallDay, 0, wall.minutes) - guess;
+  return new Date(guess - offset);
+}
+
+function toWindow(open: string | undefined, close: string | undefined): OpeningWindow | null {
+  const start = parseTimeOfDay(open ?? "");
+  const end = parseTimeOfDay(close ?? "");
+  if (start === null || end === null) return null;
+  return { start, end: end > start ? end : end + 24 * 60 };
+}
+
+function exceptionFor(hours: OpeningHours, date: string): OpeningHoursException | undefined {
+  return hours.exceptions.find(exception => exception.date === date);
+}
+
+function windowFor(hours: OpeningHours, date: string): OpeningWindow | null {
+  const exception = exceptionFor(hours, date);
+  if (exception) return exception.closed ? null : toWindow(exception.open, exception.close);
+  const day = hours.weekly.find(entry => entry.day === weekdayOf(date));
+  return day ? toWindow(day.open, day.close) : null;
+}
+
+// The window the store is in right now, if any; early hours belong to the day before
+function currentWindow(hours: OpeningHours, now: Date): { date: string; window: OpeningWindow } | null {
+  const { date, minutes } = storeDate(now);
+  const today = windowFor(hours, date);
+  if (today && minutes >= today.start && minutes < today.end) return { date, window: today };
+
+  const yesterday = addDays(date, -1);
+  const previous = windowFor(hours, yesterday);
+  if (previous && minutes + 24 * 60 < previous.end) return { date: yesterday, window: previous };
+  return null;
+}
+
+export function isOpenAt(hours: OpeningHours, at: Date): boolean {
+  return currentWindow(hours, at) !== null;
+}
+
+function nextOpening(hours: OpeningHours, now: Date): Date | null {
+  const { date, minutes } = storeDate(now);
+  for (let offset = 0; offset <= 14; offset++) {
+    const day = addDays(date, offset);
+    const window = windowFor(hours, day);
+    if (window && (offset > 0 || window.start > minutes)) return storeInstant(day, window.start);
+  }
+  return null;
+}
+
+export function formatStoreTime(value: Date | string, now: Date = new Date()): string {
+  const time = new Date(value).toLocaleTimeString("pt-BR", { timeZone: STORE_TIME_ZONE, hour: "2-digit", minute: "2-digit" });
+  if (storeDate(new Date(value)).date === storeDate(now).date) return time;
+  const weekday = new Date(value).toLocaleDateString("pt-BR", { timeZone: STORE_TIME_ZONE, weekday: "long" });
+  return `${weekday} as ${time}`;
+}
+
+export function storeStatus(
+  settings: Pick<Settings, "openingHours" | "isOpen" | "whatsapp"> | null | undefined,
+  now: Date = new Date(),
+): StoreStatus {
+  const hours = settings?.openingHours ?? DEFAULT_OPENING_HOURS;
+  const whatsapp = settings?.whatsapp || DEFAULT_WHATSAPP;
+  const base = { hours, whatsapp, opensAt: null, closesAt: null, exceptionLabel: null };
+
+  if (settings?.isOpen === false) {
+    return { ...base, isOpen: false, reason: "manual", message: "Fechado no momento" };
+  }
+
+  const current = currentWindow(hours, now);
+  if (current) {
+    const closesAt = storeInstant(current.date, current.window.end);
+    return { ...base, isOpen: true, reason: "open", message: `Aberto ate ${formatStoreTime(closesAt, now)}`, closesAt: closesAt.toISOString() };
+  }
+
+  const exception = exceptionFor(hours, storeDate(now).date);
+  const exceptionLabel = exception?.closed ? exception.label || "Data especial" : null;
+  const opensAt = nextOpening(hours, now);
+  const sameDay = opensAt !== null && storeDate(opensAt).date === storeDate(now).date;
+  const reopen = opensAt ? ` Abrimos ${sameDay ? "as " : ""}${formatStoreTime(opensAt, now)}.` : "";
+  return {
+    ...base,
+    isOpen: false,
+    reason: exceptionLabel ? "exception" : "hours",
+    message: exceptionLabel ? `Fechado hoje (${exceptionLabel}).${reopen}` : `Fechado.${reopen}`,
+    opensAt: opensAt?.toISOString() ?? null,
+    exceptionLabel,
+  };
+}
+
+// "Seg, Ter, Qua: 14:00 - 06:00" lines, days sharing the same hours together
+export function formatWeeklyHours(hours: OpeningHours): string[] {
+  const byRange = new Map<string, number[]>();
+  for (const entry of [...hours.weekly].sort((a, b) => a.day - b.day)) {
+    const range = `${entry.open} - ${entry.close}`;
+    byRange.set(range, [...(byRange.get(range) ?? []), entry.day]);
+  }
+  if (byRange.size === 1 && hours.weekly.length === 7) {
+    return [`${Array.from(byRange.keys())[0]} (Diariamente)`];
+  }
+  return Array.from(byRange.entries()).map(([range, days]) => `${days.map(day => WEEKDAY_LABELS[day]).join(", ")}: ${range}`);
+}
@@ -0,0 +1,61 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { paymentStatusFor, settlePaymentLines } from "./payments";
+import type { PaymentEntryKind } from "./schema";
+
+const entry = (kind: PaymentEntryKind, amount: number) => ({ kind, amount: amount.toFixed(2) });
+
+test("an order with nothing recorded, or only part of it paid, is pending", () => {
+  assert.equal(paymentStatusFor(50, []), "pending");
+  assert.equal(paymentStatusFor(50, [entry("payment", 20)]), "pending");
+});
+
+test("payments adding up to the total settle it, give or take half a cent", () => {
+  assert.equal(paymentStatusFor(50, [entry("payment", 20), entry("payment", 30)]), "paid");
+  assert.equal(paymentStatusFor(50, [{ kind: "payment", amount: "49.996" }]), "paid");
+});
+
+test("a failure counts only while nothing is paid", () => {
+  assert.equal(paymentStatusFor(50, [entry("failure", 0)]), "failed");
+  assert.equal(paymentStatusFor(50, [entry("failure", 0), entry("payment", 50)]), "paid");
+  assert.equal(paymentStatusFor(50, [entry("payment", 20), entry("failure", 0)]), "pending");
+});
+
+test("a full refund marks the order refunded, a partial one after payment keeps it paid", () => {
+  assert.equal(paymentStatusFor(50, [entry("payment", 50), entry("refund", 50)]), "refunded");
+  assert.equal(paymentStatusFor(40, [entry("payment", 50), entry("refund", 10)]), "paid");
+});
+
+test("a higher total after payment leaves the difference pending", () => {
+  assert.equal(paymentStatusFor(58, [entry("payment", 50)]), "pending");
+});
+
+test("tenders that cover the total exactly leave nothing to settle", () => {
+  const settlement = settlePaymentLines(100, [{ method: "card", amount: 40 }, { method: "cash", amount: 60 }]);
+  assert.deepEqual(settlement, {
+    remaining: 0,
+    change: 0,
+    overpaidByNonCash: false,
+    recorded: [{ method: "card", amount: 40 }, { method: "cash", amount: 60 }],
+  });
+});
+
+test("change comes out of the last cash tender", () => {
+  const settlement = settlePaymentLines(60, [{ method: "cash", amount: 20 }, { method: "cash", amount: 50 }]);
+  assert.equal(settlement.change, 10);
+  assert.deepEqual(settlement.recorded, [{ method: "cash", amount: 20 }, { method: "cash", amount: 40 }]);
+
+  const cashCoversChange = settlePaymentLines(100, [{ method: "card", amount: 40 }, { method: "cash", amount: 70 }]);
+  assert.deepEqual(cashCoversChange.recorded, [{ method: "card", amount: 40 }, { method: "cash", amount: 60 }]);
+});
+
+test("card above the total is flagged rather than given change", () => {
+  const settlement = settlePaymentLines(100, [{ method: "card", amount: 120 }]);
+  assert.equal(settlement.overpaidByNonCash, true);
+  assert.deepEqual(settlement.recorded, [{ method: "card", amount: 120 }]);
+});
+
+test("what is still missing is reported in cents, without float drift", () => {
+  assert.equal(settlePaymentLines(100, [{ method: "cash", amount: 50 }]).remaining, 50);
+  assert.equal(settlePaymentLines(0.3, [{ method: "pix", amount: 0.1 }, { method: "cash", amount: 0.2 }]).remaining, 0);
+});
@@ -0,0 +1,94 @@
+import { PREPAID_PAYMENT_METHODS } from "./schema";
+import type { Order, Payment, PaymentMethod, PaymentStatus, Settings } from "./schema";
+
+type LedgerEntry = Pick<Payment, "kind" | "amount">;
+
+// One tender of a counter sale, e.g. R$ 30 in cash and the rest on the card
+export interface PaymentLine {
+  method: PaymentMethod;
+  amount: number;
+}
+
+export interface PaymentSettlement {
+  remaining: number;
+  change: number;
+  // Card or PIX above the total: change can only come out of cash
+  overpaidByNonCash: boolean;
+  // What each tender actually leaves in the till, cash net of the change handed back
+  recorded: PaymentLine[];
+}
+
+// Half a cent of slack so rounding in gateway amounts doesn't leave an order "almost paid"
+const EPSILON = 0.005;
+
+export function netPaid(entries: LedgerEntry[]): number {
+  return entries.reduce((sum, entry) => {
+    if (entry.kind === "payment") return sum + Number(entry.amount);
+    if (entry.kind === "refund") return sum - Number(entry.amount);
+    return sum;
+  }, 0);
+}
+
+export function amountDue(total: number, entries: LedgerEntry[]): number {
+  return Math.max(0, Math.round((total - netPaid(entries)) * 100) / 100);
+}
+
+// Entries are in the order they were recorded; a failure only counts while nothing is paid.
+// Once fully paid, a partial refund is a settled difference and the order stays paid.
+export function paymentStatusFor(total: number, entries: LedgerEntry[]): PaymentStatus {
+  if (entries.length === 0) return "pending";
+  const net = netPaid(entries);
+  const gross = netPaid(entries.filter(entry => entry.kind === "payment"));
+  if (entries.some(entry => entry.kind === "refund") && net <= EPSILON) return "refunded";
+  if (net > EPSILON && (net >= total - EPSILON || gross >= total - EPSILON)) return "paid";
+  if (entries[entries.length - 1].kind === "failure" && net <= EPSILON) return "failed";
+  return "pending";
+}
+
+const toCents = (value: number) => Math.round(value * 100);
+
+export function settlePaymentLines(total: number, lines: PaymentLine[]): PaymentSettlement {
+  const totalCents = toCents(total);
+  const tendered = lines.reduce((sum, line) => sum + toCents(line.amount), 0);
+  const nonCash = lines.filter(line => line.method !== "cash").reduce((sum, line) => sum + toCents(line.amount), 0);
+  const change = Math.max(0, tendered - totalCents);
+
+  // Change comes out of the last cash lines first
+  let changeLeft = nonCash > totalCents ? 0 : change;
+  const recorded = [...lines].reverse().map(line => {
+    if (line.method !== "cash" || changeLeft === 0) return { method: line.method, cents: toCents(line.amount) };
+    const kept = Math.max(0, toCents(line.amount) - changeLeft);
+    changeLeft -= toCents(line.amount) - kept;
+    return { method: line.method, cents: kept };
+  }).reverse().filter(line => line.cents > 0);
+
+  return {
+    remaining: Math.max(0, totalCents - tendered) / 100,
+    change: change / 100,
+    overpaidByNonCash: nonCash > totalCents,
+    recorded: recorded.map(line => ({ method: line.method, amount: line.cents / 100 })),
+  };
+}
+
+// Net amount per method across ledger entries, for revenue by tender
+export function tenderTotals(entries: Pick<Payment, "kind" | "amount" | "method">[]): Record<string, number> {
+  const totals: Record<string, number> = {};
+  for (const entry of entries) {
+    if (entry.kind === "failure") continue;
+    const sign = entry.kind === "refund" ? -1 : 1;
+    totals[entry.method] = (totals[entry.method] ?? 0) + sign * Number(entry.amount);
+  }
+  return totals;
+}
+
+export function isPrepaidMethod(method: string): boolean {
+  return PREPAID_PAYMENT_METHODS.includes(method as PaymentMethod);
+}
+
+// With the setting on, the kitchen doesn't start a PIX order until the money is in
+export function isHeldForPayment(
+  order: Pick<Order, "paymentMethod" | "paymentStatus">,
+  settings: Pick<Settings, "holdUnpaidPrepaidOrders"> | null | undefined,
+): boolean {
+  return !!settings?.holdUnpaidPrepaidOrders && isPrepaidMethod(order.paymentMethod) && order.paymentStatus !== "paid";
+}
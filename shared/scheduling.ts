@@ -0,0 +1,60 @@
+import type { OpeningHours, Order, Settings } from "./schema";
+import { STORE_TIME_ZONE, storeClock } from "./store-clock";
+import { isOpenAt } from "./opening-hours";
+
+// How far ahead a customer can book
+export const SCHEDULE_HORIZON_HOURS = 48;
+
+export interface ScheduleConfig {
+  slotMinutes: number;
+  capacity: number;
+  leadMinutes: number;
+}
+
+export interface ScheduleSlot {
+  start: string;
+  remaining: number;
+}
+
+export function scheduleConfig(
+  settings?: Pick<Settings, "scheduleSlotMinutes" | "scheduleSlotCapacity" | "scheduleLeadMinutes"> | null,
+): ScheduleConfig {
+  return {
+    slotMinutes: Math.max(5, settings?.scheduleSlotMinutes ?? 30),
+    capacity: Math.max(0, settings?.scheduleSlotCapacity ?? 5),
+    leadMinutes: Math.max(0, settings?.scheduleLeadMinutes ?? 60),
+  };
+}
+
+// Slot starts on the store-clock grid (22:00, 22:30...) inside opening hours. The first one
+// is at least `leadMinutes` away, otherwise the order is just an order for now.
+export function scheduleSlotStarts(config: ScheduleConfig, hours: OpeningHours, now: Date = new Date()): Date[] {
+  const minute = 60_000;
+  const earliest = new Date(Math.ceil((now.getTime() + config.leadMinutes * minute) / minute) * minute);
+  const offset = (config.slotMinutes - (storeClock(earliest).minutes % config.slotMinutes)) % config.slotMinutes;
+  const end = now.getTime() + SCHEDULE_HORIZON_HOURS * 60 * minute;
+
+  const starts: Date[] = [];
+  for (let time = earliest.getTime() + offset * minute; time <= end; time += config.slotMinutes * minute) {
+    const start = new Date(time);
+    if (isOpenAt(hours, start)) starts.push(start);
+  }
+  return starts;
+}
+
+// Scheduled orders reach the kitchen `leadMinutes` before their slot
+export function isReleasedToKitchen(order: Pick<Order, "scheduledFor">, leadMinutes: number, now: Date = new Date()): boolean {
+  if (!order.scheduledFor) return true;
+  return new Date(order.scheduledFor).getTime() - leadMinutes * 60_000 <= now.getTime();
+}
+
+export function formatScheduledFor(value: Date | string): string {
+  return new Date(value).toLocaleString("pt-BR", {
+    timeZone: STORE_TIME_ZONE,
+    weekday: "short",
+    day: "2-digit",
+    month: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
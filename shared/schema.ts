@@ -1,4 +1,5 @@
-import { pgTable, text, varchar, integer, decimal, boolean, timestamp, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, decimal, boolean, timestamp, date, jsonb, json, index, uniqueIndex } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -10,6 +11,9 @@ export const users = pgTable("users", {
   password: text("password"),
   isBlocked: boolean("is_blocked").default(false),
   requiresPasswordChange: boolean("requires_password_change").default(false),
+  permissions: jsonb("permissions").$type<PermissionScope[]>().notNull().default([]),
+  // YYYY-MM-DD; asked at registration, or at the first checkout for older accounts
+  birthDate: date("birth_date"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -27,12 +31,152 @@ export const addresses = pgTable("addresses", {
   isDefault: boolean("is_default").default(true),
 });
 
+// What each category contributes to the storefront combo
+export const COMBO_ROLES = ["spirit", "energy_drink", "ice"] as const;
+export type ComboRole = typeof COMBO_ROLES[number];
+
+export const COMBO_ROLE_LABELS: Record<ComboRole, string> = {
+  spirit: "Destilado",
+  energy_drink: "Energetico",
+  ice: "Gelo",
+};
+
+// Storefront carousels that pick their categories by group
+export const SHOWCASE_GROUPS = ["special_drinks"] as const;
+export type ShowcaseGroup = typeof SHOWCASE_GROUPS[number];
+
+export const SHOWCASE_GROUP_LABELS: Record<ShowcaseGroup, string> = {
+  special_drinks: "Drinks especiais",
+};
+
+export const COUPON_TYPES = ["percent", "fixed", "free_delivery"] as const;
+export type CouponType = typeof COUPON_TYPES[number];
+
+export const COUPON_TYPE_LABELS: Record<CouponType, string> = {
+  percent: "Percentual (%)",
+  fixed: "Valor fixo (R$)",
+  free_delivery: "Entrega gratis",
+};
+
+// Zones price by neighborhood; distance charges per km from the store; hybrid uses
+// the zone when the neighborhood is listed and distance otherwise
+export const DELIVERY_PRICING_MODES = ["zone", "distance", "hybrid"] as const;
+export type DeliveryPricingMode = typeof DELIVERY_PRICING_MODES[number];
+
+export const DELIVERY_PRICING_MODE_LABELS: Record<DeliveryPricingMode, string> = {
+  zone: "Por bairro (zonas)",
+  distance: "Por distancia",
+  hybrid: "Bairro, senao distancia",
+};
+
+// Review queue for neighborhoods customers ordered to that no zone knows
+export const UNLISTED_NEIGHBORHOOD_STATUSES = ["pending", "resolved", "ignored"] as const;
+export type UnlistedNeighborhoodStatus = typeof UNLISTED_NEIGHBORHOOD_STATUSES[number];
+
+// Derived from the payment ledger; see paymentStatusFor in shared/payments.ts
+export const PAYMENT_STATUSES = ["pending", "paid", "refunded", "failed"] as const;
+export type PaymentStatus = typeof PAYMENT_STATUSES[number];
+
+export const PAYMENT_ENTRY_KINDS = ["payment", "refund", "failure"] as const;
+export type PaymentEntryKind = typeof PAYMENT_ENTRY_KINDS[number];
+
+export const CASH_SESSION_STATUSES = ["open", "closed"] as const;
+export type CashSessionStatus = typeof CASH_SESSION_STATUSES[number];
+
+// Sangria takes cash out of the till (to the safe, to pay a supplier); suprimento puts it in
+export const CASH_MOVEMENT_KINDS = ["withdrawal", "top_up"] as const;
+export type CashMovementKind = typeof CASH_MOVEMENT_KINDS[number];
+
+export const CASH_MOVEMENT_KIND_LABELS: Record<CashMovementKind, string> = {
+  withdrawal: "Sangria",
+  top_up: "Suprimento",
+};
+
+export const COMBO_DISCOUNT_TYPES = ["percent", "amount"] as const;
+export type ComboDiscountType = typeof COMBO_DISCOUNT_TYPES[number];
+
+export const COMBO_DISCOUNT_TYPE_LABELS: Record<ComboDiscountType, string> = {
+  percent: "Percentual (%)",
+  amount: "Valor fixo (R$)",
+};
+
+// One step of a combo: the customer picks between min and max units from the pool,
+// which is either whole categories or a hand-picked list of products
+export type ComboSlot = {
+  id: string;
+  label: string;
+  source: "category" | "product";
+  ids: string[];
+  comboEligibleOnly: boolean;
+  minQuantity: number;
+  maxQuantity: number;
+};
+
+// Weekly window in store time; "22:00"-"04:00" runs past midnight
+export type ComboActivePeriod = {
+  days: number[];
+  start: string;
+  end: string;
+};
+
+// Store hours for one weekday; a close at or before the open runs past midnight
+export type OpeningHoursDay = {
+  day: number;
+  open: string;
+  close: string;
+};
+
+// Holiday or special date (YYYY-MM-DD, store time) that replaces that day's hours
+export type OpeningHoursException = {
+  date: string;
+  label?: string;
+  closed: boolean;
+  open?: string;
+  close?: string;
+};
+
+// Weekdays missing from `weekly` are closed
+export type OpeningHours = {
+  weekly: OpeningHoursDay[];
+  exceptions: OpeningHoursException[];
+};
+
+// CEPs whose first `from.length` digits fall between `from` and `to` (both the same length)
+export type CepRange = {
+  from: string;
+  to: string;
+};
+
+// One choice of a modifier group; priceDelta (may be 0) is added to the unit price
+export type ModifierOption = {
+  id: string;
+  name: string;
+  priceDelta: number;
+};
+
+// What was picked for an order item, copied so later menu edits don't rewrite old tickets
+export type OrderItemModifier = {
+  groupId: string;
+  groupName: string;
+  optionId: string;
+  optionName: string;
+  priceDelta: number;
+};
+
 export const categories = pgTable("categories", {
   id: varchar("id", { length: 36 }).primaryKey(),
   name: text("name").notNull(),
   iconUrl: text("icon_url"),
   sortOrder: integer("sort_order").default(0),
   isActive: boolean("is_active").default(true),
+  // Made to order (kitchen drinks): never sold out, shown in the prepared sales report
+  isPrepared: boolean("is_prepared").notNull().default(false),
+  // Off for categories that are not bought and shelved, e.g. doses served by the glass
+  tracksStock: boolean("tracks_stock").notNull().default(true),
+  comboRole: text("combo_role").$type<ComboRole>(),
+  showcaseGroup: text("showcase_group").$type<ShowcaseGroup>(),
+  // Adults only, opted in per category: an order with any of these needs the buyer's ID checked on hand-over
+  containsAlcohol: boolean("contains_alcohol").notNull().default(false),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -54,6 +198,24 @@ export const products = pgTable("products", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Sizes or packagings sold under one product ("Lata 350ml", "Long neck").
+// A product with active variants is priced and stocked per variant; its own
+// salePrice and stock are then only the defaults shown to the admin.
+export const productVariants = pgTable("product_variants", {
+  id: varchar("id", { length: 36 }).primaryKey(),
+  productId: varchar("product_id", { length: 36 }).notNull().references(() => products.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  sku: text("sku").unique(),
+  costPrice: decimal("cost_price", { precision: 10, scale: 2 }).notNull(),
+  salePrice: decimal("sale_price", { precision: 10, scale: 2 }).notNull(),
+  stock: integer("stock").notNull().default(0),
+  isActive: boolean("is_active").notNull().default(true),
+  sortOrder: integer("sort_order").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("product_variants_product_idx").on(table.productId),
+]);
+
 export const orders = pgTable("orders", {
   id: varchar("id", { length: 36 }).primaryKey(),
   userId: varchar("user_id", { length: 36 }).notNull().references(() => users.id),
@@ -72,8 +234,30 @@ export const orders = pgTable("orders", {
   changeFor: decimal("change_for", { precision: 10, scale: 2 }),
   notes: text("notes"),
   customerName: text("customer_name"),
+  // Name typed at the counter before operators had logins; kept for those sales, new orders leave it empty
   salesperson: text("salesperson"),
+  // Staff user who rang up a counter sale
+  salespersonId: varchar("salesperson_id", { length: 36 }).references(() => users.id),
+  // Coupon redeemed on this order; its value is part of `discount`
+  couponId: varchar("coupon_id", { length: 36 }).references(() => coupons.id),
+  couponCode: text("coupon_code"),
   motoboyId: varchar("motoboy_id", { length: 36 }).references(() => motoboys.id),
+  // Delivery slot picked at checkout; null means as soon as possible
+  scheduledFor: timestamp("scheduled_for"),
+  // Alcohol in the order: whoever hands it over (motoboy or PDV) must see an ID first
+  idCheckRequired: boolean("id_check_required").notNull().default(false),
+  idCheckedAt: timestamp("id_checked_at"),
+  idCheckedBy: varchar("id_checked_by", { length: 36 }).references(() => users.id),
+  // Set when the hand-over was refused (no ID, under 18); the order is cancelled with it
+  idCheckRefusalReason: text("id_check_refusal_reason"),
+  // Reference carried in the order's PIX BR Code, so an incoming payment can be tied back to it
+  pixTxid: varchar("pix_txid", { length: 25 }).unique(),
+  paymentStatus: text("payment_status").$type<PaymentStatus>().notNull().default("pending"),
+  paidAt: timestamp("paid_at"),
+  refundedAt: timestamp("refunded_at"),
+  paymentFailedAt: timestamp("payment_failed_at"),
+  // Till the counter sale was rung up on; its cash counts towards that session's closing
+  cashSessionId: varchar("cash_session_id", { length: 36 }).references(() => cashSessions.id),
   createdAt: timestamp("created_at").defaultNow(),
   acceptedAt: timestamp("accepted_at"),
   preparingAt: timestamp("preparing_at"),
@@ -81,16 +265,27 @@ export const orders = pgTable("orders", {
   dispatchedAt: timestamp("dispatched_at"),
   arrivedAt: timestamp("arrived_at"),
   deliveredAt: timestamp("delivered_at"),
+  // Set once recipe ingredients were taken from stock, so later transitions don't repeat it
+  ingredientsDeductedAt: timestamp("ingredients_deducted_at"),
 });
 
 export const orderItems = pgTable("order_items", {
   id: varchar("id", { length: 36 }).primaryKey(),
   orderId: varchar("order_id", { length: 36 }).notNull().references(() => orders.id),
   productId: varchar("product_id", { length: 36 }).notNull().references(() => products.id),
+  // Full display name at sale time, variant included
   productName: text("product_name").notNull(),
+  variantId: varchar("variant_id", { length: 36 }).references(() => productVariants.id),
+  variantName: text("variant_name"),
+  modifiers: jsonb("modifiers").$type<OrderItemModifier[]>().notNull().default([]),
   quantity: integer("quantity").notNull(),
   unitPrice: decimal("unit_price", { precision: 10, scale: 2 }).notNull(),
   totalPrice: decimal("total_price", { precision: 10, scale: 2 }).notNull(),
+  // Combo instance the item was sold in (the cart's id for it), its template and slot;
+  // kept so removing items can tell whether the combo discount still holds
+  comboId: text("combo_id"),
+  comboTemplateId: varchar("combo_template_id", { length: 36 }).references(() => comboTemplates.id),
+  comboSlotId: text("combo_slot_id"),
 });
 
 export const banners = pgTable("banners", {
@@ -116,6 +311,8 @@ export const motoboys = pgTable("motoboys", {
 export const stockLogs = pgTable("stock_logs", {
   id: varchar("id", { length: 36 }).primaryKey(),
   productId: varchar("product_id", { length: 36 }).notNull().references(() => products.id),
+  // Set when the movement was on a variant's stock rather than the product's
+  variantId: varchar("variant_id", { length: 36 }).references(() => productVariants.id, { onDelete: "set null" }),
   previousStock: integer("previous_stock").notNull(),
   newStock: integer("new_stock").notNull(),
   change: integer("change").notNull(),
@@ -131,9 +328,24 @@ export const settings = pgTable("settings", {
   deliveryRatePerKm: decimal("delivery_rate_per_km", { precision: 10, scale: 2 }).default("1.25"),
   minDeliveryFee: decimal("min_delivery_fee", { precision: 10, scale: 2 }).default("5.00"),
   maxDeliveryDistance: decimal("max_delivery_distance", { precision: 10, scale: 2 }).default("15"),
+  deliveryPricingMode: text("delivery_pricing_mode").notNull().default("zone"),
   pixKey: text("pix_key"),
-  openingHours: jsonb("opening_hours"),
+  // Receiver shown by the bank app when the customer scans the order's QR code
+  pixMerchantName: text("pix_merchant_name").notNull().default("VIBE DRINKS"),
+  pixMerchantCity: text("pix_merchant_city").notNull().default("SAO PAULO"),
+  // Null means the original 14:00-06:00 every day (see DEFAULT_OPENING_HOURS)
+  openingHours: jsonb("opening_hours").$type<OpeningHours>(),
+  // Manual switch; when off the store is closed whatever the hours say
   isOpen: boolean("is_open").default(true),
+  whatsapp: text("whatsapp"),
+  // Scheduled orders: slot length, orders per slot, and how long before the slot the kitchen sees them
+  scheduleSlotMinutes: integer("schedule_slot_minutes").notNull().default(30),
+  scheduleSlotCapacity: integer("schedule_slot_capacity").notNull().default(5),
+  scheduleLeadMinutes: integer("schedule_lead_minutes").notNull().default(60),
+  // Kitchen waits for PIX orders to be confirmed paid before starting them
+  holdUnpaidPrepaidOrders: boolean("hold_unpaid_prepaid_orders").notNull().default(false),
+  // When the startup check derived the category alcohol flags; from then on only the panel changes them
+  alcoholFlagsReviewedAt: timestamp("alcohol_flags_reviewed_at"),
 });
 
 export const deliveryZones = pgTable("delivery_zones", {
@@ -144,6 +356,8 @@ export const deliveryZones = pgTable("delivery_zones", {
   fee: decimal("fee", { precision: 10, scale: 2 }).notNull(),
   sortOrder: integer("sort_order").default(0),
   isActive: boolean("is_active").default(true),
+  // Addresses whose neighborhood matches nothing fall into the zone by CEP
+  cepRanges: jsonb("cep_ranges").$type<CepRange[]>().notNull().default([]),
 });
 
 export const neighborhoods = pgTable("neighborhoods", {
@@ -151,6 +365,21 @@ export const neighborhoods = pgTable("neighborhoods", {
   name: text("name").notNull(),
   zoneId: varchar("zone_id", { length: 36 }).notNull().references(() => deliveryZones.id),
   isActive: boolean("is_active").default(true),
+  // Other names customers use ("V. Mariana", "Metro Saude"); matched like the name
+  aliases: jsonb("aliases").$type<string[]>().notNull().default([]),
+});
+
+export const unlistedNeighborhoods = pgTable("unlisted_neighborhoods", {
+  id: varchar("id", { length: 36 }).primaryKey(),
+  name: text("name").notNull(),
+  // Accent- and case-free form; one queue entry per spelling
+  normalizedName: text("normalized_name").notNull().unique(),
+  zipCode: text("zip_code"),
+  occurrences: integer("occurrences").notNull().default(1),
+  status: text("status").$type<UnlistedNeighborhoodStatus>().notNull().default("pending"),
+  firstSeenAt: timestamp("first_seen_at").defaultNow(),
+  lastSeenAt: timestamp("last_seen_at").defaultNow(),
+  resolvedAt: timestamp("resolved_at"),
 });
 
 export const trendingProducts = pgTable("trending_products", {
@@ -160,6 +389,38 @@ export const trendingProducts = pgTable("trending_products", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+export const comboTemplates = pgTable("combo_templates", {
+  id: varchar("id", { length: 36 }).primaryKey(),
+  name: text("name").notNull(),
+  description: text("description"),
+  slots: jsonb("slots").$type<ComboSlot[]>().notNull().default([]),
+  discountType: text("discount_type").$type<ComboDiscountType>().notNull().default("percent"),
+  discountValue: decimal("discount_value", { precision: 10, scale: 2 }).notNull().default("0"),
+  // Empty means every day, all day; startsAt/endsAt bound the whole campaign
+  activePeriods: jsonb("active_periods").$type<ComboActivePeriod[]>().notNull().default([]),
+  startsAt: timestamp("starts_at"),
+  endsAt: timestamp("ends_at"),
+  isActive: boolean("is_active").notNull().default(true),
+  sortOrder: integer("sort_order").default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Choices for prepared drinks (fruit, spirit upgrade, sweetener...), attached to whole
+// categories and/or hand-picked products
+export const modifierGroups = pgTable("modifier_groups", {
+  id: varchar("id", { length: 36 }).primaryKey(),
+  name: text("name").notNull(),
+  categoryIds: jsonb("category_ids").$type<string[]>().notNull().default([]),
+  productIds: jsonb("product_ids").$type<string[]>().notNull().default([]),
+  isRequired: boolean("is_required").notNull().default(false),
+  // 1 is a single choice; more lets the customer tick several options
+  maxSelections: integer("max_selections").notNull().default(1),
+  options: jsonb("options").$type<ModifierOption[]>().notNull().default([]),
+  isActive: boolean("is_active").notNull().default(true),
+  sortOrder: integer("sort_order").default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 export const passwordResetRequests = pgTable("password_reset_requests", {
   id: varchar("id", { length: 36 }).primaryKey(),
   userId: varchar("user_id", { length: 36 }).notNull().references(() => users.id),
@@ -171,14 +432,45 @@ export const passwordResetRequests = pgTable("password_reset_requests", {
   completedBy: varchar("completed_by", { length: 36 }),
 });
 
+export const verificationCodes = pgTable("verification_codes", {
+  id: varchar("id", { length: 36 }).primaryKey(),
+  whatsapp: text("whatsapp").notNull(),
+  purpose: text("purpose").notNull(),
+  codeHash: text("code_hash").notNull(),
+  attempts: integer("attempts").notNull().default(0),
+  expiresAt: timestamp("expires_at").notNull(),
+  consumedAt: timestamp("consumed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("verification_codes_whatsapp_idx").on(table.whatsapp, table.purpose),
+]);
+
+export const PREPARATION_INGREDIENT_SOURCES = ["recipe", "manual"] as const;
+export type PreparationIngredientSource = typeof PREPARATION_INGREDIENT_SOURCES[number];
+
 export const preparationIngredients = pgTable("preparation_ingredients", {
   id: varchar("id", { length: 36 }).primaryKey(),
   orderItemId: varchar("order_item_id", { length: 36 }).notNull().references(() => orderItems.id, { onDelete: "cascade" }),
   ingredientProductId: varchar("ingredient_product_id", { length: 36 }).notNull().references(() => products.id),
   quantity: integer("quantity").notNull().default(1),
+  // "recipe" rows come from the product's recipe; the kitchen adds "manual" ones
+  source: text("source").$type<PreparationIngredientSource>().notNull().default("manual"),
+  // False when the ingredient does not track stock or the kitchen chose not to deduct it
+  stockDeducted: boolean("stock_deducted").notNull().default(true),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Bill of materials of a prepared product, per unit sold: 1 caipirinha = 1 dose + 1 limao + gelo
+export const recipeIngredients = pgTable("recipe_ingredients", {
+  id: varchar("id", { length: 36 }).primaryKey(),
+  productId: varchar("product_id", { length: 36 }).notNull().references(() => products.id, { onDelete: "cascade" }),
+  ingredientProductId: varchar("ingredient_product_id", { length: 36 }).notNull().references(() => products.id),
+  quantity: integer("quantity").notNull().default(1),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("recipe_ingredients_product_idx").on(table.productId),
+]);
+
 export const shoppingLists = pgTable("shopping_lists", {
   id: varchar("id", { length: 36 }).primaryKey(),
   status: text("status").notNull().default("active"),
@@ -195,6 +487,7 @@ export const shoppingListItems = pgTable("shopping_list_items", {
   id: varchar("id", { length: 36 }).primaryKey(),
   listId: varchar("list_id", { length: 36 }).notNull().references(() => shoppingLists.id, { onDelete: "cascade" }),
   productId: varchar("product_id", { length: 36 }).notNull().references(() => products.id),
+  variantId: varchar("variant_id", { length: 36 }).references(() => productVariants.id, { onDelete: "set null" }),
   productName: text("product_name").notNull(),
   categoryName: text("category_name").notNull(),
   suggestedQuantity: integer("suggested_quantity").notNull(),
@@ -205,23 +498,185 @@ export const shoppingListItems = pgTable("shopping_list_items", {
   purchasedAt: timestamp("purchased_at"),
 });
 
+export const loginLockEvents = pgTable("login_lock_events", {
+  id: varchar("id", { length: 36 }).primaryKey(),
+  scope: text("scope").notNull(),
+  identifier: text("identifier").notNull(),
+  ipAddress: text("ip_address"),
+  route: text("route"),
+  failedAttempts: integer("failed_attempts").notNull(),
+  lockedUntil: timestamp("locked_until").notNull(),
+  unlockedAt: timestamp("unlocked_at"),
+  unlockedBy: varchar("unlocked_by", { length: 36 }),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const auditEvents = pgTable("audit_events", {
+  id: varchar("id", { length: 36 }).primaryKey(),
+  actorId: varchar("actor_id", { length: 36 }),
+  actorName: text("actor_name"),
+  actorRole: text("actor_role"),
+  action: text("action").notNull(),
+  entityType: text("entity_type").notNull(),
+  entityId: varchar("entity_id", { length: 36 }),
+  before: jsonb("before").$type<Record<string, unknown>>(),
+  after: jsonb("after").$type<Record<string, unknown>>(),
+  ipAddress: text("ip_address"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("audit_events_entity_idx").on(table.entityType, table.entityId),
+  index("audit_events_created_at_idx").on(table.createdAt),
+]);
+
+export const coupons = pgTable("coupons", {
+  id: varchar("id", { length: 36 }).primaryKey(),
+  // Stored upper-case; customers may type it in any case
+  code: text("code").notNull().unique(),
+  description: text("description"),
+  type: text("type").$type<CouponType>().notNull(),
+  // Percent for "percent", reais for "fixed"; ignored for "free_delivery"
+  value: decimal("value", { precision: 10, scale: 2 }).notNull().default("0"),
+  minSubtotal: decimal("min_subtotal", { precision: 10, scale: 2 }),
+  // When both are empty the coupon applies to the whole order
+  categoryIds: jsonb("category_ids").$type<string[]>().notNull().default([]),
+  productIds: jsonb("product_ids").$type<string[]>().notNull().default([]),
+  maxUses: integer("max_uses"),
+  maxUsesPerCustomer: integer("max_uses_per_customer"),
+  firstOrderOnly: boolean("first_order_only").notNull().default(false),
+  startsAt: timestamp("starts_at"),
+  endsAt: timestamp("ends_at"),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const couponRedemptions = pgTable("coupon_redemptions", {
+  id: varchar("id", { length: 36 }).primaryKey(),
+  couponId: varchar("coupon_id", { length: 36 }).notNull().references(() => coupons.id),
+  orderId: varchar("order_id", { length: 36 }).notNull().references(() => orders.id),
+  userId: varchar("user_id", { length: 36 }).references(() => users.id),
+  discount: decimal("discount", { precision: 10, scale: 2 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("coupon_redemptions_coupon_idx").on(table.couponId, table.userId),
+  index("coupon_redemptions_order_idx").on(table.orderId),
+]);
+
+// Every payment, refund or failed attempt on an order, from staff or a gateway webhook
+export const payments = pgTable("payments", {
+  id: varchar("id", { length: 36 }).primaryKey(),
+  orderId: varchar("order_id", { length: 36 }).notNull().references(() => orders.id),
+  kind: text("kind").$type<PaymentEntryKind>().notNull(),
+  method: text("method").notNull(),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  // "manual" when staff recorded it, otherwise the gateway that called the webhook
+  provider: text("provider").notNull().default("manual"),
+  // Gateway's id for the event; a webhook delivered twice is only recorded once
+  providerReference: text("provider_reference"),
+  recordedBy: varchar("recorded_by", { length: 36 }).references(() => users.id),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("payments_order_idx").on(table.orderId),
+  uniqueIndex("payments_provider_reference_idx").on(table.provider, table.providerReference),
+]);
+
+// Items taken off an order after it was placed; the item row keeps only what is still sold
+export const orderItemCancellations = pgTable("order_item_cancellations", {
+  id: varchar("id", { length: 36 }).primaryKey(),
+  orderId: varchar("order_id", { length: 36 }).notNull().references(() => orders.id),
+  // No reference: the item row is deleted when all of it is removed
+  orderItemId: varchar("order_item_id", { length: 36 }).notNull(),
+  productId: varchar("product_id", { length: 36 }).notNull().references(() => products.id),
+  productName: text("product_name").notNull(),
+  quantity: integer("quantity").notNull(),
+  // Item value taken off the subtotal, before the order discount is rescaled
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  reason: text("reason").notNull(),
+  recordedBy: varchar("recorded_by", { length: 36 }).references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [index("order_item_cancellations_order_idx").on(table.orderId)]);
+
+// A PDV operator's till, from the opening float to the closing count
+export const cashSessions = pgTable("cash_sessions", {
+  id: varchar("id", { length: 36 }).primaryKey(),
+  operatorId: varchar("operator_id", { length: 36 }).notNull().references(() => users.id),
+  status: text("status").$type<CashSessionStatus>().notNull().default("open"),
+  openingFloat: decimal("opening_float", { precision: 10, scale: 2 }).notNull(),
+  openedAt: timestamp("opened_at").defaultNow(),
+  closedAt: timestamp("closed_at"),
+  closedBy: varchar("closed_by", { length: 36 }).references(() => users.id),
+  // Frozen at closing, so a later refund on one of its orders doesn't rewrite the variance
+  expectedCash: decimal("expected_cash", { precision: 10, scale: 2 }),
+  countedCash: decimal("counted_cash", { precision: 10, scale: 2 }),
+  closingNotes: text("closing_notes"),
+}, (table) => [
+  index("cash_sessions_opened_at_idx").on(table.openedAt),
+  uniqueIndex("cash_sessions_one_open_idx").on(table.operatorId).where(sql`status = 'open'`),
+]);
+
+export const cashMovements = pgTable("cash_movements", {
+  id: varchar("id", { length: 36 }).primaryKey(),
+  sessionId: varchar("session_id", { length: 36 }).notNull().references(() => cashSessions.id),
+  kind: text("kind").$type<CashMovementKind>().notNull(),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  reason: text("reason").notNull(),
+  recordedBy: varchar("recorded_by", { length: 36 }).references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [index("cash_movements_session_idx").on(table.sessionId)]);
+
+// Managed by connect-pg-simple; declared here so drizzle-kit push keeps it
+export const userSessions = pgTable("user_sessions", {
+  sid: varchar("sid").primaryKey(),
+  sess: json("sess").notNull(),
+  expire: timestamp("expire", { precision: 6 }).notNull(),
+}, (table) => [index("IDX_user_sessions_expire").on(table.expire)]);
+
 export const insertUserSchema = createInsertSchema(users).omit({ id: true, createdAt: true });
 export const insertAddressSchema = createInsertSchema(addresses).omit({ id: true });
-export const insertCategorySchema = createInsertSchema(categories).omit({ id: true, createdAt: true });
+export const insertCategorySchema = createInsertSchema(categories, {
+  comboRole: z.enum(COMBO_ROLES).nullish(),
+  showcaseGroup: z.enum(SHOWCASE_GROUPS).nullish(),
+}).omit({ id: true, createdAt: true });
 export const insertProductSchema = createInsertSchema(products).omit({ id: true, createdAt: true });
-export const insertOrderSchema = createInsertSchema(orders).omit({ id: true, createdAt: true, acceptedAt: true, preparingAt: true, readyAt: true, dispatchedAt: true, arrivedAt: true, deliveredAt: true });
+export const insertProductVariantSchema = createInsertSchema(productVariants).omit({ id: true, createdAt: true });
+export const insertOrderSchema = createInsertSchema(orders).omit({ id: true, createdAt: true, acceptedAt: true, preparingAt: true, readyAt: true, dispatchedAt: true, arrivedAt: true, deliveredAt: true, ingredientsDeductedAt: true, idCheckRefusalReason: true, salesperson: true, pixTxid: true, paymentStatus: true, paidAt: true, refundedAt: true, paymentFailedAt: true });
 export const insertOrderItemSchema = createInsertSchema(orderItems).omit({ id: true });
 export const insertBannerSchema = createInsertSchema(banners).omit({ id: true, createdAt: true });
 export const insertMotoboySchema = createInsertSchema(motoboys).omit({ id: true, createdAt: true });
 export const insertStockLogSchema = createInsertSchema(stockLogs).omit({ id: true, createdAt: true });
-export const insertSettingsSchema = createInsertSchema(settings).omit({ id: true });
+export const insertSettingsSchema = createInsertSchema(settings).omit({ id: true, alcoholFlagsReviewedAt: true });
 export const insertDeliveryZoneSchema = createInsertSchema(deliveryZones).omit({ id: true });
 export const insertNeighborhoodSchema = createInsertSchema(neighborhoods).omit({ id: true });
+export const insertUnlistedNeighborhoodSchema = createInsertSchema(unlistedNeighborhoods, {
+  status: z.enum(UNLISTED_NEIGHBORHOOD_STATUSES),
+}).omit({ id: true, firstSeenAt: true, lastSeenAt: true, resolvedAt: true });
 export const insertTrendingProductSchema = createInsertSchema(trendingProducts).omit({ id: true, createdAt: true });
+export const insertCouponSchema = createInsertSchema(coupons, {
+  type: z.enum(COUPON_TYPES),
+}).omit({ id: true, createdAt: true });
+export const insertCouponRedemptionSchema = createInsertSchema(couponRedemptions).omit({ id: true, createdAt: true });
+export const insertPaymentSchema = createInsertSchema(payments, {
+  kind: z.enum(PAYMENT_ENTRY_KINDS),
+}).omit({ id: true, createdAt: true });
+export const insertOrderItemCancellationSchema = createInsertSchema(orderItemCancellations).omit({ id: true, createdAt: true });
+export const insertCashSessionSchema = createInsertSchema(cashSessions).omit({ id: true, status: true, openedAt: true, closedAt: true, closedBy: true, expectedCash: true, countedCash: true, closingNotes: true });
+export const insertCashMovementSchema = createInsertSchema(cashMovements, {
+  kind: z.enum(CASH_MOVEMENT_KINDS),
+}).omit({ id: true, createdAt: true });
+export const insertComboTemplateSchema = createInsertSchema(comboTemplates, {
+  discountType: z.enum(COMBO_DISCOUNT_TYPES),
+}).omit({ id: true, createdAt: true });
+export const insertModifierGroupSchema = createInsertSchema(modifierGroups).omit({ id: true, createdAt: true });
 export const insertPasswordResetRequestSchema = createInsertSchema(passwordResetRequests).omit({ id: true, createdAt: true, completedAt: true, completedBy: true });
+export const insertVerificationCodeSchema = createInsertSchema(verificationCodes).omit({ id: true, createdAt: true, attempts: true, consumedAt: true });
 export const insertShoppingListSchema = createInsertSchema(shoppingLists).omit({ id: true, createdAt: true, completedAt: true });
 export const insertShoppingListItemSchema = createInsertSchema(shoppingListItems).omit({ id: true, purchasedAt: true });
-export const insertPreparationIngredientSchema = createInsertSchema(preparationIngredients).omit({ id: true, createdAt: true });
+export const insertPreparationIngredientSchema = createInsertSchema(preparationIngredients, {
+  source: z.enum(PREPARATION_INGREDIENT_SOURCES),
+}).omit({ id: true, createdAt: true });
+export const insertRecipeIngredientSchema = createInsertSchema(recipeIngredients).omit({ id: true, createdAt: true });
+export const insertAuditEventSchema = createInsertSchema(auditEvents).omit({ id: true, createdAt: true });
+export const insertLoginLockEventSchema = createInsertSchema(loginLockEvents).omit({ id: true, createdAt: true, unlockedAt: true, unlockedBy: true });
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
@@ -231,6 +686,8 @@ export type InsertCategory = z.infer<typeof insertCategorySchema>;
 export type Category = typeof categories.$inferSelect;
 export type InsertProduct = z.infer<typeof insertProductSchema>;
 export type Product = typeof products.$inferSelect;
+export type InsertProductVariant = z.infer<typeof insertProductVariantSchema>;
+export type ProductVariant = typeof productVariants.$inferSelect;
 export type InsertOrder = z.infer<typeof insertOrderSchema>;
 export type Order = typeof orders.$inferSelect;
 export type InsertOrderItem = z.infer<typeof insertOrderItemSchema>;
@@ -247,41 +704,274 @@ export type InsertDeliveryZone = z.infer<typeof insertDeliveryZoneSchema>;
 export type DeliveryZone = typeof deliveryZones.$inferSelect;
 export type InsertNeighborhood = z.infer<typeof insertNeighborhoodSchema>;
 export type Neighborhood = typeof neighborhoods.$inferSelect;
+export type InsertUnlistedNeighborhood = z.infer<typeof insertUnlistedNeighborhoodSchema>;
+export type UnlistedNeighborhood = typeof unlistedNeighborhoods.$inferSelect;
 export type InsertTrendingProduct = z.infer<typeof insertTrendingProductSchema>;
 export type TrendingProduct = typeof trendingProducts.$inferSelect;
 export type InsertPasswordResetRequest = z.infer<typeof insertPasswordResetRequestSchema>;
 export type PasswordResetRequest = typeof passwordResetRequests.$inferSelect;
+export type InsertVerificationCode = z.infer<typeof insertVerificationCodeSchema>;
+export type VerificationCode = typeof verificationCodes.$inferSelect;
 export type InsertShoppingList = z.infer<typeof insertShoppingListSchema>;
 export type ShoppingList = typeof shoppingLists.$inferSelect;
 export type InsertShoppingListItem = z.infer<typeof insertShoppingListItemSchema>;
 export type ShoppingListItem = typeof shoppingListItems.$inferSelect;
 export type InsertPreparationIngredient = z.infer<typeof insertPreparationIngredientSchema>;
 export type PreparationIngredient = typeof preparationIngredients.$inferSelect;
+export type InsertRecipeIngredient = z.infer<typeof insertRecipeIngredientSchema>;
+export type RecipeIngredient = typeof recipeIngredients.$inferSelect;
+export type InsertLoginLockEvent = z.infer<typeof insertLoginLockEventSchema>;
+export type LoginLockEvent = typeof loginLockEvents.$inferSelect;
+export type InsertAuditEvent = z.infer<typeof insertAuditEventSchema>;
+export type AuditEvent = typeof auditEvents.$inferSelect;
+export type InsertCoupon = z.infer<typeof insertCouponSchema>;
+export type Coupon = typeof coupons.$inferSelect;
+export type InsertCouponRedemption = z.infer<typeof insertCouponRedemptionSchema>;
+export type CouponRedemption = typeof couponRedemptions.$inferSelect;
+export type InsertPayment = z.infer<typeof insertPaymentSchema>;
+export type Payment = typeof payments.$inferSelect;
+export type InsertOrderItemCancellation = z.infer<typeof insertOrderItemCancellationSchema>;
+export type OrderItemCancellation = typeof orderItemCancellations.$inferSelect;
+export type InsertCashSession = z.infer<typeof insertCashSessionSchema>;
+export type CashSession = typeof cashSessions.$inferSelect;
+export type InsertCashMovement = z.infer<typeof insertCashMovementSchema>;
+export type CashMovement = typeof cashMovements.$inferSelect;
+export type InsertComboTemplate = z.infer<typeof insertComboTemplateSchema>;
+export type ComboTemplate = typeof comboTemplates.$inferSelect;
+export type InsertModifierGroup = z.infer<typeof insertModifierGroupSchema>;
+export type ModifierGroup = typeof modifierGroups.$inferSelect;
+
+export type VerificationPurpose = "register" | "password_reset";
+
+export type UserRole = "customer" | "admin" | "kitchen" | "motoboy" | "pdv";
+
+export const STAFF_ROLES: UserRole[] = ["admin", "kitchen", "motoboy", "pdv"];
+
+export const STAFF_ROLE_LABELS: Record<string, string> = {
+  admin: "Admin",
+  kitchen: "Cozinha",
+  motoboy: "Motoboy",
+  pdv: "Balcao",
+};
+
+export type SafeUser = Omit<User, "password">;
+
+export type PermissionScope = "finance:read" | "stock:write" | "orders:cancel" | "settings:write" | "staff:manage";
+
+export const PERMISSION_SCOPES: PermissionScope[] = ["finance:read", "stock:write", "orders:cancel", "settings:write", "staff:manage"];
+
+export const PERMISSION_LABELS: Record<PermissionScope, string> = {
+  "finance:read": "Ver financeiro",
+  "stock:write": "Alterar estoque",
+  "orders:cancel": "Cancelar pedidos",
+  "settings:write": "Alterar configuracoes",
+  "staff:manage": "Gerenciar permissoes",
+};
+
+// Scopes only apply to staff sessions; a customer session never carries them
+export function hasPermission(
+  user: { role: string; permissions?: PermissionScope[] | null } | null | undefined,
+  scope: PermissionScope,
+): boolean {
+  if (!user || !(STAFF_ROLES as string[]).includes(user.role)) return false;
+  return (user.permissions ?? []).includes(scope);
+}
+
+// Whoever hands the order over may refuse it for lack of an ID: the motoboy at the door (routes
+// limit them to their own deliveries) or the operator at the counter. Anyone else needs the cancel scope.
+export function canRefuseHandOver(
+  user: { role: string; permissions?: PermissionScope[] | null } | null | undefined,
+  order: { orderType: string },
+): boolean {
+  if (!user) return false;
+  if (user.role === "motoboy") return true;
+  if (user.role === "pdv" && order.orderType === "counter") return true;
+  return hasPermission(user, "orders:cancel");
+}
 
 export type CartItem = {
   productId: string;
   product: Product;
+  variantId?: string;
+  variant?: ProductVariant;
+  modifiers?: OrderItemModifier[];
   quantity: number;
   isComboItem?: boolean;
   comboId?: string;
+  comboSlotId?: string;
 };
 
-export type ComboGelo = {
+export type ComboSelection = {
+  slotId: string;
   product: Product;
   quantity: number;
 };
 
+// A combo in the cart; `id` identifies this instance, `templateId` what it was built from
 export type ComboData = {
   id: string;
-  destilado: Product;
-  energetico: Product;
-  energeticoQuantity: number;
-  gelos: ComboGelo[];
-  discountPercent: number;
+  templateId: string;
+  name: string;
+  selections: ComboSelection[];
   originalTotal: number;
   discountedTotal: number;
 };
 
+export type OrderPricingItem = {
+  productId: string;
+  productName: string;
+  variantId?: string;
+  variantName?: string;
+  modifiers: OrderItemModifier[];
+  quantity: number;
+  // Modifier price deltas included
+  unitPrice: number;
+  totalPrice: number;
+  comboId?: string;
+  comboTemplateId?: string;
+  comboSlotId?: string;
+};
+
+// Returned with a 409 when an order asks for more than is on the shelf
+export type StockShortage = {
+  productId: string;
+  variantId?: string;
+  productName: string;
+  requested: number;
+  available: number;
+};
+
+// Server-computed breakdown returned with every new order
+export type OrderPricing = {
+  items: OrderPricingItem[];
+  subtotal: number;
+  comboDiscount: number;
+  // Everything taken off the order: combos, manual counter discount and coupon
+  discount: number;
+  deliveryFee: number;
+  // Km from the store when the fee was priced by distance
+  deliveryDistance: number | null;
+  // The customer's neighborhood when no zone listed it, for the admin review queue
+  unlistedNeighborhood: string | null;
+  couponDiscount: number;
+  coupon: { id: string; code: string } | null;
+  total: number;
+  adjusted: boolean;
+};
+
+// Delivery fee for an address before ordering; `fallback` is the flat fee for unlisted neighborhoods
+export type DeliveryQuote = {
+  fee: number;
+  distanceKm: number | null;
+  source: "zone" | "distance" | "counter";
+  zoneName: string | null;
+  unlistedNeighborhood: string | null;
+};
+
+// "Copia e cola" BR Code for one order, with its exact total
+export type PixCharge = {
+  orderId: string;
+  txid: string;
+  amount: number;
+  payload: string;
+};
+
+// Admin view of a coupon with how much it has been used (cancelled orders excluded)
+export type CouponWithStats = Coupon & {
+  uses: number;
+  customers: number;
+  totalDiscount: number;
+  lastUsedAt: string | null;
+};
+
+export type CashSessionTotals = {
+  openingFloat: number;
+  // Notes handed over by customers, and the part of them given back as change
+  cashReceived: number;
+  changeGiven: number;
+  cashRefunds: number;
+  topUps: number;
+  withdrawals: number;
+  expectedCash: number;
+  countedCash: number | null;
+  variance: number | null;
+  ordersCount: number;
+  salesTotal: number;
+  // Net amount per payment method of the session's sales
+  tenders: Record<string, number>;
+};
+
+// A till with everything that went through it: the closing report
+export type CashSessionReport = {
+  session: CashSession;
+  operatorName: string | null;
+  movements: CashMovement[];
+  orders: Order[];
+  totals: CashSessionTotals;
+};
+
+export type AuditAction =
+  | "order.status_changed"
+  | "order.motoboy_assigned"
+  | "order.delivery_fee_changed"
+  | "order.deleted"
+  | "order.id_check_refused"
+  | "order.payment_recorded"
+  | "order.payment_refunded"
+  | "order.items_cancelled"
+  | "cash_session.opened"
+  | "cash_session.movement_recorded"
+  | "cash_session.closed"
+  | "user.blocked"
+  | "user.unblocked"
+  | "user.permissions_changed"
+  | "staff.created"
+  | "staff.updated"
+  | "staff.deactivated"
+  | "staff.reactivated"
+  | "staff.password_reset"
+  | "product.price_changed"
+  | "settings.updated"
+  | "login_lock.unlocked"
+  | "password_reset.completed";
+
+export type AuditEntityType = "order" | "user" | "product" | "settings" | "login_lock" | "cash_session";
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  "order.status_changed": "Status do pedido alterado",
+  "order.motoboy_assigned": "Motoboy atribuido",
+  "order.delivery_fee_changed": "Taxa de entrega alterada",
+  "order.deleted": "Pedido excluido",
+  "order.id_check_refused": "Entrega recusada (idade)",
+  "order.payment_recorded": "Pagamento registrado",
+  "order.payment_refunded": "Pagamento estornado",
+  "order.items_cancelled": "Itens removidos do pedido",
+  "cash_session.opened": "Caixa aberto",
+  "cash_session.movement_recorded": "Sangria/suprimento",
+  "cash_session.closed": "Caixa fechado",
+  "user.blocked": "Usuario bloqueado",
+  "user.unblocked": "Usuario desbloqueado",
+  "user.permissions_changed": "Permissoes alteradas",
+  "staff.created": "Funcionario criado",
+  "staff.updated": "Funcionario alterado",
+  "staff.deactivated": "Funcionario desativado",
+  "staff.reactivated": "Funcionario reativado",
+  "staff.password_reset": "Senha de funcionario redefinida",
+  "product.price_changed": "Preco de produto alterado",
+  "settings.updated": "Configuracoes alteradas",
+  "login_lock.unlocked": "Login desbloqueado",
+  "password_reset.completed": "Senha redefinida pelo admin",
+};
+
+export const AUDIT_ENTITY_LABELS: Record<AuditEntityType, string> = {
+  order: "Pedido",
+  user: "Usuario",
+  product: "Produto",
+  settings: "Configuracoes",
+  login_lock: "Bloqueio de login",
+  cash_session: "Caixa",
+};
+
 export type OrderStatus = "pending" | "accepted" | "preparing" | "ready" | "dispatched" | "arrived" | "delivered" | "cancelled";
 
 export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
@@ -295,7 +985,8 @@ export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
   cancelled: "Cancelado",
 };
 
-export type PaymentMethod = "cash" | "pix" | "card_pos" | "card_credit" | "card_debit";
+// "split" marks a counter sale paid with several tenders; the payments ledger has the breakdown
+export type PaymentMethod = "cash" | "pix" | "card_pos" | "card_credit" | "card_debit" | "split";
 
 export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
   cash: "Dinheiro",
@@ -303,6 +994,20 @@ export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
   card_pos: "Cartao (POS)",
   card_credit: "Credito",
   card_debit: "Debito",
+  split: "Dividido",
+};
+
+// What a single payment line at the counter can be
+export const TENDER_METHODS = ["cash", "pix", "card_pos", "card_credit", "card_debit"] as const;
+
+// Settled before the order leaves the store, so the kitchen may wait for the confirmation
+export const PREPAID_PAYMENT_METHODS: PaymentMethod[] = ["pix"];
+
+export const PAYMENT_STATUS_LABELS: Record<PaymentStatus, string> = {
+  pending: "Aguardando pagamento",
+  paid: "Pago",
+  refunded: "Estornado",
+  failed: "Pagamento falhou",
 };
 
 export type OrderType = "delivery" | "counter";
@@ -312,31 +1017,17 @@ export const ORDER_TYPE_LABELS: Record<OrderType, string> = {
   counter: "Balcao",
 };
 
-export type Salesperson = "balconista_1" | "balconista_2" | "balconista_3" | "balconista_4";
-
-export const SALESPERSON_LABELS: Record<Salesperson, string> = {
-  balconista_1: "Balconista 1",
-  balconista_2: "Balconista 2",
-  balconista_3: "Balconista 3",
-  balconista_4: "Balconista 4",
-};
-
-export const PREPARED_CATEGORIES = [
-  "CAIPIRINHAS",
-  "DOSES",
-  "BATIDAS",
-  "COPAO",
-  "DRINKS ESPECIAIS",
-  "CAIPI ICES",
-  "DRINKS",
-  "COPOS",
-];
-
-export function isPreparedCategoryName(categoryName: string): boolean {
-  const normalizedName = categoryName.toUpperCase().trim();
-  return PREPARED_CATEGORIES.some(cat => 
-    normalizedName === cat || 
-    normalizedName.includes(cat) || 
-    cat.includes(normalizedName)
-  );
+type CategoryFlags = Pick<Category, "isPrepared" | "tracksStock">;
+
+export function isPreparedProduct(product: Pick<Product, "isPrepared">, category?: CategoryFlags | null): boolean {
+  return product.isPrepared === true || category?.isPrepared === true;
+}
+
+export function categoryTracksStock(category: CategoryFlags): boolean {
+  return !category.isPrepared && category.tracksStock !== false;
+}
+
+// Whether selling/cancelling moves stock and the product belongs in stock reports and shopping lists
+export function tracksProductStock(product: Pick<Product, "isPrepared">, category?: CategoryFlags | null): boolean {
+  return product.isPrepared !== true && (!category || categoryTracksStock(category));
 }
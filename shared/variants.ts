@@ -0,0 +1,31 @@
+import type { Product, ProductVariant } from "./schema";
+
+type Sellable = { product: Pick<Product, "name" | "salePrice" | "costPrice" | "stock">; variant?: Pick<ProductVariant, "name" | "salePrice" | "costPrice" | "stock"> | null };
+
+export function variantDisplayName(product: Pick<Product, "name">, variant?: Pick<ProductVariant, "name"> | null): string {
+  return variant ? `${product.name} - ${variant.name}` : product.name;
+}
+
+// Price, cost and stock come from the variant when one was chosen
+export function sellableUnitPrice({ product, variant }: Sellable): number {
+  return Number(variant?.salePrice ?? product.salePrice);
+}
+
+export function sellableCostPrice({ product, variant }: Sellable): number {
+  return Number(variant?.costPrice ?? product.costPrice);
+}
+
+export function sellableStock({ product, variant }: Sellable): number {
+  return variant ? variant.stock : product.stock;
+}
+
+// Active variants per product, in the order the admin arranged them
+export function groupVariantsByProduct(variants: ProductVariant[]): Map<string, ProductVariant[]> {
+  const byProduct = new Map<string, ProductVariant[]>();
+  for (const variant of variants) {
+    if (!variant.isActive) continue;
+    byProduct.set(variant.productId, [...(byProduct.get(variant.productId) ?? []), variant]);
+  }
+  byProduct.forEach(list => list.sort((a, b) => a.sortOrder - b.sortOrder || a.name.localeCompare(b.name)));
+  return byProduct;
+}